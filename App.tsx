@@ -1,6 +1,9 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import type { AnalysisReport, ChartData } from './types';
-import { getTechnicalAnalysis, fetchLivePrice } from './services/geminiService';
+import type { AnalysisOptions, AnalysisReport, ChartData, DataQualityReport, DataSourceRecord, PriceFormat, UploadedDataset } from './types';
+import { getTechnicalAnalysis } from './services/geminiService';
+import { subscribeToQuotes, type QuoteFeedMode } from './services/quoteStream';
+import { getMarketStatus, type MarketStatus } from './services/exchangeCalendar';
+import { GENERIC_PRICE_FORMAT } from './services/priceFormat';
 import { Header } from './components/Header';
 import { InputForm } from './components/InputForm';
 import { AnalysisDisplay } from './components/AnalysisDisplay';
@@ -11,62 +14,63 @@ import { Intro } from './components/Intro';
 const App: React.FC = () => {
   const [analysisReport, setAnalysisReport] = useState<AnalysisReport | null>(null);
   const [chartData, setChartData] = useState<ChartData | null>(null);
+  const [dataQuality, setDataQuality] = useState<DataQualityReport | null>(null);
+  const [priceFormat, setPriceFormat] = useState<PriceFormat>(GENERIC_PRICE_FORMAT);
+  const [dataSources, setDataSources] = useState<DataSourceRecord[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [livePrice, setLivePrice] = useState<string | null>(null);
-  const [isPollingHalted, setIsPollingHalted] = useState<boolean>(false);
-  const priceUpdateInterval = useRef<number | null>(null);
-  const pollingFailureCount = useRef<number>(0);
+  const [quoteFeed, setQuoteFeed] = useState<QuoteFeedMode | null>(null);
+  const [marketStatus, setMarketStatus] = useState<MarketStatus | null>(null);
+  const unsubscribeQuotes = useRef<(() => void) | null>(null);
+  const marketStatusInterval = useRef<number | null>(null);
 
-  const stopPolling = useCallback((halted: boolean = false) => {
-    if (priceUpdateInterval.current) {
-      clearInterval(priceUpdateInterval.current);
-      priceUpdateInterval.current = null;
-      pollingFailureCount.current = 0;
-      if (halted) {
-        setIsPollingHalted(true);
-      }
+  const stopLiveUpdates = useCallback(() => {
+    unsubscribeQuotes.current?.();
+    unsubscribeQuotes.current = null;
+    if (marketStatusInterval.current) {
+      clearInterval(marketStatusInterval.current);
+      marketStatusInterval.current = null;
     }
   }, []);
 
-  // Effect to clear interval on component unmount
+  // Effect to stop live updates on component unmount
   useEffect(() => {
-    return () => stopPolling();
-  }, [stopPolling]);
+    return () => stopLiveUpdates();
+  }, [stopLiveUpdates]);
 
-  const handleAnalysisRequest = useCallback(async (symbol: string, image: { mimeType: string; data: string } | null, timeframe: string) => {
+  const handleAnalysisRequest = useCallback(async (symbol: string, image: { mimeType: string; data: string } | null, timeframe: string, uploadedData: UploadedDataset | null, options: AnalysisOptions) => {
     setIsLoading(true);
     setError(null);
     setAnalysisReport(null);
     setChartData(null);
+    setDataQuality(null);
     setLivePrice(null);
-    setIsPollingHalted(false); // Reset halted state on new request
-    stopPolling(); // Clear any existing interval
+    setMarketStatus(null);
+    setQuoteFeed(null);
+    stopLiveUpdates(); // Stop updates for the previous asset
 
     try {
-      const { report, chartData: newChartData } = await getTechnicalAnalysis(symbol, image, timeframe);
+      const { report, chartData: newChartData, dataQuality: newDataQuality, priceFormat: newPriceFormat, dataSources: newDataSources } = await getTechnicalAnalysis(symbol, image, timeframe, uploadedData, options);
       setAnalysisReport(report);
       setChartData(newChartData);
+      setDataQuality(newDataQuality);
+      setPriceFormat(newPriceFormat);
+      setDataSources(newDataSources);
 
-      // Use the dedicated symbol from the report for reliable polling.
-      const assetSymbol = report.summaryTable?.symbol;
+      // Use the dedicated symbol from the report for reliable live updates.
+      // Uploaded datasets have no live feed, so updates are skipped for them.
+      const assetSymbol = uploadedData ? null : report.summaryTable?.symbol;
 
       if (assetSymbol) {
-        // Start live polling for the new asset
-        priceUpdateInterval.current = window.setInterval(async () => {
-          const newPrice = await fetchLivePrice(assetSymbol);
-          if (newPrice) {
-            setLivePrice(newPrice);
-            pollingFailureCount.current = 0; // Reset counter on success
-          } else {
-            pollingFailureCount.current += 1; // Increment counter on failure
-            // If polling fails 5 consecutive times, stop to prevent spamming the network.
-            if (pollingFailureCount.current >= 5) {
-              console.warn(`Live price polling failed 5 times for ${assetSymbol}. Stopping updates.`);
-              stopPolling(true); // Pass true to indicate it was halted due to errors
-            }
-          }
-        }, 5000); // Poll every 5 seconds
+        setMarketStatus(getMarketStatus(assetSymbol));
+        marketStatusInterval.current = window.setInterval(() => setMarketStatus(getMarketStatus(assetSymbol)), 15000);
+
+        // Streams quotes when a WebSocket feed is available and polls otherwise.
+        unsubscribeQuotes.current = subscribeToQuotes(assetSymbol, {
+          onPrice: setLivePrice,
+          onModeChange: setQuoteFeed,
+        });
       }
 
     } catch (err) {
@@ -75,7 +79,7 @@ const App: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [stopPolling]);
+  }, [stopLiveUpdates]);
 
   return (
     <div className="min-h-screen bg-gray-900 font-sans text-gray-300">
@@ -86,7 +90,7 @@ const App: React.FC = () => {
         <div className="mt-8">
           {isLoading && <Loader />}
           {error && <ErrorMessage message={error} />}
-          {analysisReport && <AnalysisDisplay report={analysisReport} chartData={chartData} livePrice={livePrice} isPollingHalted={isPollingHalted} />}
+          {analysisReport && <AnalysisDisplay report={analysisReport} chartData={chartData} dataQuality={dataQuality} priceFormat={priceFormat} dataSources={dataSources} livePrice={livePrice} marketStatus={marketStatus} quoteFeed={quoteFeed} isPollingHalted={quoteFeed === 'halted'} />}
           {!isLoading && !error && !analysisReport && <Intro />}
         </div>
       </main>
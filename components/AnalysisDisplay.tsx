@@ -1,7 +1,20 @@
-import React, { useState, useEffect, useRef } from 'react';
-import type { AnalysisReport, SummaryTableData, CriticalLevelsData, Indicator, TradeSetup, ChartData, ChartPatternData, RelativeStrengthData } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import type { AnalysisReport, SummaryTableData, CriticalLevelsData, Indicator, IndicatorId, TradeSetup, ChartData, ChartPatternData, RelativeStrengthData, BenchmarkComparison, MultiTimeframeData, TimeframeKey, DataQualityReport, PriceFormat, DataSourceRecord, SupportResistanceData, LevelCheck, PivotLevels, PatternCheck, DetectedPattern, Divergence, CandlestickSignal, VolumeProfile, FibonacciData, ConfluenceData, ConfluenceCheck, ConfluenceWeights } from '../types';
 import { TrendUpIcon, TrendDownIcon, NeutralIcon, CopyIcon, CheckIcon, WarningIcon, DownloadIcon } from './icons/Icons';
 import { Chart } from './Chart';
+import { RiskCalculator } from './RiskCalculator';
+import { DiagnosticsPanel } from './DiagnosticsPanel';
+import type { MarketStatus } from '../services/exchangeCalendar';
+import type { QuoteFeedMode } from '../services/quoteStream';
+import { formatPrice, formatPriceText } from '../services/priceFormat';
+import { formatReturn } from '../services/relativeStrength';
+import { indicatorKey } from '../services/indicatorMatrix';
+import { barsFromChartData, atr, last } from '../services/indicators';
+import { DEFAULT_INDICATOR_SETTINGS } from '../services/indicatorConfig';
+import { CANDLESTICK_PATTERNS } from '../services/candlestickPatterns';
+import { valueAreaPosition } from '../services/volumeProfile';
+import { fibonacciLabel, fibonacciLevelsWithAnchors, matchFibonacciLevel } from '../services/fibonacci';
+import { scoreConfluence, checkOverallSignal, getConfluenceWeights, saveConfluenceWeights, DEFAULT_CONFLUENCE_WEIGHTS, BUY_THRESHOLD, SELL_THRESHOLD } from '../services/confluence';
 
 // Declare global libraries loaded from CDN
 declare const jspdf: any;
@@ -10,7 +23,12 @@ declare const html2canvas: any;
 interface AnalysisDisplayProps {
   report: AnalysisReport;
   chartData: ChartData | null;
+  dataQuality: DataQualityReport | null;
+  priceFormat: PriceFormat;
+  dataSources: DataSourceRecord[];
   livePrice: string | null;
+  marketStatus: MarketStatus | null;
+  quoteFeed: QuoteFeedMode | null;
   isPollingHalted: boolean;
 }
 
@@ -113,6 +131,38 @@ const PriceDisplay: React.FC<{ price: string; flashClass: string; isHalted: bool
     </div>
   );
   
+const MarketStatusBadge: React.FC<{ status: MarketStatus }> = ({ status }) => {
+    const colors = {
+        open: 'bg-green-500/20 text-green-400 border-green-500/50',
+        pre: 'bg-blue-500/20 text-blue-400 border-blue-500/50',
+        post: 'bg-blue-500/20 text-blue-400 border-blue-500/50',
+        break: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/50',
+        closed: 'bg-gray-700 text-gray-400 border-gray-600',
+        holiday: 'bg-gray-700 text-gray-400 border-gray-600',
+    };
+    const nextOpen = status.nextOpen?.toLocaleString(undefined, { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+    const title = `${status.exchange.name} · ${status.localTime} local time${nextOpen ? ` · Opens ${nextOpen}` : ''}${status.notice ? ` · ${status.notice}` : ''}`;
+
+    return (
+        <span className={`inline-flex items-center px-2 py-0.5 text-xs font-semibold rounded-full border ${colors[status.state]}`} title={title}>
+            <span className={`h-2 w-2 rounded-full mr-1.5 ${status.state === 'open' ? 'bg-green-400 animate-pulse' : 'bg-current'}`}></span>
+            {status.exchange.code} · {status.label}
+            {status.notice && <WarningIcon className="h-3 w-3 ml-1.5 text-yellow-400" />}
+        </span>
+    );
+};
+
+const QuoteFeedBadge: React.FC<{ mode: QuoteFeedMode }> = ({ mode }) => {
+    const config = {
+        streaming: { label: 'Streaming', className: 'text-green-400', title: 'Live prices are pushed over a WebSocket stream.' },
+        connecting: { label: 'Connecting…', className: 'text-yellow-400', title: 'Connecting to the price stream; prices are polled meanwhile.' },
+        polling: { label: 'Polling', className: 'text-gray-400', title: 'Streaming is unavailable; prices are refreshed every few seconds.' },
+        halted: { label: 'Updates stopped', className: 'text-red-400', title: 'Live updates stopped due to connection issues.' },
+    }[mode];
+
+    return <span className={`text-xs font-semibold ${config.className}`} title={config.title}>{config.label}</span>;
+};
+
 const RsiGauge: React.FC<{ value: string }> = ({ value }) => {
     const rsi = parseFloat(value);
     if (isNaN(rsi)) {
@@ -147,7 +197,7 @@ const RsiGauge: React.FC<{ value: string }> = ({ value }) => {
     );
 };
 
-const SummaryTable: React.FC<{ data: SummaryTableData, livePrice: string | null, isPollingHalted: boolean }> = ({ data, livePrice, isPollingHalted }) => {
+const SummaryTable: React.FC<{ data: SummaryTableData, priceFormat: PriceFormat, livePrice: string | null, marketStatus: MarketStatus | null, quoteFeed: QuoteFeedMode | null, isPollingHalted: boolean }> = ({ data, priceFormat, livePrice, marketStatus, quoteFeed, isPollingHalted }) => {
     const signalConfig = {
         BUY: { color: 'text-green-400', icon: <TrendUpIcon className="h-5 w-5"/>, text: 'BUY' },
         SELL: { color: 'text-red-400', icon: <TrendDownIcon className="h-5 w-5"/>, text: 'SELL' },
@@ -155,17 +205,17 @@ const SummaryTable: React.FC<{ data: SummaryTableData, livePrice: string | null,
     };
     const currentSignal = signalConfig[data.overallSignal] || signalConfig.HOLD;
 
-    const displayPrice = livePrice || data.currentPrice;
+    const displayPrice = formatPriceText(livePrice || data.currentPrice, priceFormat);
     const priceFlashClass = usePriceFlash(livePrice);
 
     const summaryItems = [
         { label: "Asset", value: data.asset, isPrice: false },
         { label: "Current Price", value: displayPrice, isPrice: true },
         { label: "Trend", value: data.trend, isPrice: false },
-        { label: "Key Support", value: data.keySupport, isPrice: false },
-        { label: "Key Resistance", value: data.keyResistance, isPrice: false },
+        { label: "Key Support", value: formatPriceText(data.keySupport, priceFormat), isPrice: false },
+        { label: "Key Resistance", value: formatPriceText(data.keyResistance, priceFormat), isPrice: false },
         { label: "Primary Pattern", value: data.primaryPattern, isPrice: false },
-        { label: "RSI (14)", value: data.rsi14, isPrice: false },
+        { label: `RSI (${data.rsiPeriod ?? 14})`, value: data.rsi14, isPrice: false },
         { label: "MACD Signal", value: data.macdSignal, isPrice: false },
         { label: "Conviction", value: data.convictionLevel, isPrice: false },
     ];
@@ -173,7 +223,13 @@ const SummaryTable: React.FC<{ data: SummaryTableData, livePrice: string | null,
     return (
     <div className="grid grid-cols-1 md:grid-cols-12 gap-6">
         <div className="md:col-span-8 bg-gray-800 p-6 rounded-lg border border-gray-700">
-            <h2 className="text-xl font-bold text-blue-400 mb-4">Quick Summary</h2>
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                <h2 className="text-xl font-bold text-blue-400">Quick Summary</h2>
+                <div className="flex items-center gap-3">
+                    {quoteFeed && <QuoteFeedBadge mode={quoteFeed} />}
+                    {marketStatus && <MarketStatusBadge status={marketStatus} />}
+                </div>
+            </div>
             <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 text-sm">
                 {summaryItems.map(item => (
                     <div key={item.label}>
@@ -204,31 +260,69 @@ const SummaryTable: React.FC<{ data: SummaryTableData, livePrice: string | null,
     );
 };
 
-const indicatorExplanations: Record<string, { value: string; interpretation: string }> = {
-    '20-Day SMA': {
-        value: 'The average closing price over the last 20 trading days.',
-        interpretation: 'A short-term trend filter. Price above the SMA is generally bullish; below is bearish.'
-    },
-    '50-Day SMA': {
-        value: 'The average closing price over the last 50 trading days.',
-        interpretation: 'An intermediate-term trend indicator. Often acts as a key support or resistance level.'
-    },
-    '200-Day SMA': {
-        value: 'The average closing price over the last 200 trading days.',
-        interpretation: 'A long-term trend indicator, widely used to define major bull and bear markets.'
-    },
-    'RSI (14)': {
-        value: 'The Relative Strength Index measures the speed and change of price movements on a scale of 0 to 100.',
-        interpretation: 'Readings over 70 suggest overbought conditions (potential for a pullback), while readings below 30 suggest oversold conditions (potential for a bounce).'
-    },
-    'MACD': {
-        value: 'The Moving Average Convergence Divergence line value.',
+const averageHorizon = (period: number) => period <= 30 ? 'A short-term' : period <= 100 ? 'An intermediate-term' : 'A long-term';
+
+// Explanations follow the indicator's own settings, e.g. the RSI period chosen for the analysis.
+const indicatorExplanations: Record<IndicatorId, (params: number[], name: string) => { value: string; interpretation: string }> = {
+    sma: ([period]) => ({
+        value: `The average closing price over the last ${period} candles.`,
+        interpretation: `${averageHorizon(period)} trend filter. Price above the SMA is generally bullish; below is bearish. The 50- and 200-period averages often act as support or resistance.`
+    }),
+    ema: ([period]) => ({
+        value: `An exponentially weighted average of the last ${period} closes, favouring recent candles.`,
+        interpretation: `${averageHorizon(period)} trend filter that reacts faster than the SMA; pullbacks to it are common entry points in strong trends.`
+    }),
+    rsi: ([period]) => ({
+        value: `The ${period}-period Relative Strength Index measures the speed and change of price movements on a scale of 0 to 100.`,
+        interpretation: `Readings over 70 suggest overbought conditions (potential for a pullback), while readings below 30 suggest oversold conditions (potential for a bounce).${period < 14 ? ' Shorter periods reach these extremes more often.' : period > 14 ? ' Longer periods reach these extremes less often.' : ''}`
+    }),
+    macd: ([fast, slow, signal]) => ({
+        value: `The MACD line (${fast}-period EMA minus ${slow}-period EMA) and its ${signal}-period signal line.`,
         interpretation: 'Compares two moving averages to show momentum. A crossover of the MACD line above its signal line is bullish; a crossover below is bearish.'
-    },
-    'Bollinger Bands': {
-        value: 'Price position relative to the upper, middle (20-day SMA), or lower band.',
+    }),
+    bollinger: ([period, deviations]) => ({
+        value: `Bands ${deviations} standard deviations either side of the ${period}-period SMA; %B is the close's position between them (0 = lower band, 1 = upper band).`,
         interpretation: 'Indicates volatility. Bands widening ("expansion") suggest increased volatility, while bands narrowing ("squeeze") suggest low volatility and a potential for a large price move.'
-    }
+    }),
+    atr: ([period]) => ({
+        value: `The ${period}-period Average True Range: the typical size of a candle including gaps, in price units.`,
+        interpretation: 'Measures volatility, not direction. Stops are commonly placed one to three ATRs from entry.'
+    }),
+    adx: ([period]) => ({
+        value: `The ${period}-period Average Directional Index (0-100) with the +DI and -DI lines.`,
+        interpretation: 'ADX above 25 indicates a trending market, with direction given by whichever DI line is higher; below 20 suggests a range.'
+    }),
+    stochastic: ([period, smoothK, smoothD]) => ({
+        value: `Where the close sits within the last ${period} candles' range (%K, smoothed over ${smoothK}), with its ${smoothD}-period average (%D).`,
+        interpretation: 'Above 80 is overbought and below 20 oversold; %K crossing %D signals a shift in short-term momentum.'
+    }),
+    obv: () => ({
+        value: 'On-Balance Volume: a running total adding volume on up closes and subtracting it on down closes.',
+        interpretation: 'OBV rising with price confirms the move; OBV diverging from price warns that the move lacks participation.'
+    }),
+    vwap: (_, name) => name.includes('session') ? {
+        value: 'The volume-weighted average price since the session opened.',
+        interpretation: 'Institutional benchmark for the day. Trading above VWAP favours buyers; below favours sellers.'
+    } : {
+        value: 'The volume-weighted average price since the first candle on the chart.',
+        interpretation: 'The average cost of everyone who traded over the period. Price above it means most of them are in profit.'
+    },
+    supertrend: ([period, multiplier]) => ({
+        value: `A trailing line ${multiplier} ATRs (${period}-period) from the median price, flipping sides when price closes through it.`,
+        interpretation: 'Price above the line defines an uptrend and the line acts as a trailing stop; below it, a downtrend.'
+    }),
+};
+
+// Computed rows carry their kind and settings; for the analysis' own rows both are read from the name.
+const indicatorKind = (indicator: Indicator): IndicatorId | null =>
+    indicator.kind ?? (indicatorKey(indicator.name)?.split(':')[0] as IndicatorId | undefined) ?? null;
+
+const explainIndicator = (indicator: Indicator) => {
+    const kind = indicatorKind(indicator);
+    if (!kind) return null;
+    const params = indicator.params ?? (indicator.name.match(/\d+(\.\d+)?/g) ?? []).map(Number);
+    const defaults = DEFAULT_INDICATOR_SETTINGS.find(setting => setting.id === kind)!.params;
+    return indicatorExplanations[kind](defaults.map((fallback, i) => params[i] ?? fallback), indicator.name);
 };
 
 const IndicatorMatrix: React.FC<{ indicators: Indicator[] }> = ({ indicators }) => (
@@ -243,66 +337,179 @@ const IndicatorMatrix: React.FC<{ indicators: Indicator[] }> = ({ indicators })
           </tr>
         </thead>
         <tbody>
-          {indicators.map((indicator, index) => (
+          {indicators.map((indicator, index) => {
+            const explanation = explainIndicator(indicator);
+            return (
             <React.Fragment key={index}>
                 <tr className="border-b border-gray-700">
-                    <td className="p-3 font-semibold text-white">{indicator.name}</td>
+                    <td className="p-3 font-semibold text-white">
+                        {indicator.name}
+                        {indicator.source === 'model' && <span className="block text-xs font-normal text-gray-500" title="Reported by the AI analysis and not computed from the data">AI estimate</span>}
+                    </td>
                     <td className="p-3">
-                        {indicator.name === 'RSI (14)' ? <RsiGauge value={indicator.value} /> : <span className="font-mono">{indicator.value}</span>}
+                        {indicatorKind(indicator) === 'rsi' ? <RsiGauge value={indicator.value} /> : <span className="font-mono">{indicator.value}</span>}
                     </td>
                     <td className="p-3 text-2xl text-center">{indicator.signal}</td>
-                    <td className="p-3">{indicator.interpretation}</td>
+                    <td className="p-3">
+                        {indicator.interpretation}
+                        {indicator.discrepancy && (
+                            <p className="mt-1 text-xs text-yellow-400 flex items-start">
+                                <WarningIcon className="h-4 w-4 mr-1 flex-shrink-0" />{indicator.discrepancy}
+                            </p>
+                        )}
+                    </td>
                 </tr>
-                {indicatorExplanations[indicator.name] && (
+                {explanation && (
                      <tr className="bg-gray-900/50">
                         <td colSpan={4} className="px-3 py-2 text-xs text-gray-400">
-                           <p><strong>Value: </strong>{indicatorExplanations[indicator.name].value}</p>
-                           <p><strong>Interpretation: </strong>{indicatorExplanations[indicator.name].interpretation}</p>
+                           <p><strong>Value: </strong>{explanation.value}</p>
+                           <p><strong>Interpretation: </strong>{explanation.interpretation}</p>
                         </td>
                     </tr>
                 )}
             </React.Fragment>
-          ))}
+            );
+          })}
         </tbody>
       </table>
     </div>
 );
 
-const TradeSetupCard: React.FC<{ title: string; data: TradeSetup; isBullish: boolean; }> = ({ title, data, isBullish }) => (
+const formatDate = (time: number) => new Date(time * 1000).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+// Names the Fibonacci level a trade price sits at, explaining where the number comes from.
+const FibonacciTag: React.FC<{ value: string; fibonacci?: FibonacciData }> = ({ value, fibonacci }) => {
+    const price = parseFloat(value);
+    const level = fibonacci && isFinite(price) ? matchFibonacciLevel(price, fibonacci) : null;
+    return level && <span className="ml-2 text-xs rounded px-1.5 py-0.5 bg-yellow-500/20 text-yellow-300">Fib {fibonacciLabel(level)}</span>;
+};
+
+const TradeSetupCard: React.FC<{ title: string; data: TradeSetup; isBullish: boolean; priceFormat: PriceFormat; fibonacci?: FibonacciData }> = ({ title, data, isBullish, priceFormat, fibonacci }) => (
     <div className={`p-4 rounded-lg border ${isBullish ? 'bg-green-500/10 border-green-500/50' : 'bg-red-500/10 border-red-500/50'}`}>
         <h3 className={`flex items-center text-lg font-bold ${isBullish ? 'text-green-400' : 'text-red-400'}`}>
             {isBullish ? <TrendUpIcon className="mr-2"/> : <TrendDownIcon className="mr-2"/>}
             {title}
         </h3>
         <div className="mt-3 space-y-2 text-sm">
-            <p><strong className="text-gray-400 w-24 inline-block">Entry:</strong> <span className="font-mono">{data.entry}</span></p>
-            <p><strong className="text-gray-400 w-24 inline-block">Target 1:</strong> <span className="font-mono">{data.target1}</span></p>
-            <p><strong className="text-gray-400 w-24 inline-block">Target 2:</strong> <span className="font-mono">{data.target2}</span></p>
-            <p><strong className="text-gray-400 w-24 inline-block">Stop Loss:</strong> <span className="font-mono">{data.stopLoss}</span></p>
+            <p><strong className="text-gray-400 w-24 inline-block">Entry:</strong> <span className="font-mono">{formatPriceText(data.entry, priceFormat)}</span><FibonacciTag value={data.entry} fibonacci={fibonacci} /></p>
+            <p><strong className="text-gray-400 w-24 inline-block">Target 1:</strong> <span className="font-mono">{formatPriceText(data.target1, priceFormat)}</span><FibonacciTag value={data.target1} fibonacci={fibonacci} /></p>
+            <p><strong className="text-gray-400 w-24 inline-block">Target 2:</strong> <span className="font-mono">{formatPriceText(data.target2, priceFormat)}</span><FibonacciTag value={data.target2} fibonacci={fibonacci} /></p>
+            <p><strong className="text-gray-400 w-24 inline-block">Stop Loss:</strong> <span className="font-mono">{formatPriceText(data.stopLoss, priceFormat)}</span><FibonacciTag value={data.stopLoss} fibonacci={fibonacci} /></p>
             <p><strong className="text-gray-400 w-24 inline-block">Risk:</strong> <span className="font-mono">{data.risk}</span></p>
         </div>
     </div>
 );
 
-const CriticalLevelsSection: React.FC<{ data: CriticalLevelsData; livePrice: string | null; isPollingHalted: boolean; }> = ({ data, livePrice, isPollingHalted }) => {
-    const displayPrice = livePrice || data.currentPrice;
+const FibonacciPanel: React.FC<{ data: FibonacciData; priceFormat: PriceFormat }> = ({ data, priceFormat }) => {
+    const [from, to] = data.direction === 'up' ? [data.swingLow, data.swingHigh] : [data.swingHigh, data.swingLow];
+    return (
+        <div className="mt-4 pt-4 border-t border-gray-700">
+            <h4 className="text-sm font-semibold text-white mb-2">
+                Fibonacci Levels <span className="font-normal text-gray-500">({data.direction} swing {formatPrice(from.price, priceFormat)} on {formatDate(from.time)} to {formatPrice(to.price, priceFormat)} on {formatDate(to.time)})</span>
+            </h4>
+            <div className="flex flex-wrap gap-2 text-xs font-mono">
+                {fibonacciLevelsWithAnchors(data).map(level => (
+                    <span key={`${level.kind}-${level.ratio}`} className={`rounded px-2 py-1 bg-gray-900/60 ${level.kind === 'extension' ? 'text-purple-300' : 'text-yellow-300'}`}>
+                        {fibonacciLabel(level)} <span className="text-white">{formatPrice(level.price, priceFormat)}</span>
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const LevelCheckMark: React.FC<{ check?: LevelCheck }> = ({ check }) => {
+    if (!check) return null;
+    return check.match
+        ? <span title={`Matches a computed level (${check.match.labels.join(', ')}; score ${check.match.score})`}><CheckIcon className="inline h-4 w-4 ml-1 text-green-400" /></span>
+        : <span title="No computed level nearby"><WarningIcon className="inline h-4 w-4 ml-1 text-yellow-500" /></span>;
+};
+
+const PIVOT_ROWS = ['R4', 'R3', 'R2', 'R1', 'P', 'S1', 'S2', 'S3', 'S4'];
+
+const pivotValue = (pivots: PivotLevels, row: string): number | undefined => {
+    if (row === 'P') return pivots.pivot;
+    const index = Number(row.slice(1)) - 1;
+    return row.startsWith('R') ? pivots.resistance[index] : pivots.support[index];
+};
+
+const PivotTable: React.FC<{ pivots: PivotLevels[]; period: string; priceFormat: PriceFormat }> = ({ pivots, period, priceFormat }) => {
+    const rows = PIVOT_ROWS.filter(row => pivots.some(p => pivotValue(p, row) !== undefined));
+    return (
+        <div className="overflow-x-auto">
+            <h4 className="text-sm font-semibold text-white mb-2">Pivot Points <span className="font-normal text-gray-500">({period})</span></h4>
+            <table className="w-full text-xs font-mono">
+                <thead className="text-gray-400">
+                    <tr>
+                        <th className="text-left py-1"></th>
+                        {pivots.map(p => <th key={p.method} className="text-right py-1 capitalize font-sans">{p.method}</th>)}
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(row => (
+                        <tr key={row} className={row === 'P' ? 'text-white' : row.startsWith('R') ? 'text-red-400/80' : 'text-green-400/80'}>
+                            <td className="py-0.5 font-bold">{row}</td>
+                            {pivots.map(p => {
+                                const value = pivotValue(p, row);
+                                return <td key={p.method} className="text-right py-0.5">{value === undefined ? '' : formatPrice(value, priceFormat)}</td>;
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const VolumeProfilePanel: React.FC<{ profile: VolumeProfile; price: number; priceFormat: PriceFormat }> = ({ profile, price, priceFormat }) => {
+    const nodes = (prices: number[]) => (prices.length ? prices.map(p => formatPrice(p, priceFormat)).join(', ') : 'None');
+    return (
+        <div>
+            <h4 className="text-sm font-semibold text-white mb-2">Volume Profile <span className="font-normal text-gray-500">(last {profile.lookbackBars} candles)</span></h4>
+            <div className="grid grid-cols-3 gap-2 text-center text-xs">
+                <div><p className="text-gray-400">VAL</p><p className="font-mono text-white">{formatPrice(profile.valueAreaLow, priceFormat)}</p></div>
+                <div><p className="text-yellow-400">POC</p><p className="font-mono text-white">{formatPrice(profile.poc, priceFormat)}</p></div>
+                <div><p className="text-gray-400">VAH</p><p className="font-mono text-white">{formatPrice(profile.valueAreaHigh, priceFormat)}</p></div>
+            </div>
+            {isFinite(price) && <p className="text-xs mt-2 text-center">Price is <span className="font-semibold text-white">{valueAreaPosition(price, profile)}</span> ({Math.round(profile.valueAreaShare * 100)}% of volume).</p>}
+            <dl className="text-xs mt-2 space-y-1">
+                <div className="flex justify-between gap-2"><dt className="text-gray-400">High-volume nodes</dt><dd className="font-mono text-right">{nodes(profile.highVolumeNodes)}</dd></div>
+                <div className="flex justify-between gap-2"><dt className="text-gray-400">Low-volume nodes</dt><dd className="font-mono text-right">{nodes(profile.lowVolumeNodes)}</dd></div>
+            </dl>
+        </div>
+    );
+};
+
+const CriticalLevelsSection: React.FC<{ data: CriticalLevelsData; computed?: SupportResistanceData; volumeProfile?: VolumeProfile; priceFormat: PriceFormat; livePrice: string | null; isPollingHalted: boolean; }> = ({ data, computed, volumeProfile, priceFormat, livePrice, isPollingHalted }) => {
+    const displayPrice = formatPriceText(livePrice || data.currentPrice, priceFormat);
+    const [r2, r1, s1, s2] = [data.r2, data.r1, data.s1, data.s2].map(level => formatPriceText(level, priceFormat));
     const priceFlashClass = usePriceFlash(livePrice);
+    const checkFor = (label: string) => computed?.checks.find(check => check.label === label);
+
+    const computedText = computed ? `
 
+COMPUTED LEVELS
+${computed.levels.map(level => `- ${level.type === 'resistance' ? 'R' : 'S'} ${formatPrice(level.price, priceFormat)} (score ${level.score}; ${level.labels.join(', ')})`).join('\n')}` : '';
+    const profileText = volumeProfile ? `
+
+VOLUME PROFILE
+- VAH: ${formatPrice(volumeProfile.valueAreaHigh, priceFormat)}
+- POC: ${formatPrice(volumeProfile.poc, priceFormat)}
+- VAL: ${formatPrice(volumeProfile.valueAreaLow, priceFormat)}` : '';
     const copyText = `RESISTANCE
-- R2: ${data.r2}
-- R1: ${data.r1}
+- R2: ${r2}
+- R1: ${r1}
 
 CURRENT PRICE: ${displayPrice}
 
 SUPPORT
-- S1: ${data.s1}
-- S2: ${data.s2}`.trim().replace(/^\s+/gm, '');
+- S1: ${s1}
+- S2: ${s2}${computedText}${profileText}`.trim().replace(/^\s+/gm, '');
 
-    return (
-      <Section title="Critical Support & Resistance" copyText={copyText}>
+    const aiLevels = (
         <div className="font-mono text-center space-y-2">
-            <div className="text-red-400"><span className="font-bold">R2:</span> {data.r2}</div>
-            <div className="text-red-400/80"><span className="font-bold">R1:</span> {data.r1}</div>
+            <div className="text-red-400"><span className="font-bold">R2:</span> {r2}<LevelCheckMark check={checkFor('R2')} /></div>
+            <div className="text-red-400/80"><span className="font-bold">R1:</span> {r1}<LevelCheckMark check={checkFor('R1')} /></div>
             <div className={`py-2 my-2 border-y-2 border-dashed border-gray-600 rounded-md transition-colors duration-300 ${priceFlashClass}`}>
                <div className="flex items-center justify-center space-x-2 text-white text-lg font-bold">
                     <span>{displayPrice}</span>
@@ -316,14 +523,125 @@ SUPPORT
                     )}
                 </div>
             </div>
-            <div className="text-green-400/80"><span className="font-bold">S1:</span> {data.s1}</div>
-            <div className="text-green-400"><span className="font-bold">S2:</span> {data.s2}</div>
+            <div className="text-green-400/80"><span className="font-bold">S1:</span> {s1}<LevelCheckMark check={checkFor('S1')} /></div>
+            <div className="text-green-400"><span className="font-bold">S2:</span> {s2}<LevelCheckMark check={checkFor('S2')} /></div>
+        </div>
+    );
+
+    const profilePanel = volumeProfile && (
+        <div className="mt-4 pt-4 border-t border-gray-700">
+            <VolumeProfilePanel profile={volumeProfile} price={parseFloat(livePrice || data.currentPrice)} priceFormat={priceFormat} />
+        </div>
+    );
+
+    if (!computed) {
+        return <Section title="Critical Support & Resistance" copyText={copyText}>{aiLevels}{profilePanel}</Section>;
+    }
+
+    return (
+      <Section title="Critical Support & Resistance" copyText={copyText}>
+        <div className="grid grid-cols-2 gap-4">
+            <div>
+                <h4 className="text-xs uppercase tracking-wider text-gray-400 mb-2 text-center">AI Levels</h4>
+                {aiLevels}
+            </div>
+            <div>
+                <h4 className="text-xs uppercase tracking-wider text-gray-400 mb-2 text-center">Computed</h4>
+                <ul className="space-y-1.5">
+                    {computed.levels.map(level => (
+                        <li key={level.price} title={`${level.labels.join(', ')}; ${level.touches} touches${level.lastTouchBarsAgo === null ? '' : `, last ${level.lastTouchBarsAgo} candles ago`}`}>
+                            <div className={`flex justify-between font-mono text-sm ${level.type === 'resistance' ? 'text-red-400' : 'text-green-400'}`}>
+                                <span>{formatPrice(level.price, priceFormat)}</span>
+                                <span className="text-xs text-gray-400">{level.score}</span>
+                            </div>
+                            <div className="h-1 bg-gray-700 rounded-full">
+                                <div className={`h-1 rounded-full ${level.type === 'resistance' ? 'bg-red-500/70' : 'bg-green-500/70'}`} style={{ width: `${level.score}%` }}></div>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            </div>
         </div>
+        <p className="text-sm mt-3">
+            {['Key support', 'Key resistance'].map(label => {
+                const check = checkFor(label);
+                return check && (
+                    <span key={label} className="mr-4 whitespace-nowrap">
+                        <span className="text-gray-400">{label}:</span> <span className="font-mono text-white">{formatPriceText(check.value, priceFormat)}</span><LevelCheckMark check={check} />
+                    </span>
+                );
+            })}
+        </p>
+        <p className="text-xs text-gray-500 mt-2">
+            <CheckIcon className="inline h-3 w-3 text-green-400" /> AI level confirmed by a computed level; <WarningIcon className="inline h-3 w-3 text-yellow-500" /> no computed level within {formatPrice(computed.tolerance, priceFormat)}. Scores (0-100) weigh touches, recency and agreement between swing, pivot, round-number and volume methods over the last {computed.lookbackBars} candles.
+        </p>
+        {computed.pivots.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-gray-700">
+                <PivotTable pivots={computed.pivots} period={computed.pivotPeriod} priceFormat={priceFormat} />
+            </div>
+        )}
+        {profilePanel}
       </Section>
     );
 };
 
-const ChartPatternSection: React.FC<{ data: ChartPatternData }> = ({ data }) => {
+const PATTERN_CHECK_STYLES: Record<PatternCheck['verdict'], { label: string; className: string }> = {
+    confirmed: { label: 'Confirmed', className: 'border-green-500/50 text-green-400' },
+    related: { label: 'Related', className: 'border-blue-500/50 text-blue-300' },
+    unconfirmed: { label: 'Unconfirmed', className: 'border-yellow-500/50 text-yellow-400' },
+    none: { label: 'No pattern', className: 'border-gray-600 text-gray-400' },
+};
+
+const biasColor = (bias: DetectedPattern['bias']) =>
+    bias === 'bullish' ? 'text-green-400' : bias === 'bearish' ? 'text-red-400' : 'text-yellow-400';
+
+const DetectedPatternsPanel: React.FC<{ detected: DetectedPattern[]; check?: PatternCheck; priceFormat: PriceFormat }> = ({ detected, check, priceFormat }) => {
+    const style = check ? PATTERN_CHECK_STYLES[check.verdict] : undefined;
+    // The pattern drawn on the chart: the one the check settled on, or else the most recent.
+    const drawn = check?.match ?? detected[0];
+    const isDrawn = (pattern: DetectedPattern) => drawn?.type === pattern.type && drawn.startTime === pattern.startTime;
+    return (
+        <div className="mt-4 pt-4 border-t border-gray-700">
+            <h4 className="font-semibold text-white">Pattern Detector</h4>
+            {check && style && (
+                <div className={`mt-2 p-3 rounded-md border bg-gray-900/50 text-sm ${style.className}`}>
+                    <span className="font-semibold">{style.label}:</span> <span className="text-gray-300">{check.message}</span>
+                </div>
+            )}
+            {detected.length > 0 ? (
+                <table className="w-full text-sm mt-3">
+                    <thead>
+                        <tr className="text-gray-400 text-left">
+                            <th className="py-1 font-normal">Pattern</th>
+                            <th className="py-1 font-normal">Status</th>
+                            <th className="py-1 font-normal text-right">Breakout</th>
+                            <th className="py-1 font-normal text-right">Target</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {detected.map(pattern => (
+                            <tr key={`${pattern.type}-${pattern.startTime}`} className={`border-t border-gray-700/50 ${isDrawn(pattern) ? 'bg-gray-700/30' : ''}`}>
+                                <td className={`py-1 font-semibold ${biasColor(pattern.bias)}`}>{pattern.name}</td>
+                                <td className="py-1 capitalize">{pattern.status}</td>
+                                <td className="py-1 text-right font-mono">{formatPrice(pattern.breakoutLevel, priceFormat)}</td>
+                                <td className="py-1 text-right font-mono">{formatPrice(pattern.target, priceFormat)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <p className="text-sm mt-2">No geometric patterns were found in the recent candles.</p>
+            )}
+            <p className="text-xs text-gray-500 mt-2">Detected from the last 150 candles; the chart draws the highlighted pattern with its pivots, breakout line and measured-move target.</p>
+        </div>
+    );
+};
+
+const ChartPatternSection: React.FC<{ data: ChartPatternData; priceFormat: PriceFormat }> = ({ data, priceFormat }) => {
+    // Computed divergences carry the swings they join; otherwise the analysis' alerts are shown as written.
+    const alerts: { alert: string; divergence?: Divergence }[] = data.divergences
+        ? data.divergences.map(divergence => ({ alert: divergence.alert, divergence }))
+        : (data.rsiDivergenceAlerts ?? []).map(alert => ({ alert }));
     return (
         <Section title="Chart Pattern Recognition">
             <div className="space-y-4">
@@ -340,11 +658,11 @@ const ChartPatternSection: React.FC<{ data: ChartPatternData }> = ({ data }) =>
                         </div>
                         <div>
                             <p className="text-gray-400">Entry Signal</p>
-                            <p className="font-semibold text-white font-mono">{data.activePattern.entrySignal}</p>
+                            <p className="font-semibold text-white font-mono">{formatPriceText(data.activePattern.entrySignal, priceFormat)}</p>
                         </div>
                         <div>
                             <p className="text-gray-400">Price Target</p>
-                            <p className="font-semibold text-white font-mono">{data.activePattern.priceTarget}</p>
+                            <p className="font-semibold text-white font-mono">{formatPriceText(data.activePattern.priceTarget, priceFormat)}</p>
                         </div>
                     </div>
                 )}
@@ -360,11 +678,11 @@ const ChartPatternSection: React.FC<{ data: ChartPatternData }> = ({ data }) =>
                     </div>
                 )}
                 
-                {data.rsiDivergenceAlerts && data.rsiDivergenceAlerts.length > 0 && (
+                {alerts.length > 0 && (
                     <div className="mt-4 space-y-2">
-                        {data.rsiDivergenceAlerts.map((alert, index) => {
-                            const isBullish = alert.toLowerCase().includes('bullish');
-                            const isBearish = alert.toLowerCase().includes('bearish');
+                        {alerts.map(({ alert, divergence }, index) => {
+                            const isBullish = divergence ? divergence.bias === 'bullish' : alert.toLowerCase().includes('bullish');
+                            const isBearish = divergence ? divergence.bias === 'bearish' : alert.toLowerCase().includes('bearish');
                             const alertColor = isBullish ? 'text-green-400' : isBearish ? 'text-red-400' : 'text-yellow-400';
                             const borderColor = isBullish ? 'border-green-500/50' : isBearish ? 'border-red-500/50' : 'border-yellow-500/50';
 
@@ -375,13 +693,22 @@ const ChartPatternSection: React.FC<{ data: ChartPatternData }> = ({ data }) =>
                                         {isBearish && <TrendDownIcon className={`h-5 w-5 ${alertColor} flex-shrink-0`} />}
                                         {!isBullish && !isBearish && <WarningIcon className={`h-5 w-5 ${alertColor} flex-shrink-0`} />}
                                     </div>
-                                    <p className={`text-sm font-semibold ${alertColor}`}>{alert}</p>
+                                    <div>
+                                        <p className={`text-sm font-semibold ${alertColor}`}>{alert}</p>
+                                        {divergence && (
+                                            <p className="text-xs text-gray-500 mt-1">
+                                                {divergence.kind === 'hidden' ? 'Dashed' : 'Solid'} line on the chart from {formatDate(divergence.from.time)} to {formatDate(divergence.to.time)}, marked {divergence.kind === 'hidden' ? 'H ' : ''}{divergence.indicator}.
+                                            </p>
+                                        )}
+                                    </div>
                                 </div>
                             );
                         })}
                     </div>
                 )}
 
+                {data.detected && <DetectedPatternsPanel detected={data.detected} check={data.check} priceFormat={priceFormat} />}
+
                 <div className="mt-4 pt-4 border-t border-gray-700">
                     <h4 className="font-semibold text-white">Monitored Patterns:</h4>
                     <p className="text-sm">{data.monitoredPatterns?.join(', ') ?? 'N/A'}</p>
@@ -391,72 +718,328 @@ const ChartPatternSection: React.FC<{ data: ChartPatternData }> = ({ data }) =>
     );
 };
 
-const PerformanceBar: React.FC<{ label: string; value: string; colorClass: string }> = ({ label, value, colorClass }) => {
-    const percentage = parseFloat(value?.replace('%', '')) || 0;
-    const isPositive = percentage >= 0;
-    const width = Math.min(Math.abs(percentage), 100);
-
+const CandlestickSignalsSection: React.FC<{ signals: CandlestickSignal[] }> = ({ signals }) => {
+    const copyText = signals.map(signal => `${formatDate(signal.time)}: ${signal.name} (${signal.bias}) - ${signal.description}`).join('\n');
     return (
-        <div>
-            <div className="flex justify-between items-center text-sm mb-1">
-                <span className="text-gray-300">{label}</span>
-                <span className={`font-semibold font-mono ${isPositive ? 'text-green-400' : 'text-red-400'}`}>{value}</span>
-            </div>
-            <div className="w-full bg-gray-700 rounded-full h-2.5">
-                <div 
-                    className={`${colorClass} h-2.5 rounded-full`}
-                    style={{ width: `${width}%` }}
-                ></div>
-            </div>
-        </div>
+        <Section title="Recent Candlestick Signals" copyText={signals.length > 0 ? copyText : undefined}>
+            {signals.length === 0 ? (
+                <p className="text-sm">No candlestick patterns in the recent candles.</p>
+            ) : (
+                <ul className="space-y-3">
+                    {signals.map(signal => (
+                        <li key={`${signal.time}-${signal.type}`} className="flex items-start space-x-3 text-sm">
+                            <span className="mt-0.5 flex-shrink-0">
+                                {signal.bias === 'bullish' ? <TrendUpIcon className="h-5 w-5 text-green-400" />
+                                    : signal.bias === 'bearish' ? <TrendDownIcon className="h-5 w-5 text-red-400" />
+                                    : <NeutralIcon className="h-5 w-5 text-gray-400" />}
+                            </span>
+                            <div>
+                                <p className="font-semibold text-white">
+                                    {signal.name} <span className="text-xs font-mono text-gray-500">[{CANDLESTICK_PATTERNS[signal.type].short}]</span>
+                                </p>
+                                <p className="text-xs text-gray-400">{formatDate(signal.time)}{signal.candles > 1 ? ` · ${signal.candles} candles` : ''}</p>
+                                <p className="mt-1">{signal.description}</p>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <p className="text-xs text-gray-500 mt-3">Each signal is marked on the chart with the code in brackets.</p>
+        </Section>
     );
 };
 
+const ReturnCell: React.FC<{ value: number | null; colored?: boolean }> = ({ value, colored = false }) => {
+    const color = !colored || value === null ? 'text-gray-300' : value >= 0 ? 'text-green-400' : 'text-red-400';
+    return <td className={`py-1 pl-2 text-right font-mono ${color}`}>{formatReturn(value)}</td>;
+};
+
 const RelativeStrengthSection: React.FC<{ data: RelativeStrengthData }> = ({ data }) => {
-  if (!data || !data.benchmark) return null;
+  if (!data || !data.comparisons?.length) return null;
+
+  const periods = data.comparisons[0].returns.map(r => r.period);
+  const kindLabel = (kind: BenchmarkComparison['kind']) => (kind === 'broad' ? 'market' : 'sector');
 
-  const copyText = `RELATIVE STRENGTH (3-Month)
-- Asset: ${data.assetPerformance3M}
-- Benchmark (${data.benchmark}): ${data.benchmarkPerformance3M}
+  const copyText = `RELATIVE STRENGTH
+${data.comparisons.map(c => `- vs ${c.name} (${kindLabel(c.kind)}): ${c.returns.map(r => `${r.period} ${formatReturn(r.relativeReturn)}`).join(', ')}`).join('\n')}
 - Interpretation: ${data.interpretation}`.trim().replace(/^\s+/gm, '');
 
   return (
     <Section title="Relative Strength vs. Index" copyText={copyText}>
       <div className="space-y-4">
-        <p className="text-sm text-gray-400">Comparison against <strong className="text-white">{data.benchmark}</strong> over the last 3 months.</p>
-        <div className="space-y-3">
-          <PerformanceBar label="Asset" value={data.assetPerformance3M} colorClass="bg-blue-500" />
-          <PerformanceBar label="Benchmark" value={data.benchmarkPerformance3M} colorClass="bg-gray-500" />
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-gray-400 text-xs uppercase">
+              <tr>
+                <th className="py-1 text-left font-medium">Return</th>
+                {periods.map(period => <th key={period} className="py-1 pl-2 text-right font-medium">{period}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-t border-gray-700">
+                <td className="py-1 text-white font-semibold">Asset</td>
+                {data.comparisons[0].returns.map(r => <ReturnCell key={r.period} value={r.assetReturn} />)}
+              </tr>
+              {data.comparisons.map(c => (
+                <tr key={c.symbol} className="border-t border-gray-700">
+                  <td className="py-1 text-gray-300">{c.name} <span className="text-xs text-gray-500">({kindLabel(c.kind)})</span></td>
+                  {c.returns.map(r => <ReturnCell key={r.period} value={r.benchmarkReturn} />)}
+                </tr>
+              ))}
+              <tr>
+                <td colSpan={periods.length + 1} className="pt-3 pb-1 text-xs uppercase text-gray-400">Relative to index</td>
+              </tr>
+              {data.comparisons.map(c => (
+                <tr key={c.symbol} className="border-t border-gray-700">
+                  <td className="py-1 text-gray-300">vs {c.name}</td>
+                  {c.returns.map(r => <ReturnCell key={r.period} value={r.relativeReturn} colored />)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
         </div>
-        <div className="mt-4 pt-4 border-t border-gray-700">
-           <p className="text-sm text-gray-300">{data.interpretation}</p>
+        {data.interpretation && (
+          <div className="pt-4 border-t border-gray-700">
+            <p className="text-sm text-gray-300">{data.interpretation}</p>
+          </div>
+        )}
+      </div>
+    </Section>
+  );
+};
+
+const trendColor = (trend: string | null) =>
+  trend === 'Uptrend' || trend === 'Bullish' ? 'text-green-400' : trend === 'Downtrend' || trend === 'Bearish' ? 'text-red-400' : 'text-gray-300';
+
+const alignmentConfig: Record<MultiTimeframeData['alignment'], { label: string; className: string }> = {
+  bullish: { label: 'Aligned Bullish', className: 'bg-green-500/20 text-green-400' },
+  bearish: { label: 'Aligned Bearish', className: 'bg-red-500/20 text-red-400' },
+  mixed: { label: 'Mixed', className: 'bg-gray-600/50 text-gray-300' },
+  conflicting: { label: 'Conflicting', className: 'bg-yellow-500/20 text-yellow-400' },
+};
+
+const TIMEFRAME_LABELS: Record<TimeframeKey, string> = { daily: 'Daily', weekly: 'Weekly', monthly: 'Monthly' };
+
+const MultiTimeframeSection: React.FC<{ data: MultiTimeframeData; priceFormat: PriceFormat }> = ({ data, priceFormat }) => {
+  if (!data || !data.timeframes?.length) return null;
+
+  const conflicted = new Set(data.conflicts.flatMap(conflict => conflict.timeframes));
+  const alignment = alignmentConfig[data.alignment];
+
+  const copyText = `MULTI-TIMEFRAME CONTEXT (${alignment.label})
+${data.timeframes.map(tf => `- ${TIMEFRAME_LABELS[tf.timeframe]}: ${tf.trend ?? 'Insufficient data'}, ${tf.bias} bias, key level ${formatPrice(tf.keyLevel, priceFormat)} (${tf.keyLevelLabel})`).join('\n')}
+${data.conflicts.map(conflict => `- Conflict: ${conflict.message}`).join('\n')}
+${data.commentary}`.trim().replace(/^\s+/gm, '');
+
+  return (
+    <Section title="Multi-Timeframe Context" copyText={copyText}>
+      <div className="space-y-4">
+        <div className="flex justify-between items-center text-sm">
+          <span className="text-gray-400">Timeframe alignment</span>
+          <span className={`px-2 py-1 rounded-md font-semibold ${alignment.className}`}>{alignment.label}</span>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-700/50 text-gray-400 uppercase tracking-wider">
+              <tr>
+                <th className="p-3">Timeframe</th><th className="p-3">Trend</th><th className="p-3">Bias</th><th className="p-3">Key Level</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.timeframes.map(tf => (
+                <tr key={tf.timeframe} className={`border-b border-gray-700 ${conflicted.has(tf.timeframe) ? 'bg-yellow-500/10' : ''}`}>
+                  <td className="p-3 font-semibold text-white">
+                    {TIMEFRAME_LABELS[tf.timeframe]}
+                    {conflicted.has(tf.timeframe) && <WarningIcon className="inline h-4 w-4 ml-1 text-yellow-400" />}
+                  </td>
+                  <td className={`p-3 font-semibold ${trendColor(tf.trend)}`}>{tf.trend ?? 'Insufficient data'}</td>
+                  <td className={`p-3 ${trendColor(tf.bias)}`}>{tf.bias}</td>
+                  <td className="p-3">
+                    <span className="font-mono text-white">{formatPrice(tf.keyLevel, priceFormat)}</span>
+                    <span className="block text-xs text-gray-500">{tf.keyLevelLabel}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
         </div>
+        {data.conflicts.length > 0 && (
+          <ul className="space-y-1 text-sm text-yellow-400">
+            {data.conflicts.map((conflict, i) => <li key={i} className="flex items-start"><WarningIcon className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />{conflict.message}</li>)}
+          </ul>
+        )}
+        {data.commentary && <p className="text-sm text-gray-300 pt-4 border-t border-gray-700">{data.commentary}</p>}
       </div>
     </Section>
   );
 };
 
+const DataQualitySection: React.FC<{ data: DataQualityReport }> = ({ data }) => {
+    const severityColor = { critical: 'text-red-400', warning: 'text-yellow-400', info: 'text-gray-400' };
+    const hasCritical = data.issues.some(issue => issue.severity === 'critical');
+
+    return (
+        <div className={`p-4 rounded-lg border ${hasCritical ? 'border-red-500/50 bg-red-500/10' : 'border-yellow-500/50 bg-yellow-500/10'}`}>
+            <div className="flex justify-between items-center mb-2">
+                <h3 className={`flex items-center font-bold ${hasCritical ? 'text-red-400' : 'text-yellow-400'}`}>
+                    <WarningIcon className="h-5 w-5 mr-2" />
+                    Data Quality Warnings
+                </h3>
+                <span className="text-sm text-gray-400">Score: <strong className="text-white">{data.score}</strong>/100 · {data.barCount} bars</span>
+            </div>
+            <ul className="space-y-1 text-sm">
+                {data.issues.map((issue, i) => (
+                    <li key={i} className={severityColor[issue.severity]}>
+                        <span className="font-semibold uppercase text-xs mr-2">{issue.severity}</span>{issue.message}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+const CONFLUENCE_CHECK_STYLES: Record<ConfluenceCheck['verdict'], { label: string; className: string }> = {
+    agrees: { label: 'Agrees', className: 'border-green-500/50 text-green-400' },
+    differs: { label: 'Differs', className: 'border-yellow-500/50 text-yellow-400' },
+    opposes: { label: 'Opposes', className: 'border-red-500/50 text-red-400' },
+};
+
+const signedScore = (value: number | null) => (value === null ? 'N/A' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}`);
+
+const signedScoreColor = (value: number | null) =>
+    value === null ? 'text-gray-500' : value > 0 ? 'text-green-400' : value < 0 ? 'text-red-400' : 'text-gray-300';
 
-export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ report, chartData, livePrice, isPollingHalted }) => {
+const ConfluenceSection: React.FC<{ data: ConfluenceData; overallSignal?: SummaryTableData['overallSignal'] }> = ({ data, overallSignal }) => {
+    // Changing a weight rescores the computed factors at once and is kept for the next analysis.
+    const [weights, setWeights] = useState<ConfluenceWeights>(() => data.weights ?? getConfluenceWeights());
+    const factors = data.factors;
+    const scored = factors ? scoreConfluence(factors, weights) : data;
+    const overallScore = scored.overallScore ?? 0;
+    const check = factors ? checkOverallSignal(overallSignal, overallScore) : undefined;
+    const checkStyle = check ? CONFLUENCE_CHECK_STYLES[check.verdict] : undefined;
+
+    const updateWeights = (next: ConfluenceWeights) => {
+        setWeights(next);
+        saveConfluenceWeights(next);
+    };
+
+    // A computed score is directional (50 is neutral); the analysis' own score measures conviction.
+    let tone: 'good' | 'mixed' | 'bad';
+    let scoreLabel: string;
+    if (factors) {
+        tone = overallScore >= BUY_THRESHOLD ? 'good' : overallScore <= SELL_THRESHOLD ? 'bad' : 'mixed';
+        scoreLabel = tone === 'good' ? 'Bullish Confluence' : tone === 'bad' ? 'Bearish Confluence' : 'No Clear Edge';
+    } else {
+        tone = overallScore >= 70 ? 'good' : overallScore >= 40 ? 'mixed' : 'bad';
+        scoreLabel = tone === 'good' ? 'Strong Conviction' : tone === 'mixed' ? 'Moderate Conviction' : 'Low Conviction';
+    }
+    const scoreColor = { good: 'bg-green-500', mixed: 'bg-yellow-500', bad: 'bg-red-500' }[tone];
+    const scoreTextColor = { good: 'text-green-400', mixed: 'text-yellow-400', bad: 'text-red-400' }[tone];
+
+    const copyText = factors ? `CONFLUENCE ANALYSIS (${overallScore}/100, ${check?.computedSignal})
+${factors.map(factor => `- ${factor.name} (weight ${weights[factor.id]}): ${signedScore(factor.score)}`).join('\n')}
+${check?.message ?? ''}`.trim() : undefined;
+
+    return (
+        <Section title="Confluence Analysis" copyText={copyText}>
+            <div className="space-y-3">
+                <div className="flex justify-between items-center"><span className="text-green-400">Bullish Signals:</span> <span className="font-bold text-white">{scored.bullishSignals ?? 'N/A'}</span></div>
+                <div className="flex justify-between items-center"><span className="text-red-400">Bearish Signals:</span> <span className="font-bold text-white">{scored.bearishSignals ?? 'N/A'}</span></div>
+                <div className="flex justify-between items-center"><span className="text-gray-400">Neutral Signals:</span> <span className="font-bold text-white">{scored.neutralSignals ?? 'N/A'}</span></div>
+                <hr className="border-gray-700 my-3" />
+                <div>
+                    <div className="flex mb-1 items-center justify-between">
+                        <h4 className="text-lg font-bold text-white">Overall Technical Score</h4>
+                        <div className="text-right">
+                            <span className={`text-xl font-bold ${scoreTextColor}`}>{overallScore}</span>
+                            <span className="text-sm text-gray-400">/100</span>
+                        </div>
+                    </div>
+                    <div className="relative w-full bg-gray-700 rounded-full h-4 overflow-hidden">
+                        <div 
+                            className={`${scoreColor} h-4 rounded-full transition-all duration-700 ease-out`} 
+                            style={{ width: `${overallScore}%` }}
+                            role="progressbar"
+                            aria-valuenow={overallScore}
+                            aria-valuemin="0"
+                            aria-valuemax="100"
+                        ></div>
+                        {factors && <div className="absolute inset-y-0 left-1/2 w-px bg-gray-900" title="Neutral" />}
+                    </div>
+                    <div className="text-right mt-1">
+                        <span className={`text-sm font-semibold ${scoreTextColor}`}>{scoreLabel}</span>
+                    </div>
+                </div>
+                {check && checkStyle && (
+                    <div className={`p-3 rounded-md border bg-gray-900/50 text-sm ${checkStyle.className}`}>
+                        <span className="font-semibold">{checkStyle.label}:</span> <span className="text-gray-300">{check.message}</span>
+                    </div>
+                )}
+                {factors && (
+                    <div className="pt-3 border-t border-gray-700">
+                        <div className="flex justify-between items-center mb-2">
+                            <h4 className="font-semibold text-white">Factor Breakdown</h4>
+                            <button onClick={() => updateWeights(DEFAULT_CONFLUENCE_WEIGHTS)} className="text-xs text-blue-400 hover:text-blue-300">Reset weights</button>
+                        </div>
+                        <div className="space-y-3">
+                            {factors.map(factor => (
+                                <div key={factor.id} className="text-sm">
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-white">{factor.name}</span>
+                                        <span className={`font-mono ${signedScoreColor(factor.score)}`}>{signedScore(factor.score)}</span>
+                                    </div>
+                                    <label className="flex items-center gap-2 text-xs text-gray-400 mt-1">
+                                        Weight
+                                        <input
+                                            type="range"
+                                            min={0}
+                                            max={50}
+                                            step={5}
+                                            value={weights[factor.id]}
+                                            onChange={(e) => updateWeights({ ...weights, [factor.id]: Number(e.target.value) })}
+                                            className="flex-grow accent-blue-500"
+                                        />
+                                        <span className="w-6 text-right font-mono">{weights[factor.id]}</span>
+                                    </label>
+                                    {factor.signals.length > 0 ? (
+                                        <details className="text-xs text-gray-400 mt-1">
+                                            <summary className="cursor-pointer hover:text-gray-300">{factor.signals.length} signal{factor.signals.length === 1 ? '' : 's'}</summary>
+                                            <ul className="mt-1 space-y-1">
+                                                {factor.signals.map((signal, i) => (
+                                                    <li key={i} className="flex justify-between gap-3">
+                                                        <span>{signal.label}</span>
+                                                        <span className={`font-mono flex-shrink-0 ${signedScoreColor(signal.value)}`}>{signedScore(signal.value)}</span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </details>
+                                    ) : (
+                                        <p className="text-xs text-gray-500 mt-1">No signals; left out of the score.</p>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-3">
+                            Each signal runs from -1 (bearish) to +1 (bullish) and a factor scores their mean. The overall score is the weighted mean of the factors, from 0 to 100 with 50 neutral; {BUY_THRESHOLD} or more reads as BUY and {SELL_THRESHOLD} or less as SELL.
+                        </p>
+                    </div>
+                )}
+            </div>
+        </Section>
+    );
+};
+
+export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ report, chartData, dataQuality, priceFormat, dataSources, livePrice, marketStatus, quoteFeed, isPollingHalted }) => {
     const { 
         summaryTable, marketStructure, volumeAnalysis, criticalLevels, indicatorMatrix, chartPatterns, 
-        tradeSetups, confluenceAnalysis, riskFactors, multiTimeframe, narrative, relativeStrength 
+        tradeSetups, confluenceAnalysis, riskFactors, multiTimeframe, narrative, relativeStrength, supportResistance, candlestickSignals, volumeProfile, fibonacci
     } = report;
     
     const [isGeneratingPdf, setIsGeneratingPdf] = useState<boolean>(false);
+    // For the position sizer's ATR-based stops.
+    const atrValue = useMemo(() => (chartData ? last(atr(barsFromChartData(chartData), 14)) : null), [chartData]);
     const reportRef = useRef<HTMLDivElement>(null);
 
-    const overallScore = confluenceAnalysis?.overallScore ?? 0;
-    const scoreColor = overallScore >= 70 ? 'bg-green-500' : overallScore >= 40 ? 'bg-yellow-500' : 'bg-red-500';
-    const scoreTextColor = overallScore >= 70 ? 'text-green-400' : overallScore >= 40 ? 'text-yellow-400' : 'text-red-400';
-    
-    let convictionText = 'Low Conviction';
-    if (overallScore >= 70) {
-        convictionText = 'Strong Conviction';
-    } else if (overallScore >= 40) {
-        convictionText = 'Moderate Conviction';
-    }
-
     const narrativeText = narrative ? `1. What the chart is telling us:
 ${narrative.summary}
 
@@ -472,18 +1055,19 @@ ${narrative.triggers}
 5. What could invalidate the analysis:
 ${narrative.invalidation}`.trim().replace(/^\s+/gm, '') : undefined;
 
+    const price = (text: string) => formatPriceText(text, priceFormat);
     const tradeSetupsText = (tradeSetups && tradeSetups.bullish && tradeSetups.bearish) ? `📈 BULLISH SCENARIO
-Entry: ${tradeSetups.bullish.entry}
-Target 1: ${tradeSetups.bullish.target1}
-Target 2: ${tradeSetups.bullish.target2}
-Stop Loss: ${tradeSetups.bullish.stopLoss}
+Entry: ${price(tradeSetups.bullish.entry)}
+Target 1: ${price(tradeSetups.bullish.target1)}
+Target 2: ${price(tradeSetups.bullish.target2)}
+Stop Loss: ${price(tradeSetups.bullish.stopLoss)}
 Risk: ${tradeSetups.bullish.risk}
 
 📉 BEARISH SCENARIO
-Entry: ${tradeSetups.bearish.entry}
-Target 1: ${tradeSetups.bearish.target1}
-Target 2: ${tradeSetups.bearish.target2}
-Stop Loss: ${tradeSetups.bearish.stopLoss}
+Entry: ${price(tradeSetups.bearish.entry)}
+Target 1: ${price(tradeSetups.bearish.target1)}
+Target 2: ${price(tradeSetups.bearish.target2)}
+Stop Loss: ${price(tradeSetups.bearish.stopLoss)}
 Risk: ${tradeSetups.bearish.risk}`.trim() : undefined;
 
     const handleGeneratePdf = async () => {
@@ -560,11 +1144,13 @@ Risk: ${tradeSetups.bearish.risk}`.trim() : undefined;
             </button>
         </div>
         <div ref={reportRef} className="space-y-6">
-          {summaryTable && <SummaryTable data={summaryTable} livePrice={livePrice} isPollingHalted={isPollingHalted} />}
+          {summaryTable && <SummaryTable data={summaryTable} priceFormat={priceFormat} livePrice={livePrice} marketStatus={marketStatus} quoteFeed={quoteFeed} isPollingHalted={isPollingHalted} />}
+
+          {dataQuality && dataQuality.issues.length > 0 && <DataQualitySection data={dataQuality} />}
           
           {chartData && (
             <div className="bg-gray-800 p-2 rounded-lg border border-gray-700">
-                <Chart data={chartData} assetName={summaryTable.asset} />
+                <Chart data={chartData} assetName={summaryTable.asset} priceFormat={priceFormat} />
             </div>
           )}
 
@@ -581,44 +1167,18 @@ Risk: ${tradeSetups.bearish.risk}`.trim() : undefined;
               </Section>}
               {tradeSetups && <Section title="Trade Setup Recommendations" copyText={tradeSetupsText}>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    {tradeSetups.bullish && <TradeSetupCard title="Bullish Scenario" data={tradeSetups.bullish} isBullish={true} />}
-                    {tradeSetups.bearish && <TradeSetupCard title="Bearish Scenario" data={tradeSetups.bearish} isBullish={false} />}
+                    {tradeSetups.bullish && <TradeSetupCard title="Bullish Scenario" data={tradeSetups.bullish} isBullish={true} priceFormat={priceFormat} fibonacci={fibonacci} />}
+                    {tradeSetups.bearish && <TradeSetupCard title="Bearish Scenario" data={tradeSetups.bearish} isBullish={false} priceFormat={priceFormat} fibonacci={fibonacci} />}
                 </div>
+                <RiskCalculator setups={tradeSetups} atrValue={atrValue} priceFormat={priceFormat} />
+                {fibonacci && <FibonacciPanel data={fibonacci} priceFormat={priceFormat} />}
               </Section>}
             </div>
             <div className="space-y-6">
-                {criticalLevels && <CriticalLevelsSection data={criticalLevels} livePrice={livePrice} isPollingHalted={isPollingHalted} />}
+                {criticalLevels && <CriticalLevelsSection data={criticalLevels} computed={supportResistance} volumeProfile={volumeProfile} priceFormat={priceFormat} livePrice={livePrice} isPollingHalted={isPollingHalted} />}
                 {relativeStrength && <RelativeStrengthSection data={relativeStrength} />}
-                <Section title="Confluence Analysis">
-                    <div className="space-y-3">
-                        <div className="flex justify-between items-center"><span className="text-green-400">Bullish Signals:</span> <span className="font-bold text-white">{confluenceAnalysis?.bullishSignals ?? 'N/A'}</span></div>
-                        <div className="flex justify-between items-center"><span className="text-red-400">Bearish Signals:</span> <span className="font-bold text-white">{confluenceAnalysis?.bearishSignals ?? 'N/A'}</span></div>
-                        <div className="flex justify-between items-center"><span className="text-gray-400">Neutral Signals:</span> <span className="font-bold text-white">{confluenceAnalysis?.neutralSignals ?? 'N/A'}</span></div>
-                        <hr className="border-gray-700 my-3" />
-                        <div>
-                            <div className="flex mb-1 items-center justify-between">
-                                <h4 className="text-lg font-bold text-white">Overall Technical Score</h4>
-                                <div className="text-right">
-                                    <span className={`text-xl font-bold ${scoreTextColor}`}>{overallScore}</span>
-                                    <span className="text-sm text-gray-400">/100</span>
-                                </div>
-                            </div>
-                            <div className="w-full bg-gray-700 rounded-full h-4 overflow-hidden">
-                                <div 
-                                    className={`${scoreColor} h-4 rounded-full transition-all duration-700 ease-out`} 
-                                    style={{ width: `${overallScore}%` }}
-                                    role="progressbar"
-                                    aria-valuenow={overallScore}
-                                    aria-valuemin="0"
-                                    aria-valuemax="100"
-                                ></div>
-                            </div>
-                            <div className="text-right mt-1">
-                                <span className={`text-sm font-semibold ${scoreTextColor}`}>{convictionText}</span>
-                            </div>
-                        </div>
-                    </div>
-                </Section>
+                {candlestickSignals && <CandlestickSignalsSection signals={candlestickSignals} />}
+                {confluenceAnalysis && <ConfluenceSection data={confluenceAnalysis} overallSignal={summaryTable?.overallSignal} />}
             </div>
           </div>
           
@@ -644,29 +1204,8 @@ Risk: ${tradeSetups.bearish.risk}`.trim() : undefined;
             </Section>}
           </div>
            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            {chartPatterns && <ChartPatternSection data={chartPatterns} />}
-             {multiTimeframe && <Section title="Multi-Timeframe Context">
-                <div className="overflow-x-auto">
-                    <table className="w-full text-left text-sm">
-                        <thead className="bg-gray-700/50 text-gray-400 uppercase tracking-wider">
-                            <tr>
-                                <th className="p-3">Timeframe</th><th className="p-3">Trend</th><th className="p-3">Key Level</th><th className="p-3">Bias</th>
-                            </tr>
-                        </thead>
-                        <tbody>
-                            <tr className="border-b border-gray-700">
-                                <td className="p-3 font-semibold text-white">Daily</td><td>{multiTimeframe.daily?.trend}</td><td>{multiTimeframe.daily?.keyLevel}</td><td>{multiTimeframe.daily?.bias}</td>
-                            </tr>
-                            <tr className="border-b border-gray-700">
-                                <td className="p-3 font-semibold text-white">Weekly</td><td>{multiTimeframe.weekly?.trend}</td><td>{multiTimeframe.weekly?.keyLevel}</td><td>{multiTimeframe.weekly?.bias}</td>
-                            </tr>
-                            <tr>
-                                <td className="p-3 font-semibold text-white">Monthly</td><td>{multiTimeframe.monthly?.trend}</td><td>{multiTimeframe.monthly?.keyLevel}</td><td>{multiTimeframe.monthly?.bias}</td>
-                            </tr>
-                        </tbody>
-                    </table>
-                </div>
-            </section>}
+            {chartPatterns && <ChartPatternSection data={chartPatterns} priceFormat={priceFormat} />}
+             {multiTimeframe && <MultiTimeframeSection data={multiTimeframe} priceFormat={priceFormat} />}
           </div>
           
           {riskFactors && riskFactors.factors?.length > 0 && <Section title="Risk Factors & Caveats">
@@ -675,6 +1214,10 @@ Risk: ${tradeSetups.bearish.risk}`.trim() : undefined;
               </ul>
           </Section>}
         </div>
+
+        <div className="mt-6">
+          <DiagnosticsPanel dataSources={dataSources} />
+        </div>
     </div>
   );
 };
\ No newline at end of file
@@ -1,5 +1,9 @@
-import React, { useEffect, useRef } from 'react';
-import type { ChartData, CandlestickData } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import type { ChartData, CandlestickData, PriceFormat } from '../types';
+import { formatPrice, formatPriceChange, formatVolume, priceDecimals } from '../services/priceFormat';
+import { barsFromChartData } from '../services/indicators';
+import { computeVolumeProfile } from '../services/volumeProfile';
+import { fibonacciLevelsWithAnchors, fibonacciLabel } from '../services/fibonacci';
 
 // Declare global library loaded from CDN
 declare const LightweightCharts: any;
@@ -7,15 +11,58 @@ declare const LightweightCharts: any;
 interface ChartProps {
   data: ChartData;
   assetName: string;
+  priceFormat: PriceFormat;
 }
 
+const PROFILE_WIDTH = 0.2; // share of the pane the busiest price bin spans
+
+/**
+ * Draws the volume profile of the visible candles as horizontal bars along the
+ * right edge of the price pane: the point of control in amber, the rest of the
+ * value area in blue.
+ */
+const drawVolumeProfile = (canvas: HTMLCanvasElement, chart: any, series: any, data: ChartData) => {
+    const ratio = window.devicePixelRatio || 1;
+    const { clientWidth: width, clientHeight: height } = canvas;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.scale(ratio, ratio);
+    context.clearRect(0, 0, width, height);
+
+    const bars = barsFromChartData(data);
+    const range = chart.timeScale().getVisibleLogicalRange();
+    const from = Math.max(0, Math.floor(range?.from ?? 0));
+    const to = Math.min(bars.length - 1, Math.ceil(range?.to ?? bars.length - 1));
+    const profile = computeVolumeProfile(bars.slice(from, to + 1));
+    if (!profile) return;
+
+    const paneLeft = data.ratioLine ? chart.priceScale('left').width() : 0;
+    const paneRight = paneLeft + chart.timeScale().width();
+    context.beginPath();
+    context.rect(paneLeft, 0, paneRight - paneLeft, height - chart.timeScale().height());
+    context.clip();
+    const maxVolume = Math.max(...profile.bins.map(bin => bin.volume));
+    for (const bin of profile.bins) {
+        const top = series.priceToCoordinate(bin.high);
+        const bottom = series.priceToCoordinate(bin.low);
+        if (top === null || bottom === null || bin.volume === 0) continue;
+        const length = (bin.volume / maxVolume) * (paneRight - paneLeft) * PROFILE_WIDTH;
+        const isPoc = bin.low <= profile.poc && profile.poc < bin.high;
+        const inValueArea = bin.low >= profile.valueAreaLow && bin.high <= profile.valueAreaHigh;
+        context.fillStyle = isPoc ? 'rgba(236, 201, 75, 0.6)' : inValueArea ? 'rgba(99, 179, 237, 0.35)' : 'rgba(160, 174, 192, 0.2)';
+        context.fillRect(paneRight - length, top, length, Math.max(1, bottom - top - 1));
+    }
+};
+
 // Helper function to create the HTML content for the tooltip.
-const getTooltipContent = (assetName: string, candleData: CandlestickData, volumeValue: number | null | undefined): string => {
+const getTooltipContent = (assetName: string, candleData: CandlestickData, volumeValue: number | null | undefined, priceFormat: PriceFormat, ratioValue?: number): string => {
     const change = candleData.close - candleData.open;
     const percentChange = candleData.open === 0 ? 0 : (change / candleData.open) * 100;
     const sign = change >= 0 ? '+' : '';
     const color = change >= 0 ? 'text-green-400' : 'text-red-400';
-    const changeHtml = `<span class="${color}">${sign}${change.toFixed(2)} (${sign}${percentChange.toFixed(2)}%)</span>`;
+    const changeHtml = `<span class="${color}">${formatPriceChange(change, priceFormat)} (${sign}${percentChange.toFixed(2)}%)</span>`;
     const date = new Date(candleData.time * 1000).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
 
     return `
@@ -23,23 +70,29 @@ const getTooltipContent = (assetName: string, candleData: CandlestickData, volum
         <div class="font-bold text-white">${assetName}</div>
         <div class="text-sm text-gray-400">${date}</div>
         <div class="mt-2 text-xs grid grid-cols-2 gap-x-2 gap-y-1">
-          <span class="text-gray-400">Open:</span> <span class="font-mono text-right text-white">${candleData.open.toFixed(2)}</span>
-          <span class="text-gray-400">High:</span> <span class="font-mono text-right text-white">${candleData.high.toFixed(2)}</span>
-          <span class="text-gray-400">Low:</span> <span class="font-mono text-right text-white">${candleData.low.toFixed(2)}</span>
-          <span class="text-gray-400">Close:</span> <span class="font-mono text-right text-white">${candleData.close.toFixed(2)}</span>
+          <span class="text-gray-400">Open:</span> <span class="font-mono text-right text-white">${formatPrice(candleData.open, priceFormat)}</span>
+          <span class="text-gray-400">High:</span> <span class="font-mono text-right text-white">${formatPrice(candleData.high, priceFormat)}</span>
+          <span class="text-gray-400">Low:</span> <span class="font-mono text-right text-white">${formatPrice(candleData.low, priceFormat)}</span>
+          <span class="text-gray-400">Close:</span> <span class="font-mono text-right text-white">${formatPrice(candleData.close, priceFormat)}</span>
           <span class="text-gray-400">Change:</span> <span class="font-mono text-right">${changeHtml}</span>
-          <span class="text-gray-400">Volume:</span> <span class="font-mono text-right text-white">${volumeValue?.toLocaleString() ?? 'N/A'}</span>
+          <span class="text-gray-400">Volume:</span> <span class="font-mono text-right text-white">${formatVolume(volumeValue, priceFormat)}</span>
+          ${ratioValue === undefined ? '' : `<span class="text-gray-400">RS ratio:</span> <span class="font-mono text-right text-blue-300">${ratioValue.toFixed(2)}</span>`}
         </div>
       </div>
     `;
 };
 
-export const Chart: React.FC<ChartProps> = ({ data, assetName }) => {
+export const Chart: React.FC<ChartProps> = ({ data, assetName, priceFormat }) => {
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<any>(null);
   const candlestickSeriesRef = useRef<any>(null);
   const volumeSeriesRef = useRef<any>(null);
+  const ratioSeriesRef = useRef<any>(null);
+  const overlaySeriesRef = useRef<any[]>([]);
   const tooltipRef = useRef<HTMLDivElement>(null);
+  const profileCanvasRef = useRef<HTMLCanvasElement>(null);
+  const fibonacciLinesRef = useRef<any[]>([]);
+  const [showFibonacci, setShowFibonacci] = useState(true);
 
   // Effect for chart initialization (runs only once on mount)
   useEffect(() => {
@@ -82,6 +135,14 @@ export const Chart: React.FC<ChartProps> = ({ data, assetName }) => {
         priceScaleId: '', // place on separate scale
         scaleMargins: { top: 0.8, bottom: 0 },
     });
+
+    // Relative strength ratio against the benchmark, on its own left-hand scale.
+    ratioSeriesRef.current = chart.addLineSeries({
+        color: '#63B3ED', // blue-400
+        lineWidth: 1,
+        priceScaleId: 'left',
+        priceLineVisible: false,
+    });
     
     const handleResize = () => {
         if (chartContainerRef.current && chartRef.current) {
@@ -97,6 +158,8 @@ export const Chart: React.FC<ChartProps> = ({ data, assetName }) => {
             chartRef.current.remove();
         }
         chartRef.current = null;
+        candlestickSeriesRef.current = null;
+        overlaySeriesRef.current = [];
     };
   }, []); // Empty dependency array ensures this runs only once
 
@@ -106,11 +169,55 @@ export const Chart: React.FC<ChartProps> = ({ data, assetName }) => {
         return;
     }
 
+    // The price scale shows as many decimals as the instrument's tick size needs.
+    const lastClose = data.candlestickData[data.candlestickData.length - 1]?.close ?? 0;
+    const precision = priceDecimals(lastClose, priceFormat);
+    candlestickSeriesRef.current.applyOptions({ priceFormat: { type: 'price', precision, minMove: 10 ** -precision } });
+
     // Update the data for the series
     candlestickSeriesRef.current.setData(data.candlestickData);
     volumeSeriesRef.current.setData(data.volumeData);
+    ratioSeriesRef.current?.setData(data.ratioLine?.data ?? []);
+    ratioSeriesRef.current?.applyOptions({ title: data.ratioLine ? `RS vs ${data.ratioLine.benchmark}` : '' });
+    chartRef.current.applyOptions({ leftPriceScale: { visible: !!data.ratioLine, borderColor: '#4A5568' } });
+
+    // Overlay lines (e.g. a detected pattern's neckline and target) are replaced wholesale.
+    overlaySeriesRef.current.forEach(series => chartRef.current.removeSeries(series));
+    overlaySeriesRef.current = (data.overlays ?? []).map(overlay => {
+        const series = chartRef.current.addLineSeries({
+            color: overlay.color,
+            lineWidth: 1,
+            lineStyle: overlay.dashed ? LightweightCharts.LineStyle.Dashed : LightweightCharts.LineStyle.Solid,
+            priceLineVisible: false,
+            lastValueVisible: false,
+            crosshairMarkerVisible: false,
+            title: overlay.label,
+        });
+        series.setData(overlay.points);
+        return series;
+    });
+    if (typeof candlestickSeriesRef.current.setMarkers === 'function') {
+        // The library requires markers in ascending time order.
+        const markers = [...(data.markers ?? [])].sort((a, b) => a.time - b.time);
+        candlestickSeriesRef.current.setMarkers(markers);
+    }
     chartRef.current.timeScale().fitContent();
 
+    // The volume profile follows the visible range; the price scale settles after rendering, hence the frame delay.
+    let frame = 0;
+    const redrawProfile = () => {
+        cancelAnimationFrame(frame);
+        frame = requestAnimationFrame(() => {
+            if (profileCanvasRef.current && chartRef.current) {
+                drawVolumeProfile(profileCanvasRef.current, chartRef.current, candlestickSeriesRef.current, data);
+            }
+        });
+    };
+    const timeScale = chartRef.current.timeScale();
+    timeScale.subscribeVisibleLogicalRangeChange(redrawProfile);
+    window.addEventListener('resize', redrawProfile);
+    redrawProfile();
+
     // Tooltip logic needs to be managed here to get the latest assetName
     const crosshairMoveHandler = (param: any) => {
         const tooltip = tooltipRef.current;
@@ -124,9 +231,10 @@ export const Chart: React.FC<ChartProps> = ({ data, assetName }) => {
 
         const candleData = param.seriesData.get(candlestickSeriesRef.current);
         const volumeDataPoint = param.seriesData.get(volumeSeriesRef.current);
+        const ratioDataPoint = ratioSeriesRef.current ? param.seriesData.get(ratioSeriesRef.current) : undefined;
 
         tooltip.style.display = 'block';
-        tooltip.innerHTML = getTooltipContent(assetName, candleData, volumeDataPoint?.value);
+        tooltip.innerHTML = getTooltipContent(assetName, candleData, volumeDataPoint?.value, priceFormat, ratioDataPoint?.value);
 
         const containerWidth = chartContainerRef.current!.clientWidth;
         const tooltipWidth = tooltip.offsetWidth;
@@ -145,12 +253,52 @@ export const Chart: React.FC<ChartProps> = ({ data, assetName }) => {
     chartRef.current.subscribeCrosshairMove(crosshairMoveHandler);
 
     return () => {
-      // The library should handle replacing the listener on re-subscription.
+      // The library should handle replacing the crosshair listener on re-subscription.
+      cancelAnimationFrame(frame);
+      window.removeEventListener('resize', redrawProfile);
+      if (chartRef.current) timeScale.unsubscribeVisibleLogicalRangeChange(redrawProfile);
     }
-  }, [data, assetName]);
+  }, [data, assetName, priceFormat]);
+
+  // Fibonacci levels are price lines on the candles, redrawn when the data or the toggle changes.
+  useEffect(() => {
+    const series = candlestickSeriesRef.current;
+    if (!series || typeof series.createPriceLine !== 'function') {
+        return;
+    }
+    if (data?.fibonacci && showFibonacci) {
+        fibonacciLinesRef.current = fibonacciLevelsWithAnchors(data.fibonacci).map(level => series.createPriceLine({
+            price: level.price,
+            color: level.kind === 'extension' ? '#B794F4' : level.ratio === 0 || level.ratio === 1 ? '#718096' : '#D69E2E',
+            lineWidth: 1,
+            lineStyle: LightweightCharts.LineStyle.Dotted,
+            axisLabelVisible: true,
+            title: `Fib ${fibonacciLabel(level)}`,
+        }));
+    }
+    return () => {
+        if (candlestickSeriesRef.current === series) {
+            fibonacciLinesRef.current.forEach(line => series.removePriceLine(line));
+        }
+        fibonacciLinesRef.current = [];
+    };
+  }, [data, showFibonacci]);
 
   return (
     <div ref={chartContainerRef} style={{ height: '450px', width: '100%', position: 'relative' }}>
+        <canvas
+            ref={profileCanvasRef}
+            style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', pointerEvents: 'none', zIndex: 5 }}
+        />
+        {data?.fibonacci && (
+            <label
+                className="flex items-center gap-1 text-xs text-gray-300 bg-gray-900/80 border border-gray-700 rounded px-2 py-1 cursor-pointer select-none"
+                style={{ position: 'absolute', top: 8, left: '50%', transform: 'translateX(-50%)', zIndex: 6 }}
+            >
+                <input type="checkbox" checked={showFibonacci} onChange={(e) => setShowFibonacci(e.target.checked)} className="h-3 w-3" />
+                Fibonacci
+            </label>
+        )}
         <div
             ref={tooltipRef}
             style={{
@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import type { DataSourceRecord } from '../types';
+import { getProvider } from '../services/marketDataService';
+import { getHealthSnapshot, subscribeToHealth, type SourceHealth, type CircuitState } from '../services/providerHealth';
+
+interface DiagnosticsPanelProps {
+  dataSources: DataSourceRecord[];
+}
+
+const SOURCE_NAMES: Record<string, string> = { cache: 'Local cache', upload: 'Uploaded file' };
+
+const sourceName = (id: string) => SOURCE_NAMES[id] ?? getProvider(id)?.name ?? id;
+
+const stateConfig: Record<CircuitState, { label: string; className: string }> = {
+  closed: { label: 'Healthy', className: 'text-green-400' },
+  'half-open': { label: 'Retrying', className: 'text-yellow-400' },
+  open: { label: 'Skipped', className: 'text-red-400' },
+};
+
+const formatAgo = (time: number | null) => {
+  if (!time) return '—';
+  const seconds = Math.round((Date.now() - time) / 1000);
+  return seconds < 60 ? `${seconds}s ago` : `${Math.round(seconds / 60)}m ago`;
+};
+
+/**
+ * Shows which source served each dataset of the analysis, and the live health
+ * of every provider and proxy contacted this session.
+ */
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ dataSources }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [health, setHealth] = useState<SourceHealth[]>(getHealthSnapshot);
+
+  useEffect(() => subscribeToHealth(() => setHealth(getHealthSnapshot())), []);
+
+  const unhealthy = health.filter(source => source.state !== 'closed').length;
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 text-sm">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        className="w-full flex justify-between items-center px-6 py-3 text-left text-gray-400 hover:text-white"
+      >
+        <span className="font-semibold">Data Source Diagnostics</span>
+        <span className="text-xs">
+          {unhealthy > 0 && <span className="text-yellow-400 mr-3">{unhealthy} source{unhealthy > 1 ? 's' : ''} degraded</span>}
+          {isOpen ? 'Hide' : 'Show'}
+        </span>
+      </button>
+      {isOpen && (
+        <div className="px-6 pb-6 space-y-6">
+          <div className="overflow-x-auto">
+            <h4 className="font-semibold text-white mb-2">Datasets</h4>
+            <table className="w-full text-left">
+              <thead className="text-gray-400 text-xs uppercase">
+                <tr><th className="py-1 pr-4">Dataset</th><th className="py-1 pr-4">Served by</th><th className="py-1 text-right">Bars</th></tr>
+              </thead>
+              <tbody>
+                {dataSources.map((record, i) => (
+                  <tr key={i} className="border-t border-gray-700">
+                    <td className="py-1 pr-4 text-gray-300">{record.dataset}</td>
+                    <td className="py-1 pr-4 text-white">{sourceName(record.source)}</td>
+                    <td className="py-1 text-right font-mono">{record.bars}</td>
+                  </tr>
+                ))}
+                {dataSources.length === 0 && <tr><td colSpan={3} className="py-1 text-gray-500">No market data was fetched for this analysis.</td></tr>}
+              </tbody>
+            </table>
+          </div>
+          <div className="overflow-x-auto">
+            <h4 className="font-semibold text-white mb-2">Provider Health</h4>
+            <table className="w-full text-left">
+              <thead className="text-gray-400 text-xs uppercase">
+                <tr>
+                  <th className="py-1 pr-4">Source</th><th className="py-1 pr-4">Status</th><th className="py-1 pr-4 text-right">OK / Failed</th>
+                  <th className="py-1 pr-4 text-right">Avg latency</th><th className="py-1 pr-4">Last success</th><th className="py-1">Last error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {health.map(source => (
+                  <tr key={source.id} className="border-t border-gray-700 align-top">
+                    <td className="py-1 pr-4 text-white whitespace-nowrap">{source.label}</td>
+                    <td className={`py-1 pr-4 font-semibold whitespace-nowrap ${stateConfig[source.state].className}`}>
+                      {stateConfig[source.state].label}
+                      {source.state === 'open' && source.retryAt && <span className="font-normal text-gray-500"> until {new Date(source.retryAt).toLocaleTimeString()}</span>}
+                    </td>
+                    <td className="py-1 pr-4 text-right font-mono">{source.successes} / {source.failures}</td>
+                    <td className="py-1 pr-4 text-right font-mono">{source.avgLatencyMs === null ? '—' : `${source.avgLatencyMs} ms`}</td>
+                    <td className="py-1 pr-4 whitespace-nowrap">{formatAgo(source.lastSuccessAt)}</td>
+                    <td className="py-1 text-xs text-gray-400">{source.lastError ?? '—'}</td>
+                  </tr>
+                ))}
+                {health.length === 0 && <tr><td colSpan={6} className="py-1 text-gray-500">No provider has been contacted yet.</td></tr>}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
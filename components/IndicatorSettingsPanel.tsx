@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import type { IndicatorPreset, IndicatorSetting, PriceSource } from '../types';
+import {
+  INDICATOR_DEFINITIONS, PRICE_SOURCES, BUILT_IN_PRESETS, MAX_AVERAGES,
+  getSavedPresets, savePreset, deletePreset, normalizeIndicatorSettings,
+} from '../services/indicatorConfig';
+
+interface IndicatorSettingsPanelProps {
+  settings: IndicatorSetting[];
+  onChange: (settings: IndicatorSetting[]) => void;
+  disabled: boolean;
+}
+
+const sameSettings = (a: IndicatorSetting[], b: IndicatorSetting[]) =>
+  JSON.stringify(normalizeIndicatorSettings(a)) === JSON.stringify(normalizeIndicatorSettings(b));
+
+const inputClass = 'bg-gray-900 border border-gray-600 rounded-md py-1 px-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50';
+
+export const IndicatorSettingsPanel: React.FC<IndicatorSettingsPanelProps> = ({ settings, onChange, disabled }) => {
+  const [savedPresets, setSavedPresets] = useState<IndicatorPreset[]>(getSavedPresets);
+  const [presetName, setPresetName] = useState('');
+
+  // The preset matching the current settings, if any; edits turn the selection into "Custom".
+  const activePreset = [...BUILT_IN_PRESETS, ...savedPresets].find(preset => sameSettings(preset.indicators, settings));
+  const trimmedName = presetName.trim();
+  const isReservedName = BUILT_IN_PRESETS.some(preset => preset.name.toLowerCase() === trimmedName.toLowerCase());
+
+  const update = (index: number, change: Partial<IndicatorSetting>) =>
+    onChange(settings.map((setting, i) => (i === index ? { ...setting, ...change } : setting)));
+
+  // Blank fields are kept as NaN while typing and fall back to defaults when the settings are used.
+  const updateParam = (index: number, paramIndex: number, text: string) => {
+    const params = [...settings[index].params];
+    params[paramIndex] = text.trim() === '' ? NaN : Number(text);
+    update(index, { params });
+  };
+
+  const handleSelectPreset = (name: string) => {
+    const preset = [...BUILT_IN_PRESETS, ...savedPresets].find(p => p.name === name);
+    if (preset) onChange(preset.indicators);
+  };
+
+  const handleSavePreset = () => {
+    if (!trimmedName || isReservedName) return;
+    const normalized = normalizeIndicatorSettings(settings);
+    setSavedPresets(savePreset(trimmedName, normalized));
+    onChange(normalized);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = () => {
+    if (activePreset && savedPresets.includes(activePreset)) {
+      setSavedPresets(deletePreset(activePreset.name));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label htmlFor="indicator-preset" className="block text-xs text-gray-400 mb-1">Preset</label>
+          <select
+            id="indicator-preset"
+            value={activePreset?.name ?? ''}
+            onChange={(e) => handleSelectPreset(e.target.value)}
+            disabled={disabled}
+            className={inputClass}
+          >
+            {!activePreset && <option value="">Custom</option>}
+            <optgroup label="Built-in">
+              {BUILT_IN_PRESETS.map(preset => <option key={preset.name} value={preset.name}>{preset.name}</option>)}
+            </optgroup>
+            {savedPresets.length > 0 && (
+              <optgroup label="Saved">
+                {savedPresets.map(preset => <option key={preset.name} value={preset.name}>{preset.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+        </div>
+        {activePreset && savedPresets.includes(activePreset) && (
+          <button
+            type="button"
+            onClick={handleDeletePreset}
+            disabled={disabled}
+            className="text-sm text-red-400 hover:text-red-300 py-1 disabled:opacity-50"
+          >
+            Delete preset
+          </button>
+        )}
+        <div className="flex items-end gap-2 ml-auto">
+          <div>
+            <label htmlFor="indicator-preset-name" className="block text-xs text-gray-400 mb-1">Save current settings as</label>
+            <input
+              type="text"
+              id="indicator-preset-name"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleSavePreset(); } }}
+              disabled={disabled}
+              placeholder="Preset name"
+              className={`${inputClass} ${isReservedName ? 'border-red-500' : ''}`}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleSavePreset}
+            disabled={disabled || !trimmedName || isReservedName}
+            className="bg-gray-700 hover:bg-gray-600 text-white rounded-md px-3 py-1 text-sm font-semibold transition-colors disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+      {isReservedName && <p className="text-xs text-red-400">Built-in preset names cannot be reused.</p>}
+
+      <div className="space-y-2">
+        {settings.map((setting, index) => {
+          const definition = INDICATOR_DEFINITIONS.find(d => d.id === setting.id)!;
+          const paramFields = definition.multiplePeriods
+            ? Array.from({ length: MAX_AVERAGES }, (_, i) => ({ ...definition.params[0], label: `Period ${i + 1}` }))
+            : definition.params;
+          return (
+            <div key={setting.id} className="flex flex-wrap items-center gap-x-4 gap-y-2 border-b border-gray-700/50 pb-2">
+              <div className="flex items-center w-56">
+                <input
+                  type="checkbox"
+                  id={`indicator-${setting.id}`}
+                  checked={setting.enabled}
+                  onChange={(e) => update(index, { enabled: e.target.checked })}
+                  disabled={disabled}
+                  className="h-4 w-4 bg-gray-900 border-gray-600 text-blue-500 focus:ring-2 focus:ring-blue-500 rounded"
+                />
+                <label htmlFor={`indicator-${setting.id}`} className="ml-2 text-sm font-medium text-gray-300">{definition.label}</label>
+              </div>
+              {paramFields.map((param, i) => (
+                <label key={i} className="flex items-center gap-1 text-xs text-gray-400">
+                  {param.label}
+                  <input
+                    type="number"
+                    min={param.min}
+                    max={param.max}
+                    step={param.step}
+                    value={Number.isFinite(setting.params[i]) ? setting.params[i] : ''}
+                    onChange={(e) => updateParam(index, i, e.target.value)}
+                    disabled={disabled || !setting.enabled}
+                    className={`${inputClass} w-20`}
+                  />
+                </label>
+              ))}
+              {definition.usesSource && (
+                <label className="flex items-center gap-1 text-xs text-gray-400">
+                  Source
+                  <select
+                    value={setting.source ?? 'close'}
+                    onChange={(e) => update(index, { source: e.target.value as PriceSource })}
+                    disabled={disabled || !setting.enabled}
+                    className={inputClass}
+                  >
+                    {PRICE_SOURCES.map(source => <option key={source.id} value={source.id}>{source.label}</option>)}
+                  </select>
+                </label>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-gray-500">Moving averages take up to {MAX_AVERAGES} periods; leave a field blank to drop it. Indicators are computed from the market data and reported in the indicator matrix.</p>
+    </div>
+  );
+};
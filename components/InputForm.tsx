@@ -1,9 +1,18 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { UploadIcon } from './icons/Icons';
-import { nifty50, indices, commodities } from '../data/assets';
+import type { AnalysisOptions, IndicatorSetting, PriceAdjustment, SymbolSearchResult, UploadedDataset } from '../types';
+import { UploadIcon, WarningIcon } from './icons/Icons';
+import { SymbolSearch } from './SymbolSearch';
+import { IndicatorSettingsPanel } from './IndicatorSettingsPanel';
+import { parseCandleFile } from '../services/candleFileParser';
+import { DEFAULT_ANALYSIS_OPTIONS } from '../services/geminiService';
+import { parseIntervalSpec, isIntradaySpec } from '../services/resampler';
+import { rememberSymbol } from '../services/symbolSearch';
+import { normalizeIndicatorSettings, selectedIndicatorNames } from '../services/indicatorConfig';
+
+const CUSTOM_INTERVAL_PRESETS = ['1h', '2h', '4h', '2d', '3d', '2w', '3mo'];
 
 interface InputFormProps {
-  onAnalysisRequest: (symbol: string, image: { mimeType: string; data: string } | null, timeframe: string) => void;
+  onAnalysisRequest: (symbol: string, image: { mimeType: string; data: string } | null, timeframe: string, uploadedData: UploadedDataset | null, options: AnalysisOptions) => void;
   isLoading: boolean;
 }
 
@@ -23,11 +32,20 @@ const blobToBase64 = (blob: Blob): Promise<string> => {
 };
 
 export const InputForm: React.FC<InputFormProps> = ({ onAnalysisRequest, isLoading }) => {
-  const [symbol, setSymbol] = useState('');
+  const [asset, setAsset] = useState<SymbolSearchResult | null>(null);
   const [image, setImage] = useState<{ file: File; preview: string } | null>(null);
   const [timeframe, setTimeframe] = useState('Daily');
+  const [priceAdjustment, setPriceAdjustment] = useState<PriceAdjustment>(DEFAULT_ANALYSIS_OPTIONS.priceAdjustment);
+  const [includeExtendedHours, setIncludeExtendedHours] = useState(DEFAULT_ANALYSIS_OPTIONS.includeExtendedHours);
+  const [customInterval, setCustomInterval] = useState('4h');
+  const [customLookbackDays, setCustomLookbackDays] = useState(60);
+  const [indicators, setIndicators] = useState<IndicatorSetting[]>(DEFAULT_ANALYSIS_OPTIONS.indicators);
+  const [showIndicators, setShowIndicators] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
+  const [dataset, setDataset] = useState<UploadedDataset | null>(null);
+  const [dataFileError, setDataFileError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const dataFileInputRef = useRef<HTMLInputElement>(null);
 
   // Effect to clean up the object URL for the image preview to prevent memory leaks.
   useEffect(() => {
@@ -59,6 +77,33 @@ export const InputForm: React.FC<InputFormProps> = ({ onAnalysisRequest, isLoadi
       setImage(null);
   };
 
+  const handleDataFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-selecting the same file after a fix
+    if (!file) return;
+
+    setDataFileError(null);
+    try {
+      const { bars, warnings } = parseCandleFile(file.name, await file.text());
+      setDataset({ name: file.name, bars, warnings });
+    } catch (err) {
+      setDataset(null);
+      setDataFileError(err instanceof Error ? err.message : 'The data file could not be read.');
+    }
+  };
+
+  const handleRemoveDataset = () => {
+    setDataset(null);
+    setDataFileError(null);
+  };
+
+  const symbol = asset?.symbol ?? '';
+  const customSpec = timeframe === 'Custom' ? parseIntervalSpec(customInterval) : null;
+  const isCustomInvalid = timeframe === 'Custom' && !customSpec;
+  const showsIntradayOptions = timeframe === 'Intraday' || (!!customSpec && isIntradaySpec(customSpec));
+
+  const formatBarDate = (time: number) => new Date(time * 1000).toISOString().split('T')[0];
+
   const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
@@ -86,10 +131,16 @@ export const InputForm: React.FC<InputFormProps> = ({ onAnalysisRequest, isLoadi
 
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
-    if (!symbol && !image) {
-      alert('Please select an asset or upload a chart image.');
+    if (!symbol && !image && !dataset) {
+      alert('Please select an asset, upload a chart image or upload market data.');
+      return;
+    }
+    if (isCustomInvalid) {
       return;
     }
+    if (asset) {
+      rememberSymbol(asset);
+    }
     
     let imagePayload: { mimeType: string; data: string } | null = null;
     if (image) {
@@ -97,7 +148,13 @@ export const InputForm: React.FC<InputFormProps> = ({ onAnalysisRequest, isLoadi
       imagePayload = { mimeType: image.file.type, data: base64Data };
     }
 
-    onAnalysisRequest(symbol, imagePayload, timeframe);
+    onAnalysisRequest(symbol, imagePayload, timeframe, dataset, {
+      ...DEFAULT_ANALYSIS_OPTIONS,
+      priceAdjustment,
+      includeExtendedHours,
+      customTimeframe: timeframe === 'Custom' ? { interval: customInterval.trim(), lookbackDays: customLookbackDays } : null,
+      indicators: normalizeIndicatorSettings(indicators),
+    });
   };
 
   return (
@@ -106,37 +163,9 @@ export const InputForm: React.FC<InputFormProps> = ({ onAnalysisRequest, isLoadi
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div>
             <label htmlFor="symbol" className="block text-sm font-medium text-gray-400 mb-1">
-              Select an Asset
+              Search for an Asset
             </label>
-            <div className="relative">
-              <select
-                id="symbol"
-                value={symbol}
-                onChange={(e) => setSymbol(e.target.value)}
-                className="w-full bg-gray-900 border border-gray-600 rounded-md py-2 pl-4 pr-10 focus:ring-2 focus:ring-blue-500 focus:outline-none appearance-none"
-                disabled={isLoading}
-              >
-                <option value="" disabled>-- Select an Asset --</option>
-                <optgroup label="Nifty 50">
-                  {nifty50.map(stock => (
-                    <option key={stock.symbol} value={stock.symbol}>{stock.name}</option>
-                  ))}
-                </optgroup>
-                <optgroup label="Major World Indices">
-                  {indices.map(index => (
-                    <option key={index.symbol} value={index.symbol}>{index.name}</option>
-                  ))}
-                </optgroup>
-                <optgroup label="Major Commodities">
-                  {commodities.map(commodity => (
-                    <option key={commodity.symbol} value={commodity.symbol}>{commodity.name}</option>
-                  ))}
-                </optgroup>
-              </select>
-               <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-400">
-                  <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20"><path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z"/></svg>
-               </div>
-            </div>
+            <SymbolSearch selected={asset} onSelect={setAsset} disabled={isLoading} />
             <p className="text-xs text-gray-500 mt-1">Or upload a chart image to analyze any asset.</p>
           </div>
           <div>
@@ -197,32 +226,178 @@ export const InputForm: React.FC<InputFormProps> = ({ onAnalysisRequest, isLoadi
           </div>
         </div>
         <div>
-          <label className="block text-sm font-medium text-gray-400 mb-2">
-            Preferred Timeframe
+          <label className="block text-sm font-medium text-gray-400 mb-1">
+            Upload Market Data (Optional)
           </label>
-          <div className="flex flex-wrap gap-x-6 gap-y-2">
-            {['Intraday', 'Daily', 'Weekly', 'Monthly'].map((tf) => (
-              <div key={tf} className="flex items-center">
+          <input
+            type="file"
+            ref={dataFileInputRef}
+            onChange={handleDataFileChange}
+            className="hidden"
+            accept=".csv,.json,.txt,text/csv,application/json"
+            disabled={isLoading}
+          />
+          {dataset ? (
+            <div className="flex flex-wrap items-center justify-between gap-2 bg-gray-900 border border-gray-600 rounded-md px-4 py-2 text-sm">
+              <div>
+                <p className="font-semibold text-white">{dataset.name}</p>
+                <p className="text-gray-400">
+                  {dataset.bars.length} candles, {formatBarDate(dataset.bars[0].time)} to {formatBarDate(dataset.bars[dataset.bars.length - 1].time)}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={handleRemoveDataset}
+                disabled={isLoading}
+                className="bg-red-600/80 hover:bg-red-500 text-white rounded-md px-3 py-1 text-sm font-semibold transition-colors disabled:opacity-50"
+              >
+                Remove
+              </button>
+              {dataset.warnings.length > 0 && (
+                <ul className="w-full space-y-1 text-xs text-yellow-400">
+                  {dataset.warnings.map((warning, i) => (
+                    <li key={i} className="flex items-start"><WarningIcon className="h-4 w-4 mr-1 flex-shrink-0" />{warning}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => dataFileInputRef.current?.click()}
+              disabled={isLoading}
+              className="w-full bg-gray-900 border border-gray-600 border-dashed rounded-md py-2 px-4 text-sm text-blue-400 hover:border-blue-500 transition-colors disabled:opacity-50"
+            >
+              Click to upload a CSV or JSON candle export (Date, Open, High, Low, Close, Volume)
+            </button>
+          )}
+          {dataFileError && <p className="text-xs text-red-400 mt-1">{dataFileError}</p>}
+          <p className="text-xs text-gray-500 mt-1">Uploaded data is analyzed directly; no market data provider is contacted.</p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">
+              Preferred Timeframe
+            </label>
+            <div className="flex flex-wrap gap-x-6 gap-y-2">
+              {['Intraday', 'Daily', 'Weekly', 'Monthly', 'Custom'].map((tf) => (
+                <div key={tf} className="flex items-center">
+                  <input
+                    type="radio"
+                    id={`timeframe-${tf.toLowerCase()}`}
+                    name="timeframe"
+                    value={tf}
+                    checked={timeframe === tf}
+                    onChange={() => setTimeframe(tf)}
+                    disabled={isLoading}
+                    className="h-4 w-4 bg-gray-900 border-gray-600 text-blue-500 focus:ring-2 focus:ring-blue-500"
+                  />
+                  <label htmlFor={`timeframe-${tf.toLowerCase()}`} className="ml-2 block text-sm font-medium text-gray-300">
+                    {tf}
+                  </label>
+                </div>
+              ))}
+            </div>
+            {timeframe === 'Custom' && (
+              <div className="grid grid-cols-2 gap-4 mt-3">
+                <div>
+                  <label htmlFor="custom-interval" className="block text-xs text-gray-400 mb-1">Candle Interval</label>
+                  <input
+                    type="text"
+                    id="custom-interval"
+                    list="custom-interval-presets"
+                    value={customInterval}
+                    onChange={(e) => setCustomInterval(e.target.value)}
+                    disabled={isLoading}
+                    placeholder="e.g. 4h, 2d, 2w"
+                    className={`w-full bg-gray-900 border rounded-md py-1 px-3 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none ${isCustomInvalid ? 'border-red-500' : 'border-gray-600'}`}
+                  />
+                  <datalist id="custom-interval-presets">
+                    {CUSTOM_INTERVAL_PRESETS.map(preset => <option key={preset} value={preset} />)}
+                  </datalist>
+                </div>
+                <div>
+                  <label htmlFor="custom-lookback" className="block text-xs text-gray-400 mb-1">Lookback (days, 0 = max)</label>
+                  <input
+                    type="number"
+                    id="custom-lookback"
+                    min={0}
+                    value={customLookbackDays}
+                    onChange={(e) => setCustomLookbackDays(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                    disabled={isLoading}
+                    className="w-full bg-gray-900 border border-gray-600 rounded-md py-1 px-3 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  />
+                </div>
+                <p className={`col-span-2 text-xs ${isCustomInvalid ? 'text-red-400' : 'text-gray-500'}`}>
+                  {isCustomInvalid
+                    ? 'Enter a number and a unit: m, h, d (trading days), w or mo.'
+                    : 'Candles are built locally from finer provider data. Minute intervals reach back 7-60 days, hourly multiples 730 days.'}
+                </p>
+              </div>
+            )}
+            {showsIntradayOptions && (
+              <div className="flex items-center mt-2">
                 <input
-                  type="radio"
-                  id={`timeframe-${tf.toLowerCase()}`}
-                  name="timeframe"
-                  value={tf}
-                  checked={timeframe === tf}
-                  onChange={() => setTimeframe(tf)}
+                  type="checkbox"
+                  id="extended-hours"
+                  checked={includeExtendedHours}
+                  onChange={(e) => setIncludeExtendedHours(e.target.checked)}
                   disabled={isLoading}
-                  className="h-4 w-4 bg-gray-900 border-gray-600 text-blue-500 focus:ring-2 focus:ring-blue-500"
+                  className="h-4 w-4 bg-gray-900 border-gray-600 text-blue-500 focus:ring-2 focus:ring-blue-500 rounded"
                 />
-                <label htmlFor={`timeframe-${tf.toLowerCase()}`} className="ml-2 block text-sm font-medium text-gray-300">
-                  {tf}
+                <label htmlFor="extended-hours" className="ml-2 block text-sm text-gray-400">
+                  Include pre/post-market bars
                 </label>
               </div>
-            ))}
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">
+              Price Data
+            </label>
+            <div className="flex flex-wrap gap-x-6 gap-y-2">
+              {([['adjusted', 'Split & Dividend Adjusted'], ['raw', 'Raw (Unadjusted)']] as [PriceAdjustment, string][]).map(([value, label]) => (
+                <div key={value} className="flex items-center">
+                  <input
+                    type="radio"
+                    id={`adjustment-${value}`}
+                    name="priceAdjustment"
+                    value={value}
+                    checked={priceAdjustment === value}
+                    onChange={() => setPriceAdjustment(value)}
+                    disabled={isLoading}
+                    className="h-4 w-4 bg-gray-900 border-gray-600 text-blue-500 focus:ring-2 focus:ring-blue-500"
+                  />
+                  <label htmlFor={`adjustment-${value}`} className="ml-2 block text-sm font-medium text-gray-300">
+                    {label}
+                  </label>
+                </div>
+              ))}
+            </div>
           </div>
         </div>
+        <div className="border border-gray-700 rounded-md">
+          <button
+            type="button"
+            onClick={() => setShowIndicators(open => !open)}
+            aria-expanded={showIndicators}
+            className="w-full flex justify-between items-center px-4 py-2 text-left text-sm text-gray-400 hover:text-white"
+          >
+            <span className="font-medium">Indicators</span>
+            <span className="text-xs">
+              <span className="mr-3">{selectedIndicatorNames(normalizeIndicatorSettings(indicators)).length} selected</span>
+              {showIndicators ? 'Hide' : 'Customize'}
+            </span>
+          </button>
+          {showIndicators && (
+            <div className="px-4 pb-4">
+              <IndicatorSettingsPanel settings={indicators} onChange={setIndicators} disabled={isLoading} />
+            </div>
+          )}
+        </div>
         <button
           type="submit"
-          disabled={isLoading || (!symbol && !image)}
+          disabled={isLoading || isCustomInvalid || (!symbol && !image && !dataset)}
           className="w-full bg-blue-500 hover:bg-blue-600 text-white font-bold py-3 px-4 rounded-md transition-all duration-200 disabled:bg-gray-600 disabled:cursor-not-allowed flex items-center justify-center"
         >
           {isLoading ? (
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import type { PriceFormat, TradeSetup, TradeSetupData } from '../types';
+import { formatPrice } from '../services/priceFormat';
+import {
+  computePositionSize, atrStops, parsePriceText, getRiskSettings, saveRiskSettings, type RiskSettings,
+} from '../services/positionSizing';
+
+interface RiskCalculatorProps {
+  setups: TradeSetupData;
+  atrValue: number | null;
+  priceFormat: PriceFormat;
+}
+
+const SETTING_FIELDS: { key: keyof RiskSettings; label: string; step: number }[] = [
+  { key: 'accountSize', label: 'Account size', step: 100 },
+  { key: 'riskPercent', label: 'Risk per trade (%)', step: 0.1 },
+  { key: 'lotSize', label: 'Lot size', step: 1 },
+  { key: 'commission', label: 'Commission per order', step: 0.5 },
+];
+
+const inputClass = 'bg-gray-900 border border-gray-600 rounded-md py-1 px-2 text-sm w-full focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+const formatMoney = (value: number, format: PriceFormat) =>
+  `${value < 0 ? '-' : ''}${format.currencySymbol}${new Intl.NumberFormat(format.locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(Math.abs(value))}`;
+
+const formatRatio = (value: number | null) => (value === null ? 'N/A' : `${value.toFixed(2)}R`);
+
+const priceFromField = (text: string): number | null => {
+  const value = Number(text);
+  return text.trim() !== '' && isFinite(value) && value > 0 ? value : null;
+};
+
+const SetupRisk: React.FC<{ title: string; setup: TradeSetup; settings: RiskSettings; atrValue: number | null; priceFormat: PriceFormat }> = ({ title, setup, settings, atrValue, priceFormat }) => {
+  // Entry and stop start from the prices read out of the setup text and can be corrected when that reading is off.
+  const [entryText, setEntryText] = useState(() => String(parsePriceText(setup.entry) ?? ''));
+  const [stopText, setStopText] = useState(() => String(parsePriceText(setup.stopLoss) ?? ''));
+  const entry = priceFromField(entryText);
+  const stop = priceFromField(stopText);
+  const targets = [
+    { label: 'Target 1', price: parsePriceText(setup.target1) },
+    { label: 'Target 2', price: parsePriceText(setup.target2) },
+  ].filter((target): target is { label: string; price: number } => target.price !== null);
+  const position = entry !== null && stop !== null ? computePositionSize(entry, stop, targets, settings) : null;
+
+  const priceFields = (
+    <div className="grid grid-cols-2 gap-3 mb-3">
+      <label className="text-xs text-gray-400" title={`Setup: ${setup.entry}`}>
+        Entry
+        <input type="number" min={0} step="any" value={entryText} onChange={(e) => setEntryText(e.target.value)} className={`${inputClass} mt-1`} />
+      </label>
+      <label className="text-xs text-gray-400" title={`Setup: ${setup.stopLoss}`}>
+        Stop loss
+        <input type="number" min={0} step="any" value={stopText} onChange={(e) => setStopText(e.target.value)} className={`${inputClass} mt-1`} />
+      </label>
+    </div>
+  );
+
+  if (!position) {
+    return (
+      <div>
+        <h4 className="font-semibold text-white mb-2">{title}</h4>
+        {priceFields}
+        <p className="text-sm text-gray-400">The entry and stop loss need to be two different prices to size a position.</p>
+      </div>
+    );
+  }
+
+  const lotDecimals = (String(settings.lotSize).split('.')[1] ?? '').length;
+  const quantity = (value: number) => value.toLocaleString(priceFormat.locale, { minimumFractionDigits: lotDecimals, maximumFractionDigits: lotDecimals });
+  const riskShare = settings.accountSize > 0 ? (position.capitalAtRisk / settings.accountSize) * 100 : 0;
+
+  return (
+    <div>
+      <h4 className="font-semibold text-white mb-2">
+        {title} <span className="text-xs font-normal text-gray-400 uppercase">{position.direction}</span>
+      </h4>
+      {priceFields}
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+        <dt className="text-gray-400">Quantity</dt>
+        <dd className="font-mono text-right text-white font-semibold">{quantity(position.quantity)}</dd>
+        <dt className="text-gray-400">Position value</dt>
+        <dd className={`font-mono text-right ${position.exceedsAccount ? 'text-yellow-400' : ''}`}>{formatMoney(position.positionValue, priceFormat)}</dd>
+        <dt className="text-gray-400">Capital at risk</dt>
+        <dd className="font-mono text-right">{formatMoney(position.capitalAtRisk, priceFormat)} ({riskShare.toFixed(2)}%)</dd>
+        <dt className="text-gray-400">Break-even</dt>
+        <dd className="font-mono text-right">{formatPrice(position.breakEven, priceFormat)}</dd>
+      </dl>
+      {position.quantity === 0 && (
+        <p className="text-xs text-yellow-400 mt-2">The risk budget of {formatMoney(position.riskBudget, priceFormat)} does not cover one lot and the commissions at this stop.</p>
+      )}
+      {position.exceedsAccount && (
+        <p className="text-xs text-yellow-400 mt-2">The position is worth more than the account and needs leverage.</p>
+      )}
+
+      {position.targets.length > 0 && (
+        <table className="w-full text-xs mt-3">
+          <thead className="text-gray-400">
+            <tr>
+              <th className="text-left font-normal py-1">Target</th>
+              <th className="text-right font-normal py-1">Price</th>
+              <th className="text-right font-normal py-1">Reward:Risk</th>
+              <th className="text-right font-normal py-1">Profit</th>
+              <th className="text-right font-normal py-1" title="Share of trades that must reach this target to break even">Win rate needed</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {position.targets.map(target => (
+              <tr key={target.label} className="border-t border-gray-700/50">
+                <td className="py-1 font-sans">{target.label}</td>
+                <td className="py-1 text-right">{formatPrice(target.price, priceFormat)}</td>
+                <td className={`py-1 text-right ${target.rewardToRisk === null ? 'text-red-400' : target.rewardToRisk >= 2 ? 'text-green-400' : ''}`}>{formatRatio(target.rewardToRisk)}</td>
+                <td className="py-1 text-right">{target.profit === null ? 'N/A' : formatMoney(target.profit, priceFormat)}</td>
+                <td className="py-1 text-right">{target.breakEvenWinRate === null ? 'N/A' : `${(target.breakEvenWinRate * 100).toFixed(0)}%`}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {atrValue !== null && atrValue > 0 && (
+        <table className="w-full text-xs mt-3">
+          <thead className="text-gray-400">
+            <tr>
+              <th className="text-left font-normal py-1">ATR stop ({formatPrice(atrValue, priceFormat)})</th>
+              <th className="text-right font-normal py-1">Stop</th>
+              <th className="text-right font-normal py-1">Quantity</th>
+              <th className="text-right font-normal py-1">R:R to first target</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {atrStops(position, atrValue, settings).map(alternative => (
+              <tr key={alternative.multiple} className="border-t border-gray-700/50">
+                <td className="py-1 font-sans">{alternative.multiple}× ATR</td>
+                <td className="py-1 text-right">{formatPrice(alternative.stop, priceFormat)}</td>
+                <td className="py-1 text-right">{quantity(alternative.quantity)}</td>
+                <td className="py-1 text-right">{formatRatio(alternative.rewardToRisk)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export const RiskCalculator: React.FC<RiskCalculatorProps> = ({ setups, atrValue, priceFormat }) => {
+  const [settings, setSettings] = useState<RiskSettings>(getRiskSettings);
+  // Field text is kept separately so a field can be blank or half-typed while the last valid value stays in use.
+  const [fields, setFields] = useState<Record<keyof RiskSettings, string>>(() => ({
+    accountSize: String(settings.accountSize),
+    riskPercent: String(settings.riskPercent),
+    lotSize: String(settings.lotSize),
+    commission: String(settings.commission),
+  }));
+
+  const handleChange = (key: keyof RiskSettings, text: string) => {
+    setFields(current => ({ ...current, [key]: text }));
+    const value = Number(text);
+    const valid = text.trim() !== '' && isFinite(value) && (key === 'lotSize' ? value > 0 : value >= 0);
+    if (valid) {
+      const next = { ...settings, [key]: value };
+      setSettings(next);
+      saveRiskSettings(next);
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-700">
+      <h4 className="text-sm font-semibold text-white mb-3">Position Sizing</h4>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        {SETTING_FIELDS.map(field => (
+          <label key={field.key} className="text-xs text-gray-400">
+            {field.label}
+            <input
+              type="number"
+              min={0}
+              step={field.step}
+              value={fields[field.key]}
+              onChange={(e) => handleChange(field.key, e.target.value)}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {setups.bullish && <SetupRisk key={`${setups.bullish.entry}|${setups.bullish.stopLoss}`} title="Bullish Scenario" setup={setups.bullish} settings={settings} atrValue={atrValue} priceFormat={priceFormat} />}
+        {setups.bearish && <SetupRisk key={`${setups.bearish.entry}|${setups.bearish.stopLoss}`} title="Bearish Scenario" setup={setups.bearish} settings={settings} atrValue={atrValue} priceFormat={priceFormat} />}
+      </div>
+      <p className="text-xs text-gray-500 mt-3">
+        Quantities risk at most {settings.riskPercent}% of the account between entry and stop, including a commission on entry and exit, rounded down to whole lots. Amounts are in the instrument's currency.
+      </p>
+    </div>
+  );
+};
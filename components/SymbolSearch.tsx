@@ -0,0 +1,182 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { SymbolSearchResult } from '../types';
+import { SearchIcon } from './icons/Icons';
+import { instrumentIndex, getRecentSymbols, validateSymbol } from '../services/symbolSearch';
+import { searchSymbols } from '../services/marketDataService';
+
+interface SymbolSearchProps {
+  selected: SymbolSearchResult | null;
+  onSelect: (result: SymbolSearchResult | null) => void;
+  disabled: boolean;
+}
+
+interface Option {
+  result: SymbolSearchResult;
+  group: string;
+}
+
+const REMOTE_SEARCH_DELAY_MS = 350;
+
+const formatSelection = (result: SymbolSearchResult) => result.name === result.symbol ? result.symbol : `${result.name} (${result.symbol})`;
+
+export const SymbolSearch: React.FC<SymbolSearchProps> = ({ selected, onSelect, disabled }) => {
+  const [query, setQuery] = useState(selected ? formatSelection(selected) : '');
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const [remoteResults, setRemoteResults] = useState<SymbolSearchResult[]>([]);
+  const [isValidating, setIsValidating] = useState(false);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const remoteRequestId = useRef(0);
+
+  const isEditing = !selected || query !== formatSelection(selected);
+  const searchText = isEditing ? query.trim() : '';
+
+  // Provider search fills in instruments missing from the local master.
+  useEffect(() => {
+    const requestId = ++remoteRequestId.current;
+    setRemoteResults([]);
+    if (searchText.length < 2) return;
+
+    const timer = setTimeout(async () => {
+      const results = await searchSymbols(searchText);
+      if (requestId === remoteRequestId.current) setRemoteResults(results);
+    }, REMOTE_SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  const localResults = searchText ? instrumentIndex.search(searchText) : [];
+  const localSymbols = new Set(localResults.map(result => result.symbol));
+  const options: Option[] = searchText
+    ? [
+        ...localResults.map(result => ({ result, group: 'Instruments' })),
+        ...remoteResults.filter(result => !localSymbols.has(result.symbol)).slice(0, 5).map(result => ({ result, group: 'From data provider' })),
+      ]
+    : getRecentSymbols().map(result => ({ result, group: 'Recent' }));
+
+  // A typed ticker can always be submitted as-is; it is validated before use.
+  const freeFormSymbol = searchText && /^[A-Za-z0-9^=.&-]{1,20}$/.test(searchText) && !options.some(o => o.result.symbol.toUpperCase() === searchText.toUpperCase())
+    ? searchText.toUpperCase()
+    : null;
+  const optionCount = options.length + (freeFormSymbol ? 1 : 0);
+
+  const choose = (result: SymbolSearchResult) => {
+    setQuery(formatSelection(result));
+    setIsOpen(false);
+    setValidationError(null);
+    onSelect(result);
+  };
+
+  const chooseFreeForm = async (symbol: string) => {
+    setIsOpen(false);
+    setIsValidating(true);
+    setValidationError(null);
+    try {
+      const result = await validateSymbol(symbol);
+      if (result) {
+        choose(result);
+      } else {
+        setValidationError(`'${symbol}' was not recognized by the active data provider.`);
+      }
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const chooseHighlighted = () => {
+    if (highlighted < options.length) choose(options[highlighted].result);
+    else if (freeFormSymbol) chooseFreeForm(freeFormSymbol);
+  };
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setQuery(event.target.value);
+    setIsOpen(true);
+    setHighlighted(0);
+    setValidationError(null);
+    if (selected) onSelect(null);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setIsOpen(true);
+        if (optionCount) setHighlighted(i => (i + 1) % optionCount);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        if (optionCount) setHighlighted(i => (i - 1 + optionCount) % optionCount);
+        break;
+      case 'Enter':
+        // Keep Enter from submitting the form while a choice is pending.
+        if (isOpen && optionCount) {
+          event.preventDefault();
+          chooseHighlighted();
+        } else if (isEditing && searchText) {
+          event.preventDefault();
+        }
+        break;
+      case 'Escape':
+        setIsOpen(false);
+        break;
+    }
+  };
+
+  const renderOption = (result: SymbolSearchResult, index: number, label?: string) => (
+    <li
+      key={`${result.symbol}-${index}`}
+      id={`symbol-option-${index}`}
+      role="option"
+      aria-selected={highlighted === index}
+      onMouseDown={(e) => e.preventDefault()}
+      onMouseEnter={() => setHighlighted(index)}
+      onClick={() => label ? chooseFreeForm(result.symbol) : choose(result)}
+      className={`flex justify-between items-center gap-2 px-4 py-2 cursor-pointer text-sm ${highlighted === index ? 'bg-blue-500/20' : ''}`}
+    >
+      <span className="truncate text-white">{label ?? result.name}</span>
+      <span className="flex-shrink-0 font-mono text-xs text-gray-400">
+        {result.symbol}{result.exchange ? ` · ${result.exchange}` : ''}
+      </span>
+    </li>
+  );
+
+  return (
+    <div className="relative">
+      <div className="relative">
+        <SearchIcon className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-500" />
+        <input
+          id="symbol"
+          type="text"
+          role="combobox"
+          aria-expanded={isOpen}
+          aria-controls="symbol-options"
+          aria-autocomplete="list"
+          aria-activedescendant={isOpen && optionCount ? `symbol-option-${highlighted}` : undefined}
+          autoComplete="off"
+          value={query}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          placeholder="Search by name, ticker or ISIN (e.g. Reliance, AAPL, NIFTY)"
+          disabled={disabled || isValidating}
+          className="w-full bg-gray-900 border border-gray-600 rounded-md py-2 pl-9 pr-4 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+        />
+      </div>
+      {isOpen && optionCount > 0 && (
+        <ul id="symbol-options" role="listbox" className="absolute z-20 mt-1 w-full max-h-72 overflow-y-auto bg-gray-800 border border-gray-600 rounded-md shadow-lg">
+          {options.map((option, index) => (
+            <React.Fragment key={`${option.result.symbol}-${index}`}>
+              {(index === 0 || options[index - 1].group !== option.group) && (
+                <li role="presentation" className="px-4 pt-2 pb-1 text-xs font-semibold uppercase text-gray-500">{option.group}</li>
+              )}
+              {renderOption(option.result, index)}
+            </React.Fragment>
+          ))}
+          {freeFormSymbol && renderOption({ symbol: freeFormSymbol, name: freeFormSymbol }, options.length, `Use ticker "${freeFormSymbol}"`)}
+        </ul>
+      )}
+      {isValidating && <p className="text-xs text-gray-400 mt-1">Checking ticker with the data provider...</p>}
+      {validationError && <p className="text-xs text-red-400 mt-1">{validationError}</p>}
+    </div>
+  );
+};
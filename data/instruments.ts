@@ -0,0 +1,88 @@
+import type { Instrument } from '../types';
+import { NIFTY_50 } from './universes/nifty50';
+import { SP_500 } from './universes/sp500';
+import { ETFS } from './universes/etfs';
+import { INDICES } from './universes/indices';
+import { COMMODITIES } from './universes/commodities';
+import { CRYPTO } from './universes/crypto';
+import { FX } from './universes/fx';
+
+// NOTE: Symbols are in the format for the Yahoo Finance API.
+
+// Common abbreviations and former names that users type instead of the listed name.
+const ALIASES: Record<string, string[]> = {
+    'RELIANCE.NS': ['RIL'],
+    'SBIN.NS': ['SBI'],
+    'LT.NS': ['L&T', 'L and T'],
+    'HINDUNILVR.NS': ['HUL'],
+    'M&M.NS': ['Mahindra', 'M and M'],
+    'TCS.NS': ['TCS'],
+    'INFY.NS': ['Infosys'],
+    'HCLTECH.NS': ['HCL'],
+    'BHARTIARTL.NS': ['Airtel'],
+    'BAJFINANCE.NS': ['Bajaj Fin'],
+    'POWERGRID.NS': ['PGCIL'],
+    'ONGC.NS': ['Oil and Natural Gas'],
+    'LTIM.NS': ['LTI', 'Mindtree'],
+    'SHRIRAMFIN.NS': ['Shriram Transport'],
+    'GOOGL': ['Google'],
+    'GOOG': ['Google'],
+    'META': ['Facebook', 'FB'],
+    'BRK-B': ['Berkshire', 'BRK.B'],
+    'BF-B': ['BF.B'],
+    'JPM': ['JP Morgan', 'Chase'],
+    'GS': ['Goldman'],
+    'JNJ': ['J&J'],
+    'LLY': ['Lilly'],
+    'XOM': ['Exxon'],
+    'PG': ['P&G'],
+    'KO': ['Coke'],
+    'DIS': ['Disney'],
+    'XYZ': ['Square', 'SQ'],
+};
+
+const ISINS: Record<string, string> = {
+    'RELIANCE.NS': 'INE002A01018',
+    'TCS.NS': 'INE467B01029',
+    'INFY.NS': 'INE009A01021',
+    'HDFCBANK.NS': 'INE040A01034',
+    'ICICIBANK.NS': 'INE090A01021',
+    'ITC.NS': 'INE154A01025',
+    'SBIN.NS': 'INE062A01020',
+    'BHARTIARTL.NS': 'INE397D01024',
+    'HINDUNILVR.NS': 'INE030A01027',
+    'LT.NS': 'INE018A01030',
+    'WIPRO.NS': 'INE075A01022',
+    'AXISBANK.NS': 'INE238A01034',
+    'KOTAKBANK.NS': 'INE237A01028',
+    'MARUTI.NS': 'INE585B01010',
+    'AAPL': 'US0378331005',
+    'MSFT': 'US5949181045',
+    'AMZN': 'US0231351067',
+    'GOOGL': 'US02079K3059',
+    'TSLA': 'US88160R1014',
+    'NVDA': 'US67066G1040',
+    'META': 'US30303M1027',
+    'JPM': 'US46625H1005',
+};
+
+const withIdentifiers = (instrument: Instrument): Instrument => ({
+    ...instrument,
+    isin: instrument.isin ?? ISINS[instrument.symbol],
+    aliases: ALIASES[instrument.symbol] ? [...(instrument.aliases ?? []), ...ALIASES[instrument.symbol]] : instrument.aliases,
+});
+
+/**
+ * The local instrument master: symbol search, trading calendars, provider routing
+ * and benchmarks all read instrument metadata from here. Provider search covers
+ * anything missing from it.
+ */
+export const INSTRUMENTS: Instrument[] = [
+    ...NIFTY_50,
+    ...SP_500,
+    ...ETFS,
+    ...INDICES,
+    ...COMMODITIES,
+    ...CRYPTO,
+    ...FX,
+].map(withIdentifiers);
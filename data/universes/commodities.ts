@@ -0,0 +1,30 @@
+import type { Instrument } from '../../types';
+
+// Front-month US futures, which trade on CME Globex nearly around the clock.
+
+// [symbol, name, venue, tick size, aliases]
+const ROWS: [string, string, string, number, string[]][] = [
+    ["GC=F", "Gold", "COMEX", 0.1, ["GOLD", "XAU"]],
+    ["SI=F", "Silver", "COMEX", 0.005, ["SILVER", "XAG"]],
+    ["HG=F", "Copper", "COMEX", 0.0005, ["COPPER"]],
+    ["PL=F", "Platinum", "NYMEX", 0.1, ["PLATINUM"]],
+    ["CL=F", "Crude Oil (WTI)", "NYMEX", 0.01, ["CRUDE", "OIL", "WTI"]],
+    ["BZ=F", "Brent Crude Oil", "NYMEX", 0.01, ["BRENT"]],
+    ["NG=F", "Natural Gas", "NYMEX", 0.001, ["NATGAS", "Gas"]],
+    ["ZW=F", "Wheat", "CBOT", 0.25, ["WHEAT"]],
+    ["ZC=F", "Corn", "CBOT", 0.25, ["CORN"]],
+];
+
+export const COMMODITIES: Instrument[] = ROWS.map(([symbol, name, exchange, tickSize, aliases]) => ({
+    symbol,
+    name,
+    exchange,
+    exchangeCode: 'CME',
+    assetClass: 'commodity',
+    currency: 'USD',
+    timeZone: 'America/Chicago',
+    tickSize,
+    lotSize: 1, // one contract
+    benchmark: '^GSPC',
+    aliases,
+}));
@@ -0,0 +1,49 @@
+import type { Instrument } from '../../types';
+
+// Major cryptocurrencies by market capitalisation, quoted against USD. They trade
+// around the clock, so they share the CRYPTO calendar.
+
+// [symbol, name, category, tick size, lot size]
+const ROWS: [string, string, string, number, number][] = [
+    ["BTC-USD", "Bitcoin", "Layer 1", 0.01, 0.00001],
+    ["ETH-USD", "Ethereum", "Layer 1", 0.01, 0.0001],
+    ["USDT-USD", "Tether", "Stablecoin", 0.0001, 1],
+    ["BNB-USD", "BNB", "Exchange Token", 0.01, 0.001],
+    ["SOL-USD", "Solana", "Layer 1", 0.01, 0.001],
+    ["XRP-USD", "XRP", "Payments", 0.0001, 1],
+    ["USDC-USD", "USD Coin", "Stablecoin", 0.0001, 1],
+    ["DOGE-USD", "Dogecoin", "Meme", 0.00001, 1],
+    ["ADA-USD", "Cardano", "Layer 1", 0.0001, 1],
+    ["TRX-USD", "TRON", "Layer 1", 0.00001, 1],
+    ["AVAX-USD", "Avalanche", "Layer 1", 0.01, 0.01],
+    ["LINK-USD", "Chainlink", "Oracle", 0.001, 0.01],
+    ["DOT-USD", "Polkadot", "Layer 0", 0.001, 0.01],
+    ["LTC-USD", "Litecoin", "Payments", 0.01, 0.001],
+    ["BCH-USD", "Bitcoin Cash", "Payments", 0.01, 0.001],
+    ["XLM-USD", "Stellar", "Payments", 0.00001, 1],
+    ["ATOM-USD", "Cosmos", "Layer 0", 0.001, 0.01],
+    ["ETC-USD", "Ethereum Classic", "Layer 1", 0.01, 0.01],
+    ["SHIB-USD", "Shiba Inu", "Meme", 0.00000001, 1000],
+    ["NEAR-USD", "NEAR Protocol", "Layer 1", 0.001, 0.1],
+    ["XMR-USD", "Monero", "Privacy", 0.01, 0.001],
+    ["HBAR-USD", "Hedera", "Layer 1", 0.00001, 1],
+    ["FIL-USD", "Filecoin", "Storage", 0.001, 0.01],
+    ["AAVE-USD", "Aave", "DeFi", 0.01, 0.001],
+    ["ALGO-USD", "Algorand", "Layer 1", 0.0001, 1],
+];
+
+export const CRYPTO: Instrument[] = ROWS.map(([symbol, name, sector, tickSize, lotSize]) => ({
+    symbol,
+    name,
+    sector,
+    exchange: 'Crypto',
+    exchangeCode: 'CRYPTO',
+    assetClass: 'crypto',
+    currency: 'USD',
+    timeZone: 'UTC',
+    tickSize,
+    lotSize,
+    // Altcoins move with Bitcoin far more than with any equity index.
+    benchmark: symbol === 'BTC-USD' ? '^GSPC' : 'BTC-USD',
+    aliases: [symbol.replace('-USD', ''), symbol.replace('-', '/')],
+}));
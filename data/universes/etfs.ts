@@ -0,0 +1,32 @@
+import type { Instrument } from '../../types';
+
+// Widely traded US-listed ETFs.
+
+// [symbol, name, venue, category]
+const ROWS: [string, string, string, string][] = [
+    ["SPY", "SPDR S&P 500 ETF Trust", "NYSE Arca", "US Equity"],
+    ["QQQ", "Invesco QQQ Trust", "NASDAQ", "US Equity"],
+    ["DIA", "SPDR Dow Jones Industrial Average ETF", "NYSE Arca", "US Equity"],
+    ["IWM", "iShares Russell 2000 ETF", "NYSE Arca", "US Equity"],
+    ["VTI", "Vanguard Total Stock Market ETF", "NYSE Arca", "US Equity"],
+    ["EEM", "iShares MSCI Emerging Markets ETF", "NYSE Arca", "International Equity"],
+    ["INDA", "iShares MSCI India ETF", "BATS", "International Equity"],
+    ["TLT", "iShares 20+ Year Treasury Bond ETF", "NASDAQ", "Fixed Income"],
+    ["GLD", "SPDR Gold Shares", "NYSE Arca", "Commodity"],
+    ["SLV", "iShares Silver Trust", "NYSE Arca", "Commodity"],
+    ["USO", "United States Oil Fund", "NYSE Arca", "Commodity"],
+];
+
+export const ETFS: Instrument[] = ROWS.map(([symbol, name, exchange, sector]) => ({
+    symbol,
+    name,
+    sector,
+    exchange,
+    exchangeCode: exchange === 'NASDAQ' ? 'NASDAQ' : 'NYSE',
+    assetClass: 'equity',
+    currency: 'USD',
+    timeZone: 'America/New_York',
+    tickSize: 0.01,
+    lotSize: 1,
+    benchmark: '^GSPC',
+}));
@@ -0,0 +1,45 @@
+import type { Instrument } from '../../types';
+
+// Spot currency pairs. Prices are in the quote currency (the second one), and
+// the market runs from Sunday 17:00 to Friday 17:00 New York time.
+
+const CURRENCY_NAMES: Record<string, string> = {
+    USD: 'US Dollar',
+    EUR: 'Euro',
+    GBP: 'British Pound',
+    JPY: 'Japanese Yen',
+    AUD: 'Australian Dollar',
+    NZD: 'New Zealand Dollar',
+    CAD: 'Canadian Dollar',
+    CHF: 'Swiss Franc',
+    INR: 'Indian Rupee',
+    CNY: 'Chinese Yuan',
+    HKD: 'Hong Kong Dollar',
+    SGD: 'Singapore Dollar',
+    MXN: 'Mexican Peso',
+    ZAR: 'South African Rand',
+};
+
+// [base, quote]
+const PAIRS: [string, string][] = [
+    ["EUR", "USD"], ["GBP", "USD"], ["USD", "JPY"], ["AUD", "USD"], ["NZD", "USD"],
+    ["USD", "CAD"], ["USD", "CHF"], ["USD", "INR"], ["EUR", "GBP"], ["EUR", "JPY"],
+    ["GBP", "JPY"], ["EUR", "CHF"], ["AUD", "JPY"], ["USD", "CNY"], ["USD", "HKD"],
+    ["USD", "SGD"], ["USD", "MXN"], ["USD", "ZAR"], ["EUR", "INR"], ["GBP", "INR"],
+];
+
+export const FX: Instrument[] = PAIRS.map(([base, quote]) => ({
+    symbol: `${base}${quote}=X`,
+    name: `${CURRENCY_NAMES[base]} / ${CURRENCY_NAMES[quote]}`,
+    exchange: 'FX',
+    exchangeCode: 'FX',
+    assetClass: 'fx',
+    currency: quote,
+    timeZone: 'America/New_York',
+    // Yen pairs are quoted to three decimals, the rest to five (fractional pips).
+    tickSize: quote === 'JPY' ? 0.001 : 0.00001,
+    lotSize: 1000, // one micro lot
+    // The dollar index only measures pairs with a dollar leg; crosses such as EURJPY have no benchmark.
+    benchmark: base === 'USD' || quote === 'USD' ? 'DX-Y.NYB' : undefined,
+    aliases: [`${base}/${quote}`, `${base}${quote}`],
+}));
@@ -0,0 +1,64 @@
+import type { Instrument, ExchangeCode } from '../../types';
+
+// NOTE: Symbols are in the format for the Yahoo Finance API.
+
+// [symbol, name, calendar, currency, timezone, benchmark, aliases]
+const ROWS: [string, string, ExchangeCode, string, string, string | undefined, string[]][] = [
+    ["^GSPC", "S&P 500 (USA)", "NYSE", "USD", "America/New_York", undefined, ["SPX", "S&P", "SP500"]],
+    ["^DJI", "Dow Jones Industrial Average (USA)", "NYSE", "USD", "America/New_York", "^GSPC", ["Dow", "DJIA"]],
+    ["^NDX", "NASDAQ 100 (USA)", "NASDAQ", "USD", "America/New_York", "^GSPC", ["Nasdaq", "NDX"]],
+    ["^IXIC", "NASDAQ Composite (USA)", "NASDAQ", "USD", "America/New_York", "^GSPC", []],
+    ["^RUT", "Russell 2000 (USA)", "NYSE", "USD", "America/New_York", "^GSPC", ["Russell"]],
+    ["^VIX", "CBOE Volatility Index (USA)", "NYSE", "USD", "America/New_York", "^GSPC", ["VIX"]],
+    ["^FTSE", "FTSE 100 (UK)", "LSE", "GBP", "Europe/London", "^GSPC", ["FTSE", "UKX"]],
+    ["^GDAXI", "DAX (Germany)", "XETRA", "EUR", "Europe/Berlin", "^GSPC", ["DAX"]],
+    // No Euronext calendar yet; its hours match XETRA's closely enough.
+    ["^FCHI", "CAC 40 (France)", "XETRA", "EUR", "Europe/Paris", "^GSPC", ["CAC"]],
+    ["^STOXX50E", "EURO STOXX 50 (Europe)", "XETRA", "EUR", "Europe/Berlin", "^GSPC", ["Stoxx"]],
+    ["^N225", "Nikkei 225 (Japan)", "TSE", "JPY", "Asia/Tokyo", "^GSPC", ["Nikkei"]],
+    ["^HSI", "Hang Seng (Hong Kong)", "HKEX", "HKD", "Asia/Hong_Kong", "^GSPC", ["Hang Seng", "HSI"]],
+    ["^NSEI", "NIFTY 50 (India)", "NSE", "INR", "Asia/Kolkata", "^GSPC", ["NIFTY", "Nifty 50"]],
+    ["^NSEBANK", "NIFTY Bank (India)", "NSE", "INR", "Asia/Kolkata", "^NSEI", ["Bank Nifty", "BANKNIFTY"]],
+    ["^BSESN", "S&P BSE Sensex (India)", "NSE", "INR", "Asia/Kolkata", "^NSEI", ["Sensex"]],
+    ["^INDIAVIX", "India VIX", "NSE", "INR", "Asia/Kolkata", "^NSEI", []],
+    // NIFTY sector indices
+    ["^CNXIT", "NIFTY IT (India)", "NSE", "INR", "Asia/Kolkata", "^NSEI", ["Nifty IT"]],
+    ["NIFTY_FIN_SERVICE.NS", "NIFTY Financial Services (India)", "NSE", "INR", "Asia/Kolkata", "^NSEI", ["Fin Nifty", "FINNIFTY"]],
+    ["^CNXAUTO", "NIFTY Auto (India)", "NSE", "INR", "Asia/Kolkata", "^NSEI", ["Nifty Auto"]],
+    ["^CNXPHARMA", "NIFTY Pharma (India)", "NSE", "INR", "Asia/Kolkata", "^NSEI", ["Nifty Pharma"]],
+    ["^CNXFMCG", "NIFTY FMCG (India)", "NSE", "INR", "Asia/Kolkata", "^NSEI", ["Nifty FMCG"]],
+    ["^CNXMETAL", "NIFTY Metal (India)", "NSE", "INR", "Asia/Kolkata", "^NSEI", ["Nifty Metal"]],
+    ["^CNXENERGY", "NIFTY Energy (India)", "NSE", "INR", "Asia/Kolkata", "^NSEI", ["Nifty Energy"]],
+    ["^CNXINFRA", "NIFTY Infrastructure (India)", "NSE", "INR", "Asia/Kolkata", "^NSEI", ["Nifty Infra"]],
+    ["^CNXCONSUM", "NIFTY India Consumption (India)", "NSE", "INR", "Asia/Kolkata", "^NSEI", ["Nifty Consumption"]],
+    // S&P 500 GICS sector indices
+    ["^SP500-45", "S&P 500 Information Technology (USA)", "NYSE", "USD", "America/New_York", "^GSPC", []],
+    ["^SP500-50", "S&P 500 Communication Services (USA)", "NYSE", "USD", "America/New_York", "^GSPC", []],
+    ["^SP500-25", "S&P 500 Consumer Discretionary (USA)", "NYSE", "USD", "America/New_York", "^GSPC", []],
+    ["^SP500-30", "S&P 500 Consumer Staples (USA)", "NYSE", "USD", "America/New_York", "^GSPC", []],
+    ["^SP500-35", "S&P 500 Health Care (USA)", "NYSE", "USD", "America/New_York", "^GSPC", []],
+    ["^SP500-40", "S&P 500 Financials (USA)", "NYSE", "USD", "America/New_York", "^GSPC", []],
+    ["^SP500-20", "S&P 500 Industrials (USA)", "NYSE", "USD", "America/New_York", "^GSPC", []],
+    ["^SP500-10", "S&P 500 Energy (USA)", "NYSE", "USD", "America/New_York", "^GSPC", []],
+    ["^SP500-55", "S&P 500 Utilities (USA)", "NYSE", "USD", "America/New_York", "^GSPC", []],
+    ["^SP500-60", "S&P 500 Real Estate (USA)", "NYSE", "USD", "America/New_York", "^GSPC", []],
+    ["^SP500-15", "S&P 500 Materials (USA)", "NYSE", "USD", "America/New_York", "^GSPC", []],
+    ["DX-Y.NYB", "US Dollar Index", "FX", "USD", "America/New_York", undefined, ["DXY", "Dollar Index"]],
+];
+
+// Display venues where they differ from the calendar.
+const VENUES: Record<string, string> = { '^BSESN': 'BSE', '^VIX': 'CBOE', '^FCHI': 'Euronext', '^STOXX50E': 'STOXX', 'DX-Y.NYB': 'ICE' };
+
+export const INDICES: Instrument[] = ROWS.map(([symbol, name, exchangeCode, currency, timeZone, benchmark, aliases]) => ({
+    symbol,
+    name,
+    exchange: VENUES[symbol] ?? exchangeCode,
+    exchangeCode,
+    assetClass: 'index',
+    currency,
+    timeZone,
+    tickSize: 0.01,
+    lotSize: 1,
+    benchmark,
+    aliases: aliases.length ? aliases : undefined,
+}));
@@ -0,0 +1,93 @@
+import type { Instrument } from '../../types';
+
+// NOTE: Symbols are in the format for the Yahoo Finance API.
+
+// [symbol, name, NSE sector]
+const ROWS: [string, string, string][] = [
+    ["ADANIENT.NS", "Adani Enterprises", "Metals & Mining"],
+    ["ADANIPORTS.NS", "Adani Ports", "Services"],
+    ["APOLLOHOSP.NS", "Apollo Hospitals", "Healthcare"],
+    ["ASIANPAINT.NS", "Asian Paints", "Consumer Durables"],
+    ["AXISBANK.NS", "Axis Bank", "Financial Services"],
+    ["BAJAJ-AUTO.NS", "Bajaj Auto", "Automobile"],
+    ["BAJFINANCE.NS", "Bajaj Finance", "Financial Services"],
+    ["BAJAJFINSV.NS", "Bajaj Finserv", "Financial Services"],
+    ["BPCL.NS", "BPCL", "Oil, Gas & Consumable Fuels"],
+    ["BHARTIARTL.NS", "Bharti Airtel", "Telecommunication"],
+    ["BRITANNIA.NS", "Britannia Industries", "FMCG"],
+    ["CIPLA.NS", "Cipla", "Healthcare"],
+    ["COALINDIA.NS", "Coal India", "Oil, Gas & Consumable Fuels"],
+    ["DIVISLAB.NS", "Divi's Laboratories", "Healthcare"],
+    ["DRREDDY.NS", "Dr. Reddy's Laboratories", "Healthcare"],
+    ["EICHERMOT.NS", "Eicher Motors", "Automobile"],
+    ["GRASIM.NS", "Grasim Industries", "Construction Materials"],
+    ["HCLTECH.NS", "HCL Technologies", "Information Technology"],
+    ["HDFCBANK.NS", "HDFC Bank", "Financial Services"],
+    ["HDFCLIFE.NS", "HDFC Life Insurance", "Financial Services"],
+    ["HEROMOTOCO.NS", "Hero MotoCorp", "Automobile"],
+    ["HINDALCO.NS", "Hindalco Industries", "Metals & Mining"],
+    ["HINDUNILVR.NS", "Hindustan Unilever", "FMCG"],
+    ["ICICIBANK.NS", "ICICI Bank", "Financial Services"],
+    ["ITC.NS", "ITC", "FMCG"],
+    ["INFY.NS", "Infosys", "Information Technology"],
+    ["JSWSTEEL.NS", "JSW Steel", "Metals & Mining"],
+    ["KOTAKBANK.NS", "Kotak Mahindra Bank", "Financial Services"],
+    ["LT.NS", "Larsen & Toubro", "Construction"],
+    ["LTIM.NS", "LTIMindtree", "Information Technology"],
+    ["M&M.NS", "Mahindra & Mahindra", "Automobile"],
+    ["MARUTI.NS", "Maruti Suzuki India", "Automobile"],
+    ["NTPC.NS", "NTPC", "Power"],
+    ["NESTLEIND.NS", "Nestle India", "FMCG"],
+    ["ONGC.NS", "ONGC", "Oil, Gas & Consumable Fuels"],
+    ["POWERGRID.NS", "Power Grid Corporation", "Power"],
+    ["RELIANCE.NS", "Reliance Industries", "Oil, Gas & Consumable Fuels"],
+    ["SBILIFE.NS", "SBI Life Insurance", "Financial Services"],
+    ["SBIN.NS", "State Bank of India", "Financial Services"],
+    ["SHRIRAMFIN.NS", "Shriram Finance", "Financial Services"],
+    ["SUNPHARMA.NS", "Sun Pharmaceutical", "Healthcare"],
+    ["TCS.NS", "Tata Consultancy Services", "Information Technology"],
+    ["TATACONSUM.NS", "Tata Consumer Products", "FMCG"],
+    ["TATAMOTORS.NS", "Tata Motors", "Automobile"],
+    ["TATASTEEL.NS", "Tata Steel", "Metals & Mining"],
+    ["TECHM.NS", "Tech Mahindra", "Information Technology"],
+    ["TITAN.NS", "Titan Company", "Consumer Durables"],
+    ["ULTRACEMCO.NS", "UltraTech Cement", "Construction Materials"],
+    ["UPL.NS", "UPL", "Chemicals"],
+    ["WIPRO.NS", "Wipro", "Information Technology"],
+];
+
+// NIFTY sector index for each NSE sector. Sectors without a close match
+// (chemicals) are only compared against the NIFTY 50.
+const SECTOR_INDICES: Record<string, string> = {
+    "Automobile": "^CNXAUTO",
+    "Construction": "^CNXINFRA",
+    "Construction Materials": "^CNXINFRA",
+    "Consumer Durables": "^CNXCONSUM",
+    "FMCG": "^CNXFMCG",
+    "Financial Services": "NIFTY_FIN_SERVICE.NS",
+    "Healthcare": "^CNXPHARMA",
+    "Information Technology": "^CNXIT",
+    "Metals & Mining": "^CNXMETAL",
+    "Oil, Gas & Consumable Fuels": "^CNXENERGY",
+    "Power": "^CNXENERGY",
+    "Services": "^CNXINFRA",
+    "Telecommunication": "^CNXINFRA",
+};
+
+// Banks are measured against NIFTY Bank rather than the wider financials index.
+const BANKS = new Set(["AXISBANK.NS", "HDFCBANK.NS", "ICICIBANK.NS", "KOTAKBANK.NS", "SBIN.NS"]);
+
+export const NIFTY_50: Instrument[] = ROWS.map(([symbol, name, sector]) => ({
+    symbol,
+    name,
+    sector,
+    sectorIndex: BANKS.has(symbol) ? "^NSEBANK" : SECTOR_INDICES[sector],
+    exchange: 'NSE',
+    exchangeCode: 'NSE',
+    assetClass: 'equity',
+    currency: 'INR',
+    timeZone: 'Asia/Kolkata',
+    tickSize: 0.05,
+    lotSize: 1,
+    benchmark: '^NSEI',
+}));
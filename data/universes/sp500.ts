@@ -0,0 +1,567 @@
+import type { Instrument } from '../../types';
+
+// S&P 500 constituents by GICS sector, as of mid-2025. Index membership changes
+// every quarter, so refresh this snapshot periodically.
+
+const N = 'NYSE';
+const Q = 'NASDAQ';
+const C = 'Cboe BZX';
+
+// [sector, [symbol, name, listing venue][]]
+const SECTORS: [string, [string, string, string][]][] = [
+    ["Information Technology", [
+        ["AAPL", "Apple Inc.", Q],
+        ["MSFT", "Microsoft Corporation", Q],
+        ["NVDA", "NVIDIA Corporation", Q],
+        ["AVGO", "Broadcom Inc.", Q],
+        ["ORCL", "Oracle Corporation", N],
+        ["CRM", "Salesforce Inc.", N],
+        ["ADBE", "Adobe Inc.", Q],
+        ["AMD", "Advanced Micro Devices Inc.", Q],
+        ["CSCO", "Cisco Systems Inc.", Q],
+        ["ACN", "Accenture plc", N],
+        ["IBM", "International Business Machines", N],
+        ["INTU", "Intuit Inc.", Q],
+        ["NOW", "ServiceNow Inc.", N],
+        ["TXN", "Texas Instruments Inc.", Q],
+        ["QCOM", "Qualcomm Inc.", Q],
+        ["AMAT", "Applied Materials Inc.", Q],
+        ["ADI", "Analog Devices Inc.", Q],
+        ["MU", "Micron Technology Inc.", Q],
+        ["LRCX", "Lam Research Corporation", Q],
+        ["KLAC", "KLA Corporation", Q],
+        ["PANW", "Palo Alto Networks Inc.", Q],
+        ["ANET", "Arista Networks Inc.", N],
+        ["SNPS", "Synopsys Inc.", Q],
+        ["CDNS", "Cadence Design Systems Inc.", Q],
+        ["INTC", "Intel Corporation", Q],
+        ["APH", "Amphenol Corporation", N],
+        ["MSI", "Motorola Solutions Inc.", N],
+        ["ROP", "Roper Technologies Inc.", Q],
+        ["ADSK", "Autodesk Inc.", Q],
+        ["FTNT", "Fortinet Inc.", Q],
+        ["NXPI", "NXP Semiconductors N.V.", Q],
+        ["MCHP", "Microchip Technology Inc.", Q],
+        ["TEL", "TE Connectivity plc", N],
+        ["IT", "Gartner Inc.", N],
+        ["CTSH", "Cognizant Technology Solutions", Q],
+        ["GLW", "Corning Inc.", N],
+        ["HPQ", "HP Inc.", N],
+        ["HPE", "Hewlett Packard Enterprise", N],
+        ["MPWR", "Monolithic Power Systems Inc.", Q],
+        ["FICO", "Fair Isaac Corporation", N],
+        ["ON", "ON Semiconductor Corporation", Q],
+        ["DELL", "Dell Technologies Inc.", N],
+        ["KEYS", "Keysight Technologies Inc.", N],
+        ["CDW", "CDW Corporation", Q],
+        ["NTAP", "NetApp Inc.", Q],
+        ["TYL", "Tyler Technologies Inc.", N],
+        ["PTC", "PTC Inc.", Q],
+        ["FSLR", "First Solar Inc.", Q],
+        ["TDY", "Teledyne Technologies Inc.", N],
+        ["ZBRA", "Zebra Technologies Corporation", Q],
+        ["WDC", "Western Digital Corporation", Q],
+        ["STX", "Seagate Technology Holdings plc", Q],
+        ["SMCI", "Super Micro Computer Inc.", Q],
+        ["TER", "Teradyne Inc.", Q],
+        ["TRMB", "Trimble Inc.", Q],
+        ["GDDY", "GoDaddy Inc.", N],
+        ["VRSN", "VeriSign Inc.", Q],
+        ["JBL", "Jabil Inc.", N],
+        ["FFIV", "F5 Inc.", Q],
+        ["AKAM", "Akamai Technologies Inc.", Q],
+        ["GEN", "Gen Digital Inc.", Q],
+        ["SWKS", "Skyworks Solutions Inc.", Q],
+        ["EPAM", "EPAM Systems Inc.", N],
+        ["ENPH", "Enphase Energy Inc.", Q],
+        ["PLTR", "Palantir Technologies Inc.", Q],
+        ["CRWD", "CrowdStrike Holdings Inc.", Q],
+        ["WDAY", "Workday Inc.", Q],
+        ["DDOG", "Datadog Inc.", Q],
+        ["APP", "AppLovin Corporation", Q],
+    ]],
+    ["Communication Services", [
+        ["GOOGL", "Alphabet Inc. Class A", Q],
+        ["GOOG", "Alphabet Inc. Class C", Q],
+        ["META", "Meta Platforms Inc.", Q],
+        ["NFLX", "Netflix Inc.", Q],
+        ["DIS", "Walt Disney Company", N],
+        ["TMUS", "T-Mobile US Inc.", Q],
+        ["T", "AT&T Inc.", N],
+        ["VZ", "Verizon Communications Inc.", N],
+        ["CMCSA", "Comcast Corporation", Q],
+        ["CHTR", "Charter Communications Inc.", Q],
+        ["EA", "Electronic Arts Inc.", Q],
+        ["TTWO", "Take-Two Interactive Software", Q],
+        ["WBD", "Warner Bros. Discovery Inc.", Q],
+        ["OMC", "Omnicom Group Inc.", N],
+        ["IPG", "Interpublic Group of Companies", N],
+        ["LYV", "Live Nation Entertainment Inc.", N],
+        ["MTCH", "Match Group Inc.", Q],
+        ["FOXA", "Fox Corporation Class A", Q],
+        ["FOX", "Fox Corporation Class B", Q],
+        ["NWSA", "News Corp Class A", Q],
+        ["NWS", "News Corp Class B", Q],
+        ["TKO", "TKO Group Holdings Inc.", N],
+        ["TTD", "The Trade Desk Inc.", Q],
+    ]],
+    ["Consumer Discretionary", [
+        ["AMZN", "Amazon.com Inc.", Q],
+        ["TSLA", "Tesla Inc.", Q],
+        ["HD", "Home Depot Inc.", N],
+        ["MCD", "McDonald's Corporation", N],
+        ["LOW", "Lowe's Companies Inc.", N],
+        ["BKNG", "Booking Holdings Inc.", Q],
+        ["TJX", "TJX Companies Inc.", N],
+        ["SBUX", "Starbucks Corporation", Q],
+        ["NKE", "Nike Inc.", N],
+        ["ABNB", "Airbnb Inc.", Q],
+        ["CMG", "Chipotle Mexican Grill Inc.", N],
+        ["ORLY", "O'Reilly Automotive Inc.", Q],
+        ["MAR", "Marriott International Inc.", Q],
+        ["AZO", "AutoZone Inc.", N],
+        ["HLT", "Hilton Worldwide Holdings Inc.", N],
+        ["GM", "General Motors Company", N],
+        ["F", "Ford Motor Company", N],
+        ["ROST", "Ross Stores Inc.", Q],
+        ["DHI", "D.R. Horton Inc.", N],
+        ["LEN", "Lennar Corporation", N],
+        ["YUM", "Yum! Brands Inc.", N],
+        ["RCL", "Royal Caribbean Cruises Ltd.", N],
+        ["DASH", "DoorDash Inc.", Q],
+        ["LULU", "Lululemon Athletica Inc.", Q],
+        ["TSCO", "Tractor Supply Company", Q],
+        ["EBAY", "eBay Inc.", Q],
+        ["GRMN", "Garmin Ltd.", N],
+        ["PHM", "PulteGroup Inc.", N],
+        ["NVR", "NVR Inc.", N],
+        ["DECK", "Deckers Outdoor Corporation", N],
+        ["CCL", "Carnival Corporation", N],
+        ["EXPE", "Expedia Group Inc.", Q],
+        ["ULTA", "Ulta Beauty Inc.", Q],
+        ["BBY", "Best Buy Co. Inc.", N],
+        ["GPC", "Genuine Parts Company", N],
+        ["LVS", "Las Vegas Sands Corp.", N],
+        ["DRI", "Darden Restaurants Inc.", N],
+        ["DPZ", "Domino's Pizza Inc.", Q],
+        ["POOL", "Pool Corporation", Q],
+        ["TPR", "Tapestry Inc.", N],
+        ["KMX", "CarMax Inc.", N],
+        ["LKQ", "LKQ Corporation", Q],
+        ["WYNN", "Wynn Resorts Ltd.", Q],
+        ["MGM", "MGM Resorts International", N],
+        ["RL", "Ralph Lauren Corporation", N],
+        ["HAS", "Hasbro Inc.", Q],
+        ["CZR", "Caesars Entertainment Inc.", Q],
+        ["NCLH", "Norwegian Cruise Line Holdings", N],
+        ["MHK", "Mohawk Industries Inc.", N],
+        ["APTV", "Aptiv plc", N],
+        ["WSM", "Williams-Sonoma Inc.", N],
+    ]],
+    ["Consumer Staples", [
+        ["WMT", "Walmart Inc.", N],
+        ["PG", "Procter & Gamble Company", N],
+        ["COST", "Costco Wholesale Corporation", Q],
+        ["KO", "Coca-Cola Company", N],
+        ["PEP", "PepsiCo Inc.", Q],
+        ["PM", "Philip Morris International", N],
+        ["MO", "Altria Group Inc.", N],
+        ["MDLZ", "Mondelez International Inc.", Q],
+        ["CL", "Colgate-Palmolive Company", N],
+        ["TGT", "Target Corporation", N],
+        ["KMB", "Kimberly-Clark Corporation", Q],
+        ["GIS", "General Mills Inc.", N],
+        ["KDP", "Keurig Dr Pepper Inc.", Q],
+        ["MNST", "Monster Beverage Corporation", Q],
+        ["STZ", "Constellation Brands Inc.", N],
+        ["SYY", "Sysco Corporation", N],
+        ["KR", "Kroger Co.", N],
+        ["KHC", "Kraft Heinz Company", Q],
+        ["HSY", "Hershey Company", N],
+        ["ADM", "Archer-Daniels-Midland Company", N],
+        ["KVUE", "Kenvue Inc.", N],
+        ["CHD", "Church & Dwight Co. Inc.", N],
+        ["EL", "Estee Lauder Companies Inc.", N],
+        ["CLX", "Clorox Company", N],
+        ["MKC", "McCormick & Company Inc.", N],
+        ["K", "Kellanova", N],
+        ["CAG", "Conagra Brands Inc.", N],
+        ["SJM", "J.M. Smucker Company", N],
+        ["TSN", "Tyson Foods Inc.", N],
+        ["HRL", "Hormel Foods Corporation", N],
+        ["CPB", "Campbell's Company", Q],
+        ["DG", "Dollar General Corporation", N],
+        ["DLTR", "Dollar Tree Inc.", Q],
+        ["BG", "Bunge Global SA", N],
+        ["LW", "Lamb Weston Holdings Inc.", N],
+        ["TAP", "Molson Coors Beverage Company", N],
+        ["BF-B", "Brown-Forman Corporation Class B", N],
+    ]],
+    ["Health Care", [
+        ["LLY", "Eli Lilly and Company", N],
+        ["UNH", "UnitedHealth Group Inc.", N],
+        ["JNJ", "Johnson & Johnson", N],
+        ["ABBV", "AbbVie Inc.", N],
+        ["MRK", "Merck & Co. Inc.", N],
+        ["TMO", "Thermo Fisher Scientific Inc.", N],
+        ["ABT", "Abbott Laboratories", N],
+        ["ISRG", "Intuitive Surgical Inc.", Q],
+        ["DHR", "Danaher Corporation", N],
+        ["AMGN", "Amgen Inc.", Q],
+        ["PFE", "Pfizer Inc.", N],
+        ["BSX", "Boston Scientific Corporation", N],
+        ["SYK", "Stryker Corporation", N],
+        ["GILD", "Gilead Sciences Inc.", Q],
+        ["VRTX", "Vertex Pharmaceuticals Inc.", Q],
+        ["MDT", "Medtronic plc", N],
+        ["BMY", "Bristol-Myers Squibb Company", N],
+        ["ELV", "Elevance Health Inc.", N],
+        ["CI", "Cigna Group", N],
+        ["REGN", "Regeneron Pharmaceuticals Inc.", Q],
+        ["ZTS", "Zoetis Inc.", N],
+        ["MCK", "McKesson Corporation", N],
+        ["CVS", "CVS Health Corporation", N],
+        ["BDX", "Becton Dickinson and Company", N],
+        ["HCA", "HCA Healthcare Inc.", N],
+        ["COR", "Cencora Inc.", N],
+        ["EW", "Edwards Lifesciences Corporation", N],
+        ["IDXX", "IDEXX Laboratories Inc.", Q],
+        ["A", "Agilent Technologies Inc.", N],
+        ["IQV", "IQVIA Holdings Inc.", N],
+        ["GEHC", "GE HealthCare Technologies Inc.", Q],
+        ["RMD", "ResMed Inc.", N],
+        ["DXCM", "DexCom Inc.", Q],
+        ["CNC", "Centene Corporation", N],
+        ["HUM", "Humana Inc.", N],
+        ["MTD", "Mettler-Toledo International", N],
+        ["BIIB", "Biogen Inc.", Q],
+        ["CAH", "Cardinal Health Inc.", N],
+        ["WST", "West Pharmaceutical Services", N],
+        ["ZBH", "Zimmer Biomet Holdings Inc.", N],
+        ["STE", "STERIS plc", N],
+        ["LH", "Labcorp Holdings Inc.", N],
+        ["DGX", "Quest Diagnostics Inc.", N],
+        ["MOH", "Molina Healthcare Inc.", N],
+        ["COO", "Cooper Companies Inc.", Q],
+        ["WAT", "Waters Corporation", N],
+        ["HOLX", "Hologic Inc.", Q],
+        ["BAX", "Baxter International Inc.", N],
+        ["PODD", "Insulet Corporation", Q],
+        ["ALGN", "Align Technology Inc.", Q],
+        ["INCY", "Incyte Corporation", Q],
+        ["VTRS", "Viatris Inc.", Q],
+        ["RVTY", "Revvity Inc.", N],
+        ["TECH", "Bio-Techne Corporation", Q],
+        ["CRL", "Charles River Laboratories", N],
+        ["HSIC", "Henry Schein Inc.", Q],
+        ["DVA", "DaVita Inc.", N],
+        ["SOLV", "Solventum Corporation", N],
+        ["MRNA", "Moderna Inc.", Q],
+        ["UHS", "Universal Health Services Inc.", N],
+    ]],
+    ["Financials", [
+        ["BRK-B", "Berkshire Hathaway Inc. Class B", N],
+        ["JPM", "JPMorgan Chase & Co.", N],
+        ["V", "Visa Inc.", N],
+        ["MA", "Mastercard Inc.", N],
+        ["BAC", "Bank of America Corporation", N],
+        ["WFC", "Wells Fargo & Company", N],
+        ["GS", "Goldman Sachs Group Inc.", N],
+        ["MS", "Morgan Stanley", N],
+        ["AXP", "American Express Company", N],
+        ["SCHW", "Charles Schwab Corporation", N],
+        ["BLK", "BlackRock Inc.", N],
+        ["C", "Citigroup Inc.", N],
+        ["SPGI", "S&P Global Inc.", N],
+        ["PGR", "Progressive Corporation", N],
+        ["CB", "Chubb Ltd.", N],
+        ["MMC", "Marsh & McLennan Companies", N],
+        ["BX", "Blackstone Inc.", N],
+        ["ICE", "Intercontinental Exchange Inc.", N],
+        ["CME", "CME Group Inc.", Q],
+        ["PNC", "PNC Financial Services Group", N],
+        ["USB", "U.S. Bancorp", N],
+        ["AON", "Aon plc", N],
+        ["KKR", "KKR & Co. Inc.", N],
+        ["MCO", "Moody's Corporation", N],
+        ["COF", "Capital One Financial Corporation", N],
+        ["AJG", "Arthur J. Gallagher & Co.", N],
+        ["TRV", "Travelers Companies Inc.", N],
+        ["AFL", "Aflac Inc.", N],
+        ["AIG", "American International Group", N],
+        ["MET", "MetLife Inc.", N],
+        ["ALL", "Allstate Corporation", N],
+        ["PRU", "Prudential Financial Inc.", N],
+        ["BK", "Bank of New York Mellon", N],
+        ["PYPL", "PayPal Holdings Inc.", Q],
+        ["FI", "Fiserv Inc.", N],
+        ["MSCI", "MSCI Inc.", N],
+        ["AMP", "Ameriprise Financial Inc.", N],
+        ["TFC", "Truist Financial Corporation", N],
+        ["MTB", "M&T Bank Corporation", N],
+        ["FIS", "Fidelity National Information Services", N],
+        ["HIG", "Hartford Financial Services Group", N],
+        ["ACGL", "Arch Capital Group Ltd.", Q],
+        ["NDAQ", "Nasdaq Inc.", Q],
+        ["WTW", "Willis Towers Watson plc", Q],
+        ["STT", "State Street Corporation", N],
+        ["RJF", "Raymond James Financial Inc.", N],
+        ["FITB", "Fifth Third Bancorp", Q],
+        ["BRO", "Brown & Brown Inc.", N],
+        ["HBAN", "Huntington Bancshares Inc.", Q],
+        ["SYF", "Synchrony Financial", N],
+        ["NTRS", "Northern Trust Corporation", Q],
+        ["CINF", "Cincinnati Financial Corporation", Q],
+        ["RF", "Regions Financial Corporation", N],
+        ["CFG", "Citizens Financial Group Inc.", N],
+        ["CPAY", "Corpay Inc.", N],
+        ["GPN", "Global Payments Inc.", N],
+        ["CBOE", "Cboe Global Markets Inc.", C],
+        ["KEY", "KeyCorp", N],
+        ["WRB", "W. R. Berkley Corporation", N],
+        ["PFG", "Principal Financial Group Inc.", Q],
+        ["L", "Loews Corporation", N],
+        ["EG", "Everest Group Ltd.", N],
+        ["JKHY", "Jack Henry & Associates Inc.", Q],
+        ["FDS", "FactSet Research Systems Inc.", N],
+        ["GL", "Globe Life Inc.", N],
+        ["AIZ", "Assurant Inc.", N],
+        ["ERIE", "Erie Indemnity Company", Q],
+        ["IVZ", "Invesco Ltd.", N],
+        ["BEN", "Franklin Resources Inc.", N],
+        ["MKTX", "MarketAxess Holdings Inc.", Q],
+        ["COIN", "Coinbase Global Inc.", Q],
+        ["APO", "Apollo Global Management Inc.", N],
+        ["HOOD", "Robinhood Markets Inc.", Q],
+        ["XYZ", "Block Inc.", N],
+    ]],
+    ["Industrials", [
+        ["GE", "GE Aerospace", N],
+        ["CAT", "Caterpillar Inc.", N],
+        ["RTX", "RTX Corporation", N],
+        ["UNP", "Union Pacific Corporation", N],
+        ["HON", "Honeywell International Inc.", Q],
+        ["ETN", "Eaton Corporation plc", N],
+        ["UBER", "Uber Technologies Inc.", N],
+        ["BA", "Boeing Company", N],
+        ["LMT", "Lockheed Martin Corporation", N],
+        ["DE", "Deere & Company", N],
+        ["ADP", "Automatic Data Processing Inc.", Q],
+        ["UPS", "United Parcel Service Inc.", N],
+        ["TT", "Trane Technologies plc", N],
+        ["PH", "Parker-Hannifin Corporation", N],
+        ["GD", "General Dynamics Corporation", N],
+        ["WM", "Waste Management Inc.", N],
+        ["CTAS", "Cintas Corporation", Q],
+        ["ITW", "Illinois Tool Works Inc.", N],
+        ["TDG", "TransDigm Group Inc.", N],
+        ["MMM", "3M Company", N],
+        ["NOC", "Northrop Grumman Corporation", N],
+        ["EMR", "Emerson Electric Co.", N],
+        ["CSX", "CSX Corporation", Q],
+        ["FDX", "FedEx Corporation", N],
+        ["CARR", "Carrier Global Corporation", N],
+        ["PCAR", "PACCAR Inc.", Q],
+        ["JCI", "Johnson Controls International", N],
+        ["NSC", "Norfolk Southern Corporation", N],
+        ["GEV", "GE Vernova Inc.", N],
+        ["CPRT", "Copart Inc.", Q],
+        ["RSG", "Republic Services Inc.", N],
+        ["URI", "United Rentals Inc.", N],
+        ["GWW", "W.W. Grainger Inc.", N],
+        ["PWR", "Quanta Services Inc.", N],
+        ["LHX", "L3Harris Technologies Inc.", N],
+        ["CMI", "Cummins Inc.", N],
+        ["FAST", "Fastenal Company", Q],
+        ["OTIS", "Otis Worldwide Corporation", N],
+        ["AME", "AMETEK Inc.", N],
+        ["PAYX", "Paychex Inc.", Q],
+        ["ODFL", "Old Dominion Freight Line Inc.", Q],
+        ["VRSK", "Verisk Analytics Inc.", Q],
+        ["IR", "Ingersoll Rand Inc.", N],
+        ["HWM", "Howmet Aerospace Inc.", N],
+        ["AXON", "Axon Enterprise Inc.", Q],
+        ["EFX", "Equifax Inc.", N],
+        ["XYL", "Xylem Inc.", N],
+        ["DAL", "Delta Air Lines Inc.", N],
+        ["WAB", "Westinghouse Air Brake Technologies", N],
+        ["ROK", "Rockwell Automation Inc.", N],
+        ["UAL", "United Airlines Holdings Inc.", Q],
+        ["DOV", "Dover Corporation", N],
+        ["BR", "Broadridge Financial Solutions", N],
+        ["HUBB", "Hubbell Inc.", N],
+        ["LDOS", "Leidos Holdings Inc.", N],
+        ["VLTO", "Veralto Corporation", N],
+        ["BLDR", "Builders FirstSource Inc.", N],
+        ["EXPD", "Expeditors International", N],
+        ["J", "Jacobs Solutions Inc.", N],
+        ["LUV", "Southwest Airlines Co.", N],
+        ["SNA", "Snap-on Inc.", N],
+        ["MAS", "Masco Corporation", N],
+        ["TXT", "Textron Inc.", N],
+        ["PNR", "Pentair plc", N],
+        ["IEX", "IDEX Corporation", N],
+        ["JBHT", "J.B. Hunt Transport Services", Q],
+        ["CHRW", "C.H. Robinson Worldwide Inc.", Q],
+        ["NDSN", "Nordson Corporation", Q],
+        ["ALLE", "Allegion plc", N],
+        ["SWK", "Stanley Black & Decker Inc.", N],
+        ["GNRC", "Generac Holdings Inc.", N],
+        ["AOS", "A. O. Smith Corporation", N],
+        ["HII", "Huntington Ingalls Industries", N],
+        ["DAY", "Dayforce Inc.", N],
+        ["PAYC", "Paycom Software Inc.", N],
+        ["ROL", "Rollins Inc.", N],
+        ["FTV", "Fortive Corporation", N],
+        ["LII", "Lennox International Inc.", N],
+        ["EME", "EMCOR Group Inc.", N],
+    ]],
+    ["Energy", [
+        ["XOM", "Exxon Mobil Corporation", N],
+        ["CVX", "Chevron Corporation", N],
+        ["COP", "ConocoPhillips", N],
+        ["EOG", "EOG Resources Inc.", N],
+        ["SLB", "SLB N.V.", N],
+        ["MPC", "Marathon Petroleum Corporation", N],
+        ["PSX", "Phillips 66", N],
+        ["WMB", "Williams Companies Inc.", N],
+        ["OKE", "ONEOK Inc.", N],
+        ["KMI", "Kinder Morgan Inc.", N],
+        ["OXY", "Occidental Petroleum Corporation", N],
+        ["VLO", "Valero Energy Corporation", N],
+        ["BKR", "Baker Hughes Company", Q],
+        ["FANG", "Diamondback Energy Inc.", Q],
+        ["TRGP", "Targa Resources Corp.", N],
+        ["DVN", "Devon Energy Corporation", N],
+        ["HAL", "Halliburton Company", N],
+        ["CTRA", "Coterra Energy Inc.", N],
+        ["EQT", "EQT Corporation", N],
+        ["EXE", "Expand Energy Corporation", Q],
+        ["TPL", "Texas Pacific Land Corporation", N],
+        ["APA", "APA Corporation", Q],
+    ]],
+    ["Utilities", [
+        ["NEE", "NextEra Energy Inc.", N],
+        ["SO", "Southern Company", N],
+        ["DUK", "Duke Energy Corporation", N],
+        ["CEG", "Constellation Energy Corporation", Q],
+        ["SRE", "Sempra", N],
+        ["AEP", "American Electric Power Company", Q],
+        ["D", "Dominion Energy Inc.", N],
+        ["PCG", "PG&E Corporation", N],
+        ["EXC", "Exelon Corporation", Q],
+        ["XEL", "Xcel Energy Inc.", Q],
+        ["PEG", "Public Service Enterprise Group", N],
+        ["ED", "Consolidated Edison Inc.", N],
+        ["VST", "Vistra Corp.", N],
+        ["WEC", "WEC Energy Group Inc.", N],
+        ["EIX", "Edison International", N],
+        ["ETR", "Entergy Corporation", N],
+        ["AWK", "American Water Works Company", N],
+        ["DTE", "DTE Energy Company", N],
+        ["PPL", "PPL Corporation", N],
+        ["AEE", "Ameren Corporation", N],
+        ["FE", "FirstEnergy Corp.", N],
+        ["ES", "Eversource Energy", N],
+        ["CNP", "CenterPoint Energy Inc.", N],
+        ["ATO", "Atmos Energy Corporation", N],
+        ["CMS", "CMS Energy Corporation", N],
+        ["NRG", "NRG Energy Inc.", N],
+        ["NI", "NiSource Inc.", N],
+        ["LNT", "Alliant Energy Corporation", Q],
+        ["EVRG", "Evergy Inc.", Q],
+        ["PNW", "Pinnacle West Capital Corporation", N],
+        ["AES", "AES Corporation", N],
+    ]],
+    ["Real Estate", [
+        ["PLD", "Prologis Inc.", N],
+        ["AMT", "American Tower Corporation", N],
+        ["EQIX", "Equinix Inc.", Q],
+        ["WELL", "Welltower Inc.", N],
+        ["SPG", "Simon Property Group Inc.", N],
+        ["O", "Realty Income Corporation", N],
+        ["PSA", "Public Storage", N],
+        ["CCI", "Crown Castle Inc.", N],
+        ["DLR", "Digital Realty Trust Inc.", N],
+        ["CBRE", "CBRE Group Inc.", N],
+        ["EXR", "Extra Space Storage Inc.", N],
+        ["VICI", "VICI Properties Inc.", N],
+        ["AVB", "AvalonBay Communities Inc.", N],
+        ["IRM", "Iron Mountain Inc.", N],
+        ["CSGP", "CoStar Group Inc.", Q],
+        ["EQR", "Equity Residential", N],
+        ["VTR", "Ventas Inc.", N],
+        ["SBAC", "SBA Communications Corporation", Q],
+        ["WY", "Weyerhaeuser Company", N],
+        ["INVH", "Invitation Homes Inc.", N],
+        ["ARE", "Alexandria Real Estate Equities", N],
+        ["ESS", "Essex Property Trust Inc.", N],
+        ["MAA", "Mid-America Apartment Communities", N],
+        ["KIM", "Kimco Realty Corporation", N],
+        ["DOC", "Healthpeak Properties Inc.", N],
+        ["UDR", "UDR Inc.", N],
+        ["HST", "Host Hotels & Resorts Inc.", Q],
+        ["CPT", "Camden Property Trust", N],
+        ["REG", "Regency Centers Corporation", Q],
+        ["BXP", "BXP Inc.", N],
+        ["FRT", "Federal Realty Investment Trust", N],
+    ]],
+    ["Materials", [
+        ["LIN", "Linde plc", Q],
+        ["SHW", "Sherwin-Williams Company", N],
+        ["APD", "Air Products and Chemicals Inc.", N],
+        ["ECL", "Ecolab Inc.", N],
+        ["FCX", "Freeport-McMoRan Inc.", N],
+        ["NEM", "Newmont Corporation", N],
+        ["CTVA", "Corteva Inc.", N],
+        ["DOW", "Dow Inc.", N],
+        ["DD", "DuPont de Nemours Inc.", N],
+        ["NUE", "Nucor Corporation", N],
+        ["PPG", "PPG Industries Inc.", N],
+        ["MLM", "Martin Marietta Materials Inc.", N],
+        ["VMC", "Vulcan Materials Company", N],
+        ["IFF", "International Flavors & Fragrances", N],
+        ["LYB", "LyondellBasell Industries N.V.", N],
+        ["SW", "Smurfit Westrock plc", N],
+        ["STLD", "Steel Dynamics Inc.", Q],
+        ["BALL", "Ball Corporation", N],
+        ["PKG", "Packaging Corporation of America", N],
+        ["AVY", "Avery Dennison Corporation", N],
+        ["IP", "International Paper Company", N],
+        ["CF", "CF Industries Holdings Inc.", N],
+        ["AMCR", "Amcor plc", N],
+        ["ALB", "Albemarle Corporation", N],
+        ["MOS", "Mosaic Company", N],
+        ["EMN", "Eastman Chemical Company", N],
+    ]],
+];
+
+// S&P 500 sector index for each GICS sector.
+const SECTOR_INDICES: Record<string, string> = {
+    "Information Technology": "^SP500-45",
+    "Communication Services": "^SP500-50",
+    "Consumer Discretionary": "^SP500-25",
+    "Consumer Staples": "^SP500-30",
+    "Health Care": "^SP500-35",
+    "Financials": "^SP500-40",
+    "Industrials": "^SP500-20",
+    "Energy": "^SP500-10",
+    "Utilities": "^SP500-55",
+    "Real Estate": "^SP500-60",
+    "Materials": "^SP500-15",
+};
+
+export const SP_500: Instrument[] = SECTORS.flatMap(([sector, rows]) => rows.map(([symbol, name, exchange]) => ({
+    symbol,
+    name,
+    sector,
+    sectorIndex: SECTOR_INDICES[sector],
+    exchange,
+    exchangeCode: exchange === Q ? 'NASDAQ' : 'NYSE', // Cboe listings follow the NYSE calendar
+    assetClass: 'equity',
+    currency: 'USD',
+    timeZone: 'America/New_York',
+    tickSize: 0.01,
+    lotSize: 1,
+    benchmark: '^GSPC',
+})));
@@ -0,0 +1,288 @@
+import http from 'node:http';
+import { WebSocketServer, WebSocket } from 'ws';
+import { GoogleGenAI } from '@google/genai';
+import type { MarketDataProvider, CandleInterval } from '../services/marketDataService';
+import type { StreamClientMessage, StreamServerMessage } from '../services/quoteStream';
+import { createYahooProvider } from '../services/providers/yahooProvider';
+import { finnhubProvider } from '../services/providers/finnhubProvider';
+import { getInstrumentMetadata } from '../services/instrumentMetadata';
+import { withHealth, orderByHealth, isSourceAvailable, NoDataError } from '../services/providerHealth';
+
+/**
+ * A small self-hostable backend for the chartist. It fetches market data
+ * server-side (no public CORS proxies) and keeps the Gemini and Finnhub keys
+ * out of the browser bundle. Point the frontend at it with BACKEND_URL.
+ *
+ *   GET  /api/history?symbol=AAPL&interval=1d&from=<unix>&to=<unix>
+ *   GET  /api/quote?symbol=AAPL
+ *   GET  /api/search?q=apple
+ *   GET  /api/events?symbol=AAPL&from=<unix>&to=<unix>
+ *   POST /api/analyze  { model, parts, systemInstruction, responseSchema }
+ *   WS   /api/stream   send { type: 'subscribe' | 'unsubscribe', symbol }, receive ticks
+ */
+
+const PORT = Number(process.env.PORT) || 8787;
+// The Vite dev server by default; '*' must be opted into explicitly.
+const ALLOWED_ORIGIN = process.env.CORS_ORIGIN || 'http://localhost:3000';
+// Analysis requests may only pick from these models, so the route is not an open Gemini proxy.
+const ANALYSIS_MODELS = (process.env.GEMINI_MODELS || 'gemini-2.5-flash').split(',').map(model => model.trim()).filter(Boolean);
+const MAX_PARTS = 4; // the prompt and an optional chart image
+const MAX_BODY_BYTES = 25 * 1024 * 1024; // chart images are sent inline as base64
+const STREAM_POLL_MS = 3000;
+const INTERVALS: CandleInterval[] = ['1m', '5m', '15m', '30m', '1h', '1d', '1wk', '1mo'];
+
+const ai = process.env.GEMINI_API_KEY ? new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY }) : null;
+
+// Server-side requests are not subject to CORS, so Yahoo is called directly.
+const yahooDirect = createYahooProvider([{ prefix: '', encode: false }]);
+
+const providerChain = (symbol: string): MarketDataProvider[] =>
+    // Finnhub's free tier has limited support for Indian stocks and often fails.
+    getInstrumentMetadata(symbol).exchangeCode === 'NSE' || !process.env.FINNHUB_API_KEY ? [yahooDirect] : [yahooDirect, finnhubProvider];
+
+class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+const firstSuccessful = async <T>(symbol: string, label: string, call: (provider: MarketDataProvider) => Promise<T>): Promise<{ result: T; source: string }> => {
+    let lastError: unknown = null;
+    for (const provider of orderByHealth(providerChain(symbol), p => p.id)) {
+        if (!isSourceAvailable(provider.id)) continue;
+        try {
+            return { result: await withHealth(provider.id, provider.name, () => call(provider)), source: provider.id };
+        } catch (error) {
+            console.warn(`[${label}] ${provider.name} failed for '${symbol}':`, error instanceof Error ? error.message : error);
+            lastError = error;
+        }
+    }
+    // 404 tells clients the providers are fine but have no data, so it does not count against the backend's health.
+    const status = lastError instanceof NoDataError ? 404 : 502;
+    throw new HttpError(status, `Failed to fetch ${label} for '${symbol}' from all providers. ${lastError instanceof Error ? lastError.message : ''}`.trim());
+};
+
+const requireParam = (params: URLSearchParams, name: string): string => {
+    const value = params.get(name);
+    if (!value) throw new HttpError(400, `Missing required query parameter '${name}'.`);
+    return value;
+};
+
+const readJsonBody = (req: http.IncomingMessage): Promise<any> =>
+    new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new HttpError(413, 'Request body is too large.'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+            } catch {
+                reject(new HttpError(400, 'Request body must be valid JSON.'));
+            }
+        });
+        req.on('error', reject);
+    });
+
+const handleHistory = async (params: URLSearchParams) => {
+    const symbol = requireParam(params, 'symbol');
+    const interval = requireParam(params, 'interval') as CandleInterval;
+    if (!INTERVALS.includes(interval)) throw new HttpError(400, `Unsupported interval '${interval}'.`);
+    const to = Number(params.get('to')) || Math.floor(Date.now() / 1000);
+    const from = Number(params.get('from')) || 0;
+
+    const { result, source } = await firstSuccessful(symbol, 'history', p => p.getHistory!(symbol, { interval, from, to }));
+    return { bars: result, source };
+};
+
+const handleQuote = async (params: URLSearchParams) => {
+    const symbol = requireParam(params, 'symbol');
+    const { result, source } = await firstSuccessful(symbol, 'quote', p => p.getQuote!(symbol));
+    return { price: result, source };
+};
+
+const handleSearch = async (params: URLSearchParams) => {
+    const query = requireParam(params, 'q');
+    const { result, source } = await firstSuccessful(query, 'search', p => p.search!(query));
+    return { results: result, source };
+};
+
+const handleEvents = async (params: URLSearchParams) => {
+    const symbol = requireParam(params, 'symbol');
+    const to = Number(params.get('to')) || Math.floor(Date.now() / 1000);
+    const from = Number(params.get('from')) || 0;
+    const { result, source } = await firstSuccessful(symbol, 'corporate actions', p => p.getCorporateActions!(symbol, from, to));
+    return { events: result, source };
+};
+
+// Only the part shapes the frontend sends: text, and inline chart images.
+const isAnalysisPart = (part: any): boolean =>
+    !!part && typeof part === 'object' && (
+        (typeof part.text === 'string' && Object.keys(part).length === 1)
+        || (Object.keys(part).length === 1 && typeof part.inlineData?.data === 'string' && typeof part.inlineData.mimeType === 'string' && part.inlineData.mimeType.startsWith('image/'))
+    );
+
+const handleAnalyze = async (req: http.IncomingMessage) => {
+    if (!ai) throw new HttpError(503, 'GEMINI_API_KEY is not configured on the server.');
+    const body = await readJsonBody(req);
+    if (!body || typeof body !== 'object') throw new HttpError(400, 'Request body must be a JSON object.');
+    const { model = ANALYSIS_MODELS[0], parts, systemInstruction, responseSchema } = body;
+    if (typeof model !== 'string' || !ANALYSIS_MODELS.includes(model)) {
+        throw new HttpError(400, `Unsupported model. Allowed: ${ANALYSIS_MODELS.join(', ')}.`);
+    }
+    if (!Array.isArray(parts) || parts.length === 0 || parts.length > MAX_PARTS || !parts.every(isAnalysisPart)) {
+        throw new HttpError(400, `'parts' must hold 1-${MAX_PARTS} text or inline image parts.`);
+    }
+    if (typeof systemInstruction !== 'string') throw new HttpError(400, "Request body must include 'systemInstruction'.");
+    if (!responseSchema || typeof responseSchema !== 'object' || Array.isArray(responseSchema)) {
+        throw new HttpError(400, "Request body must include a 'responseSchema' object.");
+    }
+
+    const response = await ai.models.generateContent({
+        model,
+        contents: { parts },
+        config: { systemInstruction, responseMimeType: 'application/json', responseSchema },
+    });
+    return { text: response.text };
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const server = http.createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    const route = `${req.method} ${url.pathname}`;
+    // Browsers send the page's origin; requests from other sites are refused outright, not just left unreadable.
+    if (ALLOWED_ORIGIN !== '*' && req.headers.origin && req.headers.origin !== ALLOWED_ORIGIN) {
+        return sendJson(res, 403, { error: `Origin ${req.headers.origin} is not allowed.` });
+    }
+
+    try {
+        switch (route) {
+            case 'GET /api/health': return sendJson(res, 200, { status: 'ok', gemini: !!ai, finnhub: !!process.env.FINNHUB_API_KEY });
+            case 'GET /api/history': return sendJson(res, 200, await handleHistory(url.searchParams));
+            case 'GET /api/quote': return sendJson(res, 200, await handleQuote(url.searchParams));
+            case 'GET /api/search': return sendJson(res, 200, await handleSearch(url.searchParams));
+            case 'GET /api/events': return sendJson(res, 200, await handleEvents(url.searchParams));
+            case 'POST /api/analyze': return sendJson(res, 200, await handleAnalyze(req));
+            default: return sendJson(res, 404, { error: `No route for ${route}.` });
+        }
+    } catch (error) {
+        const status = error instanceof HttpError ? error.status : 500;
+        if (status >= 500) console.error(`${route} failed:`, error);
+        sendJson(res, status, { error: error instanceof Error ? error.message : 'Internal server error.' });
+    }
+});
+
+// --- QUOTE STREAM ---
+
+// Upstream quotes are polled once per symbol, however many clients subscribe,
+// and pushed to clients only when the price changes.
+interface StreamTopic {
+    clients: Set<WebSocket>;
+    timer: NodeJS.Timeout;
+    lastPrice: number | null;
+}
+
+const topics = new Map<string, StreamTopic>();
+
+const sendMessage = (socket: WebSocket, message: StreamServerMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const pollTopic = async (symbol: string) => {
+    const topic = topics.get(symbol);
+    if (!topic) return;
+    try {
+        const { result: price } = await firstSuccessful(symbol, 'quote', p => p.getQuote!(symbol));
+        if (price === topic.lastPrice) return;
+        topic.lastPrice = price;
+        topic.clients.forEach(client => sendMessage(client, { type: 'tick', symbol, price, time: Date.now() }));
+    } catch {
+        // Already logged by firstSuccessful. Failures are often transient, so clients are not
+        // told to give up; a silent stream makes them poll until ticks resume.
+    }
+};
+
+const subscribe = (socket: WebSocket, symbol: string) => {
+    let topic = topics.get(symbol);
+    if (!topic) {
+        topic = { clients: new Set(), timer: setInterval(() => pollTopic(symbol), STREAM_POLL_MS), lastPrice: null };
+        topics.set(symbol, topic);
+        pollTopic(symbol);
+    } else if (topic.lastPrice !== null) {
+        sendMessage(socket, { type: 'tick', symbol, price: topic.lastPrice, time: Date.now() });
+    }
+    topic.clients.add(socket);
+};
+
+const unsubscribe = (socket: WebSocket, symbol: string) => {
+    const topic = topics.get(symbol);
+    if (!topic) return;
+    topic.clients.delete(socket);
+    if (topic.clients.size === 0) {
+        clearInterval(topic.timer);
+        topics.delete(symbol);
+    }
+};
+
+const streamServer = new WebSocketServer({ noServer: true });
+
+streamServer.on('connection', (socket: WebSocket) => {
+    socket.on('message', (data) => {
+        let message: Partial<StreamClientMessage> | null;
+        try {
+            message = JSON.parse(data.toString());
+        } catch {
+            return sendMessage(socket, { type: 'error', message: 'Messages must be valid JSON.' });
+        }
+        // Any JSON value parses, including null and arrays, so the shape is checked before fields are read.
+        if (!message || typeof message !== 'object' || (message.type !== 'subscribe' && message.type !== 'unsubscribe')
+            || typeof message.symbol !== 'string' || !message.symbol) {
+            return sendMessage(socket, { type: 'error', message: "Messages must be objects with a 'type' of 'subscribe' or 'unsubscribe' and a 'symbol'." });
+        }
+        const { type, symbol } = message;
+        // A bad frame from one client must never take down the server for everyone else.
+        try {
+            if (type === 'subscribe') subscribe(socket, symbol);
+            else if (type === 'unsubscribe') unsubscribe(socket, symbol);
+        } catch (error) {
+            console.error('Stream message failed:', error);
+            sendMessage(socket, { type: 'error', message: 'The message could not be handled.' });
+        }
+    });
+    socket.on('close', () => [...topics.keys()].forEach(symbol => unsubscribe(socket, symbol)));
+});
+
+server.on('upgrade', (req, socket, head) => {
+    const originRefused = ALLOWED_ORIGIN !== '*' && req.headers.origin && req.headers.origin !== ALLOWED_ORIGIN;
+    if (originRefused || new URL(req.url ?? '/', 'http://localhost').pathname !== '/api/stream') {
+        socket.destroy();
+        return;
+    }
+    streamServer.handleUpgrade(req, socket, head, ws => streamServer.emit('connection', ws, req));
+});
+
+server.listen(PORT, () => {
+    console.log(`Chartist backend listening on http://localhost:${PORT}`);
+    if (!ai) console.warn('GEMINI_API_KEY is not set; /api/analyze will be unavailable.');
+});
@@ -0,0 +1,104 @@
+import { readFileSync } from 'node:fs';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { StreamClientMessage, StreamServerMessage } from '../services/quoteStream';
+
+/**
+ * A local WebSocket quote feed for development. It speaks the same protocol as
+ * the backend's /api/stream and replays recorded ticks in a loop, so streaming
+ * can be exercised without API keys or an open market:
+ *
+ *   npm run mock-stream
+ *   QUOTE_STREAM_URL=ws://localhost:8788 npm run dev
+ *
+ *   MOCK_STREAM_PORT     port to listen on (default 8788)
+ *   MOCK_TICKS_FILE      recorded ticks (default server/fixtures/ticks.json)
+ *   MOCK_STREAM_SPEED    replay speed multiplier (default 1)
+ *   MOCK_STREAM_DROP_MS  close every connection after this many ms, to exercise reconnection
+ */
+
+const PORT = Number(process.env.MOCK_STREAM_PORT) || 8788;
+const TICKS_FILE = process.env.MOCK_TICKS_FILE || new URL('./fixtures/ticks.json', import.meta.url);
+const SPEED = Number(process.env.MOCK_STREAM_SPEED) || 1;
+const DROP_AFTER_MS = Number(process.env.MOCK_STREAM_DROP_MS) || 0;
+
+type RecordedTick = [offsetMs: number, price: number, volume?: number];
+
+// A Map rather than the parsed object, so a symbol like "constructor" cannot resolve to a prototype property.
+const recordings = new Map<string, RecordedTick[]>(
+    Object.entries(JSON.parse(readFileSync(TICKS_FILE, 'utf8')).symbols as Record<string, unknown>)
+        .filter((entry): entry is [string, RecordedTick[]] => Array.isArray(entry[1]) && entry[1].length > 0),
+);
+
+const sendMessage = (socket: WebSocket, message: StreamServerMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+/**
+ * Replays a recording with its original spacing. Each loop continues from the
+ * last replayed price instead of jumping back to the first recorded one.
+ */
+const replay = (socket: WebSocket, symbol: string, ticks: RecordedTick[]): (() => void) => {
+    let timer: NodeJS.Timeout;
+    let index = 0;
+    let scale = 1;
+    let previousOffset = 0;
+
+    const next = () => {
+        const [offset, price, volume] = ticks[index];
+        timer = setTimeout(() => {
+            sendMessage(socket, { type: 'tick', symbol, price: +(price * scale).toFixed(2), time: Date.now(), volume });
+            previousOffset = offset;
+            index += 1;
+            if (index === ticks.length) {
+                scale *= ticks[ticks.length - 1][1] / ticks[0][1];
+                index = 0;
+                previousOffset = 0;
+            }
+            next();
+        }, Math.max(0, offset - previousOffset) / SPEED);
+    };
+
+    next();
+    return () => clearTimeout(timer);
+};
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', (socket: WebSocket) => {
+    const replays = new Map<string, () => void>();
+
+    socket.on('message', (data) => {
+        let message: Partial<StreamClientMessage> | null;
+        try {
+            message = JSON.parse(data.toString());
+        } catch {
+            return sendMessage(socket, { type: 'error', message: 'Messages must be valid JSON.' });
+        }
+        // Same checks as the backend: any JSON value parses, including null and arrays.
+        if (!message || typeof message !== 'object' || (message.type !== 'subscribe' && message.type !== 'unsubscribe')
+            || typeof message.symbol !== 'string' || !message.symbol) {
+            return sendMessage(socket, { type: 'error', message: "Messages must be objects with a 'type' of 'subscribe' or 'unsubscribe' and a 'symbol'." });
+        }
+        const { type, symbol } = message;
+        if (type === 'subscribe' && !replays.has(symbol)) {
+            const ticks = recordings.get(symbol);
+            if (!ticks) {
+                return sendMessage(socket, { type: 'error', symbol, message: `No recorded ticks for '${symbol}'. Recorded: ${[...recordings.keys()].join(', ')}.` });
+            }
+            replays.set(symbol, replay(socket, symbol, ticks));
+        } else if (type === 'unsubscribe') {
+            replays.get(symbol)?.();
+            replays.delete(symbol);
+        }
+    });
+
+    socket.on('close', () => replays.forEach(stop => stop()));
+
+    if (DROP_AFTER_MS > 0) {
+        setTimeout(() => socket.close(1012, 'Simulated disconnect'), DROP_AFTER_MS);
+    }
+});
+
+server.on('listening', () => {
+    console.log(`Mock quote stream listening on ws://localhost:${PORT} (${recordings.size} recorded symbols)`);
+});
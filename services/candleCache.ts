@@ -0,0 +1,147 @@
+import type { OhlcvBar } from '../types';
+
+/**
+ * A persistent candle store backed by IndexedDB, keyed by symbol + interval.
+ * Every function degrades to a no-op when IndexedDB is unavailable (e.g. private
+ * browsing), so callers can treat the cache as best-effort.
+ */
+
+export interface CachedSeries {
+    key: string;
+    symbol: string;
+    interval: string;
+    bars: OhlcvBar[];
+    coversFrom: number; // earliest requested start (unix seconds) the series is complete from; 0 = full history
+    fetchedAt: number;  // epoch ms of the last successful network refresh
+    lastAccessed: number; // epoch ms, used for LRU eviction
+    source: string;
+}
+
+export interface CandleCacheStats {
+    entries: number;
+    totalBars: number;
+    approxBytes: number;
+    series: { symbol: string; interval: string; bars: number; fetchedAt: number; lastAccessed: number }[];
+}
+
+const DB_NAME = 'champion-chartist';
+const DB_VERSION = 1;
+const STORE = 'candles';
+const MAX_ENTRIES = 200;
+const APPROX_BYTES_PER_BAR = 48;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+            resolve(null);
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(STORE)) {
+                db.createObjectStore(STORE, { keyPath: 'key' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            console.warn('Candle cache unavailable:', request.error);
+            resolve(null);
+        };
+    });
+    return dbPromise;
+};
+
+const runRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> => {
+    const db = await openDb();
+    if (!db) return null;
+    try {
+        return await runRequest(fn(db.transaction(STORE, mode).objectStore(STORE)));
+    } catch (error) {
+        console.warn('Candle cache operation failed:', error);
+        return null;
+    }
+};
+
+export const cacheKey = (symbol: string, interval: string) => `${symbol.toUpperCase()}|${interval}`;
+
+export const getCachedSeries = async (symbol: string, interval: string): Promise<CachedSeries | null> => {
+    const entry = await withStore<CachedSeries | undefined>('readonly', store => store.get(cacheKey(symbol, interval)));
+    if (!entry) return null;
+    // Touch the entry for LRU bookkeeping without blocking the caller.
+    void withStore('readwrite', store => store.put({ ...entry, lastAccessed: Date.now() }));
+    return entry;
+};
+
+export const putCachedSeries = async (entry: Omit<CachedSeries, 'key' | 'lastAccessed'>): Promise<void> => {
+    await withStore('readwrite', store => store.put({ ...entry, key: cacheKey(entry.symbol, entry.interval), lastAccessed: Date.now() }));
+    await evictCandleCache({ maxEntries: MAX_ENTRIES });
+};
+
+/**
+ * Merges newly fetched bars into cached bars. Fresh bars win on equal timestamps
+ * because the last cached bar is usually still forming when it was stored.
+ */
+export const mergeBars = (cached: OhlcvBar[], fresh: OhlcvBar[]): OhlcvBar[] => {
+    const byTime = new Map<number, OhlcvBar>();
+    for (const bar of cached) byTime.set(bar.time, bar);
+    for (const bar of fresh) byTime.set(bar.time, bar);
+    return Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+};
+
+export const getCandleCacheStats = async (): Promise<CandleCacheStats> => {
+    const entries = (await withStore<CachedSeries[]>('readonly', store => store.getAll())) ?? [];
+    const totalBars = entries.reduce((sum, e) => sum + e.bars.length, 0);
+    return {
+        entries: entries.length,
+        totalBars,
+        approxBytes: totalBars * APPROX_BYTES_PER_BAR,
+        series: entries
+            .map(e => ({ symbol: e.symbol, interval: e.interval, bars: e.bars.length, fetchedAt: e.fetchedAt, lastAccessed: e.lastAccessed }))
+            .sort((a, b) => b.lastAccessed - a.lastAccessed),
+    };
+};
+
+/**
+ * Removes least-recently-used series beyond `maxEntries` and any series not
+ * refreshed within `maxAgeMs`. Returns the number of series removed.
+ */
+export const evictCandleCache = async (options: { maxEntries?: number; maxAgeMs?: number } = {}): Promise<number> => {
+    const entries = (await withStore<CachedSeries[]>('readonly', store => store.getAll())) ?? [];
+    const now = Date.now();
+    const byRecency = [...entries].sort((a, b) => b.lastAccessed - a.lastAccessed);
+
+    const toRemove = byRecency.filter((entry, index) =>
+        (options.maxEntries !== undefined && index >= options.maxEntries) ||
+        (options.maxAgeMs !== undefined && now - entry.fetchedAt > options.maxAgeMs)
+    );
+    for (const entry of toRemove) {
+        await withStore('readwrite', store => store.delete(entry.key));
+    }
+    return toRemove.length;
+};
+
+export const deleteCachedSeries = async (symbol: string, interval?: string): Promise<void> => {
+    if (interval) {
+        await withStore('readwrite', store => store.delete(cacheKey(symbol, interval)));
+        return;
+    }
+    const prefix = `${symbol.toUpperCase()}|`;
+    const keys = (await withStore<IDBValidKey[]>('readonly', store => store.getAllKeys())) ?? [];
+    for (const key of keys.filter(k => String(k).startsWith(prefix))) {
+        await withStore('readwrite', store => store.delete(key));
+    }
+};
+
+export const clearCandleCache = async (): Promise<void> => {
+    await withStore('readwrite', store => store.clear());
+};
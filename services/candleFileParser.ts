@@ -0,0 +1,268 @@
+import type { OhlcvBar } from '../types';
+
+export interface ParsedCandleFile {
+    bars: OhlcvBar[];
+    warnings: string[];
+}
+
+const MAX_FILE_BYTES = 20 * 1024 * 1024; // 20 MB
+
+const COLUMN_ALIASES: Record<keyof OhlcvBar, string[]> = {
+    time: ['date', 'time', 'timestamp', 'datetime', 'date/time', 't'],
+    open: ['open', 'o'],
+    high: ['high', 'h'],
+    low: ['low', 'l'],
+    close: ['close', 'c', 'last', 'price'],
+    volume: ['volume', 'vol', 'v', 'qty', 'shares traded'],
+};
+
+const normalizeKey = (key: string) => key.trim().toLowerCase().replace(/^"|"$/g, '');
+
+const findColumn = (headers: string[], field: keyof OhlcvBar): number =>
+    headers.findIndex(h => COLUMN_ALIASES[field].includes(h));
+
+type DateOrder = 'dmy' | 'mdy';
+
+const NUMERIC_DATE = /^(\d{1,2})[-/](\d{1,2})[-/](\d{4})(.*)$/;
+const COMPACT_DATE = /^(\d{4})(\d{2})(\d{2})$/;
+
+const dateText = (raw: unknown) => String(raw).trim().replace(/^"|"$/g, '');
+
+/**
+ * Day-first or month-first, decided by the whole date column: a first field
+ * above 12 can only be a day and a second field above 12 only a day. When no
+ * date settles it, day-first is assumed and `ambiguous` is set.
+ */
+const detectDateOrder = (values: unknown[]): { order: DateOrder; ambiguous: boolean } => {
+    const dates = values.map(value => dateText(value).match(NUMERIC_DATE)).filter((match): match is RegExpMatchArray => match !== null);
+    if (dates.some(match => Number(match[1]) > 12)) return { order: 'dmy', ambiguous: false };
+    if (dates.some(match => Number(match[2]) > 12)) return { order: 'mdy', ambiguous: false };
+    return { order: 'dmy', ambiguous: dates.some(match => match[1] !== match[2]) };
+};
+
+// YYYYMMDD (MetaStock and many broker exports) as UTC midnight, or null when it is not a real date.
+const parseCompactDate = (text: string): number | null => {
+    const match = text.match(COMPACT_DATE);
+    if (!match) return null;
+    const [year, month, day] = match.slice(1).map(Number);
+    if (year < 1900 || year > 2100) return null;
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date.getTime() / 1000 : null;
+};
+
+/**
+ * Parses a date cell into unix seconds. Accepts YYYYMMDD, unix seconds or
+ * milliseconds, ISO dates/datetimes and DD-MM-YYYY / DD/MM/YYYY (the common
+ * Indian broker export format), or MM/DD/YYYY when the column calls for it.
+ */
+const parseTime = (raw: string | number, order: DateOrder = 'dmy'): number | null => {
+    const compact = parseCompactDate(String(raw).trim());
+    if (compact !== null) return compact;
+    if (typeof raw === 'number' || /^\d+(\.\d+)?$/.test(String(raw).trim())) {
+        const num = Number(raw);
+        if (!isFinite(num)) return null;
+        return Math.floor(num > 1e11 ? num / 1000 : num);
+    }
+    const text = dateText(raw);
+    const numeric = text.match(NUMERIC_DATE);
+    const [day, month] = numeric ? (order === 'dmy' ? [numeric[1], numeric[2]] : [numeric[2], numeric[1]]) : [];
+    const iso = numeric ? `${numeric[3]}-${month.padStart(2, '0')}-${day.padStart(2, '0')}${numeric[4]}` : text;
+    // Date-only strings are treated as UTC midnight so they line up with provider data.
+    const ms = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(iso) ? `${iso}T00:00:00Z` : iso);
+    return isNaN(ms) ? null : Math.floor(ms / 1000);
+};
+
+/**
+ * Parses a price or volume cell. Commas are thousands separators ("1,234.50")
+ * unless `decimalComma` is set, as for semicolon and tab exports such as
+ * "1.234,50", where the comma is the decimal point and dots and spaces group.
+ */
+const parseNumber = (raw: unknown, decimalComma = false): number => {
+    if (typeof raw === 'number') return raw;
+    if (raw === null || raw === undefined) return NaN;
+    const text = String(raw).trim().replace(/^"|"$/g, '');
+    const plain = decimalComma ? text.replace(/[.\s\u00a0\u202f]/g, '').replace(',', '.') : text.replace(/,/g, '');
+    return plain === '' ? NaN : Number(plain);
+};
+
+// Splits one CSV line, honouring double-quoted fields (which may hold the delimiter, e.g. "1,234.50") and "" escapes.
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === delimiter) {
+            cells.push(cell);
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    cells.push(cell);
+    return cells;
+};
+
+const detectDelimiter = (headerLine: string): string => {
+    const candidates = [',', ';', '\t'];
+    return candidates.reduce((best, d) => splitCsvLine(headerLine, d).length > splitCsvLine(headerLine, best).length ? d : best, ',');
+};
+
+interface ParsedRows {
+    rows: Record<keyof OhlcvBar, unknown>[];
+    hasVolume: boolean;
+    decimalComma?: boolean;
+}
+
+const PRICE_FIELDS = ['open', 'high', 'low', 'close'] as const;
+
+const parseCsv = (text: string): ParsedRows => {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    if (lines.length < 2) {
+        throw new Error('The CSV file must contain a header row and at least one data row.');
+    }
+
+    const delimiter = detectDelimiter(lines[0]);
+    const headers = splitCsvLine(lines[0], delimiter).map(normalizeKey);
+    const columns = {
+        time: findColumn(headers, 'time'),
+        open: findColumn(headers, 'open'),
+        high: findColumn(headers, 'high'),
+        low: findColumn(headers, 'low'),
+        close: findColumn(headers, 'close'),
+        volume: findColumn(headers, 'volume'),
+    };
+    const missing = (['time', 'open', 'high', 'low', 'close'] as const).filter(f => columns[f] === -1);
+    if (missing.length > 0) {
+        throw new Error(`The CSV header is missing required column(s): ${missing.join(', ')}. Expected Date,Open,High,Low,Close,Volume.`);
+    }
+
+    const rows = lines.slice(1).map(line => {
+        const cells = splitCsvLine(line, delimiter);
+        return {
+            time: cells[columns.time],
+            open: cells[columns.open],
+            high: cells[columns.high],
+            low: cells[columns.low],
+            close: cells[columns.close],
+            volume: columns.volume === -1 ? 0 : cells[columns.volume],
+        };
+    });
+    // A comma in a price of a semicolon or tab file can only be a decimal comma; without one, dots are decimal points.
+    const decimalComma = delimiter !== ',' && rows.some(row => PRICE_FIELDS.some(field => String(row[field] ?? '').includes(',')));
+    return { rows, hasVolume: columns.volume !== -1, decimalComma };
+};
+
+const parseJson = (text: string): ParsedRows => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The JSON file could not be parsed.');
+    }
+
+    // Columnar arrays, e.g. { t: [...], o: [...], h: [...], l: [...], c: [...], v: [...] }
+    if (data && !Array.isArray(data) && Array.isArray(data.t)) {
+        return {
+            rows: data.t.map((t: unknown, i: number) => ({
+                time: t, open: data.o?.[i], high: data.h?.[i], low: data.l?.[i], close: data.c?.[i], volume: data.v?.[i] ?? 0,
+            })),
+            hasVolume: Array.isArray(data.v),
+        };
+    }
+
+    const records = Array.isArray(data) ? data : data?.candles ?? data?.bars ?? data?.data;
+    if (!Array.isArray(records)) {
+        throw new Error('The JSON file must contain an array of candles (or a "candles" array).');
+    }
+
+    let hasVolume = false;
+    const rows = records.map((record: Record<string, unknown>) => {
+        const entry: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(record ?? {})) {
+            entry[normalizeKey(key)] = value;
+        }
+        const pick = (field: keyof OhlcvBar) => COLUMN_ALIASES[field].map(alias => entry[alias]).find(v => v !== undefined);
+        const volume = pick('volume');
+        if (volume !== undefined) hasVolume = true;
+        return { time: pick('time'), open: pick('open'), high: pick('high'), low: pick('low'), close: pick('close'), volume: volume ?? 0 };
+    });
+    return { rows, hasVolume };
+};
+
+/**
+ * Parses and validates a user-supplied OHLCV export (CSV or JSON) into time-ordered bars.
+ * Throws a descriptive Error when the file cannot be used at all; recoverable problems
+ * (skipped rows, duplicates, missing volume) are returned as warnings.
+ */
+export const parseCandleFile = (fileName: string, text: string): ParsedCandleFile => {
+    if (text.length > MAX_FILE_BYTES) {
+        throw new Error('The data file is too large. Please upload a file smaller than 20 MB.');
+    }
+
+    const trimmed = text.trim();
+    const isJson = fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('[') || trimmed.startsWith('{');
+    const { rows, hasVolume, decimalComma } = isJson ? parseJson(trimmed) : parseCsv(trimmed);
+
+    const warnings: string[] = [];
+    if (!hasVolume) {
+        warnings.push('No volume column found; volume analysis will be unavailable.');
+    }
+
+    const dateOrder = detectDateOrder(rows.map(row => row.time));
+    if (dateOrder.ambiguous) {
+        warnings.push('Dates such as 03/04/2024 could be day-first or month-first; they were read as day/month/year.');
+    }
+
+    const byTime = new Map<number, OhlcvBar>();
+    let skipped = 0;
+    let duplicates = 0;
+
+    rows.forEach((row) => {
+        const time = row.time === undefined ? null : parseTime(row.time as string | number, dateOrder.order);
+        const bar = {
+            time: time ?? NaN,
+            open: parseNumber(row.open, decimalComma),
+            high: parseNumber(row.high, decimalComma),
+            low: parseNumber(row.low, decimalComma),
+            close: parseNumber(row.close, decimalComma),
+            volume: parseNumber(row.volume, decimalComma),
+        };
+        const pricesValid = [bar.open, bar.high, bar.low, bar.close].every(p => isFinite(p) && p > 0);
+        if (time === null || !pricesValid) {
+            skipped++;
+            return;
+        }
+        if (!isFinite(bar.volume) || bar.volume < 0) bar.volume = 0;
+        // Repair inconsistent extremes rather than dropping the bar.
+        bar.high = Math.max(bar.high, bar.open, bar.close);
+        bar.low = Math.min(bar.low, bar.open, bar.close);
+
+        if (byTime.has(time)) duplicates++;
+        byTime.set(time, bar);
+    });
+
+    if (skipped > 0) {
+        warnings.push(`${skipped} row(s) with an unreadable date or invalid prices were skipped.`);
+    }
+    if (duplicates > 0) {
+        warnings.push(`${duplicates} duplicate timestamp(s) found; the last occurrence was kept.`);
+    }
+
+    const bars = Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+    if (bars.length < 2) {
+        throw new Error('The data file does not contain enough valid candles to analyze (at least 2 are required).');
+    }
+    return { bars, warnings };
+};
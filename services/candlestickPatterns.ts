@@ -0,0 +1,199 @@
+import type { CandlestickData, CandlestickPatternType, CandlestickSignal, ChartMarker, OhlcvBar, PriceFormat } from '../types';
+import { atr } from './indicators';
+import { formatPlainPrice } from './priceFormat';
+
+/**
+ * Candlestick pattern recognition over the most recent candles. Shapes are
+ * measured against the average body of the preceding candles, and reversal
+ * patterns (hammers, stars, engulfing and harami) only count after a move in
+ * the direction they reverse. Each candle reports its most significant
+ * pattern, multi-candle patterns first.
+ */
+
+const RECENT_BARS = 20;   // candles scanned for signals
+const BODY_AVERAGE = 10;  // candles the average body is taken over
+const TREND_BARS = 5;     // candles before a pattern that set its context
+const DOJI_BODY = 0.1;    // body at most this share of the range
+
+export const CANDLESTICK_PATTERNS: Record<CandlestickPatternType, { name: string; short: string; bias: CandlestickSignal['bias']; candles: number }> = {
+    'morning-star': { name: 'Morning Star', short: 'MS', bias: 'bullish', candles: 3 },
+    'evening-star': { name: 'Evening Star', short: 'ES', bias: 'bearish', candles: 3 },
+    'bullish-engulfing': { name: 'Bullish Engulfing', short: 'BuE', bias: 'bullish', candles: 2 },
+    'bearish-engulfing': { name: 'Bearish Engulfing', short: 'BeE', bias: 'bearish', candles: 2 },
+    'bullish-harami': { name: 'Bullish Harami', short: 'BuH', bias: 'bullish', candles: 2 },
+    'bearish-harami': { name: 'Bearish Harami', short: 'BeH', bias: 'bearish', candles: 2 },
+    'hammer': { name: 'Hammer', short: 'Ham', bias: 'bullish', candles: 1 },
+    'hanging-man': { name: 'Hanging Man', short: 'HM', bias: 'bearish', candles: 1 },
+    'inverted-hammer': { name: 'Inverted Hammer', short: 'IH', bias: 'bullish', candles: 1 },
+    'shooting-star': { name: 'Shooting Star', short: 'SS', bias: 'bearish', candles: 1 },
+    'doji': { name: 'Doji', short: 'Doji', bias: 'neutral', candles: 1 },
+    'outside-bar': { name: 'Outside Bar', short: 'OB', bias: 'neutral', candles: 2 },
+    'inside-bar': { name: 'Inside Bar', short: 'IB', bias: 'neutral', candles: 2 },
+};
+
+interface Shape {
+    body: number;
+    range: number;
+    upper: number; // upper shadow
+    lower: number; // lower shadow
+    bullish: boolean;
+}
+
+const shapeOf = (bar: CandlestickData): Shape => ({
+    body: Math.abs(bar.close - bar.open),
+    range: bar.high - bar.low,
+    upper: bar.high - Math.max(bar.open, bar.close),
+    lower: Math.min(bar.open, bar.close) - bar.low,
+    bullish: bar.close > bar.open,
+});
+
+interface Context {
+    bars: CandlestickData[];
+    shapes: Shape[];
+    atr: (number | null)[];
+}
+
+// The average body of the candles before `index`, the yardstick for "long" and "small" bodies.
+const averageBody = (ctx: Context, index: number): number => {
+    const window = ctx.shapes.slice(Math.max(0, index - BODY_AVERAGE), index);
+    return window.length ? window.reduce((sum, s) => sum + s.body, 0) / window.length : ctx.shapes[index].body;
+};
+
+// +1 after a rise of at least one ATR over the candles before `start`, -1 after a fall, otherwise 0.
+const trendBefore = (ctx: Context, start: number): number => {
+    const from = start - 1 - TREND_BARS;
+    const range = ctx.atr[start - 1];
+    if (from < 0 || !range) return 0;
+    const change = ctx.bars[start - 1].close - ctx.bars[from].close;
+    return change >= range ? 1 : change <= -range ? -1 : 0;
+};
+
+// --- PATTERNS ---
+
+// Each matcher checks the pattern ending at candle `i` and returns its description, or null.
+type Matcher = (ctx: Context, i: number) => string | null;
+
+const star = (bullish: boolean): Matcher => (ctx, i) => {
+    if (i < 2 || trendBefore(ctx, i - 2) !== (bullish ? -1 : 1)) return null;
+    const [first, middle, last] = [ctx.shapes[i - 2], ctx.shapes[i - 1], ctx.shapes[i]];
+    const [firstBar, lastBar] = [ctx.bars[i - 2], ctx.bars[i]];
+    const midpoint = (firstBar.open + firstBar.close) / 2;
+    const long = first.body >= averageBody(ctx, i - 2);
+    const closesBack = bullish ? lastBar.close > midpoint : lastBar.close < midpoint;
+    if (!long || first.bullish === bullish || middle.body > first.body * 0.5 || last.bullish !== bullish || !closesBack) return null;
+    return bullish
+        ? 'A long bearish candle, a small-bodied pause and a bullish candle closing into the first body, after a decline.'
+        : 'A long bullish candle, a small-bodied pause and a bearish candle closing into the first body, after a rise.';
+};
+
+const engulfing = (bullish: boolean): Matcher => (ctx, i) => {
+    if (i < 1 || trendBefore(ctx, i - 1) !== (bullish ? -1 : 1)) return null;
+    const [previous, current] = [ctx.shapes[i - 1], ctx.shapes[i]];
+    const [prevBar, bar] = [ctx.bars[i - 1], ctx.bars[i]];
+    const engulfs = Math.max(bar.open, bar.close) >= Math.max(prevBar.open, prevBar.close)
+        && Math.min(bar.open, bar.close) <= Math.min(prevBar.open, prevBar.close)
+        && current.body > previous.body;
+    if (previous.bullish === bullish || previous.body === 0 || current.bullish !== bullish || !engulfs) return null;
+    return `The ${bullish ? 'bullish' : 'bearish'} body engulfs the previous ${bullish ? 'bearish' : 'bullish'} body after a ${bullish ? 'decline' : 'rise'}.`;
+};
+
+const harami = (bullish: boolean): Matcher => (ctx, i) => {
+    if (i < 1 || trendBefore(ctx, i - 1) !== (bullish ? -1 : 1)) return null;
+    const [previous, current] = [ctx.shapes[i - 1], ctx.shapes[i]];
+    const [prevBar, bar] = [ctx.bars[i - 1], ctx.bars[i]];
+    const inside = Math.max(bar.open, bar.close) < Math.max(prevBar.open, prevBar.close)
+        && Math.min(bar.open, bar.close) > Math.min(prevBar.open, prevBar.close);
+    if (previous.bullish === bullish || previous.body < averageBody(ctx, i - 1) || current.body > previous.body * 0.5 || !inside) return null;
+    return `A small body inside the previous long ${bullish ? 'bearish' : 'bullish'} body after a ${bullish ? 'decline' : 'rise'}; the ${bullish ? 'selling' : 'buying'} is stalling.`;
+};
+
+// Hammer and hanging man share a long lower shadow; inverted hammer and shooting star a long upper one.
+const pinBar = (longShadow: 'lower' | 'upper', trend: number): Matcher => (ctx, i) => {
+    if (trendBefore(ctx, i) !== trend) return null;
+    const shape = ctx.shapes[i];
+    const [shadow, other] = longShadow === 'lower' ? [shape.lower, shape.upper] : [shape.upper, shape.lower];
+    if (shape.range === 0 || shape.body <= shape.range * DOJI_BODY || shadow < shape.body * 2 || other > shape.range * 0.15) return null;
+    return `A small body with a long ${longShadow} shadow after a ${trend < 0 ? 'decline' : 'rise'}: ${longShadow === 'lower'
+        ? (trend < 0 ? 'sellers pushed lower but buyers closed the candle near its high.' : 'a deep intrabar sell-off warns that buyers are tiring.')
+        : (trend < 0 ? 'buyers tested higher prices, an early sign of a turn.' : 'buyers pushed higher but sellers closed the candle near its low.')}`;
+};
+
+const doji: Matcher = (ctx, i) => {
+    const shape = ctx.shapes[i];
+    if (shape.range === 0 || shape.body > shape.range * DOJI_BODY || shape.range < averageBody(ctx, i) * 0.5) return null;
+    return 'Open and close are nearly equal: indecision between buyers and sellers.';
+};
+
+const outsideBar: Matcher = (ctx, i) => {
+    if (i < 1 || !(ctx.bars[i].high > ctx.bars[i - 1].high && ctx.bars[i].low < ctx.bars[i - 1].low)) return null;
+    return `The candle's range covers the previous one on both sides and it closed ${ctx.shapes[i].bullish ? 'up' : 'down'}: volatility is expanding.`;
+};
+
+const insideBar: Matcher = (ctx, i) => {
+    if (i < 1 || !(ctx.bars[i].high < ctx.bars[i - 1].high && ctx.bars[i].low > ctx.bars[i - 1].low)) return null;
+    return "The candle's range lies within the previous one: a contraction that often precedes a breakout of that candle's range.";
+};
+
+// In order of significance; a candle reports the first pattern that matches.
+const MATCHERS: [CandlestickPatternType, Matcher][] = [
+    ['morning-star', star(true)],
+    ['evening-star', star(false)],
+    ['bullish-engulfing', engulfing(true)],
+    ['bearish-engulfing', engulfing(false)],
+    ['bullish-harami', harami(true)],
+    ['bearish-harami', harami(false)],
+    ['hammer', pinBar('lower', -1)],
+    ['hanging-man', pinBar('lower', 1)],
+    ['inverted-hammer', pinBar('upper', -1)],
+    ['shooting-star', pinBar('upper', 1)],
+    ['doji', doji],
+    ['outside-bar', outsideBar],
+    ['inside-bar', insideBar],
+];
+
+// --- DETECTION ---
+
+/** Candlestick signals of the last candles, newest first. */
+export const detectCandlestickPatterns = (candles: CandlestickData[]): CandlestickSignal[] => {
+    const ctx: Context = {
+        bars: candles,
+        shapes: candles.map(shapeOf),
+        atr: atr(candles.map(candle => ({ ...candle, volume: 0 }) as OhlcvBar), 14),
+    };
+    const signals: CandlestickSignal[] = [];
+    for (let i = candles.length - 1; i >= Math.max(0, candles.length - RECENT_BARS); i--) {
+        for (const [type, matcher] of MATCHERS) {
+            const description = matcher(ctx, i);
+            if (description === null) continue;
+            const { name, bias, candles: count } = CANDLESTICK_PATTERNS[type];
+            // Outside bars take the direction of their close.
+            const signalBias = type === 'outside-bar' ? (ctx.shapes[i].bullish ? 'bullish' : 'bearish') : bias;
+            signals.push({ type, name, bias: signalBias, time: candles[i].time, candles: count, description });
+            break;
+        }
+    }
+    return signals;
+};
+
+// --- CHART & REPORTING ---
+
+const MARKER_COLORS = { bullish: '#9AE6B4', bearish: '#FEB2B2', neutral: '#CBD5E0' };
+
+export const candlestickMarkers = (signals: CandlestickSignal[]): ChartMarker[] =>
+    signals.map(signal => ({
+        time: signal.time,
+        position: signal.bias === 'bullish' ? 'belowBar' : 'aboveBar',
+        color: MARKER_COLORS[signal.bias],
+        shape: signal.bias === 'bullish' ? 'arrowUp' : signal.bias === 'bearish' ? 'arrowDown' : 'circle',
+        text: CANDLESTICK_PATTERNS[signal.type].short,
+    }));
+
+export const describeCandlestickSignalsForPrompt = (signals: CandlestickSignal[], candles: CandlestickData[], priceFormat: PriceFormat): string => {
+    if (signals.length === 0) return '';
+    const closeAt = new Map(candles.map(candle => [candle.time, candle.close]));
+    const date = (time: number) => new Date(time * 1000).toISOString().slice(0, 10);
+    return `
+Context: Recent Candlestick Signals (last ${RECENT_BARS} candles, newest first):
+${signals.map(s => `- ${date(s.time)} ${s.name} (${s.bias}), close ${formatPlainPrice(closeAt.get(s.time), priceFormat)}: ${s.description}`).join('\n')}
+`;
+};
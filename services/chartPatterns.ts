@@ -0,0 +1,424 @@
+import type { CandlestickData, ChartMarker, ChartOverlay, ChartPatternData, ChartPatternType, DetectedPattern, OhlcvBar, PatternCheck, PatternLine, PatternPoint, PriceFormat } from '../types';
+import { atr, last } from './indicators';
+import { formatPlainPrice } from './priceFormat';
+
+/**
+ * Geometric chart pattern recognition over the most recent candles. Swing
+ * highs and lows are reduced to an alternating zigzag, and the latest pivots
+ * are matched against head & shoulders, double tops/bottoms, triangles, wedges
+ * and channels; flags are found from a strong pole followed by a tight
+ * counter-trend drift. Only patterns still relevant at the last candle are
+ * reported, each with its breakout level and measured-move target.
+ */
+
+const LOOKBACK_BARS = 150;
+const PIVOT_WINDOW = 3;    // candles on each side a pivot must exceed
+const MAX_PIVOT_AGE = 20;  // a pattern's last pivot must be at most this many candles old
+const MIN_SPAN_BARS = 10;
+
+export const PATTERN_NAMES: Record<ChartPatternType, string> = {
+    'head-and-shoulders': 'Head & Shoulders',
+    'inverse-head-and-shoulders': 'Inverse Head & Shoulders',
+    'double-top': 'Double Top',
+    'double-bottom': 'Double Bottom',
+    'ascending-triangle': 'Ascending Triangle',
+    'descending-triangle': 'Descending Triangle',
+    'symmetrical-triangle': 'Symmetrical Triangle',
+    'bull-flag': 'Bull Flag',
+    'bear-flag': 'Bear Flag',
+    'rising-wedge': 'Rising Wedge',
+    'falling-wedge': 'Falling Wedge',
+    'ascending-channel': 'Ascending Channel',
+    'descending-channel': 'Descending Channel',
+    'horizontal-channel': 'Horizontal Channel',
+};
+
+export const PATTERN_BIAS: Record<ChartPatternType, DetectedPattern['bias']> = {
+    'head-and-shoulders': 'bearish',
+    'inverse-head-and-shoulders': 'bullish',
+    'double-top': 'bearish',
+    'double-bottom': 'bullish',
+    'ascending-triangle': 'bullish',
+    'descending-triangle': 'bearish',
+    'symmetrical-triangle': 'neutral',
+    'bull-flag': 'bullish',
+    'bear-flag': 'bearish',
+    'rising-wedge': 'bearish',
+    'falling-wedge': 'bullish',
+    'ascending-channel': 'bullish',
+    'descending-channel': 'bearish',
+    'horizontal-channel': 'neutral',
+};
+
+interface Pivot {
+    index: number;
+    price: number;
+    kind: 'high' | 'low';
+}
+
+interface Line {
+    slope: number; // price per candle
+    valueAt: (index: number) => number;
+}
+
+interface Context {
+    bars: CandlestickData[];
+    pivots: Pivot[];
+    tolerance: number; // prices this close count as equal
+    atr: number;
+}
+
+// --- GEOMETRY ---
+
+const lineThrough = (a: { index: number; price: number }, b: { index: number; price: number }): Line => {
+    const slope = (b.price - a.price) / (b.index - a.index);
+    return { slope, valueAt: index => a.price + slope * (index - a.index) };
+};
+
+// Least-squares line through points given as (index, price).
+const fitLine = (points: { index: number; price: number }[]): Line => {
+    const n = points.length;
+    const meanX = points.reduce((sum, p) => sum + p.index, 0) / n;
+    const meanY = points.reduce((sum, p) => sum + p.price, 0) / n;
+    const sxx = points.reduce((sum, p) => sum + (p.index - meanX) ** 2, 0);
+    const slope = sxx === 0 ? 0 : points.reduce((sum, p) => sum + (p.index - meanX) * (p.price - meanY), 0) / sxx;
+    return { slope, valueAt: index => meanY + slope * (index - meanX) };
+};
+
+// Swing highs and lows reduced to an alternating sequence, keeping the more extreme of two in a row.
+const findPivots = (bars: CandlestickData[]): Pivot[] => {
+    const raw: Pivot[] = [];
+    for (let i = PIVOT_WINDOW; i < bars.length - PIVOT_WINDOW; i++) {
+        const left = bars.slice(i - PIVOT_WINDOW, i);
+        const right = bars.slice(i + 1, i + 1 + PIVOT_WINDOW);
+        if (left.every(bar => bar.high < bars[i].high) && right.every(bar => bar.high <= bars[i].high)) raw.push({ index: i, price: bars[i].high, kind: 'high' });
+        if (left.every(bar => bar.low > bars[i].low) && right.every(bar => bar.low >= bars[i].low)) raw.push({ index: i, price: bars[i].low, kind: 'low' });
+    }
+    const pivots: Pivot[] = [];
+    for (const pivot of raw) {
+        const previous = pivots[pivots.length - 1];
+        if (previous && previous.kind === pivot.kind) {
+            const moreExtreme = pivot.kind === 'high' ? pivot.price > previous.price : pivot.price < previous.price;
+            if (moreExtreme) pivots[pivots.length - 1] = pivot;
+        } else {
+            pivots.push(pivot);
+        }
+    }
+    return pivots;
+};
+
+const point = (ctx: Context, pivot: Pivot, label: string): PatternPoint => ({ time: ctx.bars[pivot.index].time, price: pivot.price, label });
+
+// A line from `fromIndex` extended to the last candle.
+const extendLine = (ctx: Context, label: string, line: Line, fromIndex: number): PatternLine => {
+    const lastIndex = ctx.bars.length - 1;
+    return {
+        label,
+        from: { time: ctx.bars[fromIndex].time, price: line.valueAt(fromIndex) },
+        to: { time: ctx.bars[lastIndex].time, price: line.valueAt(lastIndex) },
+    };
+};
+
+const isRecent = (ctx: Context, pivot: Pivot) => pivot.index >= ctx.bars.length - 1 - MAX_PIVOT_AGE;
+
+// --- REVERSAL PATTERNS ---
+
+// `top` looks for head & shoulders; otherwise the inverse. Prices are mirrored so one rule set serves both.
+const headAndShoulders = (ctx: Context, top: boolean): DetectedPattern | null => {
+    const s = top ? 1 : -1;
+    const shoulderKind = top ? 'high' : 'low';
+    const lastIndex = ctx.bars.length - 1;
+    for (let j = ctx.pivots.length - 5; j >= 0; j--) {
+        const [ls, t1, head, t2, rs] = ctx.pivots.slice(j, j + 5);
+        if (ls.kind !== shoulderKind || !isRecent(ctx, rs)) continue;
+        const headClear = s * (head.price - ls.price) > ctx.tolerance / 2 && s * (head.price - rs.price) > ctx.tolerance / 2;
+        const shouldersLevel = Math.abs(ls.price - rs.price) <= ctx.tolerance;
+        if (!headClear || !shouldersLevel) continue;
+        // A move beyond the head afterwards invalidates the pattern.
+        const after = ctx.bars.slice(rs.index + 1);
+        if (after.some(bar => s * ((top ? bar.high : bar.low) - head.price) > 0)) continue;
+
+        const neckline = lineThrough(t1, t2);
+        const breakoutLevel = neckline.valueAt(lastIndex);
+        const height = s * (head.price - neckline.valueAt(head.index));
+        const broken = ctx.bars.slice(rs.index + 1).some((bar, i) => s * (bar.close - neckline.valueAt(rs.index + 1 + i)) < 0);
+        const type: ChartPatternType = top ? 'head-and-shoulders' : 'inverse-head-and-shoulders';
+        return {
+            type,
+            name: PATTERN_NAMES[type],
+            bias: top ? 'bearish' : 'bullish',
+            status: broken ? 'confirmed' : 'forming',
+            pivots: [point(ctx, ls, 'LS'), point(ctx, t1, 'T1'), point(ctx, head, 'H'), point(ctx, t2, 'T2'), point(ctx, rs, 'RS')],
+            lines: [extendLine(ctx, 'Neckline', neckline, t1.index)],
+            breakoutLevel,
+            target: breakoutLevel - s * height,
+            startTime: ctx.bars[ls.index].time,
+            endTime: ctx.bars[rs.index].time,
+        };
+    }
+    return null;
+};
+
+const doubleTopOrBottom = (ctx: Context, top: boolean): DetectedPattern | null => {
+    const s = top ? 1 : -1;
+    const peakKind = top ? 'high' : 'low';
+    for (let j = ctx.pivots.length - 3; j >= 0; j--) {
+        const [first, trough, second] = ctx.pivots.slice(j, j + 3);
+        if (first.kind !== peakKind || !isRecent(ctx, second)) continue;
+        const level = (first.price + second.price) / 2;
+        if (Math.abs(first.price - second.price) > ctx.tolerance) continue;
+        if (s * (level - trough.price) < 2 * ctx.tolerance || second.index - first.index < 5) continue;
+        const after = ctx.bars.slice(second.index + 1);
+        if (after.some(bar => s * ((top ? bar.high : bar.low) - level) > ctx.tolerance)) continue;
+
+        const broken = after.some(bar => s * (bar.close - trough.price) < 0);
+        const type: ChartPatternType = top ? 'double-top' : 'double-bottom';
+        const lastIndex = ctx.bars.length - 1;
+        return {
+            type,
+            name: PATTERN_NAMES[type],
+            bias: top ? 'bearish' : 'bullish',
+            status: broken ? 'confirmed' : 'forming',
+            pivots: [point(ctx, first, top ? 'T1' : 'B1'), point(ctx, trough, top ? 'L' : 'H'), point(ctx, second, top ? 'T2' : 'B2')],
+            lines: [extendLine(ctx, top ? 'Support (neckline)' : 'Resistance (neckline)', lineThrough(trough, { index: lastIndex, price: trough.price }), trough.index)],
+            breakoutLevel: trough.price,
+            target: trough.price - s * Math.abs(level - trough.price),
+            startTime: ctx.bars[first.index].time,
+            endTime: ctx.bars[second.index].time,
+        };
+    }
+    return null;
+};
+
+// --- CONSOLIDATION PATTERNS ---
+
+/**
+ * Triangles, wedges and channels: lines fitted through the last two or three
+ * pivot highs and lows, classified by their slopes and whether they converge.
+ */
+const boundedPattern = (ctx: Context): DetectedPattern | null => {
+    const highs = ctx.pivots.filter(p => p.kind === 'high').slice(-3);
+    const lows = ctx.pivots.filter(p => p.kind === 'low').slice(-3);
+    if (highs.length < 2 || lows.length < 2 || !isRecent(ctx, ctx.pivots[ctx.pivots.length - 1])) return null;
+
+    // Fall back to the last two pivots when the third does not sit on the line.
+    const boundary = (points: Pivot[]) => {
+        const line = fitLine(points);
+        if (points.every(p => Math.abs(line.valueAt(p.index) - p.price) <= ctx.tolerance / 2)) return { line, points };
+        const lastTwo = points.slice(-2);
+        return { line: fitLine(lastTwo), points: lastTwo };
+    };
+    const upper = boundary(highs);
+    const lower = boundary(lows);
+    const start = Math.min(upper.points[0].index, lower.points[0].index);
+    const lastIndex = ctx.bars.length - 1;
+    const span = lastIndex - start;
+    if (span < MIN_SPAN_BARS) return null;
+
+    const widthStart = upper.line.valueAt(start) - lower.line.valueAt(start);
+    const upperNow = upper.line.valueAt(lastIndex);
+    const lowerNow = lower.line.valueAt(lastIndex);
+    const widthNow = upperNow - lowerNow;
+    if (widthStart <= 0 || widthNow <= 0) return null;
+
+    const direction = (line: Line) => (Math.abs(line.slope * span) <= ctx.tolerance ? 0 : Math.sign(line.slope));
+    const [up, down] = [direction(upper.line), direction(lower.line)];
+    const converging = widthNow < widthStart * 0.8;
+    const parallel = Math.abs(widthNow - widthStart) <= widthStart * 0.25;
+
+    let type: ChartPatternType | null = null;
+    if (up === 0 && down === 1) type = 'ascending-triangle';
+    else if (up === -1 && down === 0) type = 'descending-triangle';
+    else if (up === -1 && down === 1) type = 'symmetrical-triangle';
+    else if (up === 1 && down === 1) type = converging ? 'rising-wedge' : parallel ? 'ascending-channel' : null;
+    else if (up === -1 && down === -1) type = converging ? 'falling-wedge' : parallel ? 'descending-channel' : null;
+    else if (up === 0 && down === 0) type = 'horizontal-channel';
+    if (!type) return null;
+
+    const bias = PATTERN_BIAS[type];
+    const close = ctx.bars[lastIndex].close;
+    const brokeUp = close > upperNow;
+    const brokeDown = close < lowerNow;
+    // Neutral patterns break out toward whichever side price is nearer, or has already broken.
+    const upward = bias === 'bullish' || (bias === 'neutral' && (brokeUp || (!brokeDown && close >= (upperNow + lowerNow) / 2)));
+    const breakoutLevel = upward ? upperNow : lowerNow;
+    // Triangles and wedges project their widest part; channels their height.
+    const height = type.endsWith('channel') ? widthNow : widthStart;
+    const status: DetectedPattern['status'] = (upward ? brokeUp : brokeDown) ? 'confirmed' : (upward ? brokeDown : brokeUp) ? 'failed' : 'forming';
+
+    return {
+        type,
+        name: PATTERN_NAMES[type],
+        bias,
+        status,
+        pivots: [
+            ...upper.points.map((p, i) => point(ctx, p, `H${i + 1}`)),
+            ...lower.points.map((p, i) => point(ctx, p, `L${i + 1}`)),
+        ].sort((a, b) => a.time - b.time),
+        lines: [extendLine(ctx, 'Upper boundary', upper.line, upper.points[0].index), extendLine(ctx, 'Lower boundary', lower.line, lower.points[0].index)],
+        breakoutLevel,
+        target: breakoutLevel + (upward ? height : -height),
+        startTime: ctx.bars[start].time,
+        endTime: ctx.bars[Math.max(upper.points[upper.points.length - 1].index, lower.points[lower.points.length - 1].index)].time,
+    };
+};
+
+/**
+ * A flag: a pole of at least three ATRs within 15 candles, then 5-20 candles
+ * drifting sideways or against it while retracing at most half of the pole.
+ */
+const flag = (ctx: Context, bull: boolean): DetectedPattern | null => {
+    const s = bull ? 1 : -1;
+    const { bars } = ctx;
+    const lastIndex = bars.length - 1;
+    let best: DetectedPattern | null = null;
+    let bestPole = 0;
+    for (let flagLength = 5; flagLength <= 20; flagLength++) {
+        const flagStart = bars.length - flagLength;
+        const poleFrom = Math.max(0, flagStart - 15);
+        if (flagStart - poleFrom < 3) break;
+        const pole = bars.slice(poleFrom, flagStart);
+        const extreme = (bar: CandlestickData) => (bull ? bar.high : bar.low);
+        const base = (bar: CandlestickData) => (bull ? bar.low : bar.high);
+        // The pole ends at its extreme, within the last three candles before the flag.
+        const tipOffset = pole.reduce((tipAt, bar, i) => (s * (extreme(bar) - extreme(pole[tipAt])) > 0 ? i : tipAt), 0);
+        if (tipOffset < pole.length - 3) continue;
+        const baseOffset = pole.slice(0, tipOffset + 1).reduce((baseAt, bar, i) => (s * (base(bar) - base(pole[baseAt])) < 0 ? i : baseAt), 0);
+        const tip = extreme(pole[tipOffset]);
+        const poleHeight = s * (tip - base(pole[baseOffset]));
+        if (poleHeight < 3 * ctx.atr || poleHeight <= bestPole) continue;
+
+        const flagBars = bars.slice(flagStart);
+        const retrace = s * (tip - (bull ? Math.min(...flagBars.map(bar => bar.low)) : Math.max(...flagBars.map(bar => bar.high))));
+        if (retrace > poleHeight * 0.5) continue;
+        const closesLine = fitLine(flagBars.map((bar, i) => ({ index: flagStart + i, price: bar.close })));
+        if (s * closesLine.slope * flagLength > ctx.tolerance) continue; // must not trend with the pole
+        // Everything but the last candle stays below the pole's tip; the last may be the breakout.
+        if (flagBars.slice(0, -1).some(bar => s * (extreme(bar) - tip) > ctx.tolerance / 2)) continue;
+
+        const upper = fitLine(flagBars.map((bar, i) => ({ index: flagStart + i, price: bar.high })));
+        const lower = fitLine(flagBars.map((bar, i) => ({ index: flagStart + i, price: bar.low })));
+        const breakoutLevel = (bull ? upper : lower).valueAt(lastIndex);
+        const type: ChartPatternType = bull ? 'bull-flag' : 'bear-flag';
+        const poleBase = { index: poleFrom + baseOffset, price: base(pole[baseOffset]), kind: bull ? 'low' as const : 'high' as const };
+        const poleTip = { index: poleFrom + tipOffset, price: tip, kind: bull ? 'high' as const : 'low' as const };
+        bestPole = poleHeight;
+        best = {
+            type,
+            name: PATTERN_NAMES[type],
+            bias: bull ? 'bullish' : 'bearish',
+            status: s * (bars[lastIndex].close - breakoutLevel) > 0 ? 'confirmed' : 'forming',
+            pivots: [point(ctx, poleBase, 'Pole'), point(ctx, poleTip, 'Tip')],
+            lines: [
+                { label: 'Pole', from: { time: bars[poleBase.index].time, price: poleBase.price }, to: { time: bars[poleTip.index].time, price: tip } },
+                extendLine(ctx, 'Flag top', upper, flagStart),
+                extendLine(ctx, 'Flag bottom', lower, flagStart),
+            ],
+            breakoutLevel,
+            target: breakoutLevel + s * poleHeight,
+            startTime: bars[poleBase.index].time,
+            endTime: bars[lastIndex].time,
+        };
+    }
+    return best;
+};
+
+// --- DETECTION ---
+
+export const detectChartPatterns = (candles: CandlestickData[]): DetectedPattern[] => {
+    const bars = candles.slice(-LOOKBACK_BARS);
+    if (bars.length < MIN_SPAN_BARS + PIVOT_WINDOW * 2) return [];
+    const atrValue = last(atr(bars.map(bar => ({ ...bar, volume: 0 }) as OhlcvBar), 14)) ?? 0;
+    const close = bars[bars.length - 1].close;
+    const ctx: Context = { bars, pivots: findPivots(bars), tolerance: Math.max(atrValue, close * 0.01), atr: atrValue };
+
+    const topReversal = headAndShoulders(ctx, true) ?? doubleTopOrBottom(ctx, true);
+    const bottomReversal = headAndShoulders(ctx, false) ?? doubleTopOrBottom(ctx, false);
+    const patterns = [topReversal, bottomReversal, boundedPattern(ctx), flag(ctx, true), flag(ctx, false)];
+    return patterns.filter((p): p is DetectedPattern => p !== null).sort((a, b) => b.endTime - a.endTime);
+};
+
+// --- CROSS-CHECK ---
+
+const NAMED_PATTERNS: [RegExp, ChartPatternType][] = [
+    [/(inverse|inverted|reverse).*head/, 'inverse-head-and-shoulders'],
+    [/head/, 'head-and-shoulders'],
+    [/double top|twin top|\bm.?pattern/, 'double-top'],
+    [/double bottom|twin bottom|\bw.?pattern/, 'double-bottom'],
+    [/ascending triangle/, 'ascending-triangle'],
+    [/descending triangle/, 'descending-triangle'],
+    [/(symmetrical|symmetric) triangle|triangle/, 'symmetrical-triangle'],
+    [/bull.*(flag|pennant)/, 'bull-flag'],
+    [/bear.*(flag|pennant)/, 'bear-flag'],
+    [/rising wedge|ascending wedge/, 'rising-wedge'],
+    [/falling wedge|descending wedge/, 'falling-wedge'],
+    [/(ascending|rising|up).*channel/, 'ascending-channel'],
+    [/(descending|falling|down).*channel/, 'descending-channel'],
+    [/channel|range|rectangle/, 'horizontal-channel'],
+];
+
+export const patternTypeOf = (name: string): ChartPatternType | null =>
+    NAMED_PATTERNS.find(([pattern]) => pattern.test(name.toLowerCase()))?.[1] ?? null;
+
+const isNoPattern = (name: string | undefined) => !name || /^(none|n\/a|no pattern)/i.test(name.trim());
+
+const biasOf = (text: string): DetectedPattern['bias'] =>
+    /bull/i.test(text) ? 'bullish' : /bear/i.test(text) ? 'bearish' : 'neutral';
+
+/**
+ * Compares the analysis' active pattern with the detected ones: the same
+ * pattern confirms it; a different pattern with the same bias is related.
+ */
+export const checkActivePattern = (active: ChartPatternData['activePattern'] | undefined, detected: DetectedPattern[], priceFormat: PriceFormat): PatternCheck => {
+    const price = (value: number) => formatPlainPrice(value, priceFormat);
+    const describe = (p: DetectedPattern) => `${p.name} (${p.status}; breakout ${price(p.breakoutLevel)}, target ${price(p.target)})`;
+    if (isNoPattern(active?.name)) {
+        return detected.length === 0
+            ? { verdict: 'none', message: 'Neither the analysis nor the pattern detector found an active pattern.' }
+            : { verdict: 'unconfirmed', message: `The analysis reported no active pattern; the detector found a ${describe(detected[0])}.`, match: detected[0] };
+    }
+    const type = patternTypeOf(active!.name);
+    const exact = detected.find(p => p.type === type);
+    if (exact) return { verdict: 'confirmed', message: `Confirmed geometrically: ${describe(exact)}.`, match: exact };
+    // Patterns the detector does not know are judged by the analysis' stated implication.
+    const bias = type ? PATTERN_BIAS[type] : biasOf(active!.implication ?? '');
+    const related = detected.find(p => p.bias === bias && bias !== 'neutral');
+    if (related) return { verdict: 'related', message: `Not found as reported, but the detector sees a ${describe(related)} with the same ${bias} bias.`, match: related };
+    if (detected.length === 0) return { verdict: 'unconfirmed', message: `No ${type ? PATTERN_NAMES[type] : 'such pattern'} was found in the candles; treat it as unverified.` };
+    return { verdict: 'unconfirmed', message: `Not found in the candles; the detector sees a ${describe(detected[0])} instead.`, match: detected[0] };
+};
+
+// --- CHART ---
+
+const PATTERN_COLORS = { bullish: '#48BB78', bearish: '#F56565', neutral: '#ECC94B' };
+
+// Boundary lines, the measured-move target from the last pivot onwards, and labelled pivots.
+export const patternOverlays = (pattern: DetectedPattern, lastTime: number): { overlays: ChartOverlay[]; markers: ChartMarker[] } => {
+    const color = PATTERN_COLORS[pattern.bias];
+    const overlays: ChartOverlay[] = pattern.lines
+        .filter(line => line.to.time > line.from.time)
+        .map(line => ({ label: line.label, color, points: [{ time: line.from.time, value: line.from.price }, { time: line.to.time, value: line.to.price }] }));
+    if (lastTime > pattern.endTime) {
+        overlays.push({ label: 'Target', color, dashed: true, points: [{ time: pattern.endTime, value: pattern.target }, { time: lastTime, value: pattern.target }] });
+    }
+    const markers: ChartMarker[] = pattern.pivots.map((pivot, i) => {
+        const neighbours = pattern.pivots.filter((_, j) => Math.abs(j - i) === 1);
+        const isHigh = neighbours.length === 0 || neighbours.every(n => pivot.price >= n.price);
+        return { time: pivot.time, position: isHigh ? 'aboveBar' : 'belowBar', color, shape: 'circle', text: pivot.label };
+    });
+    return { overlays, markers };
+};
+
+// --- REPORTING ---
+
+export const describePatternsForPrompt = (patterns: DetectedPattern[], priceFormat: PriceFormat): string => {
+    if (patterns.length === 0) return '';
+    const price = (value: number) => formatPlainPrice(value, priceFormat);
+    const date = (time: number) => new Date(time * 1000).toISOString().slice(0, 10);
+    const lines = patterns.map(p =>
+        `- ${p.name} (${p.bias}, ${p.status}) from ${date(p.startTime)} to ${date(p.endTime)}: pivots ${p.pivots.map(pv => `${pv.label} ${price(pv.price)}`).join(', ')}; breakout level ${price(p.breakoutLevel)}; measured-move target ${price(p.target)}.`);
+    return `
+Context: Detected Chart Patterns (found geometrically in the last ${LOOKBACK_BARS} candles; "confirmed" means a close has broken the breakout level):
+${lines.join('\n')}
+`;
+};
@@ -0,0 +1,213 @@
+import type {
+    CandlestickSignal, ConfluenceCheck, ConfluenceData, ConfluenceFactor, ConfluenceFactorId, ConfluenceSignal, ConfluenceWeights,
+    DetectedPattern, Divergence, IndicatorId, MultiTimeframeData, OhlcvBar, PriceFormat, PriceLevel, SummaryTableData, VolumeProfile,
+} from '../types';
+import type { IndicatorReading } from './indicatorMatrix';
+import { atr, last } from './indicators';
+import { divergenceLabel } from './divergence';
+import { valueAreaPosition } from './volumeProfile';
+import { MULTI_TIMEFRAMES } from './multiTimeframe';
+import { formatPlainPrice } from './priceFormat';
+
+/**
+ * Deterministic confluence score. Each factor turns the computed evidence
+ * (indicator readings, divergences, levels, patterns and timeframe trends)
+ * into signals from -1 (bearish) to 1 (bullish) and scores their mean; the
+ * overall score is the weighted mean of the factors with any signals, mapped
+ * to 0-100 with 50 as neutral.
+ */
+
+export const CONFLUENCE_FACTORS: { id: ConfluenceFactorId; name: string }[] = [
+    { id: 'trend', name: 'Trend' },
+    { id: 'momentum', name: 'Momentum' },
+    { id: 'volume', name: 'Volume' },
+    { id: 'levels', name: 'Level Proximity' },
+    { id: 'patterns', name: 'Patterns' },
+    { id: 'multiTimeframe', name: 'Multi-Timeframe' },
+];
+
+export const DEFAULT_CONFLUENCE_WEIGHTS: ConfluenceWeights = { trend: 25, momentum: 20, volume: 15, levels: 15, patterns: 10, multiTimeframe: 15 };
+
+// Scores at or beyond these read as BUY or SELL; in between as HOLD.
+export const BUY_THRESHOLD = 60;
+export const SELL_THRESHOLD = 40;
+
+const TREND_INDICATORS: IndicatorId[] = ['sma', 'ema', 'adx', 'supertrend'];
+const MOMENTUM_INDICATORS: IndicatorId[] = ['rsi', 'macd', 'stochastic', 'bollinger'];
+const VOLUME_INDICATORS: IndicatorId[] = ['obv', 'vwap'];
+const VOLUME_BARS = 20;        // candles the up/down volume balance is taken over
+const LEVEL_ATR_RANGE = 1.5;   // levels within this many ATRs of the close count as near
+const CANDLESTICK_BARS = 5;    // candlestick signals this recent count
+
+export interface ConfluenceInput {
+    bars: OhlcvBar[];
+    readings: IndicatorReading[];
+    divergences: Divergence[];
+    levels: PriceLevel[];
+    volumeProfile: VolumeProfile | null;
+    patterns: DetectedPattern[];
+    candlestickSignals: CandlestickSignal[];
+    multiTimeframe: Omit<MultiTimeframeData, 'commentary'>;
+    priceFormat: PriceFormat;
+}
+
+const SIGNAL_VALUES: Record<IndicatorReading['signal'], number> = { '🟢': 1, '🔴': -1, '⚪': 0 };
+
+const biasValue = (bias: 'bullish' | 'bearish' | 'neutral') => (bias === 'bullish' ? 1 : bias === 'bearish' ? -1 : 0);
+
+const readingSignals = (readings: IndicatorReading[], kinds: IndicatorId[]): ConfluenceSignal[] =>
+    readings
+        .filter(reading => kinds.includes(reading.kind))
+        .map(reading => ({ label: `${reading.name}: ${(reading.summary ?? reading.interpretation).replace(/\.$/, '')}`, value: SIGNAL_VALUES[reading.signal] }));
+
+// Regular divergences count in full, hidden (continuation) ones half.
+const divergenceSignals = (divergences: Divergence[], volume: boolean): ConfluenceSignal[] =>
+    divergences
+        .filter(d => (d.indicator === 'OBV') === volume)
+        .map(d => ({ label: divergenceLabel(d), value: biasValue(d.bias) * (d.kind === 'regular' ? 1 : 0.5) }));
+
+// --- FACTORS ---
+
+type FactorBuilder = (input: ConfluenceInput) => ConfluenceSignal[];
+
+const FACTOR_BUILDERS: Record<ConfluenceFactorId, FactorBuilder> = {
+    trend: ({ readings }) => readingSignals(readings, TREND_INDICATORS),
+
+    momentum: ({ readings, divergences }) => [...readingSignals(readings, MOMENTUM_INDICATORS), ...divergenceSignals(divergences, false)],
+
+    volume: ({ bars, readings, divergences, volumeProfile, priceFormat }) => {
+        const signals = [...readingSignals(readings, VOLUME_INDICATORS), ...divergenceSignals(divergences, true)];
+        // Volume on up candles against volume on down candles.
+        const recent = bars.slice(-VOLUME_BARS);
+        const up = recent.filter(bar => bar.close > bar.open).reduce((sum, bar) => sum + bar.volume, 0);
+        const down = recent.filter(bar => bar.close < bar.open).reduce((sum, bar) => sum + bar.volume, 0);
+        if (up + down > 0) {
+            const share = up / (up + down);
+            signals.push({ label: `${Math.round(share * 100)}% of the last ${recent.length} candles' volume traded on up candles`, value: (up - down) / (up + down) });
+        }
+        const close = bars[bars.length - 1]?.close;
+        if (volumeProfile && close !== undefined) {
+            const position = valueAreaPosition(close, volumeProfile);
+            const value = close > volumeProfile.valueAreaHigh ? 1 : close < volumeProfile.valueAreaLow ? -1 : close > volumeProfile.poc ? 0.5 : close < volumeProfile.poc ? -0.5 : 0;
+            signals.push({ label: `Close ${position}, ${close >= volumeProfile.poc ? 'above' : 'below'} the point of control ${formatPlainPrice(volumeProfile.poc, priceFormat)}`, value });
+        }
+        return signals;
+    },
+
+    // Nearby support is room to the upside, nearby resistance a ceiling; stronger levels weigh more.
+    levels: ({ bars, levels, priceFormat }) => {
+        const close = bars[bars.length - 1]?.close;
+        const atrValue = last(atr(bars, 14));
+        if (close === undefined || !atrValue) return [];
+        const nearest = (type: PriceLevel['type']) => levels
+            .filter(level => level.type === type && Math.abs(level.price - close) <= atrValue * LEVEL_ATR_RANGE)
+            .sort((a, b) => Math.abs(a.price - close) - Math.abs(b.price - close))[0];
+        return [nearest('support'), nearest('resistance')]
+            .filter((level): level is PriceLevel => level !== undefined)
+            .map(level => ({
+                label: `${level.type === 'support' ? 'Support' : 'Resistance'} ${formatPlainPrice(level.price, priceFormat)} (score ${level.score}) ${(Math.abs(close - level.price) / atrValue).toFixed(1)} ATR ${level.type === 'support' ? 'below' : 'above'}`,
+                value: (level.type === 'support' ? 1 : -1) * level.score / 100,
+            }));
+    },
+
+    // Confirmed patterns count in full and forming ones half; a failed pattern counts half against its bias.
+    patterns: ({ bars, patterns, candlestickSignals }) => {
+        const chartSignals = patterns.map(pattern => ({
+            label: `${pattern.name} (${pattern.status})`,
+            value: biasValue(pattern.bias) * (pattern.status === 'confirmed' ? 1 : pattern.status === 'forming' ? 0.5 : -0.5),
+        }));
+        const since = bars[Math.max(0, bars.length - CANDLESTICK_BARS)]?.time ?? Infinity;
+        const candleSignals = candlestickSignals
+            .filter(signal => signal.time >= since)
+            .map(signal => ({ label: `${signal.name} candlestick`, value: biasValue(signal.bias) }));
+        return [...chartSignals, ...candleSignals];
+    },
+
+    multiTimeframe: ({ multiTimeframe }) =>
+        multiTimeframe.timeframes
+            .filter(state => state.trend !== null)
+            .map(state => ({
+                label: `${MULTI_TIMEFRAMES.find(config => config.key === state.timeframe)!.label} ${state.trend!.toLowerCase()}`,
+                value: state.trend === 'Uptrend' ? 1 : state.trend === 'Downtrend' ? -1 : 0,
+            })),
+};
+
+export const computeConfluenceFactors = (input: ConfluenceInput): ConfluenceFactor[] =>
+    CONFLUENCE_FACTORS.map(({ id, name }) => {
+        const signals = FACTOR_BUILDERS[id](input);
+        const score = signals.length ? signals.reduce((sum, signal) => sum + signal.value, 0) / signals.length : null;
+        return { id, name, signals, score };
+    });
+
+// --- SCORING ---
+
+export const signalForScore = (score: number): SummaryTableData['overallSignal'] =>
+    score >= BUY_THRESHOLD ? 'BUY' : score <= SELL_THRESHOLD ? 'SELL' : 'HOLD';
+
+/**
+ * The weighted score and signal counts. Factors without signals are left out
+ * rather than counted as neutral, so missing data does not dilute the rest.
+ */
+export const scoreConfluence = (factors: ConfluenceFactor[], weights: ConfluenceWeights): Omit<ConfluenceData, 'factors' | 'weights' | 'check'> => {
+    const scored = factors.filter(factor => factor.score !== null && weights[factor.id] > 0);
+    const totalWeight = scored.reduce((sum, factor) => sum + weights[factor.id], 0);
+    const net = totalWeight > 0 ? scored.reduce((sum, factor) => sum + factor.score! * weights[factor.id], 0) / totalWeight : 0;
+    const signals = factors.flatMap(factor => factor.signals);
+    return {
+        bullishSignals: signals.filter(signal => signal.value > 0).length,
+        bearishSignals: signals.filter(signal => signal.value < 0).length,
+        neutralSignals: signals.filter(signal => signal.value === 0).length,
+        overallScore: Math.round(50 + net * 50),
+    };
+};
+
+export const checkOverallSignal = (reported: SummaryTableData['overallSignal'] | undefined, score: number): ConfluenceCheck => {
+    const computedSignal = signalForScore(score);
+    const computed = `The computed confluence score of ${score}/100 reads as ${computedSignal}`;
+    if (!reported || reported === computedSignal) {
+        return { verdict: 'agrees', computedSignal, message: `${computed}, in line with the analysis' overall signal.` };
+    }
+    const opposes = (reported === 'BUY' && computedSignal === 'SELL') || (reported === 'SELL' && computedSignal === 'BUY');
+    return {
+        verdict: opposes ? 'opposes' : 'differs',
+        computedSignal,
+        message: `${computed}, but the analysis calls ${reported}.${opposes ? ' The evidence points the other way; check the narrative for what overrides it.' : ''}`,
+    };
+};
+
+export const describeConfluenceForPrompt = (factors: ConfluenceFactor[], weights: ConfluenceWeights): string => {
+    if (factors.every(factor => factor.score === null)) return '';
+    const { overallScore } = scoreConfluence(factors, weights);
+    const lines = factors.map(factor => factor.score === null
+        ? `- ${factor.name} (weight ${weights[factor.id]}): no signals.`
+        : `- ${factor.name} (weight ${weights[factor.id]}): ${factor.score >= 0 ? '+' : ''}${factor.score.toFixed(2)} from ${factor.signals.map(signal => `${signal.label} [${signal.value >= 0 ? '+' : ''}${Number(signal.value.toFixed(2))}]`).join('; ')}.`);
+    return `
+Context: Computed Confluence (factor scores from -1 bearish to +1 bullish; overall ${overallScore}/100, where ${BUY_THRESHOLD}+ reads as BUY and ${SELL_THRESHOLD} or less as SELL):
+${lines.join('\n')}
+`;
+};
+
+// --- SETTINGS ---
+
+const CONFLUENCE_WEIGHTS_KEY = 'champion-chartist:confluence-weights';
+
+// Like the risk settings, the weights live in the browser; storage failures are ignored.
+export const getConfluenceWeights = (): ConfluenceWeights => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(CONFLUENCE_WEIGHTS_KEY) ?? '{}');
+        return Object.fromEntries(CONFLUENCE_FACTORS.map(({ id }) => {
+            const value = stored?.[id];
+            return [id, typeof value === 'number' && isFinite(value) && value >= 0 ? value : DEFAULT_CONFLUENCE_WEIGHTS[id]];
+        })) as ConfluenceWeights;
+    } catch {
+        return DEFAULT_CONFLUENCE_WEIGHTS;
+    }
+};
+
+export const saveConfluenceWeights = (weights: ConfluenceWeights) => {
+    try {
+        localStorage.setItem(CONFLUENCE_WEIGHTS_KEY, JSON.stringify(weights));
+    } catch {
+        // ignore
+    }
+};
@@ -0,0 +1,122 @@
+import type { OhlcvBar, CorporateAction, ChartMarker, PriceAdjustment } from '../types';
+
+export interface AdjustmentResult {
+    bars: OhlcvBar[];
+    // Events that changed the series; splits already reflected in the provider data are excluded.
+    appliedActions: CorporateAction[];
+}
+
+const lastBarBefore = (bars: OhlcvBar[], time: number) => {
+    for (let i = bars.length - 1; i >= 0; i--) {
+        if (bars[i].time < time) return bars[i];
+    }
+    return null;
+};
+
+const firstBarFrom = (bars: OhlcvBar[], time: number) => bars.find(bar => bar.time >= time) ?? null;
+
+const dayOf = (time: number) => Math.floor(time / (24 * 60 * 60));
+
+// A bar lies wholly before an event when the next bar starts no later than the event's day;
+// a weekly or monthly bar whose period contains the event does not.
+const endsBefore = (bars: OhlcvBar[], index: number, time: number) =>
+    bars[index].time < time && index + 1 < bars.length && dayOf(bars[index + 1].time) <= dayOf(time);
+
+/**
+ * Providers differ on whether they pre-adjust splits, so a split is only applied
+ * when the series actually shows the matching price discontinuity around it.
+ */
+const isSplitUnadjusted = (bars: OhlcvBar[], split: CorporateAction): boolean => {
+    const ratio = split.ratio ?? 1;
+    const before = lastBarBefore(bars, split.time);
+    const after = firstBarFrom(bars, split.time);
+    if (!before || ratio === 1) return false;
+
+    const jumps = [before.open / before.close]; // weekly/monthly bar spanning the split
+    if (after) jumps.push(before.close / after.open);
+    return jumps.some(jump => Math.abs(jump / ratio - 1) < 0.25);
+};
+
+/**
+ * Back-adjusts OHLCV bars for splits and cash dividends. Bars before each event
+ * are scaled so that the most recent prices stay unchanged; split volume is scaled
+ * inversely. Bars that span an event (weekly/monthly) are left as reported.
+ */
+export const adjustForCorporateActions = (bars: OhlcvBar[], actions: CorporateAction[], mode: PriceAdjustment): AdjustmentResult => {
+    if (mode === 'raw' || actions.length === 0 || bars.length === 0) {
+        return { bars, appliedActions: [] };
+    }
+
+    const applied: { action: CorporateAction; priceFactor: number; volumeFactor: number }[] = [];
+    for (const action of [...actions].sort((a, b) => a.time - b.time)) {
+        if (action.time <= bars[0].time || action.time > bars[bars.length - 1].time) continue;
+
+        if (action.type === 'split' && action.ratio && isSplitUnadjusted(bars, action)) {
+            applied.push({ action, priceFactor: 1 / action.ratio, volumeFactor: action.ratio });
+        } else if (action.type === 'dividend' && action.amount) {
+            const prevClose = lastBarBefore(bars, action.time)?.close;
+            if (prevClose && action.amount < prevClose) {
+                applied.push({ action, priceFactor: 1 - action.amount / prevClose, volumeFactor: 1 });
+            }
+        }
+    }
+
+    if (applied.length === 0) {
+        return { bars, appliedActions: [] };
+    }
+
+    const adjusted = bars.map((bar, index) => {
+        let priceFactor = 1;
+        let volumeFactor = 1;
+        for (const entry of applied) {
+            if (endsBefore(bars, index, entry.action.time)) {
+                priceFactor *= entry.priceFactor;
+                volumeFactor *= entry.volumeFactor;
+            }
+        }
+        if (priceFactor === 1 && volumeFactor === 1) return bar;
+        return {
+            time: bar.time,
+            open: bar.open * priceFactor,
+            high: bar.high * priceFactor,
+            low: bar.low * priceFactor,
+            close: bar.close * priceFactor,
+            volume: Math.round(bar.volume * volumeFactor),
+        };
+    });
+
+    return { bars: adjusted, appliedActions: applied.map(entry => entry.action) };
+};
+
+const formatSplitRatio = (ratio: number) => ratio >= 1 ? `${+ratio.toFixed(2)}:1` : `1:${+(1 / ratio).toFixed(2)}`;
+
+/**
+ * Places a marker on the bar containing each event so splits and dividends
+ * stay visible on weekly and monthly charts too.
+ */
+export const corporateActionMarkers = (bars: OhlcvBar[], actions: CorporateAction[]): ChartMarker[] =>
+    actions
+        .map(action => {
+            const bar = lastBarBefore(bars, action.time + 1);
+            if (!bar) return null;
+            const marker: ChartMarker = action.type === 'split'
+                ? { time: bar.time, position: 'aboveBar', color: '#F6AD55', shape: 'square', text: `Split ${formatSplitRatio(action.ratio ?? 1)}` }
+                : { time: bar.time, position: 'belowBar', color: '#63B3ED', shape: 'circle', text: `Div ${action.amount?.toFixed(2)}` };
+            return marker;
+        })
+        .filter((marker): marker is ChartMarker => marker !== null);
+
+export const describeCorporateActionsForPrompt = (actions: CorporateAction[], appliedActions: CorporateAction[], mode: PriceAdjustment): string => {
+    if (actions.length === 0) return '';
+    const date = (time: number) => new Date(time * 1000).toISOString().split('T')[0];
+    const lines = actions.map(action => action.type === 'split'
+        ? `- ${date(action.time)}: Split/bonus ${formatSplitRatio(action.ratio ?? 1)}`
+        : `- ${date(action.time)}: Dividend ${action.amount?.toFixed(2)} per share`);
+    const treatment = mode === 'adjusted'
+        ? `Prices are back-adjusted (${appliedActions.length} event(s) applied by this app; splits already adjusted by the provider were left unchanged).`
+        : 'Prices are RAW and NOT adjusted; expect artificial gaps on split dates.';
+    return `
+Context: Corporate Actions in the analyzed period. ${treatment}
+${lines.join('\n')}
+`;
+};
@@ -0,0 +1,204 @@
+import type { OhlcvBar, DataQualityIssue, DataQualityReport } from '../types';
+import { classifySession, type ExchangeInfo } from './exchangeCalendar';
+
+const DAY_SECONDS = 24 * 60 * 60;
+const ZERO_VOLUME_STREAK = 5;
+const SPIKE_MAD_MULTIPLIER = 8;
+const MAX_ISSUES_PER_TYPE = 5;
+
+// Common split / bonus ratios; a price jump close to one of these is suspicious.
+const SPLIT_RATIOS = [2, 3, 4, 5, 10, 1.5, 1.25];
+
+const median = (values: number[]): number => {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const formatTime = (time: number) => new Date(time * 1000).toISOString().replace('T', ' ').slice(0, 16).replace(' 00:00', '');
+
+/**
+ * Infers the bar spacing (seconds) from the median distance between bars,
+ * so the same checks work for provider data and user uploads.
+ */
+export const inferBarSpacing = (bars: OhlcvBar[]): number =>
+    median(bars.slice(1).map((bar, i) => bar.time - bars[i].time).filter(d => d > 0));
+
+// The largest gap considered normal for a spacing (weekends, holidays, overnight sessions).
+const allowedGap = (spacing: number): number => {
+    if (spacing >= 25 * DAY_SECONDS) return 45 * DAY_SECONDS; // monthly
+    if (spacing >= 6 * DAY_SECONDS) return 16 * DAY_SECONDS;  // weekly
+    if (spacing >= 20 * 60 * 60) return 5 * DAY_SECONDS;      // daily: long weekends and holidays
+    return 4 * DAY_SECONDS;                                    // intraday: overnight and weekend breaks
+};
+
+// How old the last bar may be before the series is considered stale.
+const maxStaleness = (spacing: number): number => Math.max(allowedGap(spacing), spacing * 2);
+
+// Bars the exchange's regular session expected between two bars; without a calendar every slot counts.
+const expectedBarsBetween = (from: number, to: number, spacing: number, exchange?: ExchangeInfo): number => {
+    let count = 0;
+    for (let time = from + spacing; time < to; time += spacing) {
+        if (!exchange || classifySession(exchange, new Date(time * 1000)) === 'open') count++;
+    }
+    return count;
+};
+
+const findGaps = (bars: OhlcvBar[], spacing: number, exchange?: ExchangeInfo): DataQualityIssue[] => {
+    const limit = allowedGap(spacing);
+    const issues: DataQualityIssue[] = [];
+    for (let i = 1; i < bars.length; i++) {
+        const delta = bars[i].time - bars[i - 1].time;
+        // Lunch breaks and daily halts (TSE, HKEX, CME) are session structure, not missing data.
+        const intradayHole = spacing < 20 * 60 * 60 && delta > spacing * 3 && delta < 12 * 60 * 60
+            && expectedBarsBetween(bars[i - 1].time, bars[i].time, spacing, exchange) >= 2;
+        if (delta > limit || intradayHole) {
+            issues.push({
+                type: 'gap',
+                severity: delta > limit * 3 ? 'critical' : 'warning',
+                time: bars[i].time,
+                message: `Missing data between ${formatTime(bars[i - 1].time)} and ${formatTime(bars[i].time)}.`,
+            });
+        }
+    }
+    return issues;
+};
+
+const findDuplicates = (bars: OhlcvBar[]): DataQualityIssue[] => {
+    const seen = new Set<number>();
+    const issues: DataQualityIssue[] = [];
+    for (const bar of bars) {
+        if (seen.has(bar.time)) {
+            issues.push({ type: 'duplicate', severity: 'warning', time: bar.time, message: `Duplicate bar for ${formatTime(bar.time)}.` });
+        }
+        seen.add(bar.time);
+    }
+    return issues;
+};
+
+const findZeroVolume = (bars: OhlcvBar[]): DataQualityIssue[] => {
+    if (bars.every(bar => !bar.volume)) {
+        return [{ type: 'missingVolume', severity: 'info', message: 'The data has no volume information (common for indices and FX); volume analysis is unreliable.' }];
+    }
+
+    const issues: DataQualityIssue[] = [];
+    let streakStart = -1;
+    bars.forEach((bar, i) => {
+        const isZero = !bar.volume;
+        if (isZero && streakStart === -1) streakStart = i;
+        const streakEnds = streakStart !== -1 && (!isZero || i === bars.length - 1);
+        if (streakEnds) {
+            const end = isZero ? i : i - 1;
+            const length = end - streakStart + 1;
+            if (length >= ZERO_VOLUME_STREAK) {
+                issues.push({
+                    type: 'zeroVolume',
+                    severity: 'warning',
+                    time: bars[streakStart].time,
+                    message: `${length} consecutive zero-volume bars from ${formatTime(bars[streakStart].time)} to ${formatTime(bars[end].time)}.`,
+                });
+            }
+            streakStart = -1;
+        }
+    });
+    return issues;
+};
+
+const matchSplitRatio = (change: number): number | null => {
+    const ratio = change >= 1 ? change : 1 / change;
+    return SPLIT_RATIOS.find(r => Math.abs(ratio - r) / r < 0.04) ?? null;
+};
+
+/**
+ * Flags close-to-close moves far outside the series' typical volatility. Moves that
+ * match a common split ratio are reported as suspected unadjusted splits instead.
+ */
+const findSpikesAndSplits = (bars: OhlcvBar[]): DataQualityIssue[] => {
+    const returns = bars.slice(1).map((bar, i) => Math.log(bar.close / bars[i].close));
+    const typical = median(returns.map(Math.abs)) || 0.001;
+    const issues: DataQualityIssue[] = [];
+
+    returns.forEach((r, i) => {
+        const bar = bars[i + 1];
+        const prev = bars[i];
+        if (Math.abs(r) < typical * SPIKE_MAD_MULTIPLIER || Math.abs(r) < 0.1) return;
+
+        const change = bar.close / prev.close;
+        const splitRatio = Math.abs(r) > Math.log(1.2) ? matchSplitRatio(change) : null;
+        if (splitRatio && change < 1) {
+            issues.push({
+                type: 'suspectedSplit',
+                severity: 'critical',
+                time: bar.time,
+                message: `Price fell ${((1 - change) * 100).toFixed(1)}% on ${formatTime(bar.time)}, close to a ${splitRatio}:1 ratio. This may be an unadjusted split or bonus issue.`,
+            });
+        } else {
+            issues.push({
+                type: 'spike',
+                severity: 'warning',
+                time: bar.time,
+                message: `Unusual ${r > 0 ? 'jump' : 'drop'} of ${((change - 1) * 100).toFixed(1)}% on ${formatTime(bar.time)} (typical move ${(typical * 100).toFixed(2)}%).`,
+            });
+        }
+    });
+    return issues;
+};
+
+const findStaleness = (bars: OhlcvBar[], spacing: number, now: number): DataQualityIssue[] => {
+    const last = bars[bars.length - 1];
+    const age = now - last.time;
+    if (age <= maxStaleness(spacing)) return [];
+    return [{
+        type: 'staleData',
+        severity: age > maxStaleness(spacing) * 4 ? 'critical' : 'warning',
+        time: last.time,
+        message: `The most recent bar is from ${formatTime(last.time)}, ${Math.round(age / DAY_SECONDS)} day(s) ago.`,
+    }];
+};
+
+const SEVERITY_PENALTY = { info: 2, warning: 8, critical: 25 };
+
+/**
+ * Runs every data-quality check over a bar series. Issue lists are capped per
+ * type so a badly broken series does not flood the report or the prompt.
+ * Pass `checkStaleness: false` for historical uploads where age is expected.
+ */
+export const assessDataQuality = (bars: OhlcvBar[], options: { checkStaleness?: boolean; now?: number; exchange?: ExchangeInfo } = {}): DataQualityReport => {
+    if (bars.length < 2) {
+        return { barCount: bars.length, issues: [], score: 100 };
+    }
+    const spacing = inferBarSpacing(bars);
+    const now = options.now ?? Math.floor(Date.now() / 1000);
+
+    const groups = [
+        findGaps(bars, spacing, options.exchange),
+        findDuplicates(bars),
+        findZeroVolume(bars),
+        findSpikesAndSplits(bars),
+        options.checkStaleness === false ? [] : findStaleness(bars, spacing, now),
+    ];
+
+    const issues: DataQualityIssue[] = [];
+    for (const group of groups) {
+        issues.push(...group.slice(0, MAX_ISSUES_PER_TYPE));
+        if (group.length > MAX_ISSUES_PER_TYPE) {
+            issues.push({ type: group[0].type, severity: 'info', message: `…and ${group.length - MAX_ISSUES_PER_TYPE} more similar issue(s).` });
+        }
+    }
+
+    const penalty = issues.reduce((sum, issue) => sum + SEVERITY_PENALTY[issue.severity], 0);
+    return { barCount: bars.length, issues, score: Math.max(0, 100 - penalty) };
+};
+
+/**
+ * Summarizes known defects as prompt context so the model can discount them.
+ */
+export const describeDataQualityForPrompt = (report: DataQualityReport): string => {
+    const relevant = report.issues.filter(issue => issue.severity !== 'info' || issue.type === 'missingVolume');
+    if (relevant.length === 0) return '';
+    return `
+Context: Data-Quality Report (score ${report.score}/100). Account for these known defects and do not treat them as genuine price action:
+${relevant.map(issue => `- [${issue.severity.toUpperCase()}] ${issue.message}`).join('\n')}
+`;
+};
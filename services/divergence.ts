@@ -0,0 +1,198 @@
+import type { ChartData, ChartMarker, ChartPatternData, ChartOverlay, Divergence, DivergenceIndicator, DivergencePoint, IndicatorSetting, OhlcvBar, PriceFormat } from '../types';
+import { barsFromChartData, atr, last, rsi, macd, obv, type Series } from './indicators';
+import { DEFAULT_INDICATOR_SETTINGS, indicatorName } from './indicatorConfig';
+import { formatPlainPrice, formatVolume } from './priceFormat';
+
+/**
+ * Divergences between price swings and RSI, MACD and OBV. Two consecutive
+ * swing lows (or highs) are compared with the indicator on the same candles:
+ * price and indicator moving in opposite directions is a regular divergence
+ * (a reversal warning) when price makes the new extreme, and a hidden one (a
+ * continuation signal) when the indicator does.
+ */
+
+const LOOKBACK_BARS = 120;
+const SWING_WINDOW = 3;      // candles on each side a swing high/low must exceed
+const MIN_SWING_GAP = 5;     // candles between the two swings of a divergence
+const MAX_SWING_GAP = 60;
+const MAX_AGE_BARS = 40;     // the later swing must be at most this many candles old
+const MIN_INDICATOR_MOVE = 0.05; // share of the indicator's range over the lookback
+const MIN_PRICE_MOVE = 0.1;      // in ATRs
+
+interface Swing {
+    index: number;
+    price: number;
+}
+
+interface IndicatorLine {
+    indicator: DivergenceIndicator;
+    name: string; // e.g. "RSI (14)"
+    values: Series;
+    format: (value: number) => string;
+}
+
+// --- SWINGS ---
+
+// Equal extremes on the right do not disqualify a swing, so a flat top or bottom yields its first candle.
+const findSwings = (prices: number[], start: number, kind: 'high' | 'low'): Swing[] => {
+    const s = kind === 'high' ? 1 : -1;
+    const swings: Swing[] = [];
+    for (let i = Math.max(start, SWING_WINDOW); i < prices.length - SWING_WINDOW; i++) {
+        const left = prices.slice(i - SWING_WINDOW, i);
+        const right = prices.slice(i + 1, i + 1 + SWING_WINDOW);
+        if (left.every(p => s * (prices[i] - p) > 0) && right.every(p => s * (prices[i] - p) >= 0)) swings.push({ index: i, price: prices[i] });
+    }
+    return swings;
+};
+
+/**
+ * Whether the straight line between two points stays clear of the series in
+ * between: no lower value under a line joining lows, no higher one over a line
+ * joining highs. A line cut by the series joins swings of different moves.
+ */
+const lineIsClear = (values: Series, from: number, to: number, kind: 'high' | 'low'): boolean => {
+    const a = values[from]!;
+    const b = values[to]!;
+    for (let i = from + 1; i < to; i++) {
+        const value = values[i];
+        if (value === null) return false;
+        const onLine = a + ((b - a) * (i - from)) / (to - from);
+        if (kind === 'low' ? value < onLine : value > onLine) return false;
+    }
+    return true;
+};
+
+// --- DETECTION ---
+
+const indicatorLines = (bars: OhlcvBar[], settings: IndicatorSetting[], priceFormat: PriceFormat): IndicatorLine[] => {
+    const paramsOf = (id: 'rsi' | 'macd') =>
+        settings.find(setting => setting.id === id)?.params ?? DEFAULT_INDICATOR_SETTINGS.find(setting => setting.id === id)!.params;
+    const closes = bars.map(bar => bar.close);
+    const [rsiPeriod] = paramsOf('rsi');
+    const [fast, slow, signal] = paramsOf('macd');
+    return [
+        { indicator: 'RSI', name: indicatorName('rsi', [rsiPeriod]), values: rsi(closes, rsiPeriod), format: value => value.toFixed(1) },
+        { indicator: 'MACD', name: indicatorName('macd', [fast, slow, signal]), values: macd(closes, fast, slow, signal).macd, format: value => formatPlainPrice(value, priceFormat) },
+        { indicator: 'OBV', name: indicatorName('obv', []), values: obv(bars), format: value => formatVolume(value, priceFormat) },
+    ];
+};
+
+const describe = (divergence: Omit<Divergence, 'alert'>, line: IndicatorLine, priceFormat: PriceFormat): string => {
+    const { kind, bias, from, to } = divergence;
+    const extreme = bias === 'bullish' ? 'low' : 'high';
+    const direction = (a: number, b: number) => (b > a ? 'higher' : 'lower');
+    const date = (time: number) => new Date(time * 1000).toISOString().slice(0, 10);
+    const title = `${kind === 'hidden' ? 'Hidden ' : ''}${bias === 'bullish' ? 'Bullish' : 'Bearish'} ${divergence.indicator} Divergence`;
+    const meaning = kind === 'regular'
+        ? (bias === 'bullish' ? 'selling pressure is fading and a reversal higher is possible' : 'buying momentum is fading and a reversal lower is possible')
+        : (bias === 'bullish' ? 'the uptrend is likely to resume' : 'the downtrend is likely to resume');
+    return `ALERT: ${title} - Price made a ${direction(from.price, to.price)} ${extreme} (${formatPlainPrice(from.price, priceFormat)} on ${date(from.time)} to ${formatPlainPrice(to.price, priceFormat)} on ${date(to.time)}) while ${line.name} made a ${direction(from.value, to.value)} ${extreme} (${line.format(from.value)} to ${line.format(to.value)}); ${meaning}.`;
+};
+
+/**
+ * The most recent divergence of each indicator, kind and direction in the last
+ * candles, newest first. RSI and MACD use the periods of the indicator
+ * settings (enabled or not) and are calculated from the close.
+ */
+export const detectDivergences = (chartData: ChartData, priceFormat: PriceFormat, settings: IndicatorSetting[] = DEFAULT_INDICATOR_SETTINGS): Divergence[] => {
+    const bars = barsFromChartData(chartData);
+    if (bars.length < SWING_WINDOW * 2 + MIN_SWING_GAP) return [];
+    const start = Math.max(0, bars.length - LOOKBACK_BARS);
+    const minPriceMove = (last(atr(bars, 14)) ?? 0) * MIN_PRICE_MOVE;
+    const lows = bars.map(bar => bar.low);
+    const highs = bars.map(bar => bar.high);
+    const found = new Map<string, Divergence>();
+
+    for (const line of indicatorLines(bars, settings, priceFormat)) {
+        const window = line.values.slice(start).filter((value): value is number => value !== null);
+        if (window.length === 0) continue;
+        const minMove = (Math.max(...window) - Math.min(...window)) * MIN_INDICATOR_MOVE;
+
+        for (const kind of ['low', 'high'] as const) {
+            const prices = kind === 'low' ? lows : highs;
+            const swings = findSwings(prices, start, kind);
+            const s = kind === 'low' ? 1 : -1; // mirrors highs onto lows
+            for (let j = 1; j < swings.length; j++) {
+                const second = swings[j];
+                if (second.index < bars.length - 1 - MAX_AGE_BARS) continue;
+                // The previous swing and the one before it, so a minor swing in between does not hide a divergence.
+                for (const first of swings.slice(Math.max(0, j - 2), j)) {
+                    const gap = second.index - first.index;
+                    const a = line.values[first.index];
+                    const b = line.values[second.index];
+                    if (gap < MIN_SWING_GAP || gap > MAX_SWING_GAP || a === null || b === null) continue;
+                    const priceMove = s * (second.price - first.price);
+                    const indicatorMove = s * (b - a);
+                    if (Math.abs(priceMove) < minPriceMove || Math.abs(indicatorMove) < minMove || Math.sign(priceMove) === Math.sign(indicatorMove)) continue;
+                    if (!lineIsClear(prices, first.index, second.index, kind) || !lineIsClear(line.values, first.index, second.index, kind)) continue;
+
+                    // A lower low (or higher high) in price makes it regular; in the indicator, hidden.
+                    const divergence: Omit<Divergence, 'alert'> = {
+                        indicator: line.indicator,
+                        kind: priceMove < 0 ? 'regular' : 'hidden',
+                        bias: kind === 'low' ? 'bullish' : 'bearish',
+                        from: { time: bars[first.index].time, price: first.price, value: a },
+                        to: { time: bars[second.index].time, price: second.price, value: b },
+                    };
+                    const key = `${divergence.indicator}-${divergence.kind}-${divergence.bias}`;
+                    const existing = found.get(key);
+                    if (!existing || existing.to.time < divergence.to.time || (existing.to.time === divergence.to.time && existing.from.time < divergence.from.time)) {
+                        found.set(key, { ...divergence, alert: describe(divergence, line, priceFormat) });
+                    }
+                }
+            }
+        }
+    }
+    return [...found.values()].sort((a, b) => b.to.time - a.to.time);
+};
+
+// --- REPORT ---
+
+const point = (p: DivergencePoint) => ({ time: p.time, value: p.price });
+
+// e.g. "Bearish RSI divergence" or "Hidden bullish OBV divergence".
+export const divergenceLabel = (divergence: Divergence): string => {
+    const label = `${divergence.kind === 'hidden' ? 'hidden ' : ''}${divergence.bias} ${divergence.indicator} divergence`;
+    return label[0].toUpperCase() + label.slice(1);
+};
+
+// Lines joining the two price swings of each divergence, dashed for hidden ones, with a marker on the later swing.
+export const divergenceOverlays = (divergences: Divergence[]): { overlays: ChartOverlay[]; markers: ChartMarker[] } => {
+    const color = (d: Divergence) => (d.bias === 'bullish' ? '#68D391' : '#FC8181');
+    return {
+        overlays: divergences.map(d => ({ label: divergenceLabel(d), color: color(d), dashed: d.kind === 'hidden', points: [point(d.from), point(d.to)] })),
+        markers: divergences.map(d => ({
+            time: d.to.time,
+            position: d.bias === 'bullish' ? 'belowBar' : 'aboveBar',
+            color: color(d),
+            shape: d.bias === 'bullish' ? 'arrowUp' : 'arrowDown',
+            text: `${d.kind === 'hidden' ? 'H ' : ''}${d.indicator}`,
+        })),
+    };
+};
+
+/**
+ * The analysis' RSI divergence summary, settled by the computed RSI
+ * divergences: its wording is kept when it agrees with them.
+ */
+export const reconcileRsiDivergence = (reported: ChartPatternData['rsiDivergence'] | undefined, divergences: Divergence[]): ChartPatternData['rsiDivergence'] => {
+    const latest = divergences.find(d => d.indicator === 'RSI' && d.kind === 'regular');
+    if (!latest) {
+        return { detected: false, type: 'None', description: reported && !reported.detected && reported.description ? reported.description : 'No regular RSI divergence in the recent price swings.' };
+    }
+    const type = latest.bias === 'bullish' ? 'Bullish' : 'Bearish';
+    return { detected: true, type, description: reported?.type === type && reported.description ? reported.description : latest.alert.replace(/^ALERT: [^-]+- /, '') };
+};
+
+export const describeDivergencesForPrompt = (divergences: Divergence[]): string => {
+    const header = `Context: Computed Divergences (between swings of the last ${LOOKBACK_BARS} candles; these are exact and become the report's divergence alerts)`;
+    if (divergences.length === 0) {
+        return `
+${header}: none found for RSI, MACD or OBV.
+`;
+    }
+    return `
+${header}:
+${divergences.map(d => `- ${d.alert.replace(/^ALERT: /, '')}`).join('\n')}
+`;
+};
@@ -0,0 +1,318 @@
+import type { OhlcvBar, ExchangeCode } from '../types';
+import { getInstrumentMetadata } from './instrumentMetadata';
+
+/**
+ * Exchange trading calendars: regular sessions in the exchange's own timezone,
+ * extended hours where they exist, and exchange holidays. Holiday lists are
+ * maintained by hand and need a yearly update.
+ */
+
+export type { ExchangeCode };
+
+export type SessionState = 'open' | 'pre' | 'post' | 'break' | 'closed' | 'holiday';
+
+export type BarSession = 'regular' | 'pre' | 'post' | 'closed';
+
+interface SessionWindow {
+    start: number; // minutes after local midnight
+    end: number;
+}
+
+export interface ExchangeInfo {
+    code: ExchangeCode;
+    name: string;
+    timeZone: string;
+    // Regular trading windows; more than one window means a break between them.
+    sessions: SessionWindow[];
+    breakLabel?: string;   // what the break is called, e.g. "Lunch Break"; "Session Break" otherwise
+    preMarket?: SessionWindow;
+    postMarket?: SessionWindow;
+    tradingDays: number[]; // 0 = Sunday
+    holidays: string[];    // YYYY-MM-DD in exchange local time; later years are flagged as uncovered
+    earlyCloses?: Record<string, number>; // YYYY-MM-DD -> close in minutes after midnight
+    // Markets that trade around the clock from a Sunday open to a Friday close.
+    overnight?: { weekOpen: number; weekClose: number };
+}
+
+export interface MarketStatus {
+    exchange: ExchangeInfo;
+    state: SessionState;
+    label: string;
+    localTime: string; // HH:MM in exchange time
+    nextOpen: Date | null;
+    notice?: string;   // e.g. missing holiday data for the current year
+}
+
+const hm = (hours: number, minutes = 0) => hours * 60 + minutes;
+
+const US_HOLIDAYS = [
+    '2025-01-01', '2025-01-09', '2025-01-20', '2025-02-17', '2025-04-18', '2025-05-26', '2025-06-19', '2025-07-04', '2025-09-01', '2025-11-27', '2025-12-25',
+    '2026-01-01', '2026-01-19', '2026-02-16', '2026-04-03', '2026-05-25', '2026-06-19', '2026-07-03', '2026-09-07', '2026-11-26', '2026-12-25',
+];
+
+const US_EARLY_CLOSES = {
+    '2025-07-03': hm(13), '2025-11-28': hm(13), '2025-12-24': hm(13),
+    '2026-11-27': hm(13), '2026-12-24': hm(13),
+};
+
+const US_EQUITY_SESSION = {
+    timeZone: 'America/New_York',
+    sessions: [{ start: hm(9, 30), end: hm(16) }],
+    preMarket: { start: hm(4), end: hm(9, 30) },
+    postMarket: { start: hm(16), end: hm(20) },
+    tradingDays: [1, 2, 3, 4, 5],
+    holidays: US_HOLIDAYS,
+    earlyCloses: US_EARLY_CLOSES,
+};
+
+export const EXCHANGES: Record<ExchangeCode, ExchangeInfo> = {
+    NSE: {
+        code: 'NSE',
+        name: 'National Stock Exchange of India',
+        timeZone: 'Asia/Kolkata',
+        sessions: [{ start: hm(9, 15), end: hm(15, 30) }],
+        preMarket: { start: hm(9), end: hm(9, 15) },
+        postMarket: { start: hm(15, 40), end: hm(16) },
+        tradingDays: [1, 2, 3, 4, 5],
+        holidays: [
+            '2025-02-26', '2025-03-14', '2025-03-31', '2025-04-10', '2025-04-14', '2025-04-18', '2025-05-01', '2025-08-15', '2025-08-27', '2025-10-02', '2025-10-21', '2025-10-22', '2025-11-05', '2025-12-25',
+            '2026-01-26', '2026-03-03', '2026-03-26', '2026-03-31', '2026-04-03', '2026-04-14', '2026-05-01', '2026-05-28', '2026-06-26', '2026-09-14', '2026-10-02', '2026-10-20', '2026-11-10', '2026-11-24', '2026-12-25',
+        ],
+    },
+    NYSE: { code: 'NYSE', name: 'New York Stock Exchange', ...US_EQUITY_SESSION },
+    NASDAQ: { code: 'NASDAQ', name: 'Nasdaq', ...US_EQUITY_SESSION },
+    LSE: {
+        code: 'LSE',
+        name: 'London Stock Exchange',
+        timeZone: 'Europe/London',
+        sessions: [{ start: hm(8), end: hm(16, 30) }],
+        tradingDays: [1, 2, 3, 4, 5],
+        holidays: [
+            '2025-01-01', '2025-04-18', '2025-04-21', '2025-05-05', '2025-05-26', '2025-08-25', '2025-12-25', '2025-12-26',
+            '2026-01-01', '2026-04-03', '2026-04-06', '2026-05-04', '2026-05-25', '2026-08-31', '2026-12-25', '2026-12-28',
+        ],
+        earlyCloses: { '2025-12-24': hm(12, 30), '2025-12-31': hm(12, 30), '2026-12-24': hm(12, 30), '2026-12-31': hm(12, 30) },
+    },
+    XETRA: {
+        code: 'XETRA',
+        name: 'Xetra (Deutsche Börse)',
+        timeZone: 'Europe/Berlin',
+        sessions: [{ start: hm(9), end: hm(17, 30) }],
+        tradingDays: [1, 2, 3, 4, 5],
+        holidays: [
+            '2025-01-01', '2025-04-18', '2025-04-21', '2025-05-01', '2025-12-24', '2025-12-25', '2025-12-26', '2025-12-31',
+            '2026-01-01', '2026-04-03', '2026-04-06', '2026-05-01', '2026-12-24', '2026-12-25', '2026-12-31',
+        ],
+    },
+    TSE: {
+        code: 'TSE',
+        name: 'Tokyo Stock Exchange',
+        timeZone: 'Asia/Tokyo',
+        sessions: [{ start: hm(9), end: hm(11, 30) }, { start: hm(12, 30), end: hm(15, 30) }],
+        breakLabel: 'Lunch Break',
+        tradingDays: [1, 2, 3, 4, 5],
+        holidays: [
+            '2025-01-01', '2025-01-02', '2025-01-03', '2025-01-13', '2025-02-11', '2025-02-24', '2025-03-20', '2025-04-29', '2025-05-05', '2025-05-06', '2025-07-21', '2025-08-11', '2025-09-15', '2025-09-23', '2025-10-13', '2025-11-03', '2025-11-24', '2025-12-31',
+            '2026-01-01', '2026-01-02', '2026-01-12', '2026-02-11', '2026-02-23', '2026-03-20', '2026-04-29', '2026-05-04', '2026-05-05', '2026-05-06', '2026-07-20', '2026-08-11', '2026-09-21', '2026-09-22', '2026-09-23', '2026-10-12', '2026-11-03', '2026-11-23', '2026-12-31',
+        ],
+    },
+    HKEX: {
+        code: 'HKEX',
+        name: 'Hong Kong Exchanges',
+        timeZone: 'Asia/Hong_Kong',
+        sessions: [{ start: hm(9, 30), end: hm(12) }, { start: hm(13), end: hm(16) }],
+        breakLabel: 'Lunch Break',
+        preMarket: { start: hm(9), end: hm(9, 30) },
+        tradingDays: [1, 2, 3, 4, 5],
+        holidays: [
+            '2025-01-01', '2025-01-29', '2025-01-30', '2025-01-31', '2025-04-04', '2025-04-18', '2025-04-21', '2025-05-01', '2025-05-05', '2025-07-01', '2025-10-01', '2025-10-07', '2025-10-29', '2025-12-25', '2025-12-26',
+            '2026-01-01', '2026-02-17', '2026-02-18', '2026-02-19', '2026-04-03', '2026-04-06', '2026-04-07', '2026-05-01', '2026-05-25', '2026-06-19', '2026-07-01', '2026-10-01', '2026-10-19', '2026-12-25',
+        ],
+    },
+    CME: {
+        code: 'CME',
+        name: 'CME Globex',
+        timeZone: 'America/Chicago',
+        // Sunday 17:00 to Friday 16:00 CT with a daily 16:00-17:00 maintenance halt.
+        sessions: [{ start: hm(0), end: hm(16) }, { start: hm(17), end: hm(24) }],
+        breakLabel: 'Maintenance Halt',
+        tradingDays: [0, 1, 2, 3, 4, 5],
+        holidays: US_HOLIDAYS,
+        overnight: { weekOpen: hm(17), weekClose: hm(16) },
+    },
+    FX: {
+        code: 'FX',
+        name: 'Global FX (24/5)',
+        timeZone: 'America/New_York',
+        // Sunday 17:00 to Friday 17:00 New York time.
+        sessions: [{ start: hm(0), end: hm(17) }, { start: hm(17), end: hm(24) }],
+        tradingDays: [0, 1, 2, 3, 4, 5],
+        holidays: ['2025-12-25', '2026-01-01', '2026-12-25'],
+        overnight: { weekOpen: hm(17), weekClose: hm(17) },
+    },
+    CRYPTO: {
+        code: 'CRYPTO',
+        name: 'Crypto (24/7)',
+        timeZone: 'UTC',
+        sessions: [{ start: 0, end: hm(24) }],
+        tradingDays: [0, 1, 2, 3, 4, 5, 6],
+        holidays: [],
+    },
+};
+
+export const getExchangeForSymbol = (symbol: string): ExchangeInfo => EXCHANGES[getInstrumentMetadata(symbol).exchangeCode];
+
+// --- TIMEZONE HELPERS ---
+
+interface ZonedParts {
+    date: string;    // YYYY-MM-DD
+    weekday: number; // 0 = Sunday
+    minutes: number; // minutes after local midnight
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+    let formatter = formatterCache.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone, year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', weekday: 'short', hourCycle: 'h23',
+        });
+        formatterCache.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+    const parts = Object.fromEntries(getFormatter(timeZone).formatToParts(date).map(p => [p.type, p.value]));
+    return {
+        date: `${parts.year}-${parts.month}-${parts.day}`,
+        weekday: WEEKDAYS.indexOf(parts.weekday),
+        minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    };
+};
+
+// Converts a wall-clock time in `timeZone` to a UTC Date (DST-safe to the minute).
+const zonedTimeToUtc = (date: string, minutes: number, timeZone: string): Date => {
+    const [y, m, d] = date.split('-').map(Number);
+    const guess = Date.UTC(y, m - 1, d, 0, minutes);
+    const parts = getZonedParts(new Date(guess), timeZone);
+    const [gy, gm, gd] = parts.date.split('-').map(Number);
+    const offset = Date.UTC(gy, gm - 1, gd, 0, parts.minutes) - guess;
+    return new Date(guess - offset);
+};
+
+// --- HOLIDAY COVERAGE ---
+
+// Exchanges without holidays (crypto) need no list; the others are covered through the last year listed.
+const coveredThrough = (exchange: ExchangeInfo): number =>
+    exchange.holidays.length ? Math.max(...exchange.holidays.map(date => Number(date.slice(0, 4)))) : Infinity;
+
+export const hasHolidayData = (exchange: ExchangeInfo, date: string): boolean => Number(date.slice(0, 4)) <= coveredThrough(exchange);
+
+const warnedCoverage = new Set<string>();
+
+// Dates past the list are treated as trading days; say so once per exchange and year.
+const checkHolidayCoverage = (exchange: ExchangeInfo, date: string) => {
+    const key = `${exchange.code}:${date.slice(0, 4)}`;
+    if (hasHolidayData(exchange, date) || warnedCoverage.has(key)) return;
+    warnedCoverage.add(key);
+    console.warn(`Holiday data for ${exchange.name} in ${date.slice(0, 4)} is unavailable; holidays are treated as trading days.`);
+};
+
+// --- SESSION LOGIC ---
+
+const isTradingDay = (exchange: ExchangeInfo, parts: ZonedParts) => {
+    checkHolidayCoverage(exchange, parts.date);
+    return exchange.tradingDays.includes(parts.weekday) && !exchange.holidays.includes(parts.date);
+};
+
+const regularSessionsFor = (exchange: ExchangeInfo, parts: ZonedParts): SessionWindow[] => {
+    const earlyClose = exchange.earlyCloses?.[parts.date];
+    let sessions = exchange.sessions;
+    if (exchange.overnight) {
+        const { weekOpen, weekClose } = exchange.overnight;
+        if (parts.weekday === 0) sessions = sessions.filter(s => s.start >= weekOpen);
+        if (parts.weekday === 5) sessions = sessions.filter(s => s.end <= weekClose);
+    }
+    if (earlyClose === undefined) return sessions;
+    return sessions.filter(s => s.start < earlyClose).map(s => ({ start: s.start, end: Math.min(s.end, earlyClose) }));
+};
+
+const within = (window: SessionWindow | undefined, minutes: number) => !!window && minutes >= window.start && minutes < window.end;
+
+export const classifySession = (exchange: ExchangeInfo, date: Date): SessionState => {
+    const parts = getZonedParts(date, exchange.timeZone);
+    if (!exchange.tradingDays.includes(parts.weekday)) return 'closed';
+    checkHolidayCoverage(exchange, parts.date);
+    if (exchange.holidays.includes(parts.date)) return 'holiday';
+
+    const sessions = regularSessionsFor(exchange, parts);
+    if (sessions.some(s => within(s, parts.minutes))) return 'open';
+    if (within(exchange.preMarket, parts.minutes)) return 'pre';
+    if (within(exchange.postMarket, parts.minutes)) return 'post';
+    if (sessions.length > 1 && parts.minutes > sessions[0].start && parts.minutes < sessions[sessions.length - 1].end) return 'break';
+    return 'closed';
+};
+
+const findNextOpen = (exchange: ExchangeInfo, from: Date): Date | null => {
+    for (let dayOffset = 0; dayOffset < 14; dayOffset++) {
+        const parts = getZonedParts(new Date(from.getTime() + dayOffset * 86400000), exchange.timeZone);
+        if (!isTradingDay(exchange, parts)) continue;
+        for (const session of regularSessionsFor(exchange, parts)) {
+            const open = zonedTimeToUtc(parts.date, session.start, exchange.timeZone);
+            if (open.getTime() > from.getTime()) return open;
+        }
+    }
+    return null;
+};
+
+const STATE_LABELS: Record<SessionState, string> = {
+    open: 'Market Open',
+    pre: 'Pre-Market',
+    post: 'After Hours',
+    break: 'Session Break',
+    closed: 'Market Closed',
+    holiday: 'Holiday',
+};
+
+export const getMarketStatus = (symbol: string, now: Date = new Date()): MarketStatus => {
+    const exchange = getExchangeForSymbol(symbol);
+    const state = classifySession(exchange, now);
+    const { minutes, date } = getZonedParts(now, exchange.timeZone);
+    return {
+        exchange,
+        state,
+        label: state === 'break' && exchange.breakLabel ? exchange.breakLabel : STATE_LABELS[state],
+        localTime: `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`,
+        nextOpen: state === 'open' ? null : findNextOpen(exchange, now),
+        ...(hasHolidayData(exchange, date) ? {} : { notice: `Holiday data for ${date.slice(0, 4)} is unavailable; holidays are treated as trading days.` }),
+    };
+};
+
+// Prices only move during regular and extended sessions, so polling is pointless otherwise.
+export const isPriceUpdating = (status: MarketStatus): boolean =>
+    status.state === 'open' || status.state === 'pre' || status.state === 'post';
+
+export const classifyBarSession = (exchange: ExchangeInfo, time: number): BarSession => {
+    const state = classifySession(exchange, new Date(time * 1000));
+    if (state === 'open' || state === 'pre' || state === 'post') return state === 'open' ? 'regular' : state;
+    return 'closed';
+};
+
+/**
+ * Drops intraday bars that fall outside the regular session (pre/post-market
+ * prints and off-session artifacts), or keeps extended-hours bars when asked.
+ */
+export const filterBarsBySession = (bars: OhlcvBar[], exchange: ExchangeInfo, includeExtendedHours: boolean): OhlcvBar[] =>
+    bars.filter(bar => {
+        const session = classifyBarSession(exchange, bar.time);
+        return session === 'regular' || (includeExtendedHours && session !== 'closed');
+    });
+
+export const formatExchangeTime = (time: number, exchange: ExchangeInfo): string => {
+    const parts = getZonedParts(new Date(time * 1000), exchange.timeZone);
+    return `${parts.date} ${String(Math.floor(parts.minutes / 60)).padStart(2, '0')}:${String(parts.minutes % 60).padStart(2, '0')}`;
+};
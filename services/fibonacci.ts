@@ -0,0 +1,84 @@
+import type { CandlestickData, FibonacciData, FibonacciLevel, PriceFormat } from '../types';
+import { formatPlainPrice } from './priceFormat';
+
+/**
+ * Fibonacci retracements and extensions of the dominant swing: the move
+ * between the highest high and the lowest low of the recent candles. An up
+ * swing retraces down from its high and extends above it; a down swing the
+ * reverse.
+ */
+
+const LOOKBACK_BARS = 150;
+const RETRACEMENTS = [0.236, 0.382, 0.5, 0.618, 0.786];
+const EXTENSIONS = [1.272, 1.618];
+const MATCH_TOLERANCE = 0.02; // share of the swing within which a price counts as at a level
+
+export const computeFibonacci = (candles: CandlestickData[]): FibonacciData | null => {
+    const bars = candles.slice(-LOOKBACK_BARS);
+    if (bars.length < 2) return null;
+    const highIndex = bars.reduce((best, bar, i) => (bar.high > bars[best].high ? i : best), 0);
+    const lowIndex = bars.reduce((best, bar, i) => (bar.low < bars[best].low ? i : best), 0);
+    const high = bars[highIndex].high;
+    const low = bars[lowIndex].low;
+    const range = high - low;
+    if (range <= 0) return null;
+
+    const direction = lowIndex < highIndex ? 'up' : 'down';
+    // Ratios are measured back from the swing's end: the high of an up swing, the low of a down swing.
+    const end = direction === 'up' ? high : low;
+    const sign = direction === 'up' ? -1 : 1;
+    const levels: FibonacciLevel[] = [
+        ...RETRACEMENTS.map(ratio => ({ ratio, price: end + sign * ratio * range, kind: 'retracement' as const })),
+        ...EXTENSIONS.map(ratio => ({ ratio, price: end - sign * (ratio - 1) * range, kind: 'extension' as const })),
+    ];
+    return {
+        direction,
+        swingHigh: { time: bars[highIndex].time, price: high },
+        swingLow: { time: bars[lowIndex].time, price: low },
+        levels,
+        lookbackBars: bars.length,
+    };
+};
+
+// e.g. "61.8%" or "161.8% ext."
+export const fibonacciLabel = (level: FibonacciLevel): string =>
+    `${Number((level.ratio * 100).toFixed(1))}%${level.kind === 'extension' ? ' ext.' : ''}`;
+
+// The levels with the swing's end (0%) and start (100%), highest price first.
+export const fibonacciLevelsWithAnchors = (fibonacci: FibonacciData): FibonacciLevel[] => {
+    const [end, start] = fibonacci.direction === 'up'
+        ? [fibonacci.swingHigh.price, fibonacci.swingLow.price]
+        : [fibonacci.swingLow.price, fibonacci.swingHigh.price];
+    return [
+        { ratio: 0, price: end, kind: 'retracement' as const },
+        ...fibonacci.levels,
+        { ratio: 1, price: start, kind: 'retracement' as const },
+    ].sort((a, b) => b.price - a.price);
+};
+
+// The level a price sits at, if any, e.g. to explain where a target comes from.
+export const matchFibonacciLevel = (price: number, fibonacci: FibonacciData): FibonacciLevel | null => {
+    const tolerance = (fibonacci.swingHigh.price - fibonacci.swingLow.price) * MATCH_TOLERANCE;
+    const nearest = fibonacci.levels.reduce((best, level) => (Math.abs(level.price - price) < Math.abs(best.price - price) ? level : best));
+    return Math.abs(nearest.price - price) <= tolerance ? nearest : null;
+};
+
+export const describeFibonacciForPrompt = (fibonacci: FibonacciData | null, close: number | undefined, priceFormat: PriceFormat): string => {
+    if (!fibonacci) return '';
+    const price = (value: number) => formatPlainPrice(value, priceFormat);
+    const date = (time: number) => new Date(time * 1000).toISOString().slice(0, 10);
+    const { swingHigh, swingLow } = fibonacci;
+    const swing = fibonacci.direction === 'up'
+        ? `up swing from the low ${price(swingLow.price)} (${date(swingLow.time)}) to the high ${price(swingHigh.price)} (${date(swingHigh.time)})`
+        : `down swing from the high ${price(swingHigh.price)} (${date(swingHigh.time)}) to the low ${price(swingLow.price)} (${date(swingLow.time)})`;
+    const levels = fibonacci.levels.map(level => `- ${fibonacciLabel(level)}: ${price(level.price)}`);
+    // The levels either side of the last close.
+    const sorted = fibonacciLevelsWithAnchors(fibonacci);
+    const above = close !== undefined ? [...sorted].reverse().find(level => level.price > close) : undefined;
+    const below = close !== undefined ? sorted.find(level => level.price <= close) : undefined;
+    const position = close === undefined ? '' : `\nThe last close ${price(close)} is ${below ? `above ${fibonacciLabel(below)} (${price(below.price)})` : 'below every level'}${above ? ` and below ${fibonacciLabel(above)} (${price(above.price)})` : ' and above every level'}.`;
+    return `
+Context: Fibonacci Levels (dominant swing of the last ${fibonacci.lookbackBars} candles: ${swing}):
+${levels.join('\n')}${position}
+`;
+};
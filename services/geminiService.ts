@@ -1,284 +1,94 @@
 import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import type { AnalysisReport, AnalysisResult, CandlestickData, VolumeData, ChartData } from '../types';
+import type { AnalysisReport, AnalysisResult, AnalysisOptions, IndicatorSetting, OhlcvBar, UploadedDataset, DataSourceRecord, Instrument, BenchmarkComparison, TimeframeKey } from '../types';
+import { fetchMarketData, fetchHistory, buildCsv, chartDataFromBars, describeTimeframe, CUSTOM_TIMEFRAME, type MarketDataPayload } from './marketDataService';
+import { parseIntervalSpec, resampleBars, describeIntervalSpec } from './resampler';
+import { BACKEND_URL } from './providers/backendProvider';
+import { assessDataQuality, describeDataQualityForPrompt } from './dataQuality';
+import { getExchangeForSymbol } from './exchangeCalendar';
+import { describeCorporateActionsForPrompt } from './corporateActions';
+import { getBenchmark, getSectorBenchmark } from './instrumentMetadata';
+import { compareWithBenchmark, buildRatioLine, describeRelativeStrengthForPrompt, RELATIVE_STRENGTH_LOOKBACK_DAYS } from './relativeStrength';
+import { MULTI_TIMEFRAMES, computeTrendState, analyzeTimeframes, resampleForTimeframes, describeMultiTimeframeForPrompt } from './multiTimeframe';
+import { computeIndicatorReadings, describeIndicatorsForPrompt, reconcileIndicators, applyComputedSummary } from './indicatorMatrix';
+import { computeSupportResistance, checkModelLevels, describeSupportResistanceForPrompt } from './supportResistance';
+import { computeVolumeProfile, describeVolumeProfileForPrompt } from './volumeProfile';
+import { computeFibonacci, describeFibonacciForPrompt } from './fibonacci';
+import { detectChartPatterns, checkActivePattern, patternOverlays, describePatternsForPrompt } from './chartPatterns';
+import { detectCandlestickPatterns, candlestickMarkers, describeCandlestickSignalsForPrompt } from './candlestickPatterns';
+import { computeConfluenceFactors, scoreConfluence, checkOverallSignal, describeConfluenceForPrompt, getConfluenceWeights } from './confluence';
+import { detectDivergences, divergenceOverlays, reconcileRsiDivergence, describeDivergencesForPrompt } from './divergence';
+import { DEFAULT_INDICATOR_SETTINGS, normalizeIndicatorSettings, selectedIndicatorNames, rsiPeriodOf, describeIndicatorSelectionForPrompt } from './indicatorConfig';
+import { getPriceFormat, getPriceFormatForBars, formatPlainPrice, priceDecimals, GENERIC_PRICE_FORMAT } from './priceFormat';
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  priceAdjustment: 'adjusted',
+  includeExtendedHours: false,
+  customTimeframe: null,
+  indicators: DEFAULT_INDICATOR_SETTINGS,
+};
 
+const GEMINI_MODEL = 'gemini-2.5-flash';
 const GEMINI_API_KEY = process.env.API_KEY;
-if (!GEMINI_API_KEY) {
+// With a backend configured the key stays server-side and requests go through /api/analyze.
+if (!GEMINI_API_KEY && !BACKEND_URL) {
   throw new Error("API_KEY environment variable not set.");
 }
-const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY });
-const FINNHUB_API_KEY = 'd4758fhr01qh8nnb7glgd4758fhr01qh8nnb7gm0'; // Finnhub key for fallback
+const ai = BACKEND_URL ? null : new GoogleGenAI({ apiKey: GEMINI_API_KEY });
 
-interface MarketDataPayload {
-    csv: string;
-    chartData: ChartData;
+interface GenerationRequest {
+  parts: any[];
+  systemInstruction: string;
+  responseSchema: object;
 }
 
-// --- UTILITIES ---
-
-const formatPrice = (value: number | string | null | undefined): string => {
-    const num = typeof value === 'string' ? parseFloat(value) : value;
-    if (typeof num === 'number' && isFinite(num)) return num.toFixed(2);
-    return 'N/A';
-};
-
-// --- YAHOO FINANCE API FETCHING ---
-
-// Using public CORS proxies as fallbacks for reliability.
-const PROXIES = [
-    { prefix: 'https://corsproxy.io/?', encode: false },
-    { prefix: 'https://cors.eu.org/', encode: false }, // Added for more resilience
-    { prefix: 'https://thingproxy.freeboard.io/fetch/', encode: false },
-    { prefix: 'https://api.allorigins.win/raw?url=', encode: true }
-];
-
-const yahooFinanceFetch = async (url: string) => {
-    let lastError: Error | null = null;
-
-    for (const proxy of PROXIES) {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 30000); // 30-second timeout
-
-        try {
-            const fetchUrl = proxy.encode ? proxy.prefix + encodeURIComponent(url) : proxy.prefix + url;
-            const response = await fetch(fetchUrl, {
-                signal: controller.signal,
-                headers: { 'X-Requested-With': 'XMLHttpRequest' }
-            });
-            clearTimeout(timeoutId);
-
-            if (!response.ok) {
-                throw new Error(`Yahoo Finance request via ${proxy.prefix} failed with status ${response.status}`);
-            }
-            const data = await response.json();
-            if (data.chart?.error) {
-                throw new Error(`Yahoo Finance API error: ${data.chart.error.description}`);
-            }
-            if (!data.chart?.result) {
-                 throw new Error(`Yahoo Finance response via ${proxy.prefix} was empty or malformed.`);
-            }
-            return data;
-        } catch (error) {
-            clearTimeout(timeoutId);
-            console.warn(`Fetch attempt via ${proxy.prefix} failed:`, error);
-            if (error instanceof Error && error.name === 'AbortError') {
-                lastError = new Error(`Request timed out. The data provider is not responding.`);
-            } else {
-                lastError = error as Error;
-            }
-        }
-    }
-    throw lastError ?? new Error("All Yahoo Finance fetch attempts failed.");
-};
-
-// --- FINNHUB API FETCHING (FALLBACK) ---
-
-// Maps common Yahoo Finance symbols to Finnhub-compatible symbols (often ETFs for reliability on free tier).
-const mapSymbolForFinnhub = (symbol: string): string => {
-    const mappings: { [key: string]: string } = {
-        '^GSPC': 'SPY',
-        '^DJI': 'DIA',
-        '^NDX': 'QQQ',
-        '^FTSE': 'EWU',
-        '^GDAXI': 'EWG',
-        '^N225': 'EWJ',
-        '^HSI': 'EWH',
-        '^NSEI': 'INDA',
-        'GC=F': 'GLD',
-        'SI=F': 'SLV',
-        'CL=F': 'USO',
-        'NG=F': 'UNG',
-        'HG=F': 'CPER',
-    };
-    if (mappings[symbol]) {
-        return mappings[symbol];
-    }
-    
-    return symbol;
-};
-
-const fetchMarketDataFromFinnhub = async (symbol: string, timeframe: string): Promise<MarketDataPayload> => {
-    if (!FINNHUB_API_KEY) throw new Error("FINNHUB_API_KEY environment variable not set. Cannot use Finnhub as a fallback.");
-    
-    // Skip Finnhub for Indian stocks (.NS) as the free tier has limited support and often fails.
-    if (symbol.endsWith('.NS')) {
-        throw new Error("Primary data source failed for Indian stock; Finnhub fallback is not supported for this asset on the current plan.");
-    }
-    
-    const finnhubSymbol = mapSymbolForFinnhub(symbol);
-    let resolution: string;
-    const to = Math.floor(Date.now() / 1000);
-    let from: number;
-    const now = new Date();
-
-    switch (timeframe) {
-        case 'Intraday': resolution = '15'; from = Math.floor(now.setDate(now.getDate() - 5) / 1000); break;
-        case 'Weekly': resolution = 'W'; from = Math.floor(now.setFullYear(now.getFullYear() - 5) / 1000); break;
-        case 'Monthly': resolution = 'M'; from = Math.floor(now.setFullYear(now.getFullYear() - 20) / 1000); break;
-        default: resolution = 'D'; from = Math.floor(now.setFullYear(now.getFullYear() - 2) / 1000);
-    }
-    
-    const url = `https://finnhub.io/api/v1/stock/candle?symbol=${finnhubSymbol}&resolution=${resolution}&from=${from}&to=${to}&token=${FINNHUB_API_KEY}`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error(`Finnhub request for ${finnhubSymbol} failed with status ${response.status}`);
-    
-    const data = await response.json();
-    if (data.s === 'no_data' || !data.t || data.t.length === 0) throw new Error(`Could not find time series data for '${finnhubSymbol}' in Finnhub response.`);
-
-    const { t, o, h, l, c, v } = data;
-    const header = "Date,Open,High,Low,Close,Volume\n";
-
-    const candlestickData: CandlestickData[] = [];
-    const volumeData: VolumeData[] = [];
-
-    const csvRows = t.map((ts: number, i: number) => {
-        const date = new Date(ts * 1000).toISOString().split('T')[0];
-        
-        candlestickData.push({ time: ts, open: o[i], high: h[i], low: l[i], close: c[i] });
-        volumeData.push({ time: ts, value: v[i] ?? 0, color: c[i] >= o[i] ? 'rgba(40, 167, 69, 0.5)' : 'rgba(220, 53, 69, 0.5)' });
-
-        return `${date},${o[i].toFixed(2)},${h[i].toFixed(2)},${l[i].toFixed(2)},${c[i].toFixed(2)},${v[i] ?? '0'}`;
+const generateAnalysisJson = async ({ parts, systemInstruction, responseSchema }: GenerationRequest): Promise<string> => {
+  if (!ai) {
+    const response = await fetch(`${BACKEND_URL}/api/analyze`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: GEMINI_MODEL, parts, systemInstruction, responseSchema }),
     });
-    const csv = header + csvRows.join('\n');
-    return { csv, chartData: { candlestickData, volumeData } };
-};
-
-const fetchLivePriceFromFinnhub = async (symbol: string): Promise<string | null> => {
-    if (!FINNHUB_API_KEY) {
-        console.warn("FINNHUB_API_KEY not set, cannot fetch live price from Finnhub.");
-        return null;
-    }
-
-    if (symbol.endsWith('.NS')) {
-        // Skip Finnhub for Indian stocks
-        return null;
-    }
-
-    const finnhubSymbol = mapSymbolForFinnhub(symbol);
-    const url = `https://finnhub.io/api/v1/quote?symbol=${finnhubSymbol}&token=${FINNHUB_API_KEY}`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error(`Finnhub quote request failed with status ${response.status}`);
-    const data = await response.json();
-    const price = data?.c;
-    if (!price || price === 0) throw new Error(`No live price found for ${symbol} in Finnhub response.`);
-    return formatPrice(price);
-};
-
-// --- ORCHESTRATORS ---
-
-const fetchLivePriceFromYahoo = async (symbol: string): Promise<string | null> => {
-    const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?range=1d&interval=1m`;
-    const data = await yahooFinanceFetch(url);
-    const price = data?.chart?.result?.[0]?.meta?.regularMarketPrice;
-    if (!price) {
-        throw new Error(`No live price found for ${symbol} in Yahoo Finance response.`);
-    }
-    return formatPrice(price);
-};
-
-export const fetchLivePrice = async (symbol: string): Promise<string | null> => {
-    if (!symbol) return null;
-    try {
-        return await fetchLivePriceFromYahoo(symbol);
-    } catch (yahooError) {
-        console.warn(`Failed to fetch live price for ${symbol} from Yahoo Finance. Falling back to Finnhub.`, yahooError);
-        try {
-            return await fetchLivePriceFromFinnhub(symbol);
-        } catch (finnhubError) {
-            console.error(`Failed to fetch live price for ${symbol} from Finnhub as well.`, finnhubError);
-            return null;
-        }
-    }
-};
-
-const fetchMarketDataFromYahoo = async (symbol: string, timeframe: string): Promise<MarketDataPayload> => {
-    let range: string;
-    let interval: string;
-
-    switch (timeframe) {
-        case 'Intraday': range = '5d'; interval = '15m'; break;
-        case 'Weekly': range = '5y'; interval = '1wk'; break;
-        case 'Monthly': range = 'max'; interval = '1mo'; break;
-        default: range = '2y'; interval = '1d'; // Daily
+    const data = await response.json().catch(() => null);
+    if (!response.ok || typeof data?.text !== 'string') {
+      throw new Error(data?.error || `Backend analysis request failed with status ${response.status}`);
     }
-    
-    const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?range=${range}&interval=${interval}`;
-    const data = await yahooFinanceFetch(url);
-    
-    const result = data?.chart?.result?.[0];
-    if (!result || !result.timestamp || !result.indicators.quote[0].open) {
-        throw new Error('Could not find time series data in Yahoo Finance response.');
-    }
-
-    const { timestamp, indicators } = result;
-    const { open, high, low, close, volume } = indicators.quote[0];
-    
-    const header = "Date,Open,High,Low,Close,Volume\n";
-    const candlestickData: CandlestickData[] = [];
-    const volumeData: VolumeData[] = [];
-
-    const csvRows = timestamp.map((ts: number, i: number) => {
-        if (ts === null || open[i] === null || high[i] === null || low[i] === null || close[i] === null) {
-            return null; // Skip rows with null data points
-        }
-        
-        candlestickData.push({ time: ts, open: open[i], high: high[i], low: low[i], close: close[i] });
-        volumeData.push({ time: ts, value: volume[i] ?? 0, color: close[i] >= open[i] ? 'rgba(40, 167, 69, 0.5)' : 'rgba(220, 53, 69, 0.5)' });
-        
-        const date = new Date(ts * 1000).toISOString().split('T')[0];
-        const o = open[i].toFixed(2);
-        const h = high[i].toFixed(2);
-        const l = low[i].toFixed(2);
-        const c = close[i].toFixed(2);
-        const v = volume[i] ?? '0';
-        return `${date},${o},${h},${l},${c},${v}`;
-    }).filter(Boolean);
-
-    const csv = header + csvRows.join('\n');
-    return { csv, chartData: { candlestickData, volumeData } };
-};
+    return data.text;
+  }
 
-export const fetchMarketData = async (symbol: string, timeframe: string): Promise<MarketDataPayload> => {
-    try {
-        console.log(`Attempting to fetch market data for '${symbol}' from Yahoo Finance...`);
-        return await fetchMarketDataFromYahoo(symbol, timeframe);
-    } catch (yahooError) {
-        console.warn(`Failed to fetch market data for '${symbol}' from Yahoo Finance.`, yahooError);
-        if (!FINNHUB_API_KEY) {
-            console.error("FINNHUB_API_KEY not set. Cannot fallback to Finnhub.");
-            throw new Error(`Failed to fetch market data for '${symbol}'. The symbol may be invalid or not supported by the data provider.`);
-        }
-        console.log(`Falling back to Finnhub for '${symbol}'...`);
-        try {
-            return await fetchMarketDataFromFinnhub(symbol, timeframe);
-        } catch (finnhubError) {
-            console.error(`Failed to fetch market data for '${symbol}' from Finnhub as well.`, finnhubError);
-            throw new Error(`Failed to fetch market data for '${symbol}' from all providers. The symbol may be invalid or providers are down.`);
-        }
-    }
+  const response: GenerateContentResponse = await ai.models.generateContent({
+    model: GEMINI_MODEL,
+    contents: { parts },
+    config: {
+      systemInstruction,
+      responseMimeType: 'application/json',
+      responseSchema,
+    },
+  });
+  return response.text;
 };
 
-
 // --- GEMINI ANALYSIS GENERATION ---
 
-const getBenchmarkForSymbol = (symbol: string): { symbol: string; name: string } => {
-    if (symbol.endsWith('.NS')) {
-        return { symbol: '^NSEI', name: 'NIFTY 50' };
-    }
-    return { symbol: '^GSPC', name: 'S&P 500' };
-};
-
-const calculate3MonthPerformance = (data: any): string | null => {
-    const result = data?.chart?.result?.[0];
-    if (!result || !result.indicators.quote[0].close) return null;
-
-    const closePrices = result.indicators.quote[0].close.filter((p: number | null) => p !== null && isFinite(p));
-    if (closePrices.length < 2) return null;
+// Benchmark and other-timeframe data enrich the analysis; a dataset that fails to load is left out.
+const orNull = <T>(promise: Promise<T>, what: string): Promise<T | null> =>
+    promise.catch(error => {
+        console.warn(`Could not load ${what}:`, error);
+        return null;
+    });
 
-    const firstClose = closePrices[0];
-    const lastClose = closePrices[closePrices.length - 1];
-    const performance = ((lastClose - firstClose) / firstClose) * 100;
+// The position sizer reads these prices, so they are asked for as bare numbers.
+const setupPrice = (what: string) => ({ type: Type.STRING, description: `The ${what} as a bare price without words or currency symbols (e.g., '182.30').` });
 
-    return `${performance >= 0 ? '+' : ''}${performance.toFixed(2)}%`;
+const tradeSetupSchema = {
+  type: Type.OBJECT,
+  properties: {
+    entry: setupPrice('entry price'),
+    target1: setupPrice('first target'),
+    target2: setupPrice('second target'),
+    stopLoss: setupPrice('stop loss'),
+    risk: { type: Type.STRING, description: "The main risk to the setup, e.g., 'A close back below the 50-day EMA'." },
+  },
+  required: ['entry', 'target1', 'target2', 'stopLoss', 'risk']
 };
 
 const responseSchema = {
@@ -381,16 +191,8 @@ const responseSchema = {
     tradeSetups: {
       type: Type.OBJECT,
       properties: {
-        bullish: {
-          type: Type.OBJECT,
-          properties: { entry: { type: Type.STRING }, target1: { type: Type.STRING }, target2: { type: Type.STRING }, stopLoss: { type: Type.STRING }, risk: { type: Type.STRING } },
-          required: ['entry', 'target1', 'target2', 'stopLoss', 'risk']
-        },
-        bearish: {
-          type: Type.OBJECT,
-          properties: { entry: { type: Type.STRING }, target1: { type: Type.STRING }, target2: { type: Type.STRING }, stopLoss: { type: Type.STRING }, risk: { type: Type.STRING } },
-          required: ['entry', 'target1', 'target2', 'stopLoss', 'risk']
-        },
+        bullish: tradeSetupSchema,
+        bearish: tradeSetupSchema,
       },
       required: ['bullish', 'bearish']
     },
@@ -414,33 +216,16 @@ const responseSchema = {
     multiTimeframe: {
         type: Type.OBJECT,
         properties: {
-            daily: {
-                type: Type.OBJECT,
-                properties: { trend: { type: Type.STRING }, keyLevel: { type: Type.STRING }, bias: { type: Type.STRING } },
-                required: ['trend', 'keyLevel', 'bias']
-            },
-            weekly: {
-                type: Type.OBJECT,
-                properties: { trend: { type: Type.STRING }, keyLevel: { type: Type.STRING }, bias: { type: Type.STRING } },
-                required: ['trend', 'keyLevel', 'bias']
-            },
-            monthly: {
-                type: Type.OBJECT,
-                properties: { trend: { type: Type.STRING }, keyLevel: { type: Type.STRING }, bias: { type: Type.STRING } },
-                required: ['trend', 'keyLevel', 'bias']
-            }
+          commentary: { type: Type.STRING, description: "How the provided daily, weekly and monthly trend states align, and what any flagged conflict means for the trade setups (e.g., 'Daily pullback within a weekly and monthly uptrend; dips toward the weekly low are buying opportunities.')." }
         },
-        required: ['daily', 'weekly', 'monthly']
+        required: ['commentary']
     },
     relativeStrength: {
         type: Type.OBJECT,
         properties: {
-          benchmark: { type: Type.STRING, description: "The benchmark index used for comparison (e.g., 'S&P 500')." },
-          assetPerformance3M: { type: Type.STRING, description: "The asset's performance over the last 3 months (e.g., '+10.55%')." },
-          benchmarkPerformance3M: { type: Type.STRING, description: "The benchmark's performance over the last 3 months (e.g., '+5.20%')." },
-          interpretation: { type: Type.STRING, description: "A concise interpretation of the relative strength (e.g., 'The asset is significantly outperforming its benchmark, showing strong market leadership.')." }
+          interpretation: { type: Type.STRING, description: "A concise interpretation of the provided relative strength data (e.g., 'Outperforming both the NIFTY 50 and its sector over 3-12 months, with leadership fading in the last month.')." }
         },
-        required: ['benchmark', 'assetPerformance3M', 'benchmarkPerformance3M', 'interpretation']
+        required: ['interpretation']
     },
     narrative: {
         type: Type.OBJECT,
@@ -454,64 +239,205 @@ const responseSchema = {
         required: ['summary', 'levels', 'patterns', 'triggers', 'invalidation']
     }
   },
-  required: ['summaryTable', 'marketStructure', 'volumeAnalysis', 'criticalLevels', 'indicatorMatrix', 'chartPatterns', 'tradeSetups', 'confluenceAnalysis', 'riskFactors', 'multiTimeframe', 'relativeStrength', 'narrative']
+  required: ['summaryTable', 'marketStructure', 'volumeAnalysis', 'criticalLevels', 'indicatorMatrix', 'chartPatterns', 'tradeSetups', 'confluenceAnalysis', 'riskFactors', 'narrative']
+};
+
+// The summary's RSI and the indicator matrix follow the user's indicator selection.
+const schemaForIndicators = (settings: IndicatorSetting[]) => {
+  const names = selectedIndicatorNames(settings);
+  const { summaryTable, indicatorMatrix } = responseSchema.properties;
+  return {
+    ...responseSchema,
+    properties: {
+      ...responseSchema.properties,
+      summaryTable: {
+        ...summaryTable,
+        properties: { ...summaryTable.properties, rsi14: { type: Type.STRING, description: `The ${rsiPeriodOf(settings)}-period RSI value.` } },
+      },
+      indicatorMatrix: {
+        ...indicatorMatrix,
+        description: names.length > 0 ? `One entry per selected indicator, in this order: ${names.join('; ')}.` : 'Leave empty; no indicators were selected.',
+      },
+    },
+  };
 };
 
 export const getTechnicalAnalysis = async (
   symbol: string,
   image: { mimeType: string; data: string } | null,
-  timeframe: string
+  timeframe: string,
+  uploadedData: UploadedDataset | null = null,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS
 ): Promise<AnalysisResult> => {
+  const indicatorSettings = normalizeIndicatorSettings(options.indicators);
   let marketDataPayload: MarketDataPayload | null = null;
   let relativeStrengthText = '';
+  const comparisons: BenchmarkComparison[] = [];
+  let timeframeBars: Partial<Record<TimeframeKey, OhlcvBar[]>> = {};
+  let dataSourceText = '';
+  const dataSources: DataSourceRecord[] = [];
+  // Uploaded files have no lookback window; a custom interval only resamples them.
+  const uploadSpec = uploadedData && timeframe === CUSTOM_TIMEFRAME ? parseIntervalSpec(options.customTimeframe?.interval ?? '') : null;
+  const timeframeLabel = uploadedData
+    ? (uploadSpec ? `Custom (${describeIntervalSpec(uploadSpec)} candles)` : timeframe)
+    : describeTimeframe(timeframe, options.customTimeframe);
+
+  if (uploadedData) {
+    // User-supplied candles never contact a provider.
+    const bars = uploadSpec ? resampleBars(uploadedData.bars, uploadSpec) : uploadedData.bars;
+    marketDataPayload = {
+      csv: buildCsv(bars, { priceFormat: getPriceFormatForBars(uploadedData.bars) }),
+      chartData: chartDataFromBars(bars),
+      bars,
+      source: 'upload',
+      corporateActions: [],
+      appliedCorporateActions: [],
+    };
+    dataSources.push({ dataset: uploadedData.name, source: 'upload', bars: bars.length });
+    timeframeBars = resampleForTimeframes(uploadedData.bars);
+    dataSourceText = `
+Context: The market data below was supplied by the user from the file "${uploadedData.name}" (${uploadedData.bars.length} candles${uploadSpec ? `, resampled to ${bars.length} ${uploadSpec.label} candles` : ''}). Live quotes and benchmark data are not available for it.
+`;
+  } else if (symbol) {
+    const payload = await fetchMarketData(symbol, timeframe, options);
+    marketDataPayload = payload;
+    dataSources.push({ dataset: `${symbol} ${timeframeLabel}`, source: marketDataPayload.source, bars: marketDataPayload.bars.length });
+
+    // --- Multi-Timeframe ---
+    // The selected timeframe's data is reused; the other timeframes are fetched.
+    const timeframeData = await Promise.all(MULTI_TIMEFRAMES.map(config =>
+        config.label === timeframe ? payload : orNull(fetchMarketData(symbol, config.label, options), `${symbol} ${config.label} data`)));
+    MULTI_TIMEFRAMES.forEach((config, i) => {
+        const data = timeframeData[i];
+        if (!data) return;
+        if (data !== payload) dataSources.push({ dataset: `${symbol} ${config.label} (multi-timeframe)`, source: data.source, bars: data.bars.length });
+        timeframeBars[config.key] = data.bars;
+    });
 
-  if (symbol) {
-    marketDataPayload = await fetchMarketData(symbol, timeframe);
-
-    // --- New Relative Strength Logic ---
-    try {
-        const benchmark = getBenchmarkForSymbol(symbol);
-        const benchmarkUrl = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(benchmark.symbol)}?range=3mo&interval=1d`;
-        const assetUrl = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?range=3mo&interval=1d`;
-
-        const [benchmarkData, assetData] = await Promise.all([
-            yahooFinanceFetch(benchmarkUrl),
-            yahooFinanceFetch(assetUrl)
+    // --- Relative Strength ---
+    // Benchmarks themselves (e.g. the S&P 500) have nothing to be compared against.
+    const benchmarks: { instrument: Instrument; kind: BenchmarkComparison['kind'] }[] = [];
+    const broadBenchmark = getBenchmark(symbol);
+    const sectorBenchmark = getSectorBenchmark(symbol);
+    if (broadBenchmark) benchmarks.push({ instrument: broadBenchmark, kind: 'broad' });
+    if (sectorBenchmark && sectorBenchmark.symbol !== broadBenchmark?.symbol) benchmarks.push({ instrument: sectorBenchmark, kind: 'sector' });
+
+    if (benchmarks.length > 0) {
+        const to = Math.floor(Date.now() / 1000);
+        const request = { interval: '1d' as const, from: to - RELATIVE_STRENGTH_LOOKBACK_DAYS * 24 * 60 * 60, to };
+        // The ratio line is drawn against the first benchmark on the chart's own timeframe.
+        const ratioBenchmark = benchmarks[0].instrument;
+
+        const [assetData, ratioData, ...benchmarkData] = await Promise.all([
+            orNull(fetchHistory(symbol, request), `${symbol} relative strength history`),
+            orNull(fetchMarketData(ratioBenchmark.symbol, timeframe, options), `${ratioBenchmark.symbol} ratio line`),
+            ...benchmarks.map(({ instrument }) => orNull(fetchHistory(instrument.symbol, request), `${instrument.symbol} benchmark history`)),
         ]);
 
-        const benchmarkPerf = calculate3MonthPerformance(benchmarkData);
-        const assetPerf = calculate3MonthPerformance(assetData);
+        if (assetData) {
+            dataSources.push({ dataset: `${symbol} 12-month daily (relative strength)`, source: assetData.source, bars: assetData.bars.length });
+            benchmarks.forEach(({ instrument, kind }, i) => {
+                const data = benchmarkData[i];
+                if (!data) return;
+                dataSources.push({ dataset: `${instrument.symbol} 12-month daily (${kind} benchmark)`, source: data.source, bars: data.bars.length });
+                comparisons.push(compareWithBenchmark(assetData.bars, data.bars, instrument, kind));
+            });
+            relativeStrengthText = describeRelativeStrengthForPrompt(comparisons);
+        }
 
-        if (benchmarkPerf && assetPerf) {
-            relativeStrengthText = `
-Context: Relative Strength Analysis (3-Month Performance):
-- This Asset's Performance: ${assetPerf}
-- Benchmark Index (${benchmark.name}) Performance: ${benchmarkPerf}
-`;
+        if (ratioData) {
+            dataSources.push({ dataset: `${ratioBenchmark.symbol} ${timeframeLabel} (ratio line)`, source: ratioData.source, bars: ratioData.bars.length });
+            const ratioLine = buildRatioLine(marketDataPayload.bars, ratioData.bars);
+            if (ratioLine.length > 0) {
+                marketDataPayload.chartData = { ...marketDataPayload.chartData, ratioLine: { benchmark: ratioBenchmark.name, data: ratioLine } };
+            }
         }
-    } catch (error) {
-        console.warn("Could not calculate relative strength:", error);
-        // Fail silently, it's an enhancement not a core feature.
     }
   }
 
+  const priceFormat = uploadedData ? getPriceFormatForBars(uploadedData.bars) : symbol ? getPriceFormat(symbol) : GENERIC_PRICE_FORMAT;
+  const lastClose = marketDataPayload?.bars[marketDataPayload.bars.length - 1]?.close;
+  const priceExample = lastClose !== undefined ? formatPlainPrice(lastClose, priceFormat) : (123.45).toFixed(priceFormat.decimals);
+  const decimalPlaces = lastClose !== undefined ? priceDecimals(lastClose, priceFormat) : priceFormat.decimals;
+
+  // Uploaded files are often historical exports, so their age is not a defect.
+  const dataQuality = marketDataPayload
+    ? assessDataQuality(marketDataPayload.bars, { checkStaleness: !uploadedData, exchange: uploadedData ? undefined : getExchangeForSymbol(symbol) })
+    : null;
+  const dataQualityText = dataQuality ? describeDataQualityForPrompt(dataQuality) : '';
+  const indicatorSelectionText = describeIndicatorSelectionForPrompt(indicatorSettings);
+  const indicatorReadings = marketDataPayload ? computeIndicatorReadings(marketDataPayload.chartData, priceFormat, indicatorSettings) : [];
+  const indicatorsText = describeIndicatorsForPrompt(indicatorReadings);
+  // Over every candle sent, which is also the range the chart initially shows; the levels share it.
+  const volumeProfile = marketDataPayload ? computeVolumeProfile(marketDataPayload.bars) : null;
+  const levelAnalysis = marketDataPayload ? computeSupportResistance(marketDataPayload.chartData, volumeProfile) : null;
+  const levelsText = describeSupportResistanceForPrompt(levelAnalysis, priceFormat);
+  const volumeProfileText = describeVolumeProfileForPrompt(volumeProfile, lastClose, priceFormat);
+  const fibonacci = marketDataPayload ? computeFibonacci(marketDataPayload.chartData.candlestickData) : null;
+  const fibonacciText = describeFibonacciForPrompt(fibonacci, lastClose, priceFormat);
+  const detectedPatterns = marketDataPayload ? detectChartPatterns(marketDataPayload.chartData.candlestickData) : [];
+  const patternsText = describePatternsForPrompt(detectedPatterns, priceFormat);
+  const divergences = marketDataPayload ? detectDivergences(marketDataPayload.chartData, priceFormat, indicatorSettings) : [];
+  const divergencesText = marketDataPayload ? describeDivergencesForPrompt(divergences) : '';
+  const candlestickSignals = marketDataPayload ? detectCandlestickPatterns(marketDataPayload.chartData.candlestickData) : [];
+  const candlestickText = marketDataPayload ? describeCandlestickSignalsForPrompt(candlestickSignals, marketDataPayload.chartData.candlestickData, priceFormat) : '';
+  const multiTimeframe = analyzeTimeframes(MULTI_TIMEFRAMES
+    .filter(config => timeframeBars[config.key]?.length)
+    .map(config => computeTrendState(config, timeframeBars[config.key]!)));
+  const multiTimeframeText = describeMultiTimeframeForPrompt(multiTimeframe, priceFormat);
+  const confluenceWeights = getConfluenceWeights();
+  const confluenceFactors = marketDataPayload ? computeConfluenceFactors({
+    bars: marketDataPayload.bars,
+    readings: indicatorReadings,
+    divergences,
+    levels: levelAnalysis?.levels ?? [],
+    volumeProfile,
+    patterns: detectedPatterns,
+    candlestickSignals,
+    multiTimeframe,
+    priceFormat,
+  }) : [];
+  const confluenceText = describeConfluenceForPrompt(confluenceFactors, confluenceWeights);
+  // Recent candles of the timeframes other than the one being analyzed.
+  const otherTimeframesCsv = MULTI_TIMEFRAMES
+    .filter(config => timeframeBars[config.key]?.length && timeframeBars[config.key] !== marketDataPayload?.bars)
+    .map(config => `\n\n${config.label} Market Data (CSV, last ${config.promptBars} candles):\n${buildCsv(timeframeBars[config.key]!.slice(-config.promptBars), { priceFormat })}`)
+    .join('');
+  const corporateActionsText = marketDataPayload
+    ? describeCorporateActionsForPrompt(marketDataPayload.corporateActions, marketDataPayload.appliedCorporateActions, options.priceAdjustment)
+    : '';
+
   const systemInstruction = `You are an expert technical analyst known as the "Champion Chartist." Your analysis is purely data-driven, objective, and modeled on the methodologies of top-tier market technicians. Generate a comprehensive, professional-grade technical analysis report in JSON format based on the provided market data and/or chart image.
 
 Key Directives:
 - Adhere strictly to the provided JSON schema. Do not deviate.
-- All price values in your response MUST be formatted as strings representing numbers with two decimal places (e.g., "123.45").
-- Analyze the data for the specified timeframe (${timeframe}).
-- **Relative Strength**: If provided, analyze the 3-month relative strength data. Compare the asset's performance to its benchmark and provide a concise interpretation of its market leadership or weakness.
+- All price values in your response MUST be formatted as plain numeric strings with ${decimalPlaces} decimal places, without currency symbols or thousands separators (e.g., "${priceExample}").${priceFormat.currency ? ` Prices are quoted in ${priceFormat.currency}.` : ''}
+- Analyze the data for the specified timeframe (${timeframeLabel}). Custom timeframes are resampled from finer provider candles; treat each row as one candle of the stated interval.
+- **Intraday Sessions**: Intraday timestamps are in the exchange's local time. If a 'Session' column is present, bars marked 'pre' or 'post' are extended-hours trading with thinner liquidity; weigh them accordingly.
+- **Relative Strength**: If relative strength data is provided, interpret the asset's leadership or weakness against its broad market and sector indices across the 1M/3M/6M/12M windows (e.g. short-term strength within a weak 12-month record). The figures are computed for you; do not restate or recalculate them.
+- **Multi-Timeframe**: If multi-timeframe trend states are provided, they are computed for you. Explain in 'multiTimeframe.commentary' how they align, which timeframe dominates, and how any flagged conflict (e.g. a daily downtrend inside a weekly uptrend) should shape the trade setups.
+- **Computed Indicators**: If computed indicator values are provided, they are exact. Use them for the indicator matrix, 'rsi14' and 'macdSignal' instead of estimating values from the CSV, and base your interpretation on them.
+- **Indicator Selection**: The indicator matrix covers the indicators the user selected, with the stated periods and price sources. Base momentum and trend commentary on those settings rather than the textbook defaults.
+- **Support & Resistance**: If computed support/resistance candidates are provided, choose 'r1', 'r2', 's1', 's2', 'keySupport' and 'keyResistance' from them where they fit, preferring higher scores. If you use a level that is not among them, justify it in 'narrative.levels'.
+- **Chart Patterns**: If detected chart patterns are provided, base 'activePattern' on one of them where it fits the chart, and use its breakout level and measured-move target for the entry signal and price target. If you report a pattern the detector did not find, explain what makes it valid.
+- **Fibonacci Targets**: If Fibonacci levels are provided, take 'target1', 'target2' and the pattern 'priceTarget' from them (or from the computed support/resistance) where they fit: retracements for pullback targets, extensions for targets beyond the swing. Name the level a target comes from in 'narrative.triggers'.
+- **Volume Profile**: If a volume profile is provided, treat the point of control and the value area edges as key levels, say in 'volumeAnalysis' where price trades relative to the value area, and note that low-volume nodes tend to be crossed quickly while high-volume nodes slow price down.
 - **Volume Analysis is critical**: Analyze trading volume. Comment on volume trends, significant spikes and their context, and the relationship between price and volume (e.g., confirming a trend or showing divergence).
 - **Actionable Pattern Analysis**: For the primary identified chart pattern, you MUST provide its implication (e.g., 'Bullish Reversal'), a clear entry signal (e.g., 'Break above 125.50'), and a calculated price target. These details should inform the Trade Setup Recommendations.
-- **RSI Divergence Alerts**: If you detect a bullish or bearish RSI divergence, you MUST generate a specific, concise alert in the 'rsiDivergenceAlerts' array. Example: "ALERT: Bearish RSI Divergence - Price is making higher highs while the RSI is making lower highs, signaling potential momentum loss." If no divergence is found, this array should be empty.
+- **Computed Divergences**: If computed divergences are provided, they are exact and replace your divergence alerts. Describe the most recent regular RSI divergence, if any, in 'rsiDivergence', weigh all listed divergences in the trade setups, and do not report divergences that are not listed.
+- **Candlestick Signals**: If recent candlestick signals are provided, they are computed from the candles. Use them in 'marketStructure.priceActionAnalysis' and as triggers in the trade setups, giving more weight to reversal patterns at the computed support/resistance levels.
+- **Confluence**: If a computed confluence score is provided, it replaces your 'confluenceAnalysis'. Set 'overallSignal' consistent with it; if the chart justifies a different signal, explain what overrides the score in 'narrative.summary'.
+- **RSI Divergence Alerts**: Without computed divergences, if you detect a bullish or bearish RSI divergence, you MUST generate a specific, concise alert in the 'rsiDivergenceAlerts' array. Example: "ALERT: Bearish RSI Divergence - Price is making higher highs while the RSI is making lower highs, signaling potential momentum loss." If no divergence is found, this array should be empty.
+- **Data Quality**: If a data-quality report is provided, do not interpret the listed defects (gaps, spikes, suspected unadjusted splits, stale bars) as genuine price action, and mention material defects in the risk factors.
+- If the market data was supplied by the user from a file, treat it as authoritative and use the file name as the asset name when no symbol is given.
 - If both a symbol and an image are provided, prioritize the most recent data but use the image for pattern and trendline context.
 - If only an image is provided, derive all analysis from the visual information in the chart.
 - Your narrative must be insightful, concise, and directly actionable for a trader or investor.`;
   
-  const textPrompt = `Analyze the following asset. Asset symbol: ${symbol || 'N/A'}. Timeframe: ${timeframe}.
-${relativeStrengthText}
-${marketDataPayload?.csv ? `\n\nMarket Data (CSV):\n${marketDataPayload.csv}` : ''}
+  const assetLabel = symbol || uploadedData?.name.replace(/\.[^.]+$/, '') || 'N/A';
+  const textPrompt = `Analyze the following asset. Asset symbol: ${assetLabel}. Timeframe: ${timeframeLabel}.
+${dataSourceText}${dataQualityText}${corporateActionsText}${indicatorSelectionText}${indicatorsText}${levelsText}${volumeProfileText}${fibonacciText}${patternsText}${divergencesText}${candlestickText}${relativeStrengthText}${multiTimeframeText}${confluenceText}
+${marketDataPayload?.csv ? `\n\nMarket Data (CSV):\n${marketDataPayload.csv}` : ''}${otherTimeframesCsv}
 Provide a complete technical analysis based on this data and/or the accompanying chart image.`;
 
   const parts: any[] = [{ text: textPrompt }];
@@ -525,32 +451,66 @@ Provide a complete technical analysis based on this data and/or the accompanying
   }
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts },
-      config: {
-        systemInstruction,
-        responseMimeType: 'application/json',
-        responseSchema: responseSchema,
-      },
-    });
-
-    const jsonText = response.text.trim();
+    const jsonText = (await generateAnalysisJson({ parts, systemInstruction, responseSchema: schemaForIndicators(indicatorSettings) })).trim();
     const report = JSON.parse(jsonText) as AnalysisReport;
     
     if (!report.summaryTable || !report.criticalLevels) {
         throw new Error("AI response is missing critical data sections. Please try again.");
     }
     
-    // Manually inject the calculated performance data into the report
-    if (relativeStrengthText && report.relativeStrength) {
-        const assetPerfMatch = relativeStrengthText.match(/- This Asset's Performance: (.*?)\n/);
-        const benchmarkPerfMatch = relativeStrengthText.match(/- Benchmark Index .* Performance: (.*?)\n/);
-        if(assetPerfMatch) report.relativeStrength.assetPerformance3M = assetPerfMatch[1];
-        if(benchmarkPerfMatch) report.relativeStrength.benchmarkPerformance3M = benchmarkPerfMatch[1];
+    // Computed indicators replace the analysis' readings; disagreements are flagged in the matrix.
+    if (indicatorReadings.length > 0) {
+      report.indicatorMatrix = reconcileIndicators(report.indicatorMatrix, indicatorReadings);
+      report.summaryTable = applyComputedSummary(report.summaryTable, indicatorReadings);
+    }
+    report.summaryTable.rsiPeriod = rsiPeriodOf(indicatorSettings);
+
+    // The figures are ours; the analysis only contributes the interpretation.
+    report.relativeStrength = comparisons.length > 0
+      ? { comparisons, interpretation: report.relativeStrength?.interpretation ?? '' }
+      : undefined;
+    if (levelAnalysis) {
+      const { candidates, ...levels } = levelAnalysis;
+      report.supportResistance = { ...levels, checks: checkModelLevels(report.criticalLevels, report.summaryTable, levelAnalysis) };
+    } else {
+      report.supportResistance = undefined;
+    }
+    report.volumeProfile = volumeProfile ?? undefined;
+    report.fibonacci = fibonacci ?? undefined;
+    let chartData = marketDataPayload?.chartData ?? null;
+    if (marketDataPayload) {
+      const check = checkActivePattern(report.chartPatterns?.activePattern, detectedPatterns, priceFormat);
+      report.chartPatterns = {
+        ...report.chartPatterns,
+        detected: detectedPatterns,
+        check,
+        divergences,
+        rsiDivergence: reconcileRsiDivergence(report.chartPatterns?.rsiDivergence, divergences),
+        rsiDivergenceAlerts: divergences.map(divergence => divergence.alert),
+      };
+      report.candlestickSignals = candlestickSignals;
+      // The chart draws the pattern the check settled on, or else the most recent one, every divergence and the candlestick signals.
+      const drawn = check.match ?? detectedPatterns[0];
+      const candles = marketDataPayload.chartData.candlestickData;
+      const pattern = drawn ? patternOverlays(drawn, candles[candles.length - 1].time) : { overlays: [], markers: [] };
+      const divergenceLines = divergenceOverlays(divergences);
+      chartData = {
+        ...marketDataPayload.chartData,
+        fibonacci: fibonacci ?? undefined,
+        overlays: [...pattern.overlays, ...divergenceLines.overlays],
+        markers: [...(marketDataPayload.chartData.markers ?? []), ...pattern.markers, ...divergenceLines.markers, ...candlestickMarkers(candlestickSignals)],
+      };
+    }
+    report.multiTimeframe = multiTimeframe.timeframes.length > 0
+      ? { ...multiTimeframe, commentary: report.multiTimeframe?.commentary ?? '' }
+      : undefined;
+    // The score is ours; the analysis' overall signal is checked against it.
+    if (confluenceFactors.some(factor => factor.score !== null)) {
+      const score = scoreConfluence(confluenceFactors, confluenceWeights);
+      report.confluenceAnalysis = { ...score, factors: confluenceFactors, weights: confluenceWeights, check: checkOverallSignal(report.summaryTable.overallSignal, score.overallScore) };
     }
 
-    return { report, chartData: marketDataPayload?.chartData ?? null };
+    return { report, chartData, dataQuality, priceFormat, dataSources };
 
   } catch (error) {
     console.error("Error generating analysis from Gemini:", error);
@@ -0,0 +1,214 @@
+import type { IndicatorId, IndicatorPreset, IndicatorSetting, PriceSource } from '../types';
+
+/**
+ * The indicators a user can select for an analysis, their parameters and the
+ * presets they are saved in. Settings coming from the form or from storage are
+ * normalized here before they reach the indicator library.
+ */
+
+interface ParamDefinition {
+    label: string;
+    min: number;
+    max: number;
+    step: number; // 1 for periods; fractional for multipliers
+}
+
+export interface IndicatorDefinition {
+    id: IndicatorId;
+    shortName: string;    // used in indicator names, e.g. "RSI (14)"
+    label: string;
+    params: ParamDefinition[];
+    multiplePeriods?: boolean; // SMA/EMA: every entry of `params` is another average
+    usesSource: boolean;
+}
+
+const period = (label = 'Period', min = 2): ParamDefinition => ({ label, min, max: 500, step: 1 });
+const multiplier = (label: string): ParamDefinition => ({ label, min: 0.5, max: 10, step: 0.1 });
+
+export const MAX_AVERAGES = 3;
+
+export const INDICATOR_DEFINITIONS: IndicatorDefinition[] = [
+    { id: 'sma', shortName: 'SMA', label: 'Simple Moving Averages', params: [period('Periods')], multiplePeriods: true, usesSource: true },
+    { id: 'ema', shortName: 'EMA', label: 'Exponential Moving Averages', params: [period('Periods')], multiplePeriods: true, usesSource: true },
+    { id: 'rsi', shortName: 'RSI', label: 'Relative Strength Index', params: [period()], usesSource: true },
+    { id: 'macd', shortName: 'MACD', label: 'MACD', params: [period('Fast'), period('Slow'), period('Signal')], usesSource: true },
+    { id: 'bollinger', shortName: 'Bollinger Bands', label: 'Bollinger Bands', params: [period(), multiplier('Std. dev.')], usesSource: true },
+    { id: 'atr', shortName: 'ATR', label: 'Average True Range', params: [period()], usesSource: false },
+    { id: 'adx', shortName: 'ADX', label: 'Average Directional Index', params: [period()], usesSource: false },
+    { id: 'stochastic', shortName: 'Stochastic', label: 'Stochastic', params: [period('%K'), period('%K smoothing', 1), period('%D', 1)], usesSource: false },
+    { id: 'obv', shortName: 'OBV', label: 'On-Balance Volume', params: [], usesSource: false },
+    { id: 'vwap', shortName: 'VWAP', label: 'VWAP', params: [], usesSource: false },
+    { id: 'supertrend', shortName: 'Supertrend', label: 'Supertrend', params: [period('ATR period'), multiplier('Multiplier')], usesSource: false },
+];
+
+export const PRICE_SOURCES: { id: PriceSource; label: string }[] = [
+    { id: 'close', label: 'Close' },
+    { id: 'open', label: 'Open' },
+    { id: 'hl2', label: 'HL/2' },
+    { id: 'hlc3', label: 'HLC/3' },
+    { id: 'ohlc4', label: 'OHLC/4' },
+];
+
+export const getIndicatorDefinition = (id: IndicatorId): IndicatorDefinition =>
+    INDICATOR_DEFINITIONS.find(definition => definition.id === id)!;
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSetting[] = [
+    { id: 'sma', enabled: true, params: [20, 50, 200], source: 'close' },
+    { id: 'ema', enabled: true, params: [20, 50], source: 'close' },
+    { id: 'rsi', enabled: true, params: [14], source: 'close' },
+    { id: 'macd', enabled: true, params: [12, 26, 9], source: 'close' },
+    { id: 'bollinger', enabled: true, params: [20, 2], source: 'close' },
+    { id: 'atr', enabled: true, params: [14] },
+    { id: 'adx', enabled: true, params: [14] },
+    { id: 'stochastic', enabled: true, params: [14, 3, 3] },
+    { id: 'obv', enabled: true, params: [] },
+    { id: 'vwap', enabled: true, params: [] },
+    { id: 'supertrend', enabled: true, params: [10, 3] },
+];
+
+// --- NAMES ---
+
+/**
+ * The display name of one indicator reading, e.g. "SMA 50", "MACD (12, 26, 9)"
+ * or "RSI (9, HL/2)". Moving averages are named per period.
+ */
+export const indicatorName = (id: IndicatorId, params: number[], source?: PriceSource): string => {
+    const { shortName } = getIndicatorDefinition(id);
+    const sourceLabel = source && source !== 'close' ? PRICE_SOURCES.find(s => s.id === source)?.label : undefined;
+    if (id === 'sma' || id === 'ema') return `${shortName} ${params[0]}${sourceLabel ? ` (${sourceLabel})` : ''}`;
+    const args = sourceLabel ? [...params, sourceLabel] : params;
+    return args.length > 0 ? `${shortName} (${args.join(', ')})` : shortName;
+};
+
+// Every name the selection produces; moving averages contribute one per period.
+export const selectedIndicatorNames = (settings: IndicatorSetting[]): string[] =>
+    settings.filter(setting => setting.enabled).flatMap(setting =>
+        getIndicatorDefinition(setting.id).multiplePeriods
+            ? setting.params.map(p => indicatorName(setting.id, [p], setting.source))
+            : [indicatorName(setting.id, setting.params, setting.source)]);
+
+export const rsiPeriodOf = (settings: IndicatorSetting[]): number =>
+    settings.find(setting => setting.id === 'rsi' && setting.enabled)?.params[0] ?? 14;
+
+// --- NORMALIZATION ---
+
+const clampParam = (value: number, definition: ParamDefinition): number => {
+    const stepped = Math.round(value / definition.step) * definition.step;
+    return Number(Math.min(definition.max, Math.max(definition.min, stepped)).toFixed(2));
+};
+
+/**
+ * Completes and sanitizes indicator settings: every indicator appears once, in
+ * definition order, with in-range parameters. Missing or unreadable values
+ * (blank form fields, older saved presets) fall back to the defaults.
+ */
+export const normalizeIndicatorSettings = (settings: unknown): IndicatorSetting[] => {
+    const given = Array.isArray(settings) ? settings : [];
+    return DEFAULT_INDICATOR_SETTINGS.map(fallback => {
+        const definition = getIndicatorDefinition(fallback.id);
+        const stored = given.find(item => item?.id === fallback.id);
+        const rawParams: unknown[] = Array.isArray(stored?.params) ? stored.params : [];
+        const numbers = rawParams.map(value => (typeof value === 'number' && isFinite(value) ? value : null));
+
+        let params: number[];
+        if (definition.multiplePeriods) {
+            const periods = numbers.filter((value): value is number => value !== null).map(value => clampParam(value, definition.params[0]));
+            params = [...new Set(periods)].sort((a, b) => a - b).slice(0, MAX_AVERAGES);
+            if (params.length === 0) params = fallback.params;
+        } else {
+            params = definition.params.map((param, i) => clampParam(numbers[i] ?? fallback.params[i], param));
+        }
+
+        const source = definition.usesSource
+            ? (PRICE_SOURCES.some(s => s.id === stored?.source) ? stored.source as PriceSource : 'close')
+            : undefined;
+        return {
+            id: fallback.id,
+            enabled: typeof stored?.enabled === 'boolean' ? stored.enabled : fallback.enabled,
+            params,
+            ...(source ? { source } : {}),
+        };
+    });
+};
+
+// --- PRESETS ---
+
+const preset = (name: string, overrides: Partial<Record<IndicatorId, Partial<IndicatorSetting>>>): IndicatorPreset => ({
+    name,
+    indicators: DEFAULT_INDICATOR_SETTINGS.map(setting => ({ ...setting, ...overrides[setting.id] })),
+});
+
+export const BUILT_IN_PRESETS: IndicatorPreset[] = [
+    preset('Default', {}),
+    preset('Short-term momentum', {
+        sma: { enabled: false },
+        ema: { params: [9, 21] },
+        rsi: { params: [9] },
+        macd: { params: [8, 21, 5] },
+        stochastic: { params: [5, 3, 3] },
+        adx: { enabled: false },
+        supertrend: { params: [7, 3] },
+    }),
+    preset('Long-term trend', {
+        sma: { params: [50, 100, 200] },
+        ema: { params: [50, 200] },
+        bollinger: { enabled: false },
+        stochastic: { enabled: false },
+        vwap: { enabled: false },
+    }),
+];
+
+const INDICATOR_PRESETS_KEY = 'champion-chartist:indicator-presets';
+
+// Like recent symbols, saved presets live in the browser; storage failures are ignored.
+export const getSavedPresets = (): IndicatorPreset[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(INDICATOR_PRESETS_KEY) ?? '[]');
+        return Array.isArray(stored)
+            ? stored
+                .filter(item => typeof item?.name === 'string' && item.name.trim())
+                .map(item => ({ name: item.name, indicators: normalizeIndicatorSettings(item.indicators) }))
+            : [];
+    } catch {
+        return [];
+    }
+};
+
+const storePresets = (presets: IndicatorPreset[]) => {
+    try {
+        localStorage.setItem(INDICATOR_PRESETS_KEY, JSON.stringify(presets));
+    } catch {
+        // ignore
+    }
+};
+
+// Saving under an existing name replaces that preset.
+export const savePreset = (name: string, indicators: IndicatorSetting[]): IndicatorPreset[] => {
+    const presets = [
+        ...getSavedPresets().filter(p => p.name !== name),
+        { name, indicators: normalizeIndicatorSettings(indicators) },
+    ].sort((a, b) => a.name.localeCompare(b.name));
+    storePresets(presets);
+    return presets;
+};
+
+export const deletePreset = (name: string): IndicatorPreset[] => {
+    const presets = getSavedPresets().filter(p => p.name !== name);
+    storePresets(presets);
+    return presets;
+};
+
+// --- PROMPT ---
+
+export const describeIndicatorSelectionForPrompt = (settings: IndicatorSetting[]): string => {
+    const names = selectedIndicatorNames(settings);
+    if (names.length === 0) {
+        return `
+Context: Indicator Selection: the user selected no indicators; leave the indicator matrix empty.
+`;
+    }
+    return `
+Context: Indicator Selection (chosen by the user; report these indicators in the indicator matrix, in this order; HL/2, HLC/3 and OHLC/4 name the price the indicator is calculated from):
+${names.map(name => `- ${name}`).join('\n')}
+`;
+};
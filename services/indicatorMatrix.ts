@@ -0,0 +1,354 @@
+import type { ChartData, Indicator, IndicatorId, IndicatorSetting, IndicatorSignal, OhlcvBar, PriceFormat, PriceSource, SummaryTableData } from '../types';
+import { barsFromChartData, appliedPrice, last, sma, ema, rsi, macd, bollinger, atr, adx, stochastic, obv, vwap, supertrend } from './indicators';
+import { DEFAULT_INDICATOR_SETTINGS, indicatorName } from './indicatorConfig';
+import { inferBarSpacing } from './dataQuality';
+import { formatPlainPrice, formatVolume } from './priceFormat';
+
+/**
+ * Turns the indicator library's output for the analyzed candles into the
+ * indicator matrix. Computed readings are given to the analysis as facts, and
+ * the analysis' own indicator values are checked against them afterwards.
+ */
+
+export interface IndicatorReading {
+    key: string;           // matching key, e.g. "rsi" or "sma:50"
+    name: string;          // display name, e.g. "RSI (14)"
+    value: number | null;  // the figure compared with the analysis' value
+    display: string;
+    signal: IndicatorSignal;
+    interpretation: string;
+    summary?: string;      // short form for the summary table
+    kind: IndicatorId;
+    params: number[];      // the settings it was computed with; a moving average's own period
+    // How far the analysis may be off (beyond every given bound) before its value is flagged;
+    // omitted when its value is not comparable.
+    tolerance?: { relative?: number; absolute?: number };
+}
+
+const BULLISH: IndicatorSignal = '🟢';
+const BEARISH: IndicatorSignal = '🔴';
+const NEUTRAL: IndicatorSignal = '⚪';
+
+const PRICE_TOLERANCE = { relative: 0.015 };
+const OSCILLATOR_TOLERANCE = { absolute: 5 };
+
+const percentFrom = (value: number, reference: number) => ((value - reference) / reference) * 100;
+
+// Candles since the two series last crossed, or null if they have not crossed in `lookback` candles.
+const candlesSinceCross = (a: (number | null)[], b: (number | null)[], lookback: number): number | null => {
+    for (let i = a.length - 1, n = 0; i > 0 && n < lookback; i--, n++) {
+        if ([a[i], b[i], a[i - 1], b[i - 1]].some(value => value === null)) return null;
+        if (Math.sign(a[i]! - b[i]!) !== Math.sign(a[i - 1]! - b[i - 1]!)) return n;
+    }
+    return null;
+};
+
+// --- READINGS ---
+
+interface ReadingInput {
+    bars: OhlcvBar[];
+    closes: number[];
+    close: number;
+    price: (value: number) => string;
+    priceFormat: PriceFormat;
+}
+
+const hasVolume = (bars: OhlcvBar[]) => bars.some(bar => bar.volume > 0);
+
+// One reading per period; the key carries the period so the analysis' "50-day SMA" finds "SMA 50".
+const movingAverages = ({ bars, close, price }: ReadingInput, type: 'sma' | 'ema', periods: number[], source: PriceSource) => {
+    const values = appliedPrice(bars, source);
+    return periods.flatMap(period => {
+        const value = last(type === 'sma' ? sma(values, period) : ema(values, period));
+        if (value === null) return [];
+        const distance = percentFrom(close, value);
+        return [{
+            key: `${type}:${period}`,
+            name: indicatorName(type, [period], source),
+            params: [period],
+            value,
+            display: price(value),
+            signal: close > value ? BULLISH : close < value ? BEARISH : NEUTRAL,
+            interpretation: `Price is ${Math.abs(distance).toFixed(2)}% ${distance >= 0 ? 'above' : 'below'} the ${period}-period ${type.toUpperCase()}.`,
+            tolerance: PRICE_TOLERANCE,
+        }];
+    });
+};
+
+// Readings take the setting's parameters unless they report their own (a moving average's period).
+type Reader = (input: ReadingInput, params: number[], source: PriceSource) => (Omit<IndicatorReading, 'kind' | 'params'> & { params?: number[] })[];
+
+const READERS: Record<IndicatorId, Reader> = {
+    sma: (input, periods, source) => movingAverages(input, 'sma', periods, source),
+    ema: (input, periods, source) => movingAverages(input, 'ema', periods, source),
+
+    rsi: ({ bars }, [period], source) => {
+        const rsiValue = last(rsi(appliedPrice(bars, source), period));
+        if (rsiValue === null) return [];
+        const [signal, interpretation] =
+            rsiValue >= 70 ? [BEARISH, 'Overbought; a pullback or consolidation is common from here.'] :
+            rsiValue <= 30 ? [BULLISH, 'Oversold; a bounce is common from here.'] :
+            rsiValue >= 55 ? [BULLISH, 'Bullish momentum without being overbought.'] :
+            rsiValue <= 45 ? [BEARISH, 'Bearish momentum without being oversold.'] :
+            [NEUTRAL, 'Neutral momentum around the midline.'];
+        return [{ key: 'rsi', name: indicatorName('rsi', [period], source), value: rsiValue, display: rsiValue.toFixed(2), signal, interpretation, tolerance: OSCILLATOR_TOLERANCE }];
+    },
+
+    macd: ({ bars, close, price }, [fast, slow, signalPeriod], source) => {
+        const macdSeries = macd(appliedPrice(bars, source), fast, slow, signalPeriod);
+        const macdValue = last(macdSeries.macd);
+        const signalValue = last(macdSeries.signal);
+        const histogram = macdSeries.histogram;
+        if (macdValue === null || signalValue === null) return [];
+        const above = macdValue > signalValue;
+        const cross = candlesSinceCross(macdSeries.macd, macdSeries.signal, 5);
+        const previousHistogram = histogram[histogram.length - 2];
+        const momentum = previousHistogram === null ? '' : Math.abs(histogram[histogram.length - 1]!) > Math.abs(previousHistogram) ? ' The histogram is expanding.' : ' The histogram is contracting.';
+        const state = cross !== null
+            ? `${above ? 'Bullish' : 'Bearish'} crossover ${cross === 0 ? 'on the last candle' : `${cross + 1} candles ago`}`
+            : `${above ? 'Above' : 'Below'} signal line`;
+        return [{
+            key: 'macd',
+            name: indicatorName('macd', [fast, slow, signalPeriod], source),
+            value: macdValue,
+            display: `${price(macdValue)} / signal ${price(signalValue)}`,
+            signal: above ? BULLISH : BEARISH,
+            interpretation: `${state}.${momentum}`,
+            summary: state,
+            // MACD hovers around zero, so small absolute differences are not flagged.
+            tolerance: { relative: 0.25, absolute: close * 0.001 },
+        }];
+    },
+
+    bollinger: ({ bars, close, price }, [period, multiplier], source) => {
+        const bands = bollinger(appliedPrice(bars, source), period, multiplier);
+        const [upper, middle, lower] = [last(bands.upper), last(bands.middle), last(bands.lower)];
+        if (upper === null || middle === null || lower === null) return [];
+        const percentB = upper === lower ? 0.5 : (close - lower) / (upper - lower);
+        const widths = bands.upper.map((u, i) => (u === null || !bands.middle[i] ? null : (u - bands.lower[i]!) / bands.middle[i]!)).filter((w): w is number => w !== null);
+        const width = widths[widths.length - 1];
+        const squeeze = widths.length >= 50 && width <= [...widths.slice(-120)].sort((a, b) => a - b)[Math.floor(Math.min(widths.length, 120) * 0.1)];
+        return [{
+            key: 'bollinger',
+            name: indicatorName('bollinger', [period, multiplier], source),
+            value: percentB,
+            display: `${price(lower)} – ${price(upper)} (%B ${percentB.toFixed(2)})`,
+            signal: percentB > 1 ? BEARISH : percentB < 0 ? BULLISH : NEUTRAL,
+            interpretation: `${percentB > 1 ? 'Closed above the upper band; overextended.' : percentB < 0 ? 'Closed below the lower band; stretched to the downside.' : `Inside the bands, ${percentB >= 0.5 ? 'in the upper half' : 'in the lower half'}.`}${squeeze ? ' The bands are in a squeeze, which often precedes a large move.' : ''}`,
+        }];
+    },
+
+    atr: ({ bars, close, price }, [period]) => {
+        const atrValue = last(atr(bars, period));
+        if (atrValue === null) return [];
+        return [{
+            key: 'atr',
+            name: indicatorName('atr', [period]),
+            value: atrValue,
+            display: price(atrValue),
+            signal: NEUTRAL,
+            interpretation: `Average candle range is ${((atrValue / close) * 100).toFixed(2)}% of price; useful for stop distances.`,
+            tolerance: { relative: 0.1 }, // smoothing methods differ between platforms
+        }];
+    },
+
+    adx: ({ bars }, [period]) => {
+        const adxSeries = adx(bars, period);
+        const [adxValue, plusDi, minusDi] = [last(adxSeries.adx), last(adxSeries.plusDi), last(adxSeries.minusDi)];
+        if (adxValue === null || plusDi === null || minusDi === null) return [];
+        const trending = adxValue >= 25;
+        return [{
+            key: 'adx',
+            name: indicatorName('adx', [period]),
+            value: adxValue,
+            display: `${adxValue.toFixed(2)} (+DI ${plusDi.toFixed(1)} / -DI ${minusDi.toFixed(1)})`,
+            signal: !trending ? NEUTRAL : plusDi > minusDi ? BULLISH : BEARISH,
+            interpretation: trending
+                ? `A ${adxValue >= 40 ? 'strong' : 'established'} ${plusDi > minusDi ? 'up' : 'down'}trend.`
+                : 'Weak or no trend; range-trading conditions.',
+            tolerance: OSCILLATOR_TOLERANCE,
+        }];
+    },
+
+    stochastic: ({ bars }, [period, smoothK, smoothD]) => {
+        const stochasticSeries = stochastic(bars, period, smoothK, smoothD);
+        const [k, d] = [last(stochasticSeries.k), last(stochasticSeries.d)];
+        if (k === null || d === null) return [];
+        return [{
+            key: 'stochastic',
+            name: indicatorName('stochastic', [period, smoothK, smoothD]),
+            value: k,
+            display: `%K ${k.toFixed(2)} / %D ${d.toFixed(2)}`,
+            signal: k >= 80 ? BEARISH : k <= 20 ? BULLISH : NEUTRAL,
+            interpretation: `${k >= 80 ? 'Overbought' : k <= 20 ? 'Oversold' : 'Mid-range'}, with %K ${k > d ? 'above' : 'below'} %D.`,
+            tolerance: OSCILLATOR_TOLERANCE,
+        }];
+    },
+
+    obv: ({ bars, closes, close, priceFormat }) => {
+        if (!hasVolume(bars) || bars.length <= 20) return [];
+        const obvSeries = obv(bars);
+        const obvChange = obvSeries[obvSeries.length - 1] - obvSeries[obvSeries.length - 21];
+        const priceChange = close - closes[closes.length - 21];
+        const confirms = Math.sign(obvChange) === Math.sign(priceChange);
+        return [{
+            key: 'obv',
+            name: indicatorName('obv', []),
+            value: last(obvSeries),
+            display: formatVolume(last(obvSeries), priceFormat),
+            signal: obvChange > 0 ? BULLISH : obvChange < 0 ? BEARISH : NEUTRAL,
+            interpretation: `OBV ${obvChange >= 0 ? 'rose' : 'fell'} over the last 20 candles, ${confirms ? 'confirming' : 'diverging from'} the price move.`,
+        }];
+    },
+
+    // Intraday candles get a session VWAP; longer candles one anchored to the first candle shown.
+    vwap: ({ bars, close, price }) => {
+        const intraday = inferBarSpacing(bars) < 20 * 60 * 60;
+        const vwapValue = hasVolume(bars) ? last(vwap(bars, intraday)) : null;
+        if (vwapValue === null) return [];
+        return [{
+            key: 'vwap',
+            name: intraday ? 'VWAP (session)' : 'VWAP (anchored)',
+            value: vwapValue,
+            display: price(vwapValue),
+            signal: close > vwapValue ? BULLISH : close < vwapValue ? BEARISH : NEUTRAL,
+            interpretation: `Price is ${close >= vwapValue ? 'above' : 'below'} the volume-weighted average price${intraday ? ' of the session' : ' of the period shown'}.`,
+            tolerance: PRICE_TOLERANCE,
+        }];
+    },
+
+    supertrend: ({ bars, price }, [period, multiplier]) => {
+        const supertrendSeries = supertrend(bars, period, multiplier);
+        const [supertrendValue, direction] = [last(supertrendSeries.value), last(supertrendSeries.direction)];
+        if (supertrendValue === null || direction === null) return [];
+        const flipped = supertrendSeries.direction[supertrendSeries.direction.length - 2] !== direction;
+        return [{
+            key: 'supertrend',
+            name: indicatorName('supertrend', [period, multiplier]),
+            value: supertrendValue,
+            display: price(supertrendValue),
+            signal: direction === 1 ? BULLISH : BEARISH,
+            interpretation: `${direction === 1 ? 'Uptrend; the line is trailing support' : 'Downtrend; the line is trailing resistance'}${flipped ? ', flipped on the last candle' : ''}.`,
+            tolerance: PRICE_TOLERANCE,
+        }];
+    },
+};
+
+/**
+ * Computes the enabled indicators, in the order of `settings`, as of the last
+ * candle. Indicators without enough candles for their periods are left out.
+ */
+export const computeIndicatorReadings = (
+    chartData: ChartData,
+    priceFormat: PriceFormat,
+    settings: IndicatorSetting[] = DEFAULT_INDICATOR_SETTINGS
+): IndicatorReading[] => {
+    const bars = barsFromChartData(chartData);
+    const closes = bars.map(bar => bar.close);
+    const close = last(closes);
+    if (close === null) return [];
+    const input: ReadingInput = { bars, closes, close, price: value => formatPlainPrice(value, priceFormat), priceFormat };
+
+    return settings
+        .filter(setting => setting.enabled)
+        .flatMap(setting => READERS[setting.id](input, setting.params, setting.source ?? 'close')
+            .map(reading => ({ kind: setting.id, params: setting.params, ...reading })));
+};
+
+// --- PROMPT ---
+
+export const describeIndicatorsForPrompt = (readings: IndicatorReading[]): string => {
+    if (readings.length === 0) return '';
+    return `
+Context: Computed Indicators (as of the last candle, calculated from the market data below; use these values rather than estimating them):
+${readings.map(reading => `- ${reading.name}: ${reading.display}. ${reading.interpretation}`).join('\n')}
+`;
+};
+
+// --- RECONCILIATION ---
+
+const NAMED_INDICATORS: [RegExp, string][] = [
+    [/\brsi\b|relative strength index/, 'rsi'],
+    [/macd/, 'macd'],
+    [/bollinger/, 'bollinger'],
+    [/\batr\b|average true range/, 'atr'],
+    [/\badx\b|directional/, 'adx'],
+    [/stoch/, 'stochastic'],
+    [/\bobv\b|on.balance/, 'obv'],
+    [/vwap|volume.weighted/, 'vwap'],
+    [/super ?trend/, 'supertrend'],
+];
+
+// The reading key an indicator name refers to, e.g. "50-Day SMA" -> "sma:50".
+export const indicatorKey = (name: string): string | null => {
+    const lower = name.toLowerCase();
+    const named = NAMED_INDICATORS.find(([pattern]) => pattern.test(lower));
+    if (named) return named[1];
+    const period = lower.match(/\d+/)?.[0];
+    if (period && /\bema\b|exponential/.test(lower)) return `ema:${period}`;
+    if (period && /\bsma\b|\bma\b|moving average/.test(lower)) return `sma:${period}`;
+    return null;
+};
+
+const firstNumber = (text: string): number | null => {
+    const match = text.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+    return match ? parseFloat(match[0]) : null;
+};
+
+const disagreement = (reading: IndicatorReading, reported: Indicator): string | null => {
+    const claimed = firstNumber(reported.value);
+    const { tolerance, value } = reading;
+    if (tolerance && value !== null && claimed !== null) {
+        const difference = Math.abs(claimed - value);
+        const exceeds = (tolerance.absolute === undefined || difference > tolerance.absolute)
+            && (tolerance.relative === undefined || difference > Math.abs(value) * tolerance.relative);
+        if (exceeds) return `The analysis reported ${reported.value}; the computed value is ${reading.display}.`;
+    }
+    const opposite = (reported.signal === BULLISH && reading.signal === BEARISH) || (reported.signal === BEARISH && reading.signal === BULLISH);
+    if (opposite) return `The analysis read this as ${reported.signal === BULLISH ? 'bullish' : 'bearish'}; the computed signal is ${reading.signal === BULLISH ? 'bullish' : 'bearish'}.`;
+    return null;
+};
+
+/**
+ * The indicator matrix: every computed reading, with a note wherever the
+ * analysis reported a different value or the opposite signal, followed by any
+ * indicators the analysis added that were not computed.
+ */
+export const reconcileIndicators = (reported: Indicator[], readings: IndicatorReading[]): Indicator[] => {
+    const reportedByKey = new Map<string, Indicator>();
+    const unmatched: Indicator[] = [];
+    for (const indicator of reported ?? []) {
+        const key = indicatorKey(indicator.name);
+        if (key && readings.some(reading => reading.key === key) && !reportedByKey.has(key)) reportedByKey.set(key, indicator);
+        else unmatched.push({ ...indicator, source: 'model' });
+    }
+
+    const computed: Indicator[] = readings.map(reading => {
+        const claim = reportedByKey.get(reading.key);
+        const discrepancy = claim ? disagreement(reading, claim) : null;
+        return {
+            name: reading.name,
+            value: reading.display,
+            signal: reading.signal,
+            interpretation: reading.interpretation,
+            source: 'computed',
+            kind: reading.kind,
+            params: reading.params,
+            ...(discrepancy ? { discrepancy } : {}),
+        };
+    });
+    return [...computed, ...unmatched];
+};
+
+/**
+ * Replaces the summary's RSI and MACD readings with the computed ones.
+ */
+export const applyComputedSummary = (summary: SummaryTableData, readings: IndicatorReading[]): SummaryTableData => {
+    const rsiReading = readings.find(reading => reading.key === 'rsi');
+    const macdReading = readings.find(reading => reading.key === 'macd');
+    return {
+        ...summary,
+        rsi14: rsiReading?.display ?? summary.rsi14,
+        macdSignal: macdReading?.summary ?? summary.macdSignal,
+    };
+};
@@ -0,0 +1,253 @@
+import type { OhlcvBar, ChartData, PriceSource } from '../types';
+
+/**
+ * Technical indicators computed from candles. Every function returns a series
+ * aligned with its input, holding null until enough candles are available.
+ * Smoothed indicators (RSI, ATR, ADX) use Wilder's smoothing, as charting
+ * platforms do, so values match what traders see on their screens.
+ */
+
+export type Series = (number | null)[];
+
+// --- INPUT ---
+
+export const barsFromChartData = (chartData: ChartData): OhlcvBar[] =>
+    chartData.candlestickData.map((candle, i) => ({ ...candle, volume: chartData.volumeData[i]?.value ?? 0 }));
+
+export const appliedPrice = (bars: OhlcvBar[], source: PriceSource): number[] =>
+    bars.map(bar => {
+        switch (source) {
+            case 'open': return bar.open;
+            case 'hl2': return (bar.high + bar.low) / 2;
+            case 'hlc3': return (bar.high + bar.low + bar.close) / 3;
+            case 'ohlc4': return (bar.open + bar.high + bar.low + bar.close) / 4;
+            default: return bar.close;
+        }
+    });
+
+export const last = <T>(series: T[]): T | null => (series.length ? series[series.length - 1] : null);
+
+// --- MOVING AVERAGES ---
+
+// A window containing a null (e.g. the warm-up of another indicator) yields null.
+export const sma = (values: Series, period: number): Series =>
+    values.map((_, i) => {
+        if (i < period - 1) return null;
+        let sum = 0;
+        for (let j = i - period + 1; j <= i; j++) {
+            const value = values[j];
+            if (value === null) return null;
+            sum += value;
+        }
+        return sum / period;
+    });
+
+// Seeded with the SMA of the first full window after any leading nulls.
+export const ema = (values: Series, period: number): Series => {
+    const result: Series = values.map(() => null);
+    const start = values.findIndex(value => value !== null);
+    if (start < 0 || values.length - start < period) return result;
+    const k = 2 / (period + 1);
+    let previous = 0;
+    for (let i = start; i < start + period; i++) previous += values[i] ?? 0;
+    previous /= period;
+    result[start + period - 1] = previous;
+    for (let i = start + period; i < values.length; i++) {
+        previous = (values[i] ?? previous) * k + previous * (1 - k);
+        result[i] = previous;
+    }
+    return result;
+};
+
+// Wilder's running average: the first value is a simple mean, then avg = (avg * (n - 1) + x) / n.
+const wilder = (values: number[], period: number, offset = 0): Series => {
+    const result: Series = new Array(values.length + offset).fill(null);
+    if (values.length < period) return result;
+    let average = values.slice(0, period).reduce((sum, value) => sum + value, 0) / period;
+    result[offset + period - 1] = average;
+    for (let i = period; i < values.length; i++) {
+        average = (average * (period - 1) + values[i]) / period;
+        result[offset + i] = average;
+    }
+    return result;
+};
+
+// --- MOMENTUM ---
+
+export const rsi = (closes: number[], period = 14): Series => {
+    const gains: number[] = [];
+    const losses: number[] = [];
+    for (let i = 1; i < closes.length; i++) {
+        const change = closes[i] - closes[i - 1];
+        gains.push(Math.max(change, 0));
+        losses.push(Math.max(-change, 0));
+    }
+    const averageGain = wilder(gains, period, 1);
+    const averageLoss = wilder(losses, period, 1);
+    return averageGain.map((gain, i) => {
+        const loss = averageLoss[i];
+        if (gain === null || loss === null) return null;
+        return loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+    });
+};
+
+export interface MacdSeries {
+    macd: Series;
+    signal: Series;
+    histogram: Series;
+}
+
+export const macd = (closes: number[], fast = 12, slow = 26, signalPeriod = 9): MacdSeries => {
+    const fastEma = ema(closes, fast);
+    const slowEma = ema(closes, slow);
+    const line = fastEma.map((value, i) => (value === null || slowEma[i] === null ? null : value - slowEma[i]!));
+    const signal = ema(line, signalPeriod);
+    const histogram = line.map((value, i) => (value === null || signal[i] === null ? null : value - signal[i]!));
+    return { macd: line, signal, histogram };
+};
+
+export interface StochasticSeries {
+    k: Series;
+    d: Series;
+}
+
+// Slow stochastic: the raw %K smoothed over `smoothK` periods, and %D its average.
+export const stochastic = (bars: OhlcvBar[], period = 14, smoothK = 3, smoothD = 3): StochasticSeries => {
+    const rawK: Series = bars.map((bar, i) => {
+        if (i < period - 1) return null;
+        const window = bars.slice(i - period + 1, i + 1);
+        const high = Math.max(...window.map(b => b.high));
+        const low = Math.min(...window.map(b => b.low));
+        return high === low ? 50 : ((bar.close - low) / (high - low)) * 100;
+    });
+    const k = sma(rawK, smoothK);
+    return { k, d: sma(k, smoothD) };
+};
+
+// --- VOLATILITY ---
+
+export interface BollingerSeries {
+    upper: Series;
+    middle: Series;
+    lower: Series;
+}
+
+export const bollinger = (closes: number[], period = 20, multiplier = 2): BollingerSeries => {
+    const middle = sma(closes, period);
+    const deviation = middle.map((mean, i) => {
+        if (mean === null) return null;
+        const window = closes.slice(i - period + 1, i + 1);
+        return Math.sqrt(window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period);
+    });
+    return {
+        upper: middle.map((mean, i) => (mean === null ? null : mean + multiplier * deviation[i]!)),
+        middle,
+        lower: middle.map((mean, i) => (mean === null ? null : mean - multiplier * deviation[i]!)),
+    };
+};
+
+const trueRanges = (bars: OhlcvBar[]): number[] =>
+    bars.map((bar, i) => {
+        if (i === 0) return bar.high - bar.low;
+        const previousClose = bars[i - 1].close;
+        return Math.max(bar.high - bar.low, Math.abs(bar.high - previousClose), Math.abs(bar.low - previousClose));
+    });
+
+export const atr = (bars: OhlcvBar[], period = 14): Series => wilder(trueRanges(bars), period);
+
+// --- TREND ---
+
+export interface AdxSeries {
+    adx: Series;
+    plusDi: Series;
+    minusDi: Series;
+}
+
+export const adx = (bars: OhlcvBar[], period = 14): AdxSeries => {
+    const plusDm: number[] = [];
+    const minusDm: number[] = [];
+    const ranges = trueRanges(bars).slice(1);
+    for (let i = 1; i < bars.length; i++) {
+        const up = bars[i].high - bars[i - 1].high;
+        const down = bars[i - 1].low - bars[i].low;
+        plusDm.push(up > down && up > 0 ? up : 0);
+        minusDm.push(down > up && down > 0 ? down : 0);
+    }
+    const smoothedRange = wilder(ranges, period, 1);
+    const smoothedPlus = wilder(plusDm, period, 1);
+    const smoothedMinus = wilder(minusDm, period, 1);
+
+    const plusDi = smoothedPlus.map((value, i) => (value === null || !smoothedRange[i] ? null : (100 * value) / smoothedRange[i]!));
+    const minusDi = smoothedMinus.map((value, i) => (value === null || !smoothedRange[i] ? null : (100 * value) / smoothedRange[i]!));
+    const dx = plusDi.map((plus, i) => {
+        const minus = minusDi[i];
+        if (plus === null || minus === null) return null;
+        return plus + minus === 0 ? 0 : (100 * Math.abs(plus - minus)) / (plus + minus);
+    });
+    const firstDx = dx.findIndex(value => value !== null);
+    const adxLine = firstDx < 0 ? dx.map(() => null) : wilder(dx.slice(firstDx) as number[], period, firstDx);
+    return { adx: adxLine, plusDi, minusDi };
+};
+
+export interface SupertrendSeries {
+    value: Series;
+    direction: (1 | -1 | null)[]; // 1 while price is above the line (uptrend)
+}
+
+export const supertrend = (bars: OhlcvBar[], period = 10, multiplier = 3): SupertrendSeries => {
+    const ranges = atr(bars, period);
+    const value: Series = bars.map(() => null);
+    const direction: (1 | -1 | null)[] = bars.map(() => null);
+    let upper = 0;
+    let lower = 0;
+    for (let i = 0; i < bars.length; i++) {
+        const range = ranges[i];
+        if (range === null) continue;
+        const mid = (bars[i].high + bars[i].low) / 2;
+        const basicUpper = mid + multiplier * range;
+        const basicLower = mid - multiplier * range;
+        const previous = direction[i - 1] ?? null;
+        const previousClose = bars[i - 1]?.close ?? bars[i].close;
+        // Bands only tighten while price stays on their side.
+        upper = previous === null || basicUpper < upper || previousClose > upper ? basicUpper : upper;
+        lower = previous === null || basicLower > lower || previousClose < lower ? basicLower : lower;
+        const trend: 1 | -1 = previous === null
+            ? (bars[i].close >= mid ? 1 : -1)
+            : previous === 1 ? (bars[i].close < lower ? -1 : 1) : (bars[i].close > upper ? 1 : -1);
+        direction[i] = trend;
+        value[i] = trend === 1 ? lower : upper;
+    }
+    return { value, direction };
+};
+
+// --- VOLUME ---
+
+export const obv = (bars: OhlcvBar[]): number[] => {
+    let total = 0;
+    return bars.map((bar, i) => {
+        if (i > 0) total += bar.close > bars[i - 1].close ? bar.volume : bar.close < bars[i - 1].close ? -bar.volume : 0;
+        return total;
+    });
+};
+
+/**
+ * Volume-weighted average price of the typical price. With `resetDaily` it
+ * restarts every UTC day (session VWAP for intraday candles); otherwise it is
+ * anchored to the first candle.
+ */
+export const vwap = (bars: OhlcvBar[], resetDaily: boolean): Series => {
+    let priceVolume = 0;
+    let volume = 0;
+    let day = '';
+    return bars.map(bar => {
+        const barDay = new Date(bar.time * 1000).toISOString().slice(0, 10);
+        if (resetDaily && barDay !== day) {
+            priceVolume = 0;
+            volume = 0;
+            day = barDay;
+        }
+        priceVolume += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+        volume += bar.volume;
+        return volume > 0 ? priceVolume / volume : null;
+    });
+};
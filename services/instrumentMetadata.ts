@@ -0,0 +1,75 @@
+import type { Instrument, ExchangeCode, AssetClass } from '../types';
+import { INSTRUMENTS } from '../data/instruments';
+
+/**
+ * Instrument metadata lookups. Symbols in the local instrument master resolve to
+ * their recorded exchange, currency, tick size and benchmark; anything else
+ * (provider search results, typed tickers) is classified by its Yahoo symbol
+ * format with the defaults below.
+ */
+
+// --- LOOKUP ---
+
+const bySymbol = new Map(INSTRUMENTS.map(instrument => [instrument.symbol.toUpperCase(), instrument]));
+
+type InferredMetadata = Omit<Instrument, 'symbol' | 'name'>;
+
+const market = (exchangeCode: ExchangeCode, assetClass: AssetClass, currency: string, timeZone: string, tickSize: number, benchmark?: string): InferredMetadata => ({
+    exchange: exchangeCode,
+    exchangeCode,
+    assetClass,
+    currency,
+    timeZone,
+    tickSize,
+    lotSize: 1,
+    benchmark,
+});
+
+// Checked in order; the first matching symbol format wins.
+const SYMBOL_FORMATS: [RegExp, InferredMetadata][] = [
+    [/\.(NS|BO)$/, market('NSE', 'equity', 'INR', 'Asia/Kolkata', 0.05, '^NSEI')],
+    [/\.L$/, market('LSE', 'equity', 'GBP', 'Europe/London', 0.01, '^FTSE')],
+    [/\.DE$/, market('XETRA', 'equity', 'EUR', 'Europe/Berlin', 0.01, '^GDAXI')],
+    [/\.T$/, market('TSE', 'equity', 'JPY', 'Asia/Tokyo', 1, '^N225')],
+    [/\.HK$/, market('HKEX', 'equity', 'HKD', 'Asia/Hong_Kong', 0.01, '^HSI')],
+    [/=F$/, market('CME', 'commodity', 'USD', 'America/Chicago', 0.01, '^GSPC')],
+    [/=X$/, market('FX', 'fx', 'USD', 'America/New_York', 0.00001, 'DX-Y.NYB')],
+    [/-(USD|USDT)$/, market('CRYPTO', 'crypto', 'USD', 'UTC', 0.01, 'BTC-USD')],
+    [/^\^/, market('NYSE', 'index', 'USD', 'America/New_York', 0.01, '^GSPC')],
+];
+
+const US_EQUITY = market('NYSE', 'equity', 'USD', 'America/New_York', 0.01, '^GSPC');
+
+const inferMetadata = (symbol: string): Instrument => {
+    const match = SYMBOL_FORMATS.find(([pattern]) => pattern.test(symbol));
+    const metadata = match ? match[1] : US_EQUITY;
+    // An FX pair is quoted in its second currency, e.g. "EURSEK=X" in SEK, and
+    // only pairs with a dollar leg are measured against the dollar index.
+    const pair = metadata.assetClass === 'fx' && /^[A-Z]{6}=X$/.test(symbol);
+    const currency = pair ? symbol.slice(3, 6) : metadata.currency;
+    const benchmark = pair && !symbol.slice(0, 6).includes('USD') ? undefined : metadata.benchmark;
+    return { ...metadata, symbol, name: symbol, currency, benchmark };
+};
+
+export const getInstrumentMetadata = (symbol: string): Instrument => {
+    const upper = symbol.trim().toUpperCase();
+    return bySymbol.get(upper) ?? inferMetadata(upper);
+};
+
+/**
+ * The index (or, for altcoins, Bitcoin) an instrument is measured against, or
+ * null for instruments that are themselves the benchmark.
+ */
+export const getBenchmark = (symbol: string): Instrument | null => {
+    const { benchmark } = getInstrumentMetadata(symbol);
+    return benchmark && benchmark.toUpperCase() !== symbol.trim().toUpperCase() ? getInstrumentMetadata(benchmark) : null;
+};
+
+/**
+ * The sector index an instrument is measured against (e.g. NIFTY IT for an
+ * Indian IT stock), or null when its sector has none.
+ */
+export const getSectorBenchmark = (symbol: string): Instrument | null => {
+    const { sectorIndex } = getInstrumentMetadata(symbol);
+    return sectorIndex && sectorIndex.toUpperCase() !== symbol.trim().toUpperCase() ? getInstrumentMetadata(sectorIndex) : null;
+};
@@ -0,0 +1,355 @@
+import type { AssetClass, ExchangeCode, Instrument, AnalysisOptions, CustomTimeframe, ChartData, PriceFormat, CandlestickData, VolumeData, OhlcvBar, SymbolSearchResult, CorporateAction } from '../types';
+import { yahooProvider } from './providers/yahooProvider';
+import { finnhubProvider } from './providers/finnhubProvider';
+import { fixtureProvider } from './providers/fixtureProvider';
+import { backendProvider, BACKEND_URL } from './providers/backendProvider';
+import { getCachedSeries, putCachedSeries, mergeBars } from './candleCache';
+import { adjustForCorporateActions, corporateActionMarkers } from './corporateActions';
+import { getExchangeForSymbol, filterBarsBySession, classifyBarSession, formatExchangeTime, type ExchangeInfo } from './exchangeCalendar';
+import { getInstrumentMetadata } from './instrumentMetadata';
+import { getPriceFormat, formatPlainPrice, GENERIC_PRICE_FORMAT } from './priceFormat';
+import { withHealth, orderByHealth, isSourceAvailable, dedupe, NoDataError } from './providerHealth';
+import { parseIntervalSpec, getBaseInterval, resampleBars, describeIntervalSpec, MAX_LOOKBACK_DAYS, type IntervalSpec } from './resampler';
+
+// --- PROVIDER CONTRACT ---
+
+export type ProviderCapability = 'history' | 'quote' | 'search' | 'corporateActions';
+
+export type CandleInterval = '1m' | '5m' | '15m' | '30m' | '1h' | '1d' | '1wk' | '1mo';
+
+export interface HistoryRequest {
+    interval: CandleInterval;
+    from: number; // unix seconds; 0 requests the full available history
+    to: number;   // unix seconds
+}
+
+/**
+ * A source of market data. Providers only implement the capabilities they list;
+ * the orchestrators below decide which provider to ask and in which order.
+ */
+export interface MarketDataProvider {
+    id: string;
+    name: string;
+    capabilities: ProviderCapability[];
+    getHistory?: (symbol: string, request: HistoryRequest) => Promise<OhlcvBar[]>;
+    getQuote?: (symbol: string) => Promise<number>;
+    search?: (query: string) => Promise<SymbolSearchResult[]>;
+    getCorporateActions?: (symbol: string, from: number, to: number) => Promise<CorporateAction[]>;
+}
+
+/**
+ * Routes symbols to an ordered provider chain. A rule matches when every
+ * criterion it specifies matches; the first matching rule wins.
+ */
+export interface ProviderRoutingRule {
+    assetClass?: AssetClass;
+    exchangeCode?: ExchangeCode;
+    symbolPattern?: RegExp;
+    providers: string[];
+}
+
+export interface MarketDataPayload {
+    csv: string;
+    chartData: ChartData;
+    bars: OhlcvBar[];
+    source: string; // id of the provider that served the data
+    corporateActions: CorporateAction[];
+    appliedCorporateActions: CorporateAction[];
+}
+
+// --- REGISTRY & ROUTING ---
+
+const providers = new Map<string, MarketDataProvider>();
+
+// With a backend configured, it does its own provider fallback server-side.
+const DEFAULT_FALLBACK_CHAIN = BACKEND_URL ? ['backend'] : ['yahoo', 'finnhub'];
+
+// A comma-separated chain (e.g. "fixture,yahoo") overrides the default order.
+let fallbackChain: string[] = process.env.MARKET_DATA_PROVIDERS
+    ? process.env.MARKET_DATA_PROVIDERS.split(',').map(id => id.trim()).filter(Boolean)
+    : DEFAULT_FALLBACK_CHAIN;
+
+let routingRules: ProviderRoutingRule[] = BACKEND_URL ? [] : [
+    // Finnhub's free tier has limited support for Indian stocks and often fails.
+    { exchangeCode: 'NSE', providers: ['yahoo'] },
+];
+
+export const registerProvider = (provider: MarketDataProvider): void => {
+    providers.set(provider.id, provider);
+};
+
+export const getProvider = (id: string): MarketDataProvider | undefined => providers.get(id);
+
+export const getRegisteredProviders = (): MarketDataProvider[] => Array.from(providers.values());
+
+export const setFallbackChain = (chain: string[]): void => {
+    fallbackChain = [...chain];
+};
+
+export const setRoutingRules = (rules: ProviderRoutingRule[]): void => {
+    routingRules = [...rules];
+};
+
+const ruleMatches = (rule: ProviderRoutingRule, symbol: string, instrument: Instrument): boolean =>
+    (!rule.assetClass || rule.assetClass === instrument.assetClass) &&
+    (!rule.exchangeCode || rule.exchangeCode === instrument.exchangeCode) &&
+    (!rule.symbolPattern || rule.symbolPattern.test(symbol));
+
+/**
+ * Resolves the ordered list of providers to try for a symbol and capability.
+ * Rule providers come first; chain providers not named by the rule are dropped
+ * so a rule can also exclude sources that are known not to work.
+ */
+export const resolveProviderChain = (symbol: string, capability: ProviderCapability): MarketDataProvider[] => {
+    const instrument = getInstrumentMetadata(symbol);
+    const rule = routingRules.find(r => ruleMatches(r, symbol, instrument));
+    const ids = rule ? rule.providers : fallbackChain;
+
+    const chain = ids
+        .map(id => providers.get(id))
+        .filter((p): p is MarketDataProvider => !!p && p.capabilities.includes(capability));
+    // Providers with an open circuit sort last and are skipped until they have cooled down.
+    return orderByHealth(chain, p => p.id);
+};
+
+// --- UTILITIES ---
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// The interval and lookback window fetched for each analysis timeframe.
+const TIMEFRAME_CONFIG: Record<string, { interval: CandleInterval; lookbackDays: number }> = {
+    Intraday: { interval: '15m', lookbackDays: 5 },
+    Daily: { interval: '1d', lookbackDays: 2 * 365 },
+    Weekly: { interval: '1wk', lookbackDays: 5 * 365 },
+    Monthly: { interval: '1mo', lookbackDays: 0 }, // full history
+};
+
+export const CUSTOM_TIMEFRAME = 'Custom';
+
+const parseCustomTimeframe = (custom: CustomTimeframe | null | undefined): IntervalSpec => {
+    const spec = custom ? parseIntervalSpec(custom.interval) : null;
+    if (!spec) {
+        throw new Error(`Invalid custom interval '${custom?.interval ?? ''}'. Use a number and a unit, e.g. 4h, 2d or 2w.`);
+    }
+    return spec;
+};
+
+/**
+ * The provider request for a timeframe. Custom timeframes fetch the coarsest
+ * provider interval that divides the target; the lookback is capped at what
+ * providers serve for that interval.
+ */
+export const getHistoryRequestForTimeframe = (timeframe: string, custom: CustomTimeframe | null = null): HistoryRequest => {
+    let config = TIMEFRAME_CONFIG[timeframe] ?? TIMEFRAME_CONFIG.Daily;
+    if (timeframe === CUSTOM_TIMEFRAME) {
+        const interval = getBaseInterval(parseCustomTimeframe(custom));
+        const maxLookback = MAX_LOOKBACK_DAYS[interval];
+        const lookbackDays = Math.max(0, custom!.lookbackDays);
+        config = { interval, lookbackDays: maxLookback && (lookbackDays === 0 || lookbackDays > maxLookback) ? maxLookback : lookbackDays };
+    }
+    const to = Math.floor(Date.now() / 1000);
+    const from = config.lookbackDays > 0 ? to - config.lookbackDays * DAY_SECONDS : 0;
+    return { interval: config.interval, from, to };
+};
+
+// A human-readable timeframe for the prompt, e.g. "Custom (4-hour candles, 60-day lookback)".
+export const describeTimeframe = (timeframe: string, custom: CustomTimeframe | null = null): string => {
+    if (timeframe !== CUSTOM_TIMEFRAME) return timeframe;
+    const spec = parseCustomTimeframe(custom);
+    const request = getHistoryRequestForTimeframe(timeframe, custom);
+    const lookback = request.from === 0 ? 'full history' : `${Math.round((request.to - request.from) / DAY_SECONDS)}-day lookback`;
+    return `Custom (${describeIntervalSpec(spec)} candles, ${lookback})`;
+};
+
+export const chartDataFromBars = (bars: OhlcvBar[]): ChartData => {
+    const candlestickData: CandlestickData[] = [];
+    const volumeData: VolumeData[] = [];
+    for (const bar of bars) {
+        candlestickData.push({ time: bar.time, open: bar.open, high: bar.high, low: bar.low, close: bar.close });
+        volumeData.push({ time: bar.time, value: bar.volume, color: bar.close >= bar.open ? 'rgba(40, 167, 69, 0.5)' : 'rgba(220, 53, 69, 0.5)' });
+    }
+    return { candlestickData, volumeData };
+};
+
+interface CsvOptions {
+    // Intraday bars are stamped with exchange-local date and time instead of a bare date.
+    intradayExchange?: ExchangeInfo;
+    labelSessions?: boolean;
+    priceFormat?: PriceFormat;
+}
+
+export const buildCsv = (bars: OhlcvBar[], options: CsvOptions = {}): string => {
+    const { intradayExchange, labelSessions, priceFormat = GENERIC_PRICE_FORMAT } = options;
+    const price = (value: number) => formatPlainPrice(value, priceFormat);
+    const header = `Date,Open,High,Low,Close,Volume${labelSessions && intradayExchange ? ',Session' : ''}\n`;
+    const rows = bars.map(bar => {
+        const date = intradayExchange
+            ? formatExchangeTime(bar.time, intradayExchange)
+            : new Date(bar.time * 1000).toISOString().split('T')[0];
+        const row = `${date},${price(bar.open)},${price(bar.high)},${price(bar.low)},${price(bar.close)},${bar.volume}`;
+        return labelSessions && intradayExchange ? `${row},${classifyBarSession(intradayExchange, bar.time)}` : row;
+    });
+    return header + rows.join('\n');
+};
+
+// --- ORCHESTRATORS ---
+
+/**
+ * Fetches raw OHLCV bars by walking the resolved provider chain until one succeeds.
+ */
+const fetchHistoryFromProviders = async (symbol: string, request: HistoryRequest): Promise<{ bars: OhlcvBar[]; source: string }> => {
+    const chain = resolveProviderChain(symbol, 'history');
+    if (chain.length === 0) {
+        throw new Error(`No market data provider is configured for '${symbol}'.`);
+    }
+
+    for (const provider of chain) {
+        if (!isSourceAvailable(provider.id)) continue;
+        try {
+            console.log(`Attempting to fetch market data for '${symbol}' from ${provider.name}...`);
+            const bars = await withHealth(provider.id, provider.name, async () => {
+                const bars = await provider.getHistory!(symbol, request);
+                if (bars.length === 0) {
+                    throw new NoDataError(`${provider.name} returned no data for '${symbol}'.`);
+                }
+                return bars;
+            });
+            return { bars, source: provider.id };
+        } catch (error) {
+            console.warn(`Failed to fetch market data for '${symbol}' from ${provider.name}.`, error);
+        }
+    }
+    throw new Error(`Failed to fetch market data for '${symbol}' from all providers. The symbol may be invalid or providers are down.`);
+};
+
+// How long a cached series is served without asking a provider for new bars.
+const CACHE_TTL_MS: Record<CandleInterval, number> = {
+    '1m': 60_000, '5m': 60_000, '15m': 60_000, '30m': 60_000, '1h': 60_000,
+    '1d': 5 * 60_000, '1wk': 60 * 60_000, '1mo': 60 * 60_000,
+};
+
+const sliceToRequest = (bars: OhlcvBar[], request: HistoryRequest) =>
+    request.from > 0 ? bars.filter(bar => bar.time >= request.from) : bars;
+
+/**
+ * Fetches OHLCV bars through the local candle cache. A cached series that already
+ * covers the requested window is served directly while fresh, otherwise only the
+ * missing tail (from the last cached bar onwards) is requested from the providers.
+ * If that refresh fails, the stale cached bars are served instead of failing.
+ */
+const fetchHistoryThroughCache = async (symbol: string, request: HistoryRequest): Promise<{ bars: OhlcvBar[]; source: string }> => {
+    const cached = await getCachedSeries(symbol, request.interval);
+    const coversWindow = !!cached && cached.bars.length > 0 &&
+        (cached.coversFrom === 0 || (request.from > 0 && request.from >= cached.coversFrom));
+
+    if (!cached || !coversWindow) {
+        const { bars, source } = await fetchHistoryFromProviders(symbol, request);
+        await putCachedSeries({ symbol, interval: request.interval, bars, coversFrom: request.from, fetchedAt: Date.now(), source });
+        return { bars, source };
+    }
+
+    if (Date.now() - cached.fetchedAt < CACHE_TTL_MS[request.interval]) {
+        return { bars: sliceToRequest(cached.bars, request), source: 'cache' };
+    }
+
+    const lastCachedTime = cached.bars[cached.bars.length - 1].time;
+    try {
+        const tail = await fetchHistoryFromProviders(symbol, { ...request, from: lastCachedTime });
+        const bars = mergeBars(cached.bars, tail.bars);
+        await putCachedSeries({ symbol, interval: request.interval, bars, coversFrom: cached.coversFrom, fetchedAt: Date.now(), source: tail.source });
+        return { bars: sliceToRequest(bars, request), source: tail.source };
+    } catch (error) {
+        console.warn(`Could not refresh cached data for '${symbol}'. Serving cached bars.`, error);
+        return { bars: sliceToRequest(cached.bars, request), source: 'cache' };
+    }
+};
+
+// Concurrent requests for the same window (e.g. a resubmitted analysis) share one fetch.
+export const fetchHistory = (symbol: string, request: HistoryRequest): Promise<{ bars: OhlcvBar[]; source: string }> =>
+    dedupe(`history:${symbol}:${request.interval}:${request.from}:${request.to}`, () => fetchHistoryThroughCache(symbol, request));
+
+export const fetchCorporateActions = async (symbol: string, from: number, to: number): Promise<CorporateAction[]> => {
+    for (const provider of resolveProviderChain(symbol, 'corporateActions')) {
+        if (!isSourceAvailable(provider.id)) continue;
+        try {
+            return await withHealth(provider.id, provider.name, () => provider.getCorporateActions!(symbol, from, to));
+        } catch (error) {
+            console.warn(`Failed to fetch corporate actions for '${symbol}' from ${provider.name}.`, error);
+        }
+    }
+    return [];
+};
+
+export const INTRADAY_INTERVALS: CandleInterval[] = ['1m', '5m', '15m', '30m', '1h'];
+
+export const fetchMarketData = async (
+    symbol: string,
+    timeframe: string,
+    options: Pick<AnalysisOptions, 'priceAdjustment' | 'includeExtendedHours' | 'customTimeframe'> = { priceAdjustment: 'adjusted', includeExtendedHours: false, customTimeframe: null }
+): Promise<MarketDataPayload> => {
+    const request = getHistoryRequestForTimeframe(timeframe, options.customTimeframe);
+    const resampleTo = timeframe === CUSTOM_TIMEFRAME ? parseCustomTimeframe(options.customTimeframe) : null;
+    const history = await fetchHistory(symbol, request);
+    const isIntraday = INTRADAY_INTERVALS.includes(request.interval);
+    const exchange = getExchangeForSymbol(symbol);
+
+    // Intraday windows are too short for corporate actions to matter.
+    const corporateActions = isIntraday || history.bars.length === 0
+        ? []
+        : await fetchCorporateActions(symbol, history.bars[0].time, request.to);
+    const adjusted = adjustForCorporateActions(history.bars, corporateActions, options.priceAdjustment);
+    const appliedActions = adjusted.appliedActions;
+    const sessionBars = isIntraday ? filterBarsBySession(adjusted.bars, exchange, options.includeExtendedHours) : adjusted.bars;
+    if (sessionBars.length === 0) {
+        throw new Error(`No bars for '${symbol}' fall inside the ${exchange.name} trading session.`);
+    }
+    // Resampling runs after session filtering so extended-hours bars only reach buckets when requested.
+    const bars = resampleTo && resampleTo.label !== request.interval ? resampleBars(sessionBars, resampleTo, exchange) : sessionBars;
+
+    const priceFormat = getPriceFormat(symbol);
+    const chartData = chartDataFromBars(bars);
+    chartData.markers = corporateActionMarkers(bars, corporateActions);
+
+    return {
+        csv: buildCsv(bars, isIntraday
+            ? { intradayExchange: exchange, labelSessions: options.includeExtendedHours, priceFormat }
+            : { priceFormat }),
+        chartData,
+        bars,
+        source: history.source,
+        corporateActions,
+        appliedCorporateActions: appliedActions,
+    };
+};
+
+export const fetchLivePrice = async (symbol: string): Promise<string | null> => {
+    if (!symbol) return null;
+    return dedupe(`quote:${symbol}`, async () => {
+        for (const provider of resolveProviderChain(symbol, 'quote')) {
+            if (!isSourceAvailable(provider.id)) continue;
+            try {
+                const price = await withHealth(provider.id, provider.name, () => provider.getQuote!(symbol));
+                return formatPlainPrice(price, getPriceFormat(symbol));
+            } catch (error) {
+                console.warn(`Failed to fetch live price for ${symbol} from ${provider.name}.`, error);
+            }
+        }
+        console.error(`Failed to fetch live price for ${symbol} from all available providers.`);
+        return null;
+    });
+};
+
+export const searchSymbols = async (query: string): Promise<SymbolSearchResult[]> => {
+    if (!query.trim()) return [];
+    for (const provider of resolveProviderChain(query, 'search')) {
+        if (!isSourceAvailable(provider.id)) continue;
+        try {
+            return await withHealth(provider.id, provider.name, () => provider.search!(query));
+        } catch (error) {
+            console.warn(`Symbol search for '${query}' failed on ${provider.name}.`, error);
+        }
+    }
+    return [];
+};
+
+[yahooProvider, finnhubProvider, fixtureProvider, backendProvider].forEach(registerProvider);
@@ -0,0 +1,135 @@
+import type { OhlcvBar, PriceFormat, TimeframeKey, TimeframeTrendState, TimeframeConflict, MultiTimeframeData } from '../types';
+import { parseIntervalSpec, resampleBars } from './resampler';
+import { inferBarSpacing } from './dataQuality';
+import { formatPlainPrice } from './priceFormat';
+import { sma, last } from './indicators';
+
+/**
+ * Deterministic trend state for the daily, weekly and monthly timeframes, and
+ * how well they agree. A timeframe is in an uptrend when price and its fast
+ * average are above a rising slow average (mirrored for downtrends); anything
+ * else is sideways.
+ */
+
+interface TimeframeConfig {
+    key: TimeframeKey;
+    label: string;        // the timeframe selector's name, e.g. "Weekly"
+    unit: string;         // candle name used in labels, e.g. "week"
+    interval: string;     // resampling spec for uploaded data
+    maxSpacingDays: number; // coarsest source candles the timeframe can be built from
+    fastPeriod: number;
+    slowPeriod: number;
+    slopeBars: number;
+    promptBars: number;   // candles of this timeframe sent along with the main data
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Weekly 10/40 and monthly 5/10 averages roughly match the daily 50/200 at their scale.
+export const MULTI_TIMEFRAMES: TimeframeConfig[] = [
+    { key: 'daily', label: 'Daily', unit: 'day', interval: '1d', maxSpacingDays: 1, fastPeriod: 20, slowPeriod: 50, slopeBars: 10, promptBars: 60 },
+    { key: 'weekly', label: 'Weekly', unit: 'week', interval: '1w', maxSpacingDays: 7, fastPeriod: 10, slowPeriod: 40, slopeBars: 4, promptBars: 52 },
+    { key: 'monthly', label: 'Monthly', unit: 'month', interval: '1mo', maxSpacingDays: 31, fastPeriod: 5, slowPeriod: 10, slopeBars: 3, promptBars: 36 },
+];
+
+// --- TREND STATE ---
+
+export const computeTrendState = (config: TimeframeConfig, bars: OhlcvBar[]): TimeframeTrendState => {
+    const { key, unit, fastPeriod, slowPeriod, slopeBars } = config;
+    const closes = bars.map(bar => bar.close);
+    const close = last(closes);
+    const fastMa = last(sma(closes, fastPeriod));
+    const slowSeries = sma(closes, slowPeriod);
+    const slowMa = last(slowSeries);
+    const previousSlowMa = slowSeries[bars.length - 1 - slopeBars] ?? null;
+    const slowMaSlope = slowMa !== null && previousSlowMa ? (slowMa / previousSlowMa - 1) * 100 : null;
+
+    let trend: TimeframeTrendState['trend'] = null;
+    if (close !== null && fastMa !== null && slowMa !== null && slowMaSlope !== null) {
+        if (close > slowMa && fastMa > slowMa && slowMaSlope > 0) trend = 'Uptrend';
+        else if (close < slowMa && fastMa < slowMa && slowMaSlope < 0) trend = 'Downtrend';
+        else trend = 'Sideways';
+    }
+    const bias = close === null || fastMa === null || close === fastMa ? 'Neutral' : close > fastMa ? 'Bullish' : 'Bearish';
+
+    // Trends are defended at the recent swing extreme; ranges pivot around the slow average.
+    const recent = bars.slice(-fastPeriod);
+    let keyLevel = slowMa;
+    let keyLevelLabel = `${slowPeriod}-${unit} SMA`;
+    if (trend === 'Uptrend') {
+        keyLevel = Math.min(...recent.map(bar => bar.low));
+        keyLevelLabel = `${fastPeriod}-${unit} low`;
+    } else if (trend === 'Downtrend') {
+        keyLevel = Math.max(...recent.map(bar => bar.high));
+        keyLevelLabel = `${fastPeriod}-${unit} high`;
+    }
+
+    return { timeframe: key, bars: bars.length, trend, bias, close, fastPeriod, slowPeriod, fastMa, slowMa, slowMaSlope, keyLevel, keyLevelLabel };
+};
+
+// --- ALIGNMENT ---
+
+const labelOf = (key: TimeframeKey) => MULTI_TIMEFRAMES.find(config => config.key === key)!.label;
+
+/**
+ * Combines per-timeframe states into an alignment verdict. Opposite trends on
+ * two timeframes are reported as conflicts.
+ */
+export const analyzeTimeframes = (states: TimeframeTrendState[]): Omit<MultiTimeframeData, 'commentary'> => {
+    const trending = states.filter(state => state.trend !== null);
+    const conflicts: TimeframeConflict[] = [];
+    for (let i = 0; i < trending.length; i++) {
+        for (let j = i + 1; j < trending.length; j++) {
+            const [lower, higher] = [trending[i], trending[j]];
+            const opposed = (lower.trend === 'Uptrend' && higher.trend === 'Downtrend') || (lower.trend === 'Downtrend' && higher.trend === 'Uptrend');
+            if (opposed) {
+                conflicts.push({
+                    timeframes: [lower.timeframe, higher.timeframe],
+                    message: `${labelOf(lower.timeframe)} ${lower.trend!.toLowerCase()} runs against the ${labelOf(higher.timeframe).toLowerCase()} ${higher.trend!.toLowerCase()}.`,
+                });
+            }
+        }
+    }
+
+    let alignment: MultiTimeframeData['alignment'] = 'mixed';
+    if (conflicts.length > 0) alignment = 'conflicting';
+    else if (trending.length > 1 && trending.every(state => state.trend === 'Uptrend')) alignment = 'bullish';
+    else if (trending.length > 1 && trending.every(state => state.trend === 'Downtrend')) alignment = 'bearish';
+
+    return { timeframes: states, alignment, conflicts };
+};
+
+// --- UPLOADED DATA ---
+
+/**
+ * Builds each timeframe from uploaded candles by resampling. Timeframes finer
+ * than the uploaded candles are left out.
+ */
+export const resampleForTimeframes = (bars: OhlcvBar[]): Partial<Record<TimeframeKey, OhlcvBar[]>> => {
+    const spacingDays = inferBarSpacing(bars) / DAY_SECONDS;
+    const result: Partial<Record<TimeframeKey, OhlcvBar[]>> = {};
+    for (const config of MULTI_TIMEFRAMES) {
+        if (spacingDays > config.maxSpacingDays * 1.2) continue;
+        // Candles already at the timeframe's size are used as they are.
+        result[config.key] = spacingDays >= config.maxSpacingDays * 0.8 ? bars : resampleBars(bars, parseIntervalSpec(config.interval)!);
+    }
+    return result;
+};
+
+// --- REPORTING ---
+
+export const describeMultiTimeframeForPrompt = (data: Omit<MultiTimeframeData, 'commentary'>, priceFormat: PriceFormat): string => {
+    if (data.timeframes.length === 0) return '';
+    const price = (value: number | null) => formatPlainPrice(value, priceFormat);
+    const lines = data.timeframes.map(state => {
+        const config = MULTI_TIMEFRAMES.find(c => c.key === state.timeframe)!;
+        if (state.trend === null) return `- ${config.label}: not enough candles (${state.bars}) for a trend reading.`;
+        const slope = state.slowMaSlope === null ? 'N/A' : `${state.slowMaSlope >= 0 ? '+' : ''}${state.slowMaSlope.toFixed(2)}%`;
+        return `- ${config.label}: ${state.trend}, ${state.bias.toLowerCase()} bias; close ${price(state.close)}, ${state.fastPeriod}-${config.unit} SMA ${price(state.fastMa)}, ${state.slowPeriod}-${config.unit} SMA ${price(state.slowMa)} (slope ${slope} over ${config.slopeBars} ${config.unit}s); key level ${price(state.keyLevel)} (${state.keyLevelLabel}).`;
+    });
+    const conflicts = data.conflicts.map(conflict => `- CONFLICT: ${conflict.message}`);
+    return `
+Context: Multi-Timeframe Trend States (computed from each timeframe's candles; alignment: ${data.alignment}):
+${[...lines, ...conflicts].join('\n')}
+`;
+};
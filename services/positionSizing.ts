@@ -0,0 +1,152 @@
+/**
+ * Position sizing for a trade setup: the quantity that risks a fixed share of
+ * the account between entry and stop, rounded down to whole lots, with the
+ * reward-to-risk of each target, the break-even after commissions and
+ * ATR-based stop alternatives.
+ */
+
+export interface RiskSettings {
+    accountSize: number;
+    riskPercent: number;   // of the account, per trade
+    lotSize: number;       // quantities are whole multiples of this
+    commission: number;    // per order, in account currency
+}
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = { accountSize: 10000, riskPercent: 1, lotSize: 1, commission: 0 };
+
+export const ATR_STOP_MULTIPLES = [1, 1.5, 2, 3];
+
+export interface TargetResult {
+    label: string;
+    price: number;
+    rewardToRisk: number | null;      // null when the target is on the losing side of the entry
+    profit: number | null;            // after both commissions
+    breakEvenWinRate: number | null;  // share of trades that must win for this target to break even
+}
+
+export interface PositionSize {
+    direction: 'long' | 'short';
+    entry: number;
+    stop: number;
+    riskPerUnit: number;
+    quantity: number;
+    positionValue: number;
+    capitalAtRisk: number;   // quantity × risk per unit plus both commissions
+    riskBudget: number;      // what the settings allow to lose
+    breakEven: number;       // price at which the trade covers its commissions
+    targets: TargetResult[];
+    exceedsAccount: boolean; // the position is worth more than the account
+}
+
+export interface AtrStop {
+    multiple: number;
+    stop: number;
+    quantity: number;
+    rewardToRisk: number | null; // to the first target
+}
+
+// Thousands grouping (1,234,567.50), Indian lakh grouping (12,34,567.50) or plain digits.
+const PRICE_IN_TEXT = /\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d{1,3}(?:,\d{2})+,\d{3}(?:\.\d+)?|\d+(?:\.\d+)?/g;
+// Words that introduce a price, e.g. "near 182.30" or "above ₹1,234".
+const PRICE_CUE = /(?:near|at|around|above|below|to|@|~|≈|[$€£¥₹])\s*$/i;
+// Numbers that are periods, percentages or multiples, e.g. "50-day EMA", "2%" or "2x volume".
+const NOT_A_PRICE = /^(?:-?\s*(?:day|week|month|period|bar|candle)s?\b|\s*%|\s*x\b)/i;
+
+/**
+ * The price in a setup field such as "125.50" or "Pullback to the 50-day EMA
+ * near 182.30": the number after a cue like "near" or "above", else the last
+ * number that is not a period, percentage or multiple; null if there is none.
+ */
+export const parsePriceText = (text: string | null | undefined): number | null => {
+    if (!text) return null;
+    const prices = [...text.matchAll(PRICE_IN_TEXT)]
+        .filter(match => !NOT_A_PRICE.test(text.slice(match.index! + match[0].length)))
+        .map(match => ({ value: Number(match[0].replace(/,/g, '')), cued: PRICE_CUE.test(text.slice(0, match.index)) }))
+        .filter(price => isFinite(price.value) && price.value > 0);
+    const price = prices.filter(candidate => candidate.cued).pop() ?? prices.pop();
+    return price ? price.value : null;
+};
+
+// Rounds down to whole lots; the tiny epsilon keeps 0.3 / 0.1 from becoming 2 lots.
+const roundToLots = (quantity: number, lotSize: number): number =>
+    lotSize > 0 ? Math.floor(quantity / lotSize + 1e-9) * lotSize : quantity;
+
+const quantityFor = (riskPerUnit: number, settings: RiskSettings): number => {
+    const budget = settings.accountSize * (settings.riskPercent / 100) - 2 * settings.commission;
+    return budget > 0 && riskPerUnit > 0 ? roundToLots(budget / riskPerUnit, settings.lotSize) : 0;
+};
+
+/**
+ * Sizes a trade from entry to stop; the direction follows from which side of
+ * the entry the stop is on. Returns null when entry and stop coincide.
+ */
+export const computePositionSize = (entry: number, stop: number, targets: { label: string; price: number }[], settings: RiskSettings): PositionSize | null => {
+    const riskPerUnit = Math.abs(entry - stop);
+    if (riskPerUnit === 0) return null;
+    const direction = stop < entry ? 'long' : 'short';
+    const sign = direction === 'long' ? 1 : -1;
+    const quantity = quantityFor(riskPerUnit, settings);
+    const commissions = 2 * settings.commission;
+
+    return {
+        direction,
+        entry,
+        stop,
+        riskPerUnit,
+        quantity,
+        positionValue: quantity * entry,
+        capitalAtRisk: quantity * riskPerUnit + (quantity > 0 ? commissions : 0),
+        riskBudget: settings.accountSize * (settings.riskPercent / 100),
+        breakEven: quantity > 0 ? entry + sign * (commissions / quantity) : entry,
+        targets: targets.map(({ label, price }) => {
+            const reward = sign * (price - entry);
+            if (reward <= 0) return { label, price, rewardToRisk: null, profit: null, breakEvenWinRate: null };
+            const rewardToRisk = reward / riskPerUnit;
+            return { label, price, rewardToRisk, profit: quantity * reward - commissions, breakEvenWinRate: 1 / (1 + rewardToRisk) };
+        }),
+        exceedsAccount: quantity * entry > settings.accountSize,
+    };
+};
+
+// Stops at multiples of the ATR from the entry, on the same side as the setup's stop.
+export const atrStops = (position: PositionSize, atrValue: number, settings: RiskSettings): AtrStop[] => {
+    const sign = position.direction === 'long' ? -1 : 1;
+    const firstTarget = position.targets.find(target => target.rewardToRisk !== null);
+    return ATR_STOP_MULTIPLES.map(multiple => {
+        const riskPerUnit = multiple * atrValue;
+        return {
+            multiple,
+            stop: position.entry + sign * riskPerUnit,
+            quantity: quantityFor(riskPerUnit, settings),
+            rewardToRisk: firstTarget ? Math.abs(firstTarget.price - position.entry) / riskPerUnit : null,
+        };
+    });
+};
+
+// --- SETTINGS ---
+
+const RISK_SETTINGS_KEY = 'champion-chartist:risk-settings';
+
+// Like indicator presets, the settings live in the browser; storage failures are ignored.
+export const getRiskSettings = (): RiskSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(RISK_SETTINGS_KEY) ?? '{}');
+        const valid = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value >= 0;
+        return {
+            accountSize: valid(stored?.accountSize) ? stored.accountSize : DEFAULT_RISK_SETTINGS.accountSize,
+            riskPercent: valid(stored?.riskPercent) ? stored.riskPercent : DEFAULT_RISK_SETTINGS.riskPercent,
+            lotSize: valid(stored?.lotSize) && stored.lotSize > 0 ? stored.lotSize : DEFAULT_RISK_SETTINGS.lotSize,
+            commission: valid(stored?.commission) ? stored.commission : DEFAULT_RISK_SETTINGS.commission,
+        };
+    } catch {
+        return DEFAULT_RISK_SETTINGS;
+    }
+};
+
+export const saveRiskSettings = (settings: RiskSettings) => {
+    try {
+        localStorage.setItem(RISK_SETTINGS_KEY, JSON.stringify(settings));
+    } catch {
+        // ignore
+    }
+};
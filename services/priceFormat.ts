@@ -0,0 +1,106 @@
+import type { OhlcvBar, PriceFormat } from '../types';
+import { getInstrumentMetadata } from './instrumentMetadata';
+
+/**
+ * Price and volume formatting driven by an instrument's currency and tick size.
+ * Plain formatting (no symbol or grouping) is used wherever prices are parsed
+ * again: the CSV, the prompt and live quotes. Display formatting adds the
+ * currency symbol and the currency's digit grouping.
+ */
+
+const MAX_DECIMALS = 8;
+
+// Decimal places needed to write a tick size exactly, e.g. 0.25 -> 2, 0.0005 -> 4.
+const decimalsForTick = (tickSize: number): number => {
+    let decimals = 0;
+    while (decimals < MAX_DECIMALS && Math.abs(Math.round(tickSize * 10 ** decimals) - tickSize * 10 ** decimals) > 1e-9) {
+        decimals++;
+    }
+    return decimals;
+};
+
+const currencySymbolFor = (currency: string): string => {
+    try {
+        const parts = new Intl.NumberFormat('en', { style: 'currency', currency, currencyDisplay: 'narrowSymbol' }).formatToParts(0);
+        return parts.find(part => part.type === 'currency')?.value ?? currency;
+    } catch {
+        return currency;
+    }
+};
+
+// --- FORMAT RESOLUTION ---
+
+export const GENERIC_PRICE_FORMAT: PriceFormat = { currency: '', currencySymbol: '', decimals: 2, tickSize: 0.01, locale: 'en-US' };
+
+export const getPriceFormat = (symbol: string): PriceFormat => {
+    const { currency, tickSize, assetClass } = getInstrumentMetadata(symbol);
+    return {
+        currency,
+        // Index levels are points and FX quotes are exchange rates, not amounts of money.
+        currencySymbol: assetClass === 'index' || assetClass === 'fx' ? '' : currencySymbolFor(currency),
+        decimals: decimalsForTick(tickSize),
+        tickSize,
+        locale: currency === 'INR' ? 'en-IN' : 'en-US',
+    };
+};
+
+/**
+ * A format for bars of unknown origin (uploaded files), keeping as many
+ * decimals as the data itself carries.
+ */
+export const getPriceFormatForBars = (bars: OhlcvBar[]): PriceFormat => {
+    const decimals = bars.slice(-100).reduce((max, bar) => Math.max(max, decimalsForTick(bar.close)), GENERIC_PRICE_FORMAT.decimals);
+    return { ...GENERIC_PRICE_FORMAT, decimals, tickSize: 10 ** -decimals };
+};
+
+/**
+ * Decimals for a particular price: the tick size's, or more for prices below 1
+ * so that at least four significant digits survive (e.g. low-priced crypto).
+ */
+export const priceDecimals = (value: number, format: PriceFormat): number => {
+    const magnitude = Math.abs(value);
+    if (magnitude === 0 || magnitude >= 1 || !isFinite(magnitude)) return format.decimals;
+    return Math.min(MAX_DECIMALS, Math.max(format.decimals, Math.ceil(-Math.log10(magnitude)) + 3));
+};
+
+// --- FORMATTERS ---
+
+const toNumber = (value: number | string | null | undefined): number | null => {
+    const num = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof num === 'number' && isFinite(num) ? num : null;
+};
+
+// A machine-readable price, e.g. "1234.50" or "0.00001234".
+export const formatPlainPrice = (value: number | string | null | undefined, format: PriceFormat): string => {
+    const num = toNumber(value);
+    return num === null ? 'N/A' : num.toFixed(priceDecimals(num, format));
+};
+
+// A price for display, e.g. "₹1,23,456.05", "$0.4521" or "1.08345".
+export const formatPrice = (value: number | string | null | undefined, format: PriceFormat): string => {
+    const num = toNumber(value);
+    if (num === null) return 'N/A';
+    const decimals = priceDecimals(num, format);
+    const digits = new Intl.NumberFormat(format.locale, { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(Math.abs(num));
+    return `${num < 0 ? '-' : ''}${format.currencySymbol}${digits}`;
+};
+
+export const formatPriceChange = (value: number, format: PriceFormat): string =>
+    `${value >= 0 ? '+' : ''}${formatPrice(value, format)}`;
+
+// Volume with the currency's grouping, e.g. "1,23,45,678" for Indian stocks.
+export const formatVolume = (value: number | null | undefined, format: PriceFormat): string => {
+    if (typeof value !== 'number' || !isFinite(value)) return 'N/A';
+    return new Intl.NumberFormat(format.locale, { maximumFractionDigits: value < 1000 ? 4 : 0 }).format(value);
+};
+
+const PLAIN_NUMBER = /^\s*[-+]?(\d{1,3}(,\d{2,3})+|\d+)(\.\d+)?\s*$/;
+
+/**
+ * Formats report text that is a bare price (as the analysis is asked to write
+ * them); descriptive text such as "Break above 125.50" is returned unchanged.
+ */
+export const formatPriceText = (text: string | null | undefined, format: PriceFormat): string => {
+    if (!text) return 'N/A';
+    return PLAIN_NUMBER.test(text) ? formatPrice(text.replace(/,/g, ''), format) : text;
+};
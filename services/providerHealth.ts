@@ -0,0 +1,185 @@
+/**
+ * Health tracking for data sources: providers and the CORS proxies behind them.
+ * Every source gets a circuit breaker. After repeated consecutive failures it is
+ * skipped for a cool-down period, then a single trial request decides whether it
+ * is healthy again. Latency and failure counts order interchangeable sources and
+ * feed the diagnostics panel.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface SourceHealth {
+    id: string;
+    label: string;
+    state: CircuitState;
+    successes: number;
+    failures: number;
+    consecutiveFailures: number;
+    avgLatencyMs: number | null; // exponentially weighted
+    lastError: string | null;
+    lastSuccessAt: number | null; // unix ms
+    lastFailureAt: number | null; // unix ms
+    retryAt: number | null;       // when an open circuit admits a trial request
+}
+
+/**
+ * Thrown by providers when the source answered but has nothing for the request
+ * (unknown symbol, empty range). It does not count against the source's health.
+ */
+export class NoDataError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'NoDataError';
+    }
+}
+
+export class CircuitOpenError extends Error {
+    constructor(public source: SourceHealth) {
+        super(`${source.label} is temporarily skipped after ${source.consecutiveFailures} consecutive failures.`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+// --- CIRCUIT BREAKERS ---
+
+const FAILURE_THRESHOLD = 3;
+const BASE_COOLDOWN_MS = 30_000;
+const MAX_COOLDOWN_MS = 10 * 60_000;
+const LATENCY_WEIGHT = 0.3; // weight of the newest sample in the latency average
+
+interface HealthRecord extends SourceHealth {
+    trips: number; // consecutive times the circuit opened; doubles the cool-down
+    trialInFlight: boolean;
+}
+
+const records = new Map<string, HealthRecord>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const recordFor = (id: string, label: string): HealthRecord => {
+    let record = records.get(id);
+    if (!record) {
+        record = {
+            id, label, state: 'closed', successes: 0, failures: 0, consecutiveFailures: 0, avgLatencyMs: null,
+            lastError: null, lastSuccessAt: null, lastFailureAt: null, retryAt: null, trips: 0, trialInFlight: false,
+        };
+        records.set(id, record);
+    }
+    return record;
+};
+
+const stateOf = (record: HealthRecord): CircuitState =>
+    record.state === 'open' && Date.now() >= record.retryAt! ? 'half-open' : record.state;
+
+const recordLatency = (record: HealthRecord, latencyMs: number) => {
+    record.avgLatencyMs = record.avgLatencyMs === null
+        ? latencyMs
+        : Math.round(record.avgLatencyMs * (1 - LATENCY_WEIGHT) + latencyMs * LATENCY_WEIGHT);
+};
+
+const recordSuccess = (record: HealthRecord, latencyMs: number) => {
+    recordLatency(record, latencyMs);
+    record.successes++;
+    record.consecutiveFailures = 0;
+    record.trips = 0;
+    record.state = 'closed';
+    record.retryAt = null;
+    record.lastSuccessAt = Date.now();
+    notify();
+};
+
+const recordFailure = (record: HealthRecord, error: unknown, latencyMs: number) => {
+    const wasTrial = stateOf(record) === 'half-open';
+    recordLatency(record, latencyMs);
+    record.failures++;
+    record.consecutiveFailures++;
+    record.lastError = error instanceof Error ? error.message : String(error);
+    record.lastFailureAt = Date.now();
+    if (wasTrial || record.consecutiveFailures >= FAILURE_THRESHOLD) {
+        record.trips++;
+        record.state = 'open';
+        record.retryAt = Date.now() + Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * 2 ** (record.trips - 1));
+        console.warn(`${record.label} failed ${record.consecutiveFailures} time(s) in a row; skipping it until ${new Date(record.retryAt).toLocaleTimeString()}.`);
+    }
+    notify();
+};
+
+export const isSourceAvailable = (id: string): boolean => {
+    const record = records.get(id);
+    if (!record) return true;
+    const state = stateOf(record);
+    return state === 'closed' || (state === 'half-open' && !record.trialInFlight);
+};
+
+/**
+ * Runs a call against a source, recording its outcome and latency. Rejects with
+ * CircuitOpenError without calling when the source's circuit is open.
+ */
+export const withHealth = async <T>(id: string, label: string, call: () => Promise<T>): Promise<T> => {
+    const record = recordFor(id, label);
+    if (!isSourceAvailable(id)) throw new CircuitOpenError({ ...record, state: stateOf(record) });
+
+    const isTrial = stateOf(record) === 'half-open';
+    if (isTrial) record.trialInFlight = true;
+    const started = Date.now();
+    try {
+        const result = await call();
+        recordSuccess(record, Date.now() - started);
+        return result;
+    } catch (error) {
+        // A source that answers "no data" is reachable and working.
+        if (error instanceof NoDataError) recordSuccess(record, Date.now() - started);
+        else recordFailure(record, error, Date.now() - started);
+        throw error;
+    } finally {
+        if (isTrial) record.trialInFlight = false;
+    }
+};
+
+// --- ORDERING ---
+
+// Lower is better: recent failures weigh like 5 seconds of latency each.
+const healthScore = (record: HealthRecord | undefined) =>
+    record ? (record.avgLatencyMs ?? 0) + record.consecutiveFailures * 5000 : 0;
+
+/**
+ * Orders sources for a request. Sources with an open circuit go last; with
+ * `adaptive`, the rest are ranked by latency and recent failures, otherwise
+ * they keep their configured order.
+ */
+export const orderByHealth = <T>(sources: T[], idOf: (source: T) => string, adaptive = false): T[] => {
+    const ranked = sources.map((source, index) => ({ source, index, record: records.get(idOf(source)) }));
+    return ranked
+        .sort((a, b) =>
+            Number(!isSourceAvailable(idOf(a.source))) - Number(!isSourceAvailable(idOf(b.source))) ||
+            (adaptive ? healthScore(a.record) - healthScore(b.record) : 0) ||
+            a.index - b.index)
+        .map(entry => entry.source);
+};
+
+// --- DIAGNOSTICS ---
+
+export const getHealthSnapshot = (): SourceHealth[] =>
+    Array.from(records.values()).map(({ trips, trialInFlight, ...health }) => ({ ...health, state: stateOf({ ...health, trips, trialInFlight }) }));
+
+export const subscribeToHealth = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+// --- REQUEST DEDUPLICATION ---
+
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Shares one in-flight promise between concurrent calls with the same key, so
+ * identical requests made at the same time reach the network once.
+ */
+export const dedupe = <T>(key: string, call: () => Promise<T>): Promise<T> => {
+    const pending = inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+    const promise = call().finally(() => inFlight.delete(key));
+    inFlight.set(key, promise);
+    return promise;
+};
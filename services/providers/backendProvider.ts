@@ -0,0 +1,51 @@
+import type { OhlcvBar, SymbolSearchResult, CorporateAction } from '../../types';
+import type { MarketDataProvider, HistoryRequest } from '../marketDataService';
+import { NoDataError } from '../providerHealth';
+
+/**
+ * Talks to the self-hosted backend in `server/`, which fetches market data
+ * server-side (no CORS proxies) and holds the provider API keys.
+ */
+export const BACKEND_URL = (process.env.BACKEND_URL || '').replace(/\/$/, '');
+
+const backendGet = async (path: string, params: Record<string, string | number>) => {
+    const query = new URLSearchParams(Object.entries(params).map(([k, v]) => [k, String(v)]));
+    const response = await fetch(`${BACKEND_URL}${path}?${query}`);
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+        const message = data?.error || `Backend request to ${path} failed with status ${response.status}`;
+        // The backend answers 404 when its own providers have no data for the request.
+        throw response.status === 404 ? new NoDataError(message) : new Error(message);
+    }
+    return data;
+};
+
+const getHistory = async (symbol: string, request: HistoryRequest): Promise<OhlcvBar[]> => {
+    const data = await backendGet('/api/history', { symbol, interval: request.interval, from: request.from, to: request.to });
+    return data.bars as OhlcvBar[];
+};
+
+const getQuote = async (symbol: string): Promise<number> => {
+    const data = await backendGet('/api/quote', { symbol });
+    return data.price as number;
+};
+
+const search = async (query: string): Promise<SymbolSearchResult[]> => {
+    const data = await backendGet('/api/search', { q: query });
+    return data.results as SymbolSearchResult[];
+};
+
+const getCorporateActions = async (symbol: string, from: number, to: number): Promise<CorporateAction[]> => {
+    const data = await backendGet('/api/events', { symbol, from, to });
+    return data.events as CorporateAction[];
+};
+
+export const backendProvider: MarketDataProvider = {
+    id: 'backend',
+    name: 'Backend Service',
+    capabilities: ['history', 'quote', 'search', 'corporateActions'],
+    getHistory,
+    getQuote,
+    search,
+    getCorporateActions,
+};
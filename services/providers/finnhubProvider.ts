@@ -0,0 +1,106 @@
+import type { OhlcvBar, SymbolSearchResult, CorporateAction } from '../../types';
+import type { MarketDataProvider, HistoryRequest, CandleInterval } from '../marketDataService';
+import { NoDataError } from '../providerHealth';
+
+// Read from the environment so the key can live server-side when the backend is used.
+export const FINNHUB_API_KEY = process.env.FINNHUB_API_KEY;
+
+// Maps common Yahoo Finance symbols to Finnhub-compatible symbols (often ETFs for reliability on free tier).
+export const mapSymbolForFinnhub = (symbol: string): string => {
+    const mappings: { [key: string]: string } = {
+        '^GSPC': 'SPY',
+        '^DJI': 'DIA',
+        '^NDX': 'QQQ',
+        '^FTSE': 'EWU',
+        '^GDAXI': 'EWG',
+        '^N225': 'EWJ',
+        '^HSI': 'EWH',
+        '^NSEI': 'INDA',
+        'GC=F': 'GLD',
+        'SI=F': 'SLV',
+        'CL=F': 'USO',
+        'NG=F': 'UNG',
+        'HG=F': 'CPER',
+    };
+    if (mappings[symbol]) {
+        return mappings[symbol];
+    }
+    
+    return symbol;
+};
+
+const RESOLUTIONS: Record<CandleInterval, string> = {
+    '1m': '1', '5m': '5', '15m': '15', '30m': '30', '1h': '60', '1d': 'D', '1wk': 'W', '1mo': 'M',
+};
+
+const FULL_HISTORY_YEARS = 20;
+
+const getHistory = async (symbol: string, request: HistoryRequest): Promise<OhlcvBar[]> => {
+    if (!FINNHUB_API_KEY) throw new Error("FINNHUB_API_KEY not set. Cannot use Finnhub as a data source.");
+
+    const finnhubSymbol = mapSymbolForFinnhub(symbol);
+    const resolution = RESOLUTIONS[request.interval];
+    const from = request.from > 0
+        ? request.from
+        : request.to - FULL_HISTORY_YEARS * 365 * 24 * 60 * 60;
+
+    const url = `https://finnhub.io/api/v1/stock/candle?symbol=${finnhubSymbol}&resolution=${resolution}&from=${from}&to=${request.to}&token=${FINNHUB_API_KEY}`;
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Finnhub request for ${finnhubSymbol} failed with status ${response.status}`);
+    
+    const data = await response.json();
+    if (data.s === 'no_data' || !data.t || data.t.length === 0) throw new NoDataError(`Could not find time series data for '${finnhubSymbol}' in Finnhub response.`);
+
+    const { t, o, h, l, c, v } = data;
+    return t.map((ts: number, i: number) => ({ time: ts, open: o[i], high: h[i], low: l[i], close: c[i], volume: v[i] ?? 0 }));
+};
+
+const getQuote = async (symbol: string): Promise<number> => {
+    if (!FINNHUB_API_KEY) throw new Error("FINNHUB_API_KEY not set, cannot fetch live price from Finnhub.");
+
+    const finnhubSymbol = mapSymbolForFinnhub(symbol);
+    const url = `https://finnhub.io/api/v1/quote?symbol=${finnhubSymbol}&token=${FINNHUB_API_KEY}`;
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Finnhub quote request failed with status ${response.status}`);
+    const data = await response.json();
+    const price = data?.c;
+    if (!price || price === 0) throw new NoDataError(`No live price found for ${symbol} in Finnhub response.`);
+    return price;
+};
+
+const search = async (query: string): Promise<SymbolSearchResult[]> => {
+    if (!FINNHUB_API_KEY) throw new Error("FINNHUB_API_KEY not set, cannot search symbols on Finnhub.");
+    const url = `https://finnhub.io/api/v1/search?q=${encodeURIComponent(query)}&token=${FINNHUB_API_KEY}`;
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Finnhub search request failed with status ${response.status}`);
+    const data = await response.json();
+    return (data?.result ?? []).map((r: any) => ({ symbol: r.symbol, name: r.description || r.symbol }));
+};
+
+const toDateParam = (time: number) => new Date(time * 1000).toISOString().split('T')[0];
+
+const getCorporateActions = async (symbol: string, from: number, to: number): Promise<CorporateAction[]> => {
+    if (!FINNHUB_API_KEY) throw new Error("FINNHUB_API_KEY not set, cannot fetch corporate actions from Finnhub.");
+    // ETF proxies used for indices and commodities have unrelated corporate actions.
+    if (mapSymbolForFinnhub(symbol) !== symbol) return [];
+
+    const url = `https://finnhub.io/api/v1/stock/split?symbol=${symbol}&from=${toDateParam(from)}&to=${toDateParam(to)}&token=${FINNHUB_API_KEY}`;
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Finnhub split request failed with status ${response.status}`);
+    const data = await response.json();
+    return (Array.isArray(data) ? data : []).map((s: any) => ({
+        type: 'split' as const,
+        time: Math.floor(Date.parse(`${s.date}T00:00:00Z`) / 1000),
+        ratio: s.toFactor / s.fromFactor,
+    }));
+};
+
+export const finnhubProvider: MarketDataProvider = {
+    id: 'finnhub',
+    name: 'Finnhub',
+    capabilities: ['history', 'quote', 'search', 'corporateActions'],
+    getHistory,
+    getQuote,
+    search,
+    getCorporateActions,
+};
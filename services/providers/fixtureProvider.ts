@@ -0,0 +1,56 @@
+import type { OhlcvBar, CorporateAction } from '../../types';
+import type { MarketDataProvider, HistoryRequest } from '../marketDataService';
+
+/**
+ * Serves recorded candles from static JSON files for offline development.
+ * Files live at `<base>/<SYMBOL>/<interval>.json` (by default under `public/fixtures`)
+ * and contain an array of OhlcvBar objects ordered by time. An optional
+ * `<SYMBOL>/events.json` holds CorporateAction objects.
+ */
+const FIXTURE_BASE_URL = process.env.MARKET_DATA_FIXTURE_URL || '/fixtures';
+
+const fixtureUrl = (symbol: string, interval: string) =>
+    `${FIXTURE_BASE_URL}/${encodeURIComponent(symbol)}/${interval}.json`;
+
+const loadFixture = async (symbol: string, interval: string): Promise<OhlcvBar[]> => {
+    const response = await fetch(fixtureUrl(symbol, interval));
+    if (!response.ok) {
+        throw new Error(`No ${interval} fixture found for '${symbol}' (status ${response.status}).`);
+    }
+    const bars = await response.json();
+    if (!Array.isArray(bars)) {
+        throw new Error(`Fixture for '${symbol}' (${interval}) is not an array of bars.`);
+    }
+    return bars as OhlcvBar[];
+};
+
+const getHistory = async (symbol: string, request: HistoryRequest): Promise<OhlcvBar[]> => {
+    const bars = await loadFixture(symbol, request.interval);
+    if (request.from <= 0 || bars.length === 0) return bars;
+    // Recorded data is older than "now", so the lookback is measured back from the last recorded bar.
+    const start = bars[bars.length - 1].time - (request.to - request.from);
+    return bars.filter(bar => bar.time >= start);
+};
+
+const getQuote = async (symbol: string): Promise<number> => {
+    const bars = await loadFixture(symbol, '1d');
+    const last = bars[bars.length - 1];
+    if (!last) throw new Error(`Daily fixture for '${symbol}' is empty.`);
+    return last.close;
+};
+
+const getCorporateActions = async (symbol: string): Promise<CorporateAction[]> => {
+    const response = await fetch(fixtureUrl(symbol, 'events'));
+    if (!response.ok) return []; // Events are optional for fixtures
+    const events = await response.json();
+    return Array.isArray(events) ? events : [];
+};
+
+export const fixtureProvider: MarketDataProvider = {
+    id: 'fixture',
+    name: 'Local Fixtures',
+    capabilities: ['history', 'quote', 'corporateActions'],
+    getHistory,
+    getQuote,
+    getCorporateActions,
+};
@@ -0,0 +1,172 @@
+import type { OhlcvBar, SymbolSearchResult, CorporateAction } from '../../types';
+import type { MarketDataProvider, HistoryRequest, CandleInterval } from '../marketDataService';
+import { withHealth, orderByHealth, isSourceAvailable, dedupe, NoDataError } from '../providerHealth';
+
+const INTRADAY_INTERVALS: CandleInterval[] = ['1m', '5m', '15m', '30m', '1h'];
+
+export interface ProxyConfig {
+    prefix: string;
+    encode: boolean;
+}
+
+// Using public CORS proxies as fallbacks for reliability.
+const PROXIES: ProxyConfig[] = [
+    { prefix: 'https://corsproxy.io/?', encode: false },
+    { prefix: 'https://cors.eu.org/', encode: false }, // Added for more resilience
+    { prefix: 'https://thingproxy.freeboard.io/fetch/', encode: false },
+    { prefix: 'https://api.allorigins.win/raw?url=', encode: true }
+];
+
+const PROXY_TIMEOUT_MS = 15000;
+
+const proxyId = (proxy: ProxyConfig) => proxy.prefix ? `yahoo-proxy:${new URL(proxy.prefix).hostname}` : 'yahoo-direct';
+const proxyLabel = (proxy: ProxyConfig) => proxy.prefix ? `Yahoo via ${new URL(proxy.prefix).hostname}` : 'Yahoo (direct)';
+
+const fetchViaProxy = async (proxy: ProxyConfig, url: string) => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), PROXY_TIMEOUT_MS);
+    try {
+        const fetchUrl = proxy.encode ? proxy.prefix + encodeURIComponent(url) : proxy.prefix + url;
+        const response = await fetch(fetchUrl, {
+            signal: controller.signal,
+            headers: { 'X-Requested-With': 'XMLHttpRequest' }
+        });
+        if (!response.ok) {
+            throw new Error(`Yahoo Finance request via ${proxy.prefix || 'direct connection'} failed with status ${response.status}`);
+        }
+        return await response.json();
+    } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+            throw new Error(`Request timed out. The data provider is not responding.`);
+        }
+        throw error;
+    } finally {
+        clearTimeout(timeoutId);
+    }
+};
+
+/**
+ * Fetches a Yahoo URL through the healthiest available proxy, falling back to the
+ * others. Proxies with repeated failures are skipped until their cool-down ends,
+ * and concurrent requests for the same URL share one fetch.
+ */
+const proxiedFetch = (proxies: ProxyConfig[], url: string, validate: (data: any) => void) => dedupe(url, async () => {
+    let lastError: Error | null = null;
+
+    for (const proxy of orderByHealth(proxies, proxyId, true)) {
+        if (!isSourceAvailable(proxyId(proxy))) continue;
+        try {
+            const data = await withHealth(proxyId(proxy), proxyLabel(proxy), async () => {
+                const data = await fetchViaProxy(proxy, url);
+                validate(data);
+                return data;
+            });
+            return data;
+        } catch (error) {
+            // The proxy worked but Yahoo has nothing for this request; other proxies would agree.
+            if (error instanceof NoDataError) throw error;
+            console.warn(`Fetch attempt via ${proxy.prefix || 'direct connection'} failed:`, error);
+            lastError = error as Error;
+        }
+    }
+    throw lastError ?? new Error("All Yahoo Finance proxies are temporarily unavailable after repeated failures.");
+});
+
+const validateChartResponse = (data: any) => {
+    if (data.chart?.error) {
+        throw new NoDataError(`Yahoo Finance API error: ${data.chart.error.description}`);
+    }
+    if (!data.chart?.result) {
+        throw new Error(`Yahoo Finance response was empty or malformed.`);
+    }
+};
+
+/**
+ * Creates a Yahoo Finance provider that routes requests through the given proxies.
+ * The browser needs CORS proxies; a server can pass a single direct entry (empty prefix).
+ */
+export const createYahooProvider = (proxies: ProxyConfig[]): MarketDataProvider => {
+    const yahooChartFetch = (url: string) => proxiedFetch(proxies, url, validateChartResponse);
+
+    const getHistory = async (symbol: string, request: HistoryRequest): Promise<OhlcvBar[]> => {
+        const window = request.from > 0 ? `period1=${request.from}&period2=${request.to}` : 'range=max';
+        // Extended-hours bars are always requested; session filtering happens locally.
+        const prePost = INTRADAY_INTERVALS.includes(request.interval) ? '&includePrePost=true' : '';
+        const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?${window}&interval=${request.interval}${prePost}`;
+        const data = await yahooChartFetch(url);
+
+        const result = data?.chart?.result?.[0];
+        if (!result || !result.timestamp || !result.indicators.quote[0].open) {
+            throw new NoDataError('Could not find time series data in Yahoo Finance response.');
+        }
+
+        const { timestamp, indicators } = result;
+        const { open, high, low, close, volume } = indicators.quote[0];
+
+        const bars: OhlcvBar[] = [];
+        let skipped = 0;
+        timestamp.forEach((ts: number, i: number) => {
+            if (ts === null || open[i] === null || high[i] === null || low[i] === null || close[i] === null) {
+                skipped++;
+                return; // Skip rows with null data points; the resulting gaps are reported by the data-quality pass
+            }
+            bars.push({ time: ts, open: open[i], high: high[i], low: low[i], close: close[i], volume: volume[i] ?? 0 });
+        });
+        if (skipped > 0) {
+            console.warn(`Skipped ${skipped} Yahoo Finance row(s) with missing values for '${symbol}'.`);
+        }
+        return bars;
+    };
+
+    const getQuote = async (symbol: string): Promise<number> => {
+        const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?range=1d&interval=1m`;
+        const data = await yahooChartFetch(url);
+        const price = data?.chart?.result?.[0]?.meta?.regularMarketPrice;
+        if (!price) {
+            throw new NoDataError(`No live price found for ${symbol} in Yahoo Finance response.`);
+        }
+        return price;
+    };
+
+    const getCorporateActions = async (symbol: string, from: number, to: number): Promise<CorporateAction[]> => {
+        const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?period1=${from}&period2=${to}&interval=1d&events=div,splits`;
+        const data = await yahooChartFetch(url);
+        const events = data?.chart?.result?.[0]?.events ?? {};
+
+        const splits: CorporateAction[] = Object.values(events.splits ?? {}).map((s: any) => ({
+            type: 'split', time: s.date, ratio: s.numerator / s.denominator,
+        }));
+        const dividends: CorporateAction[] = Object.values(events.dividends ?? {}).map((d: any) => ({
+            type: 'dividend', time: d.date, amount: d.amount,
+        }));
+        return [...splits, ...dividends]
+            .filter(action => action.time && (action.ratio === undefined || isFinite(action.ratio)))
+            .sort((a, b) => a.time - b.time);
+    };
+
+    const search = async (query: string): Promise<SymbolSearchResult[]> => {
+        const url = `https://query1.finance.yahoo.com/v1/finance/search?q=${encodeURIComponent(query)}&quotesCount=10&newsCount=0`;
+        const data = await proxiedFetch(proxies, url, (d) => {
+            if (!Array.isArray(d?.quotes)) throw new Error('Yahoo Finance search response was malformed.');
+        });
+        return data.quotes
+            .filter((q: any) => q.symbol)
+            .map((q: any) => ({
+                symbol: q.symbol,
+                name: q.longname || q.shortname || q.symbol,
+                exchange: q.exchDisp || q.exchange,
+            }));
+    };
+
+    return {
+        id: 'yahoo',
+        name: 'Yahoo Finance',
+        capabilities: ['history', 'quote', 'search', 'corporateActions'],
+        getHistory,
+        getQuote,
+        search,
+        getCorporateActions,
+    };
+};
+
+export const yahooProvider = createYahooProvider(PROXIES);
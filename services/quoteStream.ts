@@ -0,0 +1,218 @@
+import { fetchLivePrice } from './marketDataService';
+import { BACKEND_URL } from './providers/backendProvider';
+import { FINNHUB_API_KEY, mapSymbolForFinnhub } from './providers/finnhubProvider';
+import { getMarketStatus, isPriceUpdating } from './exchangeCalendar';
+import { getInstrumentMetadata } from './instrumentMetadata';
+import { getPriceFormat, formatPlainPrice } from './priceFormat';
+
+/**
+ * Live quotes for the analyzed asset. Prices are streamed over a WebSocket when a
+ * transport is available (the self-hosted backend, a custom/mock feed or Finnhub's
+ * trade stream); dropped connections are retried with backoff, and polling takes
+ * over whenever the stream is unavailable or stays silent during market hours.
+ */
+
+// --- WIRE PROTOCOL ---
+
+// Spoken by the backend's /api/stream endpoint and the mock server in server/.
+export type StreamClientMessage = { type: 'subscribe' | 'unsubscribe'; symbol: string };
+
+export type StreamServerMessage =
+    | { type: 'tick'; symbol: string; price: number; time: number; volume?: number } // time in unix ms
+    | { type: 'error'; symbol?: string; message: string };
+
+export interface QuoteTick {
+    symbol: string;
+    price: number;
+    time: number; // unix ms
+    volume?: number;
+}
+
+// 'connecting' covers the initial connection and reconnect attempts; prices are polled meanwhile.
+export type QuoteFeedMode = 'streaming' | 'connecting' | 'polling' | 'halted';
+
+// --- TRANSPORTS ---
+
+interface StreamTransport {
+    id: string;
+    url: string;
+    // The transport's symbol for an app symbol, or null when it cannot stream it.
+    mapSymbol: (symbol: string) => string | null;
+    subscribeMessage: (streamSymbol: string) => string;
+    unsubscribeMessage: (streamSymbol: string) => string;
+    parse: (data: string, streamSymbol: string) => { ticks: QuoteTick[]; error?: string };
+}
+
+const createAppTransport = (id: string, url: string): StreamTransport => ({
+    id,
+    url,
+    mapSymbol: symbol => symbol,
+    subscribeMessage: symbol => JSON.stringify({ type: 'subscribe', symbol } satisfies StreamClientMessage),
+    unsubscribeMessage: symbol => JSON.stringify({ type: 'unsubscribe', symbol } satisfies StreamClientMessage),
+    parse: (data, streamSymbol) => {
+        const message = JSON.parse(data) as StreamServerMessage;
+        if (message.type === 'error' && (!message.symbol || message.symbol === streamSymbol)) return { ticks: [], error: message.message };
+        if (message.type === 'tick' && message.symbol === streamSymbol) {
+            return { ticks: [{ symbol: message.symbol, price: message.price, time: message.time, volume: message.volume }] };
+        }
+        return { ticks: [] };
+    },
+});
+
+const finnhubTransport: StreamTransport = {
+    id: 'finnhub',
+    url: `wss://ws.finnhub.io?token=${FINNHUB_API_KEY}`,
+    // Indices and futures are quoted through proxy ETFs on Finnhub, whose prices would be
+    // misleading here; Indian stocks are not on the free stream.
+    mapSymbol: symbol => mapSymbolForFinnhub(symbol) !== symbol || getInstrumentMetadata(symbol).exchangeCode === 'NSE' ? null : symbol,
+    subscribeMessage: symbol => JSON.stringify({ type: 'subscribe', symbol }),
+    unsubscribeMessage: symbol => JSON.stringify({ type: 'unsubscribe', symbol }),
+    parse: (data, streamSymbol) => {
+        const message = JSON.parse(data);
+        if (message.type === 'error') return { ticks: [], error: message.msg };
+        if (message.type !== 'trade' || !Array.isArray(message.data)) return { ticks: [] };
+        return {
+            ticks: message.data
+                .filter((trade: any) => trade.s === streamSymbol && typeof trade.p === 'number')
+                .map((trade: any) => ({ symbol: trade.s, price: trade.p, time: trade.t, volume: trade.v })),
+        };
+    },
+};
+
+// A ws:// URL for a custom or mock feed, or "off" to always poll.
+const QUOTE_STREAM_URL = process.env.QUOTE_STREAM_URL || '';
+
+export const resolveStreamTransport = (): StreamTransport | null => {
+    if (typeof WebSocket === 'undefined' || QUOTE_STREAM_URL === 'off') return null;
+    if (QUOTE_STREAM_URL) return createAppTransport('custom', QUOTE_STREAM_URL);
+    if (BACKEND_URL) return createAppTransport('backend', `${BACKEND_URL.replace(/^http/, 'ws')}/api/stream`);
+    if (FINNHUB_API_KEY) return finnhubTransport;
+    return null;
+};
+
+// --- SUBSCRIPTION ---
+
+const POLL_INTERVAL_MS = 5000;
+const STREAM_SILENCE_MS = 30000; // poll when a connected stream is quiet this long while the market is open
+const MAX_RECONNECT_ATTEMPTS = 5;
+const MAX_POLL_FAILURES = 5;
+
+const reconnectDelay = (attempt: number) => Math.min(30000, 1000 * 2 ** attempt);
+
+export interface QuoteHandlers {
+    onPrice: (price: string) => void;
+    onModeChange: (mode: QuoteFeedMode) => void;
+}
+
+/**
+ * Starts live price updates for a symbol and returns a function that stops them.
+ */
+export const subscribeToQuotes = (symbol: string, handlers: QuoteHandlers): (() => void) => {
+    const transport = resolveStreamTransport();
+    const streamSymbol = transport?.mapSymbol(symbol) ?? null;
+    const priceFormat = getPriceFormat(symbol);
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: number | null = null;
+    let stopped = false;
+    let streamAvailable = !!(transport && streamSymbol);
+    let streamOpen = false;
+    let reconnectAttempts = 0;
+    let lastTickAt = 0;
+    let pollFailures = 0;
+    let pollingHalted = false;
+    let mode: QuoteFeedMode | null = null;
+
+    const updateMode = () => {
+        const next: QuoteFeedMode = streamOpen ? 'streaming'
+            : streamAvailable ? 'connecting'
+            : pollingHalted ? 'halted' : 'polling';
+        if (next !== mode) {
+            mode = next;
+            handlers.onModeChange(next);
+        }
+    };
+
+    const abandonStream = (reason: string) => {
+        console.warn(`Quote stream unavailable for '${symbol}' (${reason}). Falling back to polling.`);
+        streamAvailable = false;
+        streamOpen = false;
+        socket?.close();
+        socket = null;
+        updateMode();
+    };
+
+    const connect = () => {
+        if (stopped || !streamAvailable) return;
+        const ws = new WebSocket(transport!.url);
+        socket = ws;
+
+        ws.onopen = () => {
+            streamOpen = true;
+            lastTickAt = Date.now();
+            ws.send(transport!.subscribeMessage(streamSymbol!));
+            updateMode();
+        };
+        ws.onmessage = (event) => {
+            let parsed: ReturnType<StreamTransport['parse']>;
+            try {
+                parsed = transport!.parse(String(event.data), streamSymbol!);
+            } catch {
+                return; // ignore malformed frames
+            }
+            if (parsed.error) {
+                abandonStream(parsed.error);
+                return;
+            }
+            const latest = parsed.ticks[parsed.ticks.length - 1];
+            if (latest) {
+                // Only a delivered tick proves the stream works, so the retry budget resets here.
+                reconnectAttempts = 0;
+                lastTickAt = Date.now();
+                handlers.onPrice(formatPlainPrice(latest.price, priceFormat));
+            }
+        };
+        ws.onclose = () => {
+            if (socket !== ws) return;
+            socket = null;
+            streamOpen = false;
+            if (stopped || !streamAvailable) return;
+            if (reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+                abandonStream(`${MAX_RECONNECT_ATTEMPTS} reconnect attempts failed`);
+                return;
+            }
+            updateMode();
+            reconnectTimer = window.setTimeout(connect, reconnectDelay(reconnectAttempts++));
+        };
+    };
+
+    const poll = async () => {
+        if (pollingHalted || !isPriceUpdating(getMarketStatus(symbol))) return;
+        if (streamOpen && Date.now() - lastTickAt < STREAM_SILENCE_MS) return;
+
+        const price = await fetchLivePrice(symbol);
+        if (stopped) return;
+        if (price) {
+            pollFailures = 0;
+            handlers.onPrice(price);
+        } else if (++pollFailures >= MAX_POLL_FAILURES) {
+            // Stop polling to prevent spamming the network; a live stream may still deliver prices.
+            console.warn(`Live price polling failed ${MAX_POLL_FAILURES} times for ${symbol}. Stopping updates.`);
+            pollingHalted = true;
+            updateMode();
+        }
+    };
+
+    updateMode();
+    connect();
+    const pollTimer = window.setInterval(poll, POLL_INTERVAL_MS);
+
+    return () => {
+        stopped = true;
+        window.clearInterval(pollTimer);
+        if (reconnectTimer) window.clearTimeout(reconnectTimer);
+        if (socket?.readyState === WebSocket.OPEN) socket.send(transport!.unsubscribeMessage(streamSymbol!));
+        socket?.close();
+        socket = null;
+    };
+};
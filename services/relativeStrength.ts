@@ -0,0 +1,111 @@
+import type { OhlcvBar, Instrument, BenchmarkComparison, RelativeStrengthPeriod, RelativeStrengthReturn, LineData } from '../types';
+
+/**
+ * Relative strength of an asset against its broad market and sector indices,
+ * computed from daily closes. Returns are measured over the same calendar window
+ * for both series, ending at the last date both have traded.
+ */
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+export const RELATIVE_STRENGTH_PERIODS: { period: RelativeStrengthPeriod; days: number }[] = [
+    { period: '1M', days: 30 },
+    { period: '3M', days: 91 },
+    { period: '6M', days: 182 },
+    { period: '12M', days: 365 },
+];
+
+// Daily history to request: the longest window plus room for holidays at its start.
+export const RELATIVE_STRENGTH_LOOKBACK_DAYS = 380;
+
+// --- RETURNS ---
+
+// The last bar at or before `time`, or null when the series starts after it.
+const barAsOf = (bars: OhlcvBar[], time: number): OhlcvBar | null => {
+    let low = 0;
+    let high = bars.length - 1;
+    let found: OhlcvBar | null = null;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (bars[mid].time <= time) {
+            found = bars[mid];
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return found;
+};
+
+const percentChange = (bars: OhlcvBar[], from: number, to: number): number | null => {
+    const start = barAsOf(bars, from);
+    const end = barAsOf(bars, to);
+    if (!start || !end || start === end || start.close <= 0) return null;
+    return (end.close / start.close - 1) * 100;
+};
+
+const validBars = (bars: OhlcvBar[]) => bars.filter(bar => isFinite(bar.close) && bar.close > 0);
+
+/**
+ * Compares an asset with one benchmark over each relative-strength period. The
+ * relative return is the change of the asset/benchmark ratio, so +10% means the
+ * asset gained 10% on the benchmark.
+ */
+export const compareWithBenchmark = (
+    assetBars: OhlcvBar[],
+    benchmarkBars: OhlcvBar[],
+    benchmark: Instrument,
+    kind: BenchmarkComparison['kind']
+): BenchmarkComparison => {
+    const asset = validBars(assetBars);
+    const index = validBars(benchmarkBars);
+    const end = Math.min(asset[asset.length - 1]?.time ?? 0, index[index.length - 1]?.time ?? 0);
+
+    const returns: RelativeStrengthReturn[] = RELATIVE_STRENGTH_PERIODS.map(({ period, days }) => {
+        const assetReturn = end ? percentChange(asset, end - days * DAY_SECONDS, end) : null;
+        const benchmarkReturn = end ? percentChange(index, end - days * DAY_SECONDS, end) : null;
+        const relativeReturn = assetReturn === null || benchmarkReturn === null
+            ? null
+            : ((1 + assetReturn / 100) / (1 + benchmarkReturn / 100) - 1) * 100;
+        return { period, assetReturn, benchmarkReturn, relativeReturn };
+    });
+
+    return { symbol: benchmark.symbol, name: benchmark.name, kind, returns };
+};
+
+// --- RATIO LINE ---
+
+/**
+ * The asset/benchmark close ratio at each asset bar, rebased to 100 at its first
+ * point. Each asset bar is paired with the benchmark's latest bar at or before
+ * it, so series from different trading calendars still line up.
+ */
+export const buildRatioLine = (assetBars: OhlcvBar[], benchmarkBars: OhlcvBar[]): LineData[] => {
+    const index = validBars(benchmarkBars);
+    const ratios: LineData[] = [];
+    for (const bar of validBars(assetBars)) {
+        const benchmarkBar = barAsOf(index, bar.time);
+        if (benchmarkBar) ratios.push({ time: bar.time, value: bar.close / benchmarkBar.close });
+    }
+    if (ratios.length === 0) return [];
+    const base = ratios[0].value;
+    return ratios.map(point => ({ time: point.time, value: (point.value / base) * 100 }));
+};
+
+// --- REPORTING ---
+
+export const formatReturn = (value: number | null): string =>
+    value === null ? 'N/A' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+export const describeRelativeStrengthForPrompt = (comparisons: BenchmarkComparison[]): string => {
+    if (comparisons.length === 0) return '';
+    const lines = comparisons.map(comparison => {
+        const periods = comparison.returns.map(r =>
+            `${r.period}: asset ${formatReturn(r.assetReturn)}, index ${formatReturn(r.benchmarkReturn)}, relative ${formatReturn(r.relativeReturn)}`);
+        return `- vs ${comparison.name} (${comparison.kind === 'broad' ? 'broad market' : 'sector'}): ${periods.join('; ')}`;
+    });
+    return `
+Context: Relative Strength (computed from daily closes; "relative" is the change of the asset/index price ratio):
+${lines.join('\n')}
+`;
+};
@@ -0,0 +1,122 @@
+import type { OhlcvBar } from '../types';
+import type { CandleInterval } from './marketDataService';
+import { getZonedParts, type ExchangeInfo } from './exchangeCalendar';
+
+/**
+ * Aggregates lower-interval bars into arbitrary higher intervals such as 4h,
+ * 2d or 2w. Intraday buckets are anchored to the exchange session open and never
+ * span two trading days; day buckets count trading days rather than calendar days.
+ */
+
+export type IntervalUnit = 'm' | 'h' | 'd' | 'w' | 'mo';
+
+export interface IntervalSpec {
+    value: number;
+    unit: IntervalUnit;
+    label: string; // normalized, e.g. "4h"
+}
+
+const UNIT_ALIASES: Record<string, IntervalUnit> = {
+    m: 'm', min: 'm', mins: 'm', minute: 'm', minutes: 'm',
+    h: 'h', hr: 'h', hrs: 'h', hour: 'h', hours: 'h',
+    d: 'd', day: 'd', days: 'd',
+    w: 'w', wk: 'w', week: 'w', weeks: 'w',
+    mo: 'mo', mon: 'mo', month: 'mo', months: 'mo',
+};
+
+export const parseIntervalSpec = (text: string): IntervalSpec | null => {
+    const match = text.trim().toLowerCase().match(/^(\d+)\s*([a-z]+)$/);
+    if (!match) return null;
+    const value = Number(match[1]);
+    const unit = UNIT_ALIASES[match[2]];
+    if (!unit || value <= 0) return null;
+    return { value, unit, label: `${value}${unit}` };
+};
+
+export const isIntradaySpec = (spec: IntervalSpec) => spec.unit === 'm' || spec.unit === 'h';
+
+const specMinutes = (spec: IntervalSpec) => spec.unit === 'h' ? spec.value * 60 : spec.value;
+
+// The longest history each provider interval is available for (Yahoo Finance limits).
+export const MAX_LOOKBACK_DAYS: Partial<Record<CandleInterval, number>> = {
+    '1m': 7, '5m': 60, '15m': 60, '30m': 60, '1h': 730,
+};
+
+/**
+ * Picks the coarsest provider interval that divides the target evenly, so the
+ * fewest bars are downloaded for the requested resolution.
+ */
+export const getBaseInterval = (spec: IntervalSpec): CandleInterval => {
+    switch (spec.unit) {
+        case 'm':
+        case 'h': {
+            const minutes = specMinutes(spec);
+            const bases: [CandleInterval, number][] = [['1h', 60], ['30m', 30], ['15m', 15], ['5m', 5], ['1m', 1]];
+            return bases.find(([, size]) => minutes % size === 0)![0];
+        }
+        case 'd': return '1d';
+        case 'w': return '1wk';
+        case 'mo': return '1mo';
+    }
+};
+
+const DAY_MS = 86400000;
+
+const bucketKeyFor = (spec: IntervalSpec, exchange: ExchangeInfo | null) => {
+    const timeZone = exchange?.timeZone ?? 'UTC';
+    const sessionStart = exchange?.sessions[0]?.start ?? 0;
+    const tradingDayIndex = new Map<string, number>();
+
+    return (bar: OhlcvBar): string => {
+        const parts = getZonedParts(new Date(bar.time * 1000), timeZone);
+        const [y, m, d] = parts.date.split('-').map(Number);
+        switch (spec.unit) {
+            case 'm':
+            case 'h': {
+                const slot = Math.floor((parts.minutes - sessionStart) / specMinutes(spec));
+                return `${parts.date}#${slot}`;
+            }
+            case 'd': {
+                if (!tradingDayIndex.has(parts.date)) tradingDayIndex.set(parts.date, tradingDayIndex.size);
+                return `d${Math.floor(tradingDayIndex.get(parts.date)! / spec.value)}`;
+            }
+            case 'w': {
+                // Weeks start on Monday; 1970-01-05 was a Monday.
+                const days = Math.floor((Date.UTC(y, m - 1, d) - Date.UTC(1970, 0, 5)) / DAY_MS);
+                return `w${Math.floor(Math.floor(days / 7) / spec.value)}`;
+            }
+            case 'mo':
+                return `m${Math.floor((y * 12 + (m - 1)) / spec.value)}`;
+        }
+    };
+};
+
+/**
+ * Resamples time-ordered bars. Each output bar is stamped with the time of the
+ * first source bar in its bucket so it lines up with the source data on the chart.
+ */
+export const resampleBars = (bars: OhlcvBar[], spec: IntervalSpec, exchange: ExchangeInfo | null = null): OhlcvBar[] => {
+    const keyOf = bucketKeyFor(spec, exchange);
+    const result: OhlcvBar[] = [];
+    let currentKey: string | null = null;
+
+    for (const bar of bars) {
+        const key = keyOf(bar);
+        const last = result[result.length - 1];
+        if (key !== currentKey || !last) {
+            result.push({ ...bar });
+            currentKey = key;
+        } else {
+            last.high = Math.max(last.high, bar.high);
+            last.low = Math.min(last.low, bar.low);
+            last.close = bar.close;
+            last.volume += bar.volume;
+        }
+    }
+    return result;
+};
+
+const UNIT_NAMES: Record<IntervalUnit, string> = { m: 'minute', h: 'hour', d: 'trading-day', w: 'week', mo: 'month' };
+
+// e.g. "4-hour", "2-week"
+export const describeIntervalSpec = (spec: IntervalSpec): string => `${spec.value}-${UNIT_NAMES[spec.unit]}`;
@@ -0,0 +1,272 @@
+import type { ChartData, CriticalLevelsData, LevelCheck, LevelSource, OhlcvBar, PivotLevels, PriceFormat, PriceLevel, SummaryTableData, SupportResistanceData, VolumeProfile } from '../types';
+import { barsFromChartData, atr, last } from './indicators';
+import { inferBarSpacing } from './dataQuality';
+import { formatPlainPrice } from './priceFormat';
+
+/**
+ * Support and resistance candidates computed from the candles: pivot points of
+ * the last completed period, clusters of swing highs and lows, round numbers
+ * and high-volume price areas. Candidates that fall within one tolerance band
+ * merge into a single level, which is scored by how often and how recently
+ * price tested it and by how many methods agree on it.
+ */
+
+interface Candidate {
+    price: number;
+    source: LevelSource;
+    label: string;
+}
+
+export interface LevelAnalysis extends Omit<SupportResistanceData, 'checks'> {
+    candidates: PriceLevel[]; // every merged level, including those outside the top selection
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+const LOOKBACK_BARS = 250;
+const SWING_WINDOW = 3;      // candles on each side a swing high/low must exceed
+const LEVELS_PER_SIDE = 4;
+
+// --- PIVOTS ---
+
+interface PivotPeriod {
+    label: string;
+    key: (time: number) => string | number;
+}
+
+// Pivots come from the period one step above the candles: sessions for intraday, weeks for daily, and so on.
+const pivotPeriodFor = (bars: OhlcvBar[]): PivotPeriod => {
+    const spacing = inferBarSpacing(bars);
+    if (spacing < 20 * 60 * 60) return { label: 'previous session', key: time => Math.floor(time / DAY_SECONDS) };
+    // Weeks start on Monday; the epoch was a Thursday.
+    if (spacing < 2 * DAY_SECONDS) return { label: 'previous week', key: time => Math.floor((time / DAY_SECONDS + 3) / 7) };
+    if (spacing < 10 * DAY_SECONDS) return { label: 'previous month', key: time => new Date(time * 1000).toISOString().slice(0, 7) };
+    return { label: 'previous year', key: time => new Date(time * 1000).getUTCFullYear() };
+};
+
+export const computePivots = (high: number, low: number, close: number): PivotLevels[] => {
+    const pivot = (high + low + close) / 3;
+    const range = high - low;
+    return [
+        {
+            method: 'classic',
+            pivot,
+            resistance: [2 * pivot - low, pivot + range, high + 2 * (pivot - low)],
+            support: [2 * pivot - high, pivot - range, low - 2 * (high - pivot)],
+        },
+        {
+            method: 'fibonacci',
+            pivot,
+            resistance: [0.382, 0.618, 1].map(ratio => pivot + ratio * range),
+            support: [0.382, 0.618, 1].map(ratio => pivot - ratio * range),
+        },
+        {
+            method: 'camarilla',
+            pivot,
+            resistance: [12, 6, 4, 2].map(divisor => close + (range * 1.1) / divisor),
+            support: [12, 6, 4, 2].map(divisor => close - (range * 1.1) / divisor),
+        },
+    ];
+};
+
+// The high, low and close of the last completed period, or null with fewer than two periods of data.
+const previousPeriod = (bars: OhlcvBar[], period: PivotPeriod): { high: number; low: number; close: number } | null => {
+    const currentKey = period.key(bars[bars.length - 1].time);
+    let end = bars.length - 1;
+    while (end >= 0 && period.key(bars[end].time) === currentKey) end--;
+    if (end < 0) return null;
+    const previousKey = period.key(bars[end].time);
+    let start = end;
+    while (start > 0 && period.key(bars[start - 1].time) === previousKey) start--;
+    const window = bars.slice(start, end + 1);
+    return {
+        high: Math.max(...window.map(bar => bar.high)),
+        low: Math.min(...window.map(bar => bar.low)),
+        close: window[window.length - 1].close,
+    };
+};
+
+// --- CANDIDATES ---
+
+const swingCandidates = (bars: OhlcvBar[], tolerance: number): Candidate[] => {
+    const highs: number[] = [];
+    const lows: number[] = [];
+    for (let i = SWING_WINDOW; i < bars.length - SWING_WINDOW; i++) {
+        const neighbours = [...bars.slice(i - SWING_WINDOW, i), ...bars.slice(i + 1, i + 1 + SWING_WINDOW)];
+        if (neighbours.every(bar => bar.high < bars[i].high)) highs.push(bars[i].high);
+        if (neighbours.every(bar => bar.low > bars[i].low)) lows.push(bars[i].low);
+    }
+    const describe = (prices: number[], kind: string): Candidate[] =>
+        groupByPrice(prices.map(price => ({ price })), tolerance).map(group => ({
+            price: mean(group.map(item => item.price)),
+            source: 'swing',
+            label: group.length > 1 ? `${group.length} swing ${kind}s` : `Swing ${kind}`,
+        }));
+    return [...describe(highs, 'high'), ...describe(lows, 'low')];
+};
+
+// A step of 1, 2 or 5 times a power of ten, about 5% of the price.
+const roundNumberStep = (price: number): number => {
+    const target = price * 0.05;
+    const magnitude = 10 ** Math.floor(Math.log10(target));
+    return [1, 2, 5, 10].map(multiple => multiple * magnitude).find(step => step >= target) ?? 10 * magnitude;
+};
+
+const roundNumberCandidates = (close: number): Candidate[] => {
+    const step = roundNumberStep(close);
+    const below = Math.floor(close / step) * step;
+    const prices = [below - step, below, below + step, below + 2 * step].filter(price => price > 0);
+    return prices.map(price => ({ price: Number(price.toPrecision(12)), source: 'round', label: 'Round number' }));
+};
+
+// Price areas where the most volume traded, and the edges of the value area, from the report's volume profile.
+const volumeCandidates = (profile: VolumeProfile | null): Candidate[] => {
+    if (!profile) return [];
+    return [
+        { price: profile.poc, source: 'volume', label: 'Volume point of control' },
+        ...profile.highVolumeNodes.map(price => ({ price, source: 'volume' as const, label: 'High-volume node' })),
+        { price: profile.valueAreaHigh, source: 'volume', label: 'Value area high' },
+        { price: profile.valueAreaLow, source: 'volume', label: 'Value area low' },
+    ];
+};
+
+// --- MERGING & SCORING ---
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Groups prices (sorted ascending) while each stays within `tolerance` of its group's average.
+const groupByPrice = <T extends { price: number }>(items: T[], tolerance: number): T[][] => {
+    const groups: T[][] = [];
+    for (const item of [...items].sort((a, b) => a.price - b.price)) {
+        const group = groups[groups.length - 1];
+        if (group && item.price - mean(group.map(g => g.price)) <= tolerance) group.push(item);
+        else groups.push([item]);
+    }
+    return groups;
+};
+
+// Separate tests of a level: runs of consecutive candles whose high or low reached it count once.
+const countTouches = (bars: OhlcvBar[], price: number, tolerance: number) => {
+    let touches = 0;
+    let lastTouch: number | null = null;
+    let wasTouching = false;
+    for (let i = 0; i < bars.length; i++) {
+        const isTouching = Math.abs(bars[i].high - price) <= tolerance || Math.abs(bars[i].low - price) <= tolerance;
+        if (isTouching && !wasTouching) touches++;
+        if (isTouching) lastTouch = i;
+        wasTouching = isTouching;
+    }
+    return { touches, lastTouchBarsAgo: lastTouch === null ? null : bars.length - 1 - lastTouch };
+};
+
+/**
+ * Up to 50 points for touches (five or more score in full), 30 for how recent
+ * the last touch was and 20 for other methods agreeing on the level.
+ */
+const scoreLevel = (touches: number, lastTouchBarsAgo: number | null, sourceCount: number, lookback: number): number => {
+    const touchScore = (Math.min(touches, 5) / 5) * 50;
+    const recencyScore = lastTouchBarsAgo === null ? 0 : (1 - lastTouchBarsAgo / lookback) * 30;
+    const confluenceScore = Math.min(sourceCount - 1, 2) * 10;
+    return Math.round(touchScore + recencyScore + confluenceScore);
+};
+
+// --- ANALYSIS ---
+
+/**
+ * `volumeProfile` is the report's own profile, so the volume levels here are
+ * the same point of control and value area shown elsewhere.
+ */
+export const computeSupportResistance = (chartData: ChartData, volumeProfile: VolumeProfile | null): LevelAnalysis | null => {
+    const allBars = barsFromChartData(chartData);
+    const bars = allBars.slice(-LOOKBACK_BARS);
+    const close = bars[bars.length - 1]?.close;
+    if (close === undefined || bars.length < SWING_WINDOW * 2 + 1) return null;
+
+    // Levels within half an ATR of each other are one zone.
+    const atrValue = last(atr(bars, 14));
+    const tolerance = Math.max(atrValue !== null ? atrValue * 0.5 : close * 0.005, close * 0.001);
+
+    const period = pivotPeriodFor(allBars);
+    const previous = previousPeriod(allBars, period);
+    const pivots = previous ? computePivots(previous.high, previous.low, previous.close) : [];
+    const classic = pivots.find(p => p.method === 'classic');
+    const pivotCandidates: Candidate[] = classic
+        ? [
+            { price: classic.pivot, source: 'pivot', label: 'Classic P' },
+            ...classic.resistance.slice(0, 2).map((price, i) => ({ price, source: 'pivot' as const, label: `Classic R${i + 1}` })),
+            ...classic.support.slice(0, 2).map((price, i) => ({ price, source: 'pivot' as const, label: `Classic S${i + 1}` })),
+        ]
+        : [];
+
+    const candidates = [...swingCandidates(bars, tolerance), ...pivotCandidates, ...roundNumberCandidates(close), ...volumeCandidates(volumeProfile)];
+    const levels: PriceLevel[] = groupByPrice(candidates, tolerance).map(group => {
+        const price = mean(group.map(c => c.price));
+        const sources = [...new Set(group.map(c => c.source))];
+        const { touches, lastTouchBarsAgo } = countTouches(bars, price, tolerance);
+        return {
+            price,
+            type: price >= close ? 'resistance' : 'support',
+            sources,
+            labels: group.map(c => c.label),
+            touches,
+            lastTouchBarsAgo,
+            score: scoreLevel(touches, lastTouchBarsAgo, sources.length, bars.length),
+        };
+    });
+
+    const strongest = (type: PriceLevel['type']) =>
+        levels.filter(level => level.type === type).sort((a, b) => b.score - a.score).slice(0, LEVELS_PER_SIDE);
+    return {
+        levels: [...strongest('resistance'), ...strongest('support')].sort((a, b) => b.price - a.price),
+        pivots,
+        pivotPeriod: period.label,
+        tolerance,
+        lookbackBars: bars.length,
+        candidates: levels,
+    };
+};
+
+// --- CHECKS ---
+
+const parseLevel = (value: string): number | null => {
+    const match = value?.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+    return match ? parseFloat(match[0]) : null;
+};
+
+/**
+ * Matches each of the analysis' levels with the nearest computed level within
+ * the tolerance band, or none.
+ */
+export const checkModelLevels = (
+    criticalLevels: CriticalLevelsData,
+    summary: SummaryTableData,
+    analysis: LevelAnalysis
+): LevelCheck[] => {
+    const reported: [string, string][] = [
+        ['R2', criticalLevels.r2], ['R1', criticalLevels.r1], ['S1', criticalLevels.s1], ['S2', criticalLevels.s2],
+        ['Key resistance', summary.keyResistance], ['Key support', summary.keySupport],
+    ];
+    return reported.map(([label, value]) => {
+        const price = parseLevel(value);
+        const nearest = price === null ? null : analysis.candidates
+            .filter(level => Math.abs(level.price - price) <= analysis.tolerance)
+            .sort((a, b) => Math.abs(a.price - price) - Math.abs(b.price - price))[0] ?? null;
+        return { label, value, match: nearest };
+    });
+};
+
+// --- REPORTING ---
+
+export const describeSupportResistanceForPrompt = (analysis: LevelAnalysis | null, priceFormat: PriceFormat): string => {
+    if (!analysis || analysis.levels.length === 0) return '';
+    const price = (value: number) => formatPlainPrice(value, priceFormat);
+    const levels = analysis.levels.map(level => {
+        const recency = level.lastTouchBarsAgo === null ? 'untested' : level.lastTouchBarsAgo === 0 ? 'last touched on the last candle' : `last touched ${level.lastTouchBarsAgo} candles ago`;
+        return `- ${level.type === 'resistance' ? 'Resistance' : 'Support'} ${price(level.price)} (score ${level.score}; ${level.labels.join(', ')}; ${level.touches} touches, ${recency})`;
+    });
+    const pivots = analysis.pivots.map(p =>
+        `- ${p.method[0].toUpperCase()}${p.method.slice(1)}: P ${price(p.pivot)}; ${p.resistance.map((r, i) => `R${i + 1} ${price(r)}`).join(', ')}; ${p.support.map((s, i) => `S${i + 1} ${price(s)}`).join(', ')}`);
+    return `
+Context: Computed Support/Resistance Candidates (from the last ${analysis.lookbackBars} candles; levels within ${price(analysis.tolerance)} are merged; score 0-100 from touches, recency and agreement between methods):
+${levels.join('\n')}${pivots.length > 0 ? `\nPivot points (${analysis.pivotPeriod}):\n${pivots.join('\n')}` : ''}
+`;
+};
@@ -0,0 +1,150 @@
+import type { Instrument, SymbolSearchResult } from '../types';
+import { INSTRUMENTS } from '../data/instruments';
+import { searchSymbols, fetchLivePrice } from './marketDataService';
+
+/**
+ * Fuzzy search over the local instrument master. Matches on symbol, name, ISIN
+ * and aliases are ranked from exact to prefix to substring, followed by
+ * in-order character matches and one- or two-letter typos.
+ */
+
+// --- INDEX ---
+
+interface IndexedInstrument {
+    instrument: Instrument;
+    keys: string[];       // symbol, bare ticker, ISIN and aliases
+    name: string;
+    nameTokens: string[];
+}
+
+const normalize = (text: string) =>
+    text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9&^=.-]+/g, ' ').trim();
+
+// "RELIANCE.NS" -> "reliance", "^NSEI" -> "nsei", "GC=F" -> "gc"
+const bareTicker = (symbol: string) => normalize(symbol).replace(/^\^/, '').replace(/(\.[a-z]+|=f)$/, '');
+
+const indexInstrument = (instrument: Instrument): IndexedInstrument => {
+    const name = normalize(instrument.name);
+    return {
+        instrument,
+        keys: [instrument.symbol, bareTicker(instrument.symbol), instrument.isin ?? '', ...(instrument.aliases ?? [])]
+            .map(normalize)
+            .filter(Boolean),
+        name,
+        nameTokens: name.split(' '),
+    };
+};
+
+const levenshtein = (a: string, b: string): number => {
+    let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const row = [i];
+        for (let j = 1; j <= b.length; j++) {
+            row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        prev = row;
+    }
+    return prev[b.length];
+};
+
+// Characters of the query appear in order; tighter spans score higher (0-1).
+const subsequenceScore = (query: string, text: string): number => {
+    let start = -1;
+    let position = 0;
+    for (const char of query) {
+        const found = text.indexOf(char, position);
+        if (found === -1) return 0;
+        if (start === -1) start = found;
+        position = found + 1;
+    }
+    return query.length / (position - start);
+};
+
+const scoreInstrument = (entry: IndexedInstrument, query: string, queryTokens: string[]): number => {
+    if (entry.keys.includes(query)) return 100;
+    if (entry.name === query) return 95;
+    if (entry.keys.some(key => key.startsWith(query))) return 85;
+    if (entry.name.startsWith(query)) return 80;
+    if (queryTokens.every(token => entry.nameTokens.some(word => word.startsWith(token)))) return 70;
+    if (entry.name.includes(query)) return 55;
+
+    let best = 0;
+    if (query.length >= 4) {
+        const maxEdits = query.length >= 7 ? 2 : 1;
+        for (const candidate of [...entry.keys, ...entry.nameTokens]) {
+            if (Math.abs(candidate.length - query.length) > maxEdits) continue;
+            const distance = levenshtein(query, candidate);
+            if (distance <= maxEdits) best = Math.max(best, 50 - distance * 10);
+        }
+    }
+    if (query.length >= 3) {
+        best = Math.max(best, Math.round(35 * subsequenceScore(query.replace(/ /g, ''), entry.name.replace(/ /g, ''))));
+    }
+    return best >= 20 ? best : 0;
+};
+
+export const createInstrumentIndex = (instruments: Instrument[]) => {
+    const entries = instruments.map(indexInstrument);
+    const bySymbol = new Map(instruments.map(instrument => [instrument.symbol.toUpperCase(), instrument]));
+
+    return {
+        get: (symbol: string): Instrument | undefined => bySymbol.get(symbol.trim().toUpperCase()),
+        search: (text: string, limit = 8): Instrument[] => {
+            const query = normalize(text);
+            if (!query) return [];
+            const queryTokens = query.split(' ');
+            return entries
+                .map(entry => ({ entry, score: scoreInstrument(entry, query, queryTokens) }))
+                .filter(match => match.score > 0)
+                .sort((a, b) => b.score - a.score || a.entry.instrument.symbol.length - b.entry.instrument.symbol.length)
+                .slice(0, limit)
+                .map(match => match.entry.instrument);
+        },
+    };
+};
+
+export const instrumentIndex = createInstrumentIndex(INSTRUMENTS);
+
+// --- RECENT SYMBOLS ---
+
+const RECENT_SYMBOLS_KEY = 'champion-chartist:recent-symbols';
+const MAX_RECENT_SYMBOLS = 8;
+
+// Recent symbols are a convenience; storage failures (private mode, quota) are ignored.
+export const getRecentSymbols = (): SymbolSearchResult[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(RECENT_SYMBOLS_KEY) ?? '[]');
+        return Array.isArray(stored) ? stored.filter(item => typeof item?.symbol === 'string') : [];
+    } catch {
+        return [];
+    }
+};
+
+export const rememberSymbol = (result: SymbolSearchResult) => {
+    try {
+        const recent = [result, ...getRecentSymbols().filter(item => item.symbol !== result.symbol)].slice(0, MAX_RECENT_SYMBOLS);
+        localStorage.setItem(RECENT_SYMBOLS_KEY, JSON.stringify(recent));
+    } catch {
+        // ignore
+    }
+};
+
+// --- FREE-FORM TICKERS ---
+
+/**
+ * Resolves a typed ticker that is not in the instrument master. The active data
+ * provider must either list it in its search results or return a quote for it.
+ */
+export const validateSymbol = async (input: string): Promise<SymbolSearchResult | null> => {
+    const symbol = input.trim().toUpperCase();
+    if (!symbol) return null;
+
+    const local = instrumentIndex.get(symbol);
+    if (local) return local;
+
+    const remote = await searchSymbols(symbol);
+    const exact = remote.find(result => result.symbol.toUpperCase() === symbol);
+    if (exact) return exact;
+
+    return (await fetchLivePrice(symbol)) ? { symbol, name: symbol } : null;
+};
@@ -0,0 +1,103 @@
+import type { OhlcvBar, PriceFormat, VolumeProfile, VolumeProfileBin } from '../types';
+import { formatPlainPrice } from './priceFormat';
+
+/**
+ * Volume profile: traded volume binned by price, with each candle's volume
+ * spread evenly across its high-low range. The point of control is the
+ * busiest bin; the value area grows from it towards the busier neighbour until
+ * it holds 70% of the volume. High- and low-volume nodes are local peaks and
+ * troughs of the profile.
+ */
+
+const PROFILE_BINS = 50;
+const VALUE_AREA_SHARE = 0.7;
+const NODE_WINDOW = 2;          // bins on each side a node must exceed (or undercut)
+const HIGH_NODE_SHARE = 0.6;    // of the point of control's volume
+const LOW_NODE_SHARE = 0.5;     // of the average bin volume
+const MAX_NODES = 3;
+
+const binPrice = (bin: VolumeProfileBin) => (bin.low + bin.high) / 2;
+
+// The first nodes of a ranked list, skipping those next to one already taken (one node per peak or trough).
+const distinctNodes = (ranked: number[], count = MAX_NODES): number[] =>
+    ranked.reduce<number[]>((taken, i) => (taken.length < count && taken.every(t => Math.abs(t - i) > NODE_WINDOW) ? [...taken, i] : taken), []);
+
+// Indexes of bins that are the extreme of their neighbourhood, ignoring the edges.
+const localExtremes = (bins: VolumeProfileBin[], isMore: (a: number, b: number) => boolean): number[] => {
+    const indexes: number[] = [];
+    for (let i = NODE_WINDOW; i < bins.length - NODE_WINDOW; i++) {
+        let extreme = true;
+        for (let j = i - NODE_WINDOW; j <= i + NODE_WINDOW && extreme; j++) {
+            if (j !== i && !isMore(bins[i].volume, bins[j].volume)) extreme = false;
+        }
+        if (extreme) indexes.push(i);
+    }
+    return indexes;
+};
+
+export const computeVolumeProfile = (bars: OhlcvBar[], binCount = PROFILE_BINS): VolumeProfile | null => {
+    const total = bars.reduce((sum, bar) => sum + bar.volume, 0);
+    if (bars.length === 0 || total <= 0) return null;
+    const low = Math.min(...bars.map(bar => bar.low));
+    const high = Math.max(...bars.map(bar => bar.high));
+    if (high <= low) return null;
+
+    const binSize = (high - low) / binCount;
+    const bins: VolumeProfileBin[] = Array.from({ length: binCount }, (_, i) => ({ low: low + i * binSize, high: low + (i + 1) * binSize, volume: 0 }));
+    for (const bar of bars) {
+        const first = Math.min(binCount - 1, Math.floor((bar.low - low) / binSize));
+        const last = Math.min(binCount - 1, Math.floor((bar.high - low) / binSize));
+        for (let i = first; i <= last; i++) bins[i].volume += bar.volume / (last - first + 1);
+    }
+
+    const pocIndex = bins.reduce((best, bin, i) => (bin.volume > bins[best].volume ? i : best), 0);
+    let [lower, upper] = [pocIndex, pocIndex];
+    let inside = bins[pocIndex].volume;
+    while (inside < total * VALUE_AREA_SHARE && (lower > 0 || upper < binCount - 1)) {
+        const below = lower > 0 ? bins[lower - 1].volume : -1;
+        const above = upper < binCount - 1 ? bins[upper + 1].volume : -1;
+        if (above >= below) inside += bins[++upper].volume;
+        else inside += bins[--lower].volume;
+    }
+
+    const pocVolume = bins[pocIndex].volume;
+    const averageVolume = total / binCount;
+    // Ranked behind the point of control, so no node sits on its peak.
+    const highVolumeNodes = distinctNodes([pocIndex, ...localExtremes(bins, (a, b) => a >= b)
+        .filter(i => bins[i].volume >= pocVolume * HIGH_NODE_SHARE)
+        .sort((a, b) => bins[b].volume - bins[a].volume)], MAX_NODES + 1)
+        .slice(1)
+        .map(i => binPrice(bins[i]));
+    const lowVolumeNodes = distinctNodes(localExtremes(bins, (a, b) => a <= b)
+        .filter(i => bins[i].volume <= averageVolume * LOW_NODE_SHARE)
+        .sort((a, b) => bins[a].volume - bins[b].volume))
+        .map(i => binPrice(bins[i]));
+
+    return {
+        bins,
+        poc: binPrice(bins[pocIndex]),
+        valueAreaHigh: bins[upper].high,
+        valueAreaLow: bins[lower].low,
+        valueAreaShare: VALUE_AREA_SHARE,
+        highVolumeNodes,
+        lowVolumeNodes,
+        lookbackBars: bars.length,
+    };
+};
+
+// Where a price sits relative to the value area, e.g. "inside the value area".
+export const valueAreaPosition = (price: number, profile: VolumeProfile): string =>
+    price > profile.valueAreaHigh ? 'above the value area' : price < profile.valueAreaLow ? 'below the value area' : 'inside the value area';
+
+export const describeVolumeProfileForPrompt = (profile: VolumeProfile | null, close: number | undefined, priceFormat: PriceFormat): string => {
+    if (!profile) return '';
+    const price = (value: number) => formatPlainPrice(value, priceFormat);
+    const nodes = (prices: number[]) => (prices.length ? prices.map(price).join(', ') : 'none');
+    return `
+Context: Volume Profile (last ${profile.lookbackBars} candles, ${profile.bins.length} price bins):
+- Point of control: ${price(profile.poc)}
+- Value area (${Math.round(profile.valueAreaShare * 100)}% of volume): ${price(profile.valueAreaLow)} - ${price(profile.valueAreaHigh)}${close !== undefined ? `; the last close is ${valueAreaPosition(close, profile)}` : ''}
+- High-volume nodes: ${nodes(profile.highVolumeNodes)}
+- Low-volume nodes: ${nodes(profile.lowVolumeNodes)}
+`;
+};
@@ -8,6 +8,7 @@ export interface SummaryTableData {
   keyResistance: string;
   primaryPattern: string;
   rsi14: string;
+  rsiPeriod?: number; // period of the 'rsi14' reading; 14 when absent
   macdSignal: string;
   overallSignal: 'BUY' | 'SELL' | 'HOLD';
   convictionLevel: 'High' | 'Medium' | 'Low';
@@ -42,6 +43,10 @@ export interface Indicator {
   value: string;
   signal: IndicatorSignal;
   interpretation: string;
+  source?: 'computed' | 'model'; // computed from the candles, or reported by the analysis unverified
+  discrepancy?: string;          // what the analysis claimed when it disagreed with the computed value
+  kind?: IndicatorId;            // set on computed rows
+  params?: number[];             // the computed row's parameters, e.g. [12, 26, 9]
 }
 
 export interface ChartPatternData {
@@ -59,6 +64,81 @@ export interface ChartPatternData {
     description: string;
   };
   rsiDivergenceAlerts: string[];
+  detected?: DetectedPattern[]; // found geometrically in the candles
+  check?: PatternCheck;         // how the active pattern compares with them
+  divergences?: Divergence[];   // computed by services/divergence.ts; their alerts replace the analysis' own
+}
+
+export type DivergenceIndicator = 'RSI' | 'MACD' | 'OBV';
+
+// One end of a divergence: a price swing and the indicator's value on the same candle.
+export interface DivergencePoint {
+  time: number;
+  price: number;
+  value: number;
+}
+
+// Regular divergences warn of a reversal; hidden ones of a trend continuation.
+export interface Divergence {
+  indicator: DivergenceIndicator;
+  kind: 'regular' | 'hidden';
+  bias: 'bullish' | 'bearish';
+  from: DivergencePoint;
+  to: DivergencePoint;
+  alert: string;
+}
+
+export type ChartPatternType =
+  | 'head-and-shoulders' | 'inverse-head-and-shoulders' | 'double-top' | 'double-bottom'
+  | 'ascending-triangle' | 'descending-triangle' | 'symmetrical-triangle'
+  | 'bull-flag' | 'bear-flag' | 'rising-wedge' | 'falling-wedge'
+  | 'ascending-channel' | 'descending-channel' | 'horizontal-channel';
+
+export interface PatternPoint {
+  time: number;
+  price: number;
+  label: string; // e.g. "LS", "H", "RS" or "T1"
+}
+
+export interface PatternLine {
+  label: string;                      // e.g. "Neckline", "Upper boundary"
+  from: { time: number; price: number };
+  to: { time: number; price: number }; // extended to the last candle
+}
+
+// A pattern found in the candles by services/chartPatterns.ts.
+export interface DetectedPattern {
+  type: ChartPatternType;
+  name: string;           // e.g. "Head & Shoulders"
+  bias: 'bullish' | 'bearish' | 'neutral';
+  status: 'forming' | 'confirmed' | 'failed'; // confirmed once a close breaks the breakout level; failed if it broke the other way
+  pivots: PatternPoint[];
+  lines: PatternLine[];
+  breakoutLevel: number;  // price level whose break completes the pattern, as of the last candle
+  target: number;         // measured-move target from the breakout level
+  startTime: number;
+  endTime: number;
+}
+
+export interface PatternCheck {
+  verdict: 'confirmed' | 'related' | 'unconfirmed' | 'none'; // related: same direction but a different pattern
+  message: string;
+  match?: DetectedPattern;
+}
+
+export type CandlestickPatternType =
+  | 'doji' | 'hammer' | 'hanging-man' | 'inverted-hammer' | 'shooting-star'
+  | 'bullish-engulfing' | 'bearish-engulfing' | 'bullish-harami' | 'bearish-harami'
+  | 'morning-star' | 'evening-star' | 'inside-bar' | 'outside-bar';
+
+// A candlestick pattern completed on the candle at `time`, found by services/candlestickPatterns.ts.
+export interface CandlestickSignal {
+  type: CandlestickPatternType;
+  name: string;        // e.g. "Bullish Engulfing"
+  bias: 'bullish' | 'bearish' | 'neutral';
+  time: number;        // the pattern's last candle
+  candles: number;     // how many candles form the pattern
+  description: string;
 }
 
 export interface TradeSetup {
@@ -69,35 +149,179 @@ export interface TradeSetup {
   risk: string;
 }
 
+export interface FibonacciLevel {
+  ratio: number; // e.g. 0.618 or 1.272
+  price: number;
+  kind: 'retracement' | 'extension';
+}
+
+// Retracements and extensions of the dominant swing, from services/fibonacci.ts.
+export interface FibonacciData {
+  direction: 'up' | 'down'; // up: the swing low came first
+  swingHigh: { time: number; price: number };
+  swingLow: { time: number; price: number };
+  levels: FibonacciLevel[];  // retracements, then extensions
+  lookbackBars: number;
+}
+
 export interface TradeSetupData {
   bullish: TradeSetup;
   bearish: TradeSetup;
 }
 
+export type ConfluenceFactorId = 'trend' | 'momentum' | 'volume' | 'levels' | 'patterns' | 'multiTimeframe';
+
+// One piece of evidence behind a factor's score.
+export interface ConfluenceSignal {
+  label: string;  // e.g. "Price above the 50-period SMA"
+  value: number;  // -1 (fully bearish) to 1 (fully bullish)
+}
+
+export interface ConfluenceFactor {
+  id: ConfluenceFactorId;
+  name: string;
+  signals: ConfluenceSignal[];
+  score: number | null; // mean of the signal values; null when the factor has no signals
+}
+
+// Relative weights; only their proportions matter.
+export type ConfluenceWeights = Record<ConfluenceFactorId, number>;
+
+// How the analysis' overall signal compares with the computed score.
+export interface ConfluenceCheck {
+  verdict: 'agrees' | 'differs' | 'opposes'; // opposes: BUY against SELL or the reverse
+  computedSignal: SummaryTableData['overallSignal'];
+  message: string;
+}
+
 export interface ConfluenceData {
   bullishSignals: number;
   bearishSignals: number;
   neutralSignals: number;
   overallScore: number;
+  // Set when computed by services/confluence.ts; the score then runs from 0 (bearish) through 50 to 100 (bullish).
+  factors?: ConfluenceFactor[];
+  weights?: ConfluenceWeights;
+  check?: ConfluenceCheck;
 }
 
 export interface RiskFactorData {
   factors: string[];
 }
 
+export type TimeframeKey = 'daily' | 'weekly' | 'monthly';
+
+export type TrendDirection = 'Uptrend' | 'Downtrend' | 'Sideways';
+
+// Trend state of one timeframe, computed from its candles.
+export interface TimeframeTrendState {
+  timeframe: TimeframeKey;
+  bars: number;
+  trend: TrendDirection | null; // null when there are too few candles
+  bias: 'Bullish' | 'Bearish' | 'Neutral'; // close against the fast average
+  close: number | null;
+  fastPeriod: number;
+  slowPeriod: number;
+  fastMa: number | null;
+  slowMa: number | null;
+  slowMaSlope: number | null; // percent change of the slow average over the slope window
+  keyLevel: number | null;
+  keyLevelLabel: string; // e.g. "20-day low"
+}
+
+export interface TimeframeConflict {
+  timeframes: [TimeframeKey, TimeframeKey];
+  message: string;
+}
+
+// Computed locally from each timeframe's data; only the commentary comes from the analysis.
 export interface MultiTimeframeData {
-  daily: { trend: string; keyLevel: string; bias: string; };
-  weekly: { trend: string; keyLevel: string; bias: string; };
-  monthly: { trend: string; keyLevel: string; bias: string; };
+  timeframes: TimeframeTrendState[];
+  alignment: 'bullish' | 'bearish' | 'mixed' | 'conflicting';
+  conflicts: TimeframeConflict[];
+  commentary: string;
+}
+
+export type RelativeStrengthPeriod = '1M' | '3M' | '6M' | '12M';
+
+// Returns in percent over one lookback window; null when the history is too short.
+export interface RelativeStrengthReturn {
+  period: RelativeStrengthPeriod;
+  assetReturn: number | null;
+  benchmarkReturn: number | null;
+  relativeReturn: number | null; // change of the asset/benchmark ratio
+}
+
+export interface BenchmarkComparison {
+  symbol: string;
+  name: string;
+  kind: 'broad' | 'sector';
+  returns: RelativeStrengthReturn[];
 }
 
+// Computed locally from daily closes; only the interpretation comes from the analysis.
 export interface RelativeStrengthData {
-  benchmark: string;
-  assetPerformance3M: string;
-  benchmarkPerformance3M: string;
+  comparisons: BenchmarkComparison[];
   interpretation: string;
 }
 
+export type LevelSource = 'swing' | 'pivot' | 'round' | 'volume';
+
+export interface PriceLevel {
+  price: number;
+  type: 'support' | 'resistance'; // relative to the last close
+  sources: LevelSource[];
+  labels: string[];               // what produced it, e.g. "3 swing highs", "Classic R1"
+  touches: number;                // separate tests of the level within the lookback
+  lastTouchBarsAgo: number | null;
+  score: number;                  // 0-100: touches, recency and confluence
+}
+
+export type PivotMethod = 'classic' | 'fibonacci' | 'camarilla';
+
+export interface PivotLevels {
+  method: PivotMethod;
+  pivot: number;
+  resistance: number[]; // R1, R2, ...
+  support: number[];    // S1, S2, ...
+}
+
+// How one of the analysis' levels compares with the computed ones.
+export interface LevelCheck {
+  label: string;         // e.g. "R1", "Key support"
+  value: string;         // as reported by the analysis
+  match: PriceLevel | null;
+}
+
+// Computed locally from the candles; the analysis' own levels are checked against them.
+export interface SupportResistanceData {
+  levels: PriceLevel[];    // strongest candidates, highest price first
+  pivots: PivotLevels[];
+  pivotPeriod: string;     // the completed period the pivots come from, e.g. "previous week"
+  tolerance: number;       // price distance within which levels are treated as one
+  lookbackBars: number;
+  checks: LevelCheck[];
+}
+
+// One price band of a volume profile.
+export interface VolumeProfileBin {
+  low: number;
+  high: number;
+  volume: number;
+}
+
+// Traded volume by price, from services/volumeProfile.ts.
+export interface VolumeProfile {
+  bins: VolumeProfileBin[];      // lowest price first
+  poc: number;                   // point of control: middle of the bin with the most volume
+  valueAreaHigh: number;
+  valueAreaLow: number;
+  valueAreaShare: number;        // share of the volume inside the value area, e.g. 0.7
+  highVolumeNodes: number[];     // prices, most volume first
+  lowVolumeNodes: number[];      // prices, least volume first
+  lookbackBars: number;
+}
+
 export interface AnalysisReport {
   summaryTable: SummaryTableData;
   marketStructure: MarketStructureData;
@@ -108,8 +332,12 @@ export interface AnalysisReport {
   tradeSetups: TradeSetupData;
   confluenceAnalysis: ConfluenceData;
   riskFactors: RiskFactorData;
-  multiTimeframe: MultiTimeframeData;
-  relativeStrength: RelativeStrengthData;
+  multiTimeframe?: MultiTimeframeData;
+  relativeStrength?: RelativeStrengthData;
+  supportResistance?: SupportResistanceData;
+  candlestickSignals?: CandlestickSignal[];
+  volumeProfile?: VolumeProfile;
+  fibonacci?: FibonacciData;
   narrative: {
     summary: string;
     levels: string;
@@ -134,12 +362,164 @@ export interface VolumeData {
     color: string;
 }
 
+export interface ChartMarker {
+    time: number;
+    position: 'aboveBar' | 'belowBar' | 'inBar';
+    color: string;
+    shape: 'circle' | 'square' | 'arrowUp' | 'arrowDown';
+    text: string;
+}
+
+export interface LineData {
+    time: number;
+    value: number;
+}
+
+// The asset/benchmark close ratio, rebased to 100 at its first point.
+export interface RatioLine {
+    benchmark: string; // display name
+    data: LineData[];
+}
+
 export interface ChartData {
     candlestickData: CandlestickData[];
     volumeData: VolumeData[];
+    markers?: ChartMarker[];
+    ratioLine?: RatioLine;
+    overlays?: ChartOverlay[];
+    fibonacci?: FibonacciData;
+}
+
+// A straight line drawn over the candles, e.g. a detected pattern's neckline.
+export interface ChartOverlay {
+    label: string;
+    color: string;
+    points: LineData[];
+    dashed?: boolean;
+}
+
+// A single OHLCV bar as returned by a market data provider (time in unix seconds).
+export interface OhlcvBar {
+    time: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+}
+
+// Candles supplied by the user from a CSV/JSON export instead of a market data provider.
+export interface UploadedDataset {
+    name: string;
+    bars: OhlcvBar[];
+    warnings: string[];
+}
+
+export interface CorporateAction {
+    type: 'split' | 'dividend';
+    time: number;    // ex-date, unix seconds
+    ratio?: number;  // splits: new shares per old share (2 for a 2:1 split or 1:1 bonus)
+    amount?: number; // dividends: cash amount per share
+}
+
+export type PriceAdjustment = 'adjusted' | 'raw';
+
+// Per-analysis settings chosen in the input form.
+// A user-defined timeframe; provider bars are resampled locally to `interval`.
+export interface CustomTimeframe {
+    interval: string;     // e.g. "4h", "2d", "2w"
+    lookbackDays: number; // 0 requests the full available history
+}
+
+// Indicators the analysis can compute; definitions live in services/indicatorConfig.ts.
+export type IndicatorId = 'sma' | 'ema' | 'rsi' | 'macd' | 'bollinger' | 'atr' | 'adx' | 'stochastic' | 'obv' | 'vwap' | 'supertrend';
+
+// The price an indicator is calculated from: a single OHLC field or an average of them.
+export type PriceSource = 'close' | 'open' | 'hl2' | 'hlc3' | 'ohlc4';
+
+export interface IndicatorSetting {
+    id: IndicatorId;
+    enabled: boolean;
+    params: number[];      // in the indicator's conventional order, e.g. MACD [12, 26, 9]; one entry per average for SMA/EMA
+    source?: PriceSource;  // only for indicators calculated from a single price series
+}
+
+export interface IndicatorPreset {
+    name: string;
+    indicators: IndicatorSetting[];
+}
+
+export interface AnalysisOptions {
+    priceAdjustment: PriceAdjustment;
+    includeExtendedHours: boolean; // keep pre/post-market bars in intraday data
+    customTimeframe: CustomTimeframe | null; // used when the timeframe is 'Custom'
+    indicators: IndicatorSetting[];
+}
+
+export type AssetClass = 'equity' | 'index' | 'commodity' | 'crypto' | 'fx';
+
+export interface SymbolSearchResult {
+    symbol: string;
+    name: string;
+    exchange?: string;
+    assetClass?: AssetClass;
+}
+
+// Trading calendars defined in services/exchangeCalendar.ts.
+export type ExchangeCode = 'NSE' | 'NYSE' | 'NASDAQ' | 'LSE' | 'XETRA' | 'TSE' | 'HKEX' | 'CME' | 'FX' | 'CRYPTO';
+
+// Instrument metadata from the local instrument master. Services consult it
+// rather than inferring markets from symbol suffixes.
+export interface Instrument extends SymbolSearchResult {
+    exchange: string;           // listing venue shown to users, e.g. "NASDAQ"
+    exchangeCode: ExchangeCode; // trading calendar
+    assetClass: AssetClass;
+    currency: string;           // ISO 4217 quote currency
+    timeZone: string;           // IANA timezone of the trading venue
+    tickSize: number;           // minimum price increment
+    lotSize: number;            // minimum tradable quantity
+    sector?: string;
+    benchmark?: string;         // symbol of the index the instrument is measured against
+    sectorIndex?: string;       // symbol of its sector index, e.g. "^CNXIT"
+    isin?: string;
+    aliases?: string[];         // alternative names and tickers, e.g. "NIFTY", "GOLD"
+}
+
+// How prices for an instrument are written, derived from its currency and tick size.
+export interface PriceFormat {
+    currency: string;       // ISO 4217 code, or '' when unknown (e.g. uploaded files)
+    currencySymbol: string; // '' for prices that are not amounts of money (index points, FX rates)
+    decimals: number;       // decimal places implied by the tick size
+    tickSize: number;
+    locale: string;         // digit grouping, e.g. 'en-IN' for lakh/crore
+}
+
+export type DataQualitySeverity = 'info' | 'warning' | 'critical';
+
+export interface DataQualityIssue {
+    type: 'gap' | 'duplicate' | 'zeroVolume' | 'missingVolume' | 'spike' | 'staleData' | 'suspectedSplit';
+    severity: DataQualitySeverity;
+    message: string;
+    time?: number; // unix seconds of the affected bar, when applicable
+}
+
+export interface DataQualityReport {
+    barCount: number;
+    issues: DataQualityIssue[];
+    score: number; // 0-100, 100 = no known defects
+}
+
+// Which source served a dataset used in an analysis.
+export interface DataSourceRecord {
+    dataset: string;  // e.g. "AAPL 1d history"
+    source: string;   // provider id, 'cache' or 'upload'
+    bars: number;
 }
 
 export interface AnalysisResult {
     report: AnalysisReport;
     chartData: ChartData | null;
+    dataQuality: DataQualityReport | null;
+    priceFormat: PriceFormat;
+    dataSources: DataSourceRecord[];
 }
\ No newline at end of file
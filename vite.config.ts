@@ -4,6 +4,8 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With a backend the keys live only in the server's environment and are never bundled.
+    const clientSecret = (value: string | undefined) => (env.BACKEND_URL ? 'undefined' : JSON.stringify(value));
     return {
       server: {
         port: 3000,
@@ -11,8 +13,13 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': clientSecret(env.GEMINI_API_KEY),
+        'process.env.GEMINI_API_KEY': clientSecret(env.GEMINI_API_KEY),
+        'process.env.MARKET_DATA_PROVIDERS': JSON.stringify(env.MARKET_DATA_PROVIDERS),
+        'process.env.MARKET_DATA_FIXTURE_URL': JSON.stringify(env.MARKET_DATA_FIXTURE_URL),
+        'process.env.FINNHUB_API_KEY': clientSecret(env.FINNHUB_API_KEY),
+        'process.env.BACKEND_URL': JSON.stringify(env.BACKEND_URL),
+        'process.env.QUOTE_STREAM_URL': JSON.stringify(env.QUOTE_STREAM_URL)
       },
       resolve: {
         alias: {